@@ -1,8 +1,9 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
-import { PasswordGate } from "@/components/PasswordGate";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { AuthGate } from "@/components/AuthGate";
+import { PAGE_PATHS } from "@/utils/urlState";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
@@ -10,15 +11,18 @@ const App = () => (
   <TooltipProvider>
     <Toaster />
     <Sonner />
-    <PasswordGate>
+    <AuthGate>
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/" element={<Navigate to={PAGE_PATHS.dashboard} replace />} />
+          {Object.values(PAGE_PATHS).map((path) => (
+            <Route key={path} path={path} element={<Index />} />
+          ))}
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
-    </PasswordGate>
+    </AuthGate>
   </TooltipProvider>
 );
 
@@ -0,0 +1,187 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Lock, Eye, EyeOff, Mail, Loader2 } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+type SignInMode = 'password' | 'magicLink';
+
+export function AuthGate({ children }: AuthGateProps) {
+  const { status, sessionExpired, initialize, signInWithPassword, sendMagicLink } = useAuthStore();
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<SignInMode>('password');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [shake, setShake] = useState(false);
+
+  useEffect(() => initialize(), [initialize]);
+
+  if (status === 'signedIn') {
+    return <>{children}</>;
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-violet-400 animate-spin" />
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setSubmitting(true);
+    const message = mode === 'password'
+      ? await signInWithPassword(email.trim(), password)
+      : await sendMagicLink(email.trim());
+    setSubmitting(false);
+
+    if (message) {
+      setError(mode === 'password' ? t.auth.invalidCredentials : message);
+      setShake(true);
+      setTimeout(() => setShake(false), 500);
+    } else if (mode === 'magicLink') {
+      setLinkSent(true);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'password' ? 'magicLink' : 'password');
+    setError(null);
+    setLinkSent(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div
+        className={cn(
+          "w-full max-w-md bg-slate-800 rounded-2xl shadow-2xl p-8 border border-slate-700",
+          shake && "animate-shake"
+        )}
+      >
+        {/* Logo/Branding */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-violet-600/20 mb-4">
+            <Lock className="w-8 h-8 text-violet-400" />
+          </div>
+          <h1 className="text-2xl font-bold text-white mb-1">Fashion Pulse</h1>
+          <p className="text-slate-400 text-sm">{t.sidebar.subtitle}</p>
+        </div>
+
+        {sessionExpired && (
+          <p className="mb-4 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-300">
+            {t.auth.sessionExpired}
+          </p>
+        )}
+
+        {linkSent ? (
+          <div className="space-y-4 text-center">
+            <Mail className="w-8 h-8 text-violet-400 mx-auto" />
+            <p className="text-slate-300 text-sm">{t.auth.magicLinkSent}</p>
+            <button type="button" onClick={switchMode} className="text-sm text-violet-400 hover:text-violet-300">
+              {t.auth.usePassword}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="email" className="text-sm font-medium text-slate-300">
+                {t.auth.email}
+              </label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setError(null);
+                }}
+                placeholder="name@company.com"
+                className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-500"
+                autoFocus
+              />
+            </div>
+
+            {mode === 'password' && (
+              <div className="space-y-2">
+                <label htmlFor="password" className="text-sm font-medium text-slate-300">
+                  {t.auth.password}
+                </label>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      setError(null);
+                    }}
+                    placeholder="••••••••"
+                    className={cn(
+                      "bg-slate-700 border-slate-600 text-white placeholder:text-slate-500 pr-10",
+                      error && "border-red-500 focus-visible:ring-red-500"
+                    )}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-300"
+                  >
+                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-violet-600 hover:bg-violet-700 text-white"
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {mode === 'password' ? t.auth.signIn : t.auth.sendMagicLink}
+            </Button>
+
+            <button
+              type="button"
+              onClick={switchMode}
+              className="w-full text-sm text-violet-400 hover:text-violet-300"
+            >
+              {mode === 'password' ? t.auth.useMagicLink : t.auth.usePassword}
+            </button>
+
+            <p className="text-center text-xs text-slate-500">{t.auth.inviteOnly}</p>
+          </form>
+        )}
+      </div>
+
+      {/* Shake animation styles */}
+      <style>{`
+        @keyframes shake {
+          0%, 100% { transform: translateX(0); }
+          10%, 30%, 50%, 70%, 90% { transform: translateX(-4px); }
+          20%, 40%, 60%, 80% { transform: translateX(4px); }
+        }
+        .animate-shake {
+          animation: shake 0.5s cubic-bezier(0.36, 0.07, 0.19, 0.97) both;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,29 +1,39 @@
-import React, { useState } from 'react';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { DashboardSidebar } from '@/components/dashboard/Sidebar';
 import { DashboardHeader, LabelFilter } from '@/components/dashboard/Header';
 import { CommandCenter } from '@/components/pages/CommandCenter';
 import { RevenueDeepDive } from '@/components/pages/RevenueDeepDive';
 import { MarketingBattle } from '@/components/pages/MarketingBattle';
 import { BrandBenchmarking } from '@/components/pages/BrandBenchmarking';
+import { Returns } from '@/components/pages/Returns';
+import { Alerts } from '@/components/pages/Alerts';
+import { Targets } from '@/components/pages/Targets';
+import { Reports } from '@/components/pages/Reports';
+import { UserManagement } from '@/components/pages/UserManagement';
 import { useFilteredData } from '@/hooks/useFashionData';
 import { useTranslation } from '@/hooks/useTranslation';
-
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      refetchOnWindowFocus: false,
-    },
-  },
-});
-
-type Page = 'dashboard' | 'revenue' | 'marketing' | 'brands';
+import { useUrlFilters } from '@/hooks/useUrlFilters';
+import { useDefaultViewOnLanding } from '@/hooks/useSavedViews';
+import { toast } from '@/hooks/use-toast';
+import { syncWarehouse } from '@/utils/warehouse';
+import { useDataSourceStore } from '@/store/dataSourceStore';
+import { useAuthStore } from '@/store/authStore';
+import { canManage } from '@/utils/userProfiles';
+import { PAGE_PATHS, pageFromPath, type Page } from '@/utils/urlState';
+import { queryClient } from '@/lib/queryClient';
 
 function DashboardContent() {
-  const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const currentPage = pageFromPath(location.pathname) ?? 'dashboard';
   const { refetch } = useFilteredData();
+  const columnMappings = useDataSourceStore((s) => s.columnMappings);
+  const profile = useAuthStore((s) => s.profile);
   const { t } = useTranslation();
+  useUrlFilters();
+  useDefaultViewOnLanding();
   
   const pageConfig: Record<Page, { title: string; subtitle: string }> = {
     dashboard: {
@@ -42,19 +52,68 @@ function DashboardContent() {
       title: t.pages.brands?.title || 'Brand Benchmarking',
       subtitle: t.pages.brands?.subtitle || 'Compare all brands head-to-head',
     },
+    returns: {
+      title: t.pages.returns.title,
+      subtitle: t.pages.returns.subtitle,
+    },
+    alerts: {
+      title: t.pages.alerts.title,
+      subtitle: t.pages.alerts.subtitle,
+    },
+    targets: {
+      title: t.pages.targets.title,
+      subtitle: t.pages.targets.subtitle,
+    },
+    reports: {
+      title: t.pages.reports.title,
+      subtitle: t.pages.reports.subtitle,
+    },
+    users: {
+      title: t.pages.users.title,
+      subtitle: t.pages.users.subtitle,
+    },
   };
   
   const config = pageConfig[currentPage];
   
+  // Keep the filters when switching pages
+  const handleNavigate = (page: Page) => {
+    navigate({ pathname: PAGE_PATHS[page], search: location.search });
+  };
+  
+  // Pull the latest sheet edits into the warehouse, then reload.
+  // Brand viewers can't sync and just reload the warehouse.
+  const handleRefresh = async () => {
+    if (!canManage(profile)) {
+      refetch();
+      return;
+    }
+    try {
+      const result = await syncWarehouse({
+        dailyMapping: columnMappings['Daily_Input']?.mapping,
+        targetsMapping: columnMappings['Targets']?.mapping,
+      });
+      console.log('Warehouse sync:', result);
+    } catch (e) {
+      console.warn('Warehouse sync failed:', e);
+      toast({
+        title: 'Sync Warning',
+        description: 'Could not sync the sheet into the warehouse. Showing the last synced data.',
+        variant: 'destructive',
+      });
+    }
+    refetch();
+  };
+  
   return (
     <div className="flex min-h-screen bg-background">
-      <DashboardSidebar currentPage={currentPage} onNavigate={(p) => setCurrentPage(p as Page)} />
+      <DashboardSidebar currentPage={currentPage} onNavigate={(p) => handleNavigate(p as Page)} />
       
       <main className="flex-1 flex flex-col">
         <DashboardHeader 
           title={config.title} 
           subtitle={config.subtitle}
-          onRefresh={() => refetch()}
+          onRefresh={handleRefresh}
         />
         
         {/* Label Filter */}
@@ -68,6 +127,23 @@ function DashboardContent() {
           {currentPage === 'revenue' && <RevenueDeepDive />}
           {currentPage === 'marketing' && <MarketingBattle />}
           {currentPage === 'brands' && <BrandBenchmarking />}
+          {currentPage === 'returns' && <Returns />}
+          {currentPage === 'alerts' && <Alerts />}
+          {currentPage === 'targets' && (
+            canManage(profile)
+              ? <Targets />
+              : <Navigate to={{ pathname: PAGE_PATHS.dashboard, search: location.search }} replace />
+          )}
+          {currentPage === 'reports' && (
+            canManage(profile)
+              ? <Reports />
+              : <Navigate to={{ pathname: PAGE_PATHS.dashboard, search: location.search }} replace />
+          )}
+          {currentPage === 'users' && (
+            profile?.role === 'admin'
+              ? <UserManagement />
+              : <Navigate to={{ pathname: PAGE_PATHS.dashboard, search: location.search }} replace />
+          )}
         </div>
       </main>
     </div>
@@ -10,12 +10,14 @@ import {
   LabelList,
 } from 'recharts';
 import { cn } from '@/lib/utils';
-import { formatCurrency, formatROAS, formatPercentage } from '@/utils/analytics';
-import type { BrandBenchmarkPoint } from '@/types';
+import { formatROAS, formatPercentage } from '@/utils/analytics';
+import type { BenchmarkKPI, BrandBenchmarkPoint } from '@/types';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
 
 interface BrandPodiumProps {
   data: BrandBenchmarkPoint[];
+  kpi?: BenchmarkKPI; // Ranking of the first column
   height?: number;
 }
 
@@ -114,11 +116,12 @@ function ChartColumn({
   );
 }
 
-export function BrandPodium({ data, height = 400 }: BrandPodiumProps) {
+export function BrandPodium({ data, kpi = 'revenue', height = 400 }: BrandPodiumProps) {
   const { t } = useTranslation();
+  const { formatCurrency } = useCurrencyFormat();
 
   // Sort data 3 distinct ways for the 3 charts
-  const byRevenue = [...data].sort((a, b) => b.revenue - a.revenue);
+  const byKpi = [...data].sort((a, b) => b[kpi] - a[kpi]);
   const byRoas = [...data].sort((a, b) => b.roas - a.roas);
   const byGrowth = [...data].sort(
     (a, b) => b.growthPercentage - a.growthPercentage
@@ -138,11 +141,11 @@ export function BrandPodium({ data, height = 400 }: BrandPodiumProps) {
       style={{ minHeight: height }}
     >
       <ChartColumn
-        title={t.brandBenchmarking?.revenue || 'Revenue'}
-        dataset={byRevenue}
-        dataKey="revenue"
-        formatter={(v) => formatCurrency(v, true)}
-        color="hsl(var(--primary))"
+        title={t.brandBenchmarking[kpi]}
+        dataset={byKpi}
+        dataKey={kpi}
+        formatter={(v) => (kpi === 'poas' ? formatROAS(v) : formatCurrency(v, true))}
+        color={kpi === 'revenue' ? 'hsl(var(--primary))' : 'hsl(var(--profit))'}
       />
       <ChartColumn
         title={t.brandBenchmarking?.roas || 'ROAS'}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { formatPercentage } from '@/utils/analytics';
+import type { FunnelStepComparison } from '@/utils/funnel';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLanguageStore } from '@/store/languageStore';
+
+interface FunnelComparisonChartProps {
+  data: FunnelStepComparison[];
+  currentName: string;
+  comparisonName: string;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '' : `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Funnel steps as bars for the current and comparison period, scaled to the
+ * largest step, with the change per step and the step-to-step rates
+ */
+export function FunnelComparisonChart({ data, currentName, comparisonName }: FunnelComparisonChartProps) {
+  const { t } = useTranslation();
+  const { language } = useLanguageStore();
+  const locale = language === 'nl' ? 'nl-NL' : 'en-US';
+
+  const max = Math.max(1, ...data.flatMap((d) => [d.current, d.previous]));
+
+  return (
+    <div className="space-y-4 mt-4">
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-2 bg-revenue rounded-sm" />
+          <span>{currentName}</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-2 bg-muted-foreground/40 rounded-sm" />
+          <span>{comparisonName}</span>
+        </div>
+      </div>
+
+      {data.map((step, index) => (
+        <div key={step.step} className="grid grid-cols-[120px_1fr_88px] items-center gap-3">
+          <div>
+            <p className="text-sm font-medium">{t.revenueDeepDive.funnelSteps[step.step]}</p>
+            {step.currentRate !== null && (
+              <p className="text-xs text-muted-foreground" title={t.revenueDeepDive.ofPreviousStep}>
+                {formatRate(step.currentRate)}
+                <span className="opacity-70"> / {formatRate(step.previousRate)}</span>
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            {[
+              { value: step.current, className: 'bg-revenue' },
+              { value: step.previous, className: 'bg-muted-foreground/40' },
+            ].map((bar, barIndex) => (
+              <div key={barIndex} className="flex items-center gap-2">
+                <div className="flex-1 h-3 rounded-sm bg-secondary/50 overflow-hidden">
+                  <motion.div
+                    className={cn('h-full rounded-sm', bar.className)}
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(bar.value / max) * 100}%` }}
+                    transition={{ duration: 0.5, delay: index * 0.05 }}
+                  />
+                </div>
+                <span className="w-16 text-right text-xs tabular-nums text-muted-foreground">
+                  {Math.round(bar.value).toLocaleString(locale)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <span
+            className={cn(
+              'text-right text-sm font-medium tabular-nums',
+              step.change === null ? 'text-muted-foreground' : step.change >= 0 ? 'text-profit' : 'text-spend'
+            )}
+          >
+            {step.change === null ? '–' : formatPercentage(step.change)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
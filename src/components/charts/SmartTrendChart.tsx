@@ -12,14 +12,17 @@ import {
   ComposedChart,
   Area,
   ReferenceLine,
+  ReferenceDot,
 } from 'recharts';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { formatCurrency, formatROAS } from '@/utils/analytics';
+import { formatCurrency, formatDate, formatPercentage, formatROAS, getCurrencySymbol } from '@/utils/analytics';
 import { getBrandAbbreviation } from '@/utils/dataHarmonizer';
+import { getPlatformMeta } from '@/utils/platforms';
 import { useTranslation } from '@/hooks/useTranslation';
-import type { ChartDataPoint, ChartKPI, EventAnnotation, EventType } from '@/types';
-import { format } from 'date-fns';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
+import type { Anomaly, ChartDataPoint, ChartKPI, Currency, EventAnnotation, EventType, ForecastPoint, PlatformComparison, WeatherOverlay } from '@/types';
+import { addDays, format, isSameMonth } from 'date-fns';
 
 // ============================================
 // KPI CONFIGURATION
@@ -33,13 +36,13 @@ interface KPIConfig {
   color: string;
 }
 
-function getKPIConfig(kpi: ChartKPI): KPIConfig {
+function getKPIConfig(kpi: ChartKPI, currency: Currency): KPIConfig {
   switch (kpi) {
     case 'aov':
       return {
         dataKey: 'aov',
         yoyDataKey: 'aovYoY',
-        formatter: (v) => formatCurrency(v),
+        formatter: (v) => formatCurrency(v, false, currency),
         gradientId: 'aovGradient',
         color: 'hsl(var(--revenue))',
       };
@@ -47,7 +50,7 @@ function getKPIConfig(kpi: ChartKPI): KPIConfig {
       return {
         dataKey: 'spend',
         yoyDataKey: 'spendYoY',
-        formatter: (v) => formatCurrency(v),
+        formatter: (v) => formatCurrency(v, false, currency),
         gradientId: 'spendGradient',
         color: 'hsl(var(--spend))',
       };
@@ -59,17 +62,79 @@ function getKPIConfig(kpi: ChartKPI): KPIConfig {
         gradientId: 'roasGradient',
         color: 'hsl(var(--profit))',
       };
+    case 'netRevenue':
+      return {
+        dataKey: 'netRevenue',
+        yoyDataKey: 'netRevenueYoY',
+        formatter: (v) => formatCurrency(v, false, currency),
+        gradientId: 'netRevenueGradient',
+        color: 'hsl(var(--revenue))',
+      };
+    case 'grossMargin':
+      return {
+        dataKey: 'grossMargin',
+        yoyDataKey: 'grossMarginYoY',
+        formatter: (v) => formatCurrency(v, false, currency),
+        gradientId: 'grossMarginGradient',
+        color: 'hsl(var(--profit))',
+      };
+    case 'contributionMarginAfterCogs':
+      return {
+        dataKey: 'contributionMarginAfterCogs',
+        yoyDataKey: 'contributionMarginAfterCogsYoY',
+        formatter: (v) => formatCurrency(v, false, currency),
+        gradientId: 'contributionMarginGradient',
+        color: 'hsl(var(--profit))',
+      };
+    case 'poas':
+      return {
+        dataKey: 'poas',
+        yoyDataKey: 'poasYoY',
+        formatter: (v) => formatROAS(v),
+        gradientId: 'poasGradient',
+        color: 'hsl(var(--profit))',
+      };
+    case 'returnRate':
+      return {
+        dataKey: 'returnRate',
+        yoyDataKey: 'returnRateYoY',
+        formatter: (v) => `${(v * 100).toFixed(1)}%`,
+        gradientId: 'returnRateGradient',
+        color: 'hsl(var(--spend))',
+      };
+    case 'conversionRate':
+      return {
+        dataKey: 'conversionRate',
+        yoyDataKey: 'conversionRateYoY',
+        formatter: (v) => `${(v * 100).toFixed(2)}%`,
+        gradientId: 'conversionRateGradient',
+        color: 'hsl(var(--profit))',
+      };
+    case 'revenuePerSession':
+      return {
+        dataKey: 'revenuePerSession',
+        yoyDataKey: 'revenuePerSessionYoY',
+        formatter: (v) => `${getCurrencySymbol(currency)}${v.toFixed(2)}`,
+        gradientId: 'revenuePerSessionGradient',
+        color: 'hsl(var(--revenue))',
+      };
     default:
       return {
         dataKey: 'revenue',
         yoyDataKey: 'revenueYoY',
-        formatter: (v) => formatCurrency(v),
+        formatter: (v) => formatCurrency(v, false, currency),
         gradientId: 'revenueGradient',
         color: 'hsl(var(--revenue))',
       };
   }
 }
 
+// Weather overlay on the right axis
+const WEATHER_CONFIG: Record<Exclude<WeatherOverlay, 'none'>, { formatter: (value: number) => string; color: string }> = {
+  temperature: { formatter: (v) => `${v.toFixed(0)}°C`, color: '#f59e0b' },
+  precipitation: { formatter: (v) => `${v.toFixed(0)} mm`, color: '#0ea5e9' },
+};
+
 // ============================================
 // CUSTOM TOOLTIP
 // ============================================
@@ -79,18 +144,23 @@ interface SmartTooltipProps {
   payload?: any[];
   label?: string;
   kpi?: ChartKPI;
+  anomaliesByDate?: Map<string, Anomaly[]>;
 }
 
-function SmartTooltip({ active, payload, label, kpi = 'revenue' }: SmartTooltipProps) {
+function SmartTooltip({ active, payload, label, kpi = 'revenue', anomaliesByDate }: SmartTooltipProps) {
   const { t } = useTranslation();
-  const config = getKPIConfig(kpi);
+  const { currency } = useCurrencyFormat();
+  const config = getKPIConfig(kpi, currency);
   
   if (!active || !payload?.length) return null;
 
   const data = payload[0]?.payload;
   
-  // Filter out entries with empty names (Area component)
-  const filteredPayload = payload.filter((entry: any) => entry.name && entry.name.trim() !== '');
+  // Filter out entries with empty names (Area component) and the weather
+  // overlay, which shows as its own row
+  const filteredPayload = payload.filter(
+    (entry: any) => entry.name && entry.name.trim() !== '' && !(entry.dataKey in WEATHER_CONFIG)
+  );
   
   return (
     <motion.div
@@ -111,6 +181,20 @@ function SmartTooltip({ active, payload, label, kpi = 'revenue' }: SmartTooltipP
             </span>
           </div>
         ))}
+        {Array.isArray(data?.forecastRange) && (
+          <div className="flex justify-between gap-4 text-muted-foreground">
+            <span className="text-sm">{t.charts.forecastRange}</span>
+            <span className="text-sm tabular-nums">
+              {config.formatter(data.forecastRange[0])} – {config.formatter(data.forecastRange[1])}
+            </span>
+          </div>
+        )}
+        {data?.weather && (
+          <div className="flex justify-between gap-4 text-muted-foreground">
+            <span className="text-sm">{t.charts.weather}</span>
+            <span className="text-sm tabular-nums">{data.weather}</span>
+          </div>
+        )}
         {kpi === 'revenue' && data?.variance !== undefined && (
           <div className={cn(
             'flex justify-between gap-4 pt-2 border-t border-border',
@@ -118,10 +202,23 @@ function SmartTooltip({ active, payload, label, kpi = 'revenue' }: SmartTooltipP
           )}>
             <span className="text-sm">{t.charts.yoyVariance}</span>
             <span className="text-sm font-semibold tabular-nums">
-              {data.variance >= 0 ? '+' : ''}{formatCurrency(data.variance)}
+              {data.variance >= 0 ? '+' : ''}{formatCurrency(data.variance, false, currency)}
             </span>
           </div>
         )}
+        {anomaliesByDate?.get(data?.date)?.map((anomaly) => (
+          <div
+            key={`${anomaly.label}-${anomaly.metric}`}
+            className="flex justify-between gap-4 pt-2 border-t border-border text-destructive"
+          >
+            <span className="text-sm">
+              {t.anomalies.anomaly}: {getBrandAbbreviation(anomaly.label)} {t.anomalies.metrics[anomaly.metric]}
+            </span>
+            <span className="text-sm font-semibold tabular-nums">
+              {anomaly.expected !== 0 && formatPercentage(((anomaly.value - anomaly.expected) / Math.abs(anomaly.expected)) * 100, 0)}
+            </span>
+          </div>
+        ))}
       </div>
     </motion.div>
   );
@@ -205,6 +302,13 @@ function CustomEventLabel({ viewBox, event, color, chartHeight, yOffset, onMouse
   );
 }
 
+// Chart rows: actual data plus forecast rows, which carry a [lower, upper] range
+interface TrendPoint {
+  date: string;
+  displayDate: string;
+  [key: string]: string | number | [number, number] | undefined;
+}
+
 interface SmartTrendChartProps {
   data: ChartDataPoint[];
   events?: EventAnnotation[];
@@ -214,20 +318,27 @@ interface SmartTrendChartProps {
   currentYear?: number;
   comparisonYear?: number;
   selectedKPI?: ChartKPI;
+  anomalies?: Anomaly[];
+  forecast?: ForecastPoint[];
+  weatherOverlay?: WeatherOverlay;
 }
 
 export function SmartTrendChart({ 
   data, 
   events = [],
+  anomalies = [],
+  forecast = [],
   showYoY = false, 
   height = 300,
   className,
   currentYear,
   comparisonYear,
   selectedKPI = 'revenue',
+  weatherOverlay = 'none',
 }: SmartTrendChartProps) {
   const { t } = useTranslation();
-  const config = getKPIConfig(selectedKPI);
+  const { currency } = useCurrencyFormat();
+  const config = getKPIConfig(selectedKPI, currency);
   
   // Event hover state
   const [hoveredEvent, setHoveredEvent] = useState<{
@@ -272,12 +383,51 @@ export function SmartTrendChart({
     return result;
   }, [events]);
   
+  // Anomalies grouped per day; one marker per flagged day on the current line
+  const anomaliesByDate = useMemo(() => {
+    const map = new Map<string, Anomaly[]>();
+    for (const anomaly of anomalies) {
+      map.set(anomaly.dateString, [...(map.get(anomaly.dateString) || []), anomaly]);
+    }
+    return map;
+  }, [anomalies]);
+  
+  // Forecast continues the revenue line when the chart ends on the last actual day,
+  // up to the end of that month
+  const chartData = useMemo((): TrendPoint[] => {
+    if (selectedKPI !== 'revenue' || forecast.length === 0 || data.length === 0) return data;
+    
+    const last = data[data.length - 1];
+    const first = forecast[0];
+    if (format(addDays(first.date, -1), 'yyyy-MM-dd') !== last.date) return data;
+    
+    return [
+      ...data.slice(0, -1),
+      { ...last, forecast: last.revenue },
+      ...forecast
+        .filter((p) => isSameMonth(p.date, first.date))
+        .map((p) => ({
+          date: p.dateString,
+          displayDate: formatDate(p.date, 'short'),
+          forecast: p.expected,
+          forecastRange: [p.lower, p.upper] as [number, number],
+        })),
+    ];
+  }, [data, forecast, selectedKPI]);
+  
   // Get translated KPI label
   const kpiLabel = useMemo(() => {
     switch (selectedKPI) {
       case 'aov': return t.charts.aov;
       case 'spend': return t.charts.spend;
       case 'roas': return t.charts.roas;
+      case 'netRevenue': return t.charts.netRevenue;
+      case 'grossMargin': return t.charts.grossMargin;
+      case 'contributionMarginAfterCogs': return t.charts.contributionMarginAfterCogs;
+      case 'poas': return t.charts.poas;
+      case 'returnRate': return t.charts.returnRate;
+      case 'conversionRate': return t.charts.conversionRate;
+      case 'revenuePerSession': return t.charts.revenuePerSession;
       default: return t.charts.revenue;
     }
   }, [selectedKPI, t]);
@@ -286,6 +436,12 @@ export function SmartTrendChart({
   const currentLineName = currentYear ? `${kpiLabel} ${currentYear}` : kpiLabel;
   const comparisonLineName = comparisonYear ? `${kpiLabel} ${comparisonYear}` : `${kpiLabel} (prev)`;
   
+  // Only overlay weather when some day in view has it
+  const weatherConfig =
+    weatherOverlay !== 'none' && data.some((point) => point[weatherOverlay] !== undefined)
+      ? WEATHER_CONFIG[weatherOverlay]
+      : null;
+  
   return (
     <div className={cn('w-full relative', className)}>
       {/* Event hover tooltip */}
@@ -317,7 +473,7 @@ export function SmartTrendChart({
       )}
       
       <ResponsiveContainer width="100%" height={height}>
-        <ComposedChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
           <defs>
             <linearGradient id={config.gradientId} x1="0" y1="0" x2="0" y2="1">
               <stop offset="0%" stopColor={config.color} stopOpacity={0.3} />
@@ -343,7 +499,42 @@ export function SmartTrendChart({
             tickFormatter={config.formatter}
             dx={-10}
           />
-          <Tooltip content={<SmartTooltip kpi={selectedKPI} />} />
+          {weatherConfig && (
+            <YAxis
+              yAxisId="weather"
+              orientation="right"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              tickFormatter={weatherConfig.formatter}
+              dx={10}
+            />
+          )}
+          <Tooltip content={<SmartTooltip kpi={selectedKPI} anomaliesByDate={anomaliesByDate} />} />
+          
+          {/* Weather overlay, behind the KPI */}
+          {weatherConfig && weatherOverlay === 'precipitation' && (
+            <Bar
+              yAxisId="weather"
+              dataKey="precipitation"
+              name={t.charts.precipitation}
+              fill={weatherConfig.color}
+              fillOpacity={0.25}
+              radius={[2, 2, 0, 0]}
+            />
+          )}
+          {weatherConfig && weatherOverlay === 'temperature' && (
+            <Line
+              yAxisId="weather"
+              type="monotone"
+              dataKey="temperature"
+              name={t.charts.temperature}
+              stroke={weatherConfig.color}
+              strokeWidth={1.5}
+              strokeOpacity={0.7}
+              dot={false}
+            />
+          )}
           
           {/* Area under the line - hidden from tooltip with empty name */}
           <Area
@@ -366,6 +557,31 @@ export function SmartTrendChart({
             activeDot={{ r: 6, strokeWidth: 2, stroke: 'hsl(var(--card))' }}
           />
           
+          {/* Forecast: shaded interval and dashed expected line */}
+          {chartData !== data && (
+            <>
+              <Area
+                type="monotone"
+                dataKey="forecastRange"
+                name=""
+                fill={config.color}
+                fillOpacity={0.12}
+                stroke="none"
+                legendType="none"
+                isAnimationActive={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="forecast"
+                name={t.charts.forecast}
+                stroke={config.color}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                dot={false}
+              />
+            </>
+          )}
+          
           {/* YoY comparison line */}
           {showYoY && (
             <Line
@@ -383,7 +599,7 @@ export function SmartTrendChart({
           {eventsWithOffsets.map((event, index) => {
             const eventDateStr = format(event.date, 'MMM d');
             // Only render if date exists in chart data
-            const matchingData = data.find(d => d.displayDate === eventDateStr);
+            const matchingData = chartData.find(d => d.displayDate === eventDateStr);
             if (!matchingData) return null;
             
             const eventColor = getEventColor(event.type);
@@ -409,6 +625,21 @@ export function SmartTrendChart({
               />
             );
           })}
+          
+          {/* Anomaly markers */}
+          {data
+            .filter((point) => anomaliesByDate.has(point.date) && typeof point[config.dataKey] === 'number')
+            .map((point) => (
+              <ReferenceDot
+                key={`anomaly-${point.date}`}
+                x={point.displayDate}
+                y={point[config.dataKey] as number}
+                r={5}
+                fill="hsl(var(--destructive))"
+                stroke="hsl(var(--card))"
+                strokeWidth={2}
+              />
+            ))}
         </ComposedChart>
       </ResponsiveContainer>
     </div>
@@ -427,6 +658,7 @@ interface VarianceChartProps {
 
 export function VarianceChart({ data, height = 100, className }: VarianceChartProps) {
   const { t } = useTranslation();
+  const { currency } = useCurrencyFormat();
   
   return (
     <div className={cn('w-full', className)}>
@@ -443,7 +675,7 @@ export function VarianceChart({ data, height = 100, className }: VarianceChartPr
             axisLine={false}
             tickLine={false}
             tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
-            tickFormatter={(value) => formatCurrency(value, true)}
+            tickFormatter={(value) => formatCurrency(value, true, currency)}
           />
           <ReferenceLine y={0} stroke="hsl(var(--border))" />
           <Tooltip content={<SmartTooltip />} />
@@ -476,6 +708,8 @@ interface ChannelSplitChartProps {
 }
 
 export function ChannelSplitChart({ data, height = 300, className }: ChannelSplitChartProps) {
+  const { currency } = useCurrencyFormat();
+
   return (
     <div className={cn('w-full', className)}>
       <ResponsiveContainer width="100%" height={height}>
@@ -490,7 +724,7 @@ export function ChannelSplitChart({ data, height = 300, className }: ChannelSpli
             axisLine={false}
             tickLine={false}
             tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
-            tickFormatter={(value) => formatCurrency(value, true)}
+            tickFormatter={(value) => formatCurrency(value, true, currency)}
           />
           <YAxis 
             type="category"
@@ -525,19 +759,20 @@ export function ChannelSplitChart({ data, height = 300, className }: ChannelSpli
 // ============================================
 
 interface PlatformComparisonChartProps {
-  facebookData: { roas: number; cpa: number; spend: number };
-  googleData: { roas: number; cpa: number; spend: number };
+  platforms: PlatformComparison[];
   className?: string;
 }
 
+/**
+ * ROAS and CPA side by side, one bar per platform
+ */
 export function PlatformComparisonChart({ 
-  facebookData, 
-  googleData,
+  platforms,
   className 
 }: PlatformComparisonChartProps) {
   const data = [
-    { metric: 'ROAS', Facebook: facebookData.roas, Google: googleData.roas },
-    { metric: 'CPA', Facebook: facebookData.cpa, Google: googleData.cpa },
+    { metric: 'ROAS', ...Object.fromEntries(platforms.map((p) => [p.platform, p.roas])) },
+    { metric: 'CPA', ...Object.fromEntries(platforms.map((p) => [p.platform, p.cpa])) },
   ];
 
   return (
@@ -557,16 +792,18 @@ export function PlatformComparisonChart({
             tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
           />
           <Tooltip content={<SmartTooltip />} />
-          <Bar 
-            dataKey="Facebook" 
-            fill="hsl(var(--facebook))"
-            radius={[4, 4, 0, 0]}
-          />
-          <Bar 
-            dataKey="Google" 
-            fill="hsl(var(--google))"
-            radius={[4, 4, 0, 0]}
-          />
+          {platforms.map((p) => {
+            const meta = getPlatformMeta(p.platform);
+            return (
+              <Bar 
+                key={p.platform}
+                dataKey={p.platform} 
+                name={meta.shortName}
+                fill={meta.color}
+                radius={[4, 4, 0, 0]}
+              />
+            );
+          })}
         </BarChart>
       </ResponsiveContainer>
     </div>
@@ -8,6 +8,10 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { useFilteredData } from '@/hooks/useFashionData';
 import { useDashboardStore } from '@/store/dashboardStore';
 import { useTranslation } from '@/hooks/useTranslation';
+import { supabase } from '@/integrations/supabase/client';
+import { isFullSelection } from '@/utils/channelFilter';
+import { calculatePlatformComparison, getCurrencySymbol } from '@/utils/analytics';
+import { getPlatformMeta } from '@/utils/platforms';
 import { format } from 'date-fns';
 
 interface Message {
@@ -25,7 +29,7 @@ export function AIChatWidget() {
   const [isLoading, setIsLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   
-  const { metrics, target } = useFilteredData();
+  const { metrics, target, currency } = useFilteredData();
   const { filters } = useDashboardStore();
 
   // Build data context for AI
@@ -39,35 +43,38 @@ export function AIChatWidget() {
         orders: acc.orders + m.orders,
         webRevenue: acc.webRevenue + m.revenueWeb,
         appRevenue: acc.appRevenue + m.revenueApp,
-        fbSpend: acc.fbSpend + m.spendFB,
-        googleSpend: acc.googleSpend + m.spendGoogle,
-        fbRevenue: acc.fbRevenue + (m.spendFB * m.roasFB),
-        googleRevenue: acc.googleRevenue + (m.spendGoogle * m.roasGoogle),
       }),
-      { revenue: 0, spend: 0, orders: 0, webRevenue: 0, appRevenue: 0, fbSpend: 0, googleSpend: 0, fbRevenue: 0, googleRevenue: 0 }
+      { revenue: 0, spend: 0, orders: 0, webRevenue: 0, appRevenue: 0 }
     );
     
     const roas = totals.spend > 0 ? totals.revenue / totals.spend : 0;
     const aov = totals.orders > 0 ? totals.revenue / totals.orders : 0;
-    const fbRoas = totals.fbSpend > 0 ? totals.fbRevenue / totals.fbSpend : 0;
-    const googleRoas = totals.googleSpend > 0 ? totals.googleRevenue / totals.googleSpend : 0;
+    const symbol = getCurrencySymbol(currency);
+    const platformLines = calculatePlatformComparison(metrics)
+      .map((p) => `- ${getPlatformMeta(p.platform).name}: Spend ${symbol}${p.spend.toLocaleString('nl-NL', { maximumFractionDigits: 0 })}, ROAS ${p.roas.toFixed(2)}x`)
+      .join('\n');
     
     const startDate = format(filters.dateRange.start, 'MMM d, yyyy');
     const endDate = format(filters.dateRange.end, 'MMM d, yyyy');
     const selectedLabels = filters.labels.length > 0 ? filters.labels.join(', ') : 'All brands';
+    const segment = isFullSelection(filters)
+      ? 'All channels and platforms'
+      : `Channels: ${filters.channels.join(', ')}; platforms: ${filters.platforms.length > 0 ? filters.platforms.join(', ') : 'all'} (revenue, orders and spend only include these)`;
     
     // Build daily data table for granular queries
     const dailyData = [...metrics]
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
       .map(m => {
         const dateStr = format(new Date(m.date), 'd-M-yyyy');
-        return `${dateStr} | ${m.label} | Rev: €${m.totalRevenue.toFixed(0)} | App: €${m.revenueApp.toFixed(0)} | Spend: €${m.totalSpend.toFixed(0)} | Orders: ${m.orders}`;
+        return `${dateStr} | ${m.label} | Rev: ${symbol}${m.totalRevenue.toFixed(0)} | App: ${symbol}${m.revenueApp.toFixed(0)} | Spend: ${symbol}${m.totalSpend.toFixed(0)} | Orders: ${Math.round(m.orders)}`;
       })
       .join('\n');
     
     return `
 Period: ${startDate} to ${endDate}
 Selected Brands: ${selectedLabels}
+Selected Segment: ${segment}
+Currency: ${currency} (all amounts converted to it)
 Days in period: ${metrics.length}
 
 Brand Aliases (user may use these shortcuts):
@@ -77,26 +84,25 @@ Brand Aliases (user may use these shortcuts):
 - JURK = jurkjes.com
 
 Key Metrics (Period Totals):
-- Total Revenue: €${totals.revenue.toLocaleString('nl-NL', { maximumFractionDigits: 0 })}
-- Total Spend: €${totals.spend.toLocaleString('nl-NL', { maximumFractionDigits: 0 })}
-- Orders: ${totals.orders.toLocaleString()}
+- Total Revenue: ${symbol}${totals.revenue.toLocaleString('nl-NL', { maximumFractionDigits: 0 })}
+- Total Spend: ${symbol}${totals.spend.toLocaleString('nl-NL', { maximumFractionDigits: 0 })}
+- Orders: ${Math.round(totals.orders).toLocaleString()}
 - ROAS: ${roas.toFixed(2)}x (Target: ${target?.merTarget ? (1 / target.merTarget).toFixed(1) : 5}x)
-- AOV: €${aov.toFixed(2)}
+- AOV: ${symbol}${aov.toFixed(2)}
 
 Channel Split:
-- Web Revenue: €${totals.webRevenue.toLocaleString('nl-NL', { maximumFractionDigits: 0 })} (${totals.revenue > 0 ? ((totals.webRevenue / totals.revenue) * 100).toFixed(1) : 0}%)
-- App Revenue: €${totals.appRevenue.toLocaleString('nl-NL', { maximumFractionDigits: 0 })} (${totals.revenue > 0 ? ((totals.appRevenue / totals.revenue) * 100).toFixed(1) : 0}%)
+- Web Revenue: ${symbol}${totals.webRevenue.toLocaleString('nl-NL', { maximumFractionDigits: 0 })} (${totals.revenue > 0 ? ((totals.webRevenue / totals.revenue) * 100).toFixed(1) : 0}%)
+- App Revenue: ${symbol}${totals.appRevenue.toLocaleString('nl-NL', { maximumFractionDigits: 0 })} (${totals.revenue > 0 ? ((totals.appRevenue / totals.revenue) * 100).toFixed(1) : 0}%)
 
 Marketing Platforms:
-- Facebook: Spend €${totals.fbSpend.toLocaleString('nl-NL', { maximumFractionDigits: 0 })}, ROAS ${fbRoas.toFixed(2)}x
-- Google: Spend €${totals.googleSpend.toLocaleString('nl-NL', { maximumFractionDigits: 0 })}, ROAS ${googleRoas.toFixed(2)}x
+${platformLines || '- No ad spend'}
 
-Monthly Target: €${target?.revenueTarget?.toLocaleString('nl-NL', { maximumFractionDigits: 0 }) || 'Not set'}
+Monthly Target: ${symbol}${target?.revenueTarget?.toLocaleString('nl-NL', { maximumFractionDigits: 0 }) || 'Not set'}
 
 Daily Breakdown (Date | Brand | Revenue | App Rev | Spend | Orders):
 ${dailyData}
     `.trim();
-  }, [metrics, filters, target]);
+  }, [metrics, filters, target, currency]);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -114,13 +120,15 @@ ${dailyData}
     setIsLoading(true);
 
     try {
+      const { data: { session } } = await supabase.auth.getSession();
       const resp = await fetch(CHAT_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+          Authorization: `Bearer ${session?.access_token}`,
         },
-        body: JSON.stringify({ question: userMessage, context: dataContext }),
+        body: JSON.stringify({ question: userMessage, context: dataContext, currency }),
       });
 
       if (!resp.ok || !resp.body) {
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { saveAlertRule } from '@/utils/alerts';
+import { BASE_CURRENCY } from '@/utils/currency';
+import { ALERT_METRICS, type AlertMetric, type AlertOperator, type AlertRule } from '@/types';
+
+const ALL_LABELS = '__all__';
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: AlertRule; // Edit this rule; create a new one when omitted
+  labels: string[];
+  allowAllLabels: boolean; // Rules over all labels need access to every label
+  onSaved: () => void;
+}
+
+// MER is stored as a fraction but entered as a percentage
+function toInputThreshold(metric: AlertMetric, threshold: number): string {
+  return String(metric === 'mer' ? Math.round(threshold * 1000) / 10 : threshold);
+}
+
+function fromInputThreshold(metric: AlertMetric, value: string): number {
+  const parsed = Number(value.replace(',', '.'));
+  return metric === 'mer' ? parsed / 100 : parsed;
+}
+
+/**
+ * Create or edit an alert rule
+ */
+export function AlertRuleDialog({ open, onOpenChange, rule, labels, allowAllLabels, onSaved }: AlertRuleDialogProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<AlertMetric>('mer');
+  const [label, setLabel] = useState(ALL_LABELS);
+  const [operator, setOperator] = useState<AlertOperator>('above');
+  const [threshold, setThreshold] = useState('');
+  const [consecutiveDays, setConsecutiveDays] = useState('1');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [emailTo, setEmailTo] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name ?? '');
+    setMetric(rule?.metric ?? 'mer');
+    setLabel(rule?.label ?? (allowAllLabels ? ALL_LABELS : labels[0] ?? ALL_LABELS));
+    setOperator(rule?.operator ?? 'above');
+    setThreshold(rule ? toInputThreshold(rule.metric, rule.threshold) : '');
+    setConsecutiveDays(String(rule?.consecutiveDays ?? 1));
+    setWebhookUrl(rule?.webhookUrl ?? '');
+    setEmailTo(rule?.emailTo ?? '');
+    setEnabled(rule?.enabled ?? true);
+  }, [open, rule, labels, allowAllLabels]);
+
+  const handleSave = async () => {
+    const parsedThreshold = fromInputThreshold(metric, threshold);
+    if (!name.trim()) {
+      toast({ title: t.alerts.nameRequired, variant: 'destructive' });
+      return;
+    }
+    if (threshold.trim() === '' || !Number.isFinite(parsedThreshold)) {
+      toast({ title: t.alerts.invalidThreshold, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveAlertRule(
+        {
+          name: name.trim(),
+          metric,
+          label: label === ALL_LABELS ? null : label,
+          operator,
+          threshold: parsedThreshold,
+          consecutiveDays: Math.min(Math.max(Math.round(Number(consecutiveDays)) || 1, 1), 31),
+          webhookUrl: webhookUrl.trim() || null,
+          emailTo: emailTo.trim() || null,
+          enabled,
+        },
+        rule?.id
+      );
+      onSaved();
+      onOpenChange(false);
+    } catch (e) {
+      toast({
+        title: t.alerts.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Keep labels of existing rules selectable even if they are not in the current data
+  const labelOptions = rule?.label && !labels.includes(rule.label) ? [...labels, rule.label] : labels;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? t.alerts.editRule : t.alerts.newRule}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="alert-name">{t.alerts.name}</Label>
+            <Input id="alert-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="MER FMH.BE" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>{t.alerts.metric}</Label>
+              <Select value={metric} onValueChange={(v) => setMetric(v as AlertMetric)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ALERT_METRICS.map((m) => (
+                    <SelectItem key={m} value={m}>{t.alerts.metrics[m]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>{t.alerts.label}</Label>
+              <Select value={label} onValueChange={setLabel}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {allowAllLabels && <SelectItem value={ALL_LABELS}>{t.alerts.allLabels}</SelectItem>}
+                  {labelOptions.map((l) => (
+                    <SelectItem key={l} value={l}>{l}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label>{t.alerts.condition}</Label>
+              <Select value={operator} onValueChange={(v) => setOperator(v as AlertOperator)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="above">{t.alerts.above}</SelectItem>
+                  <SelectItem value="below">{t.alerts.below}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="alert-threshold">
+                {t.alerts.threshold}
+                {(metric === 'revenue' || metric === 'spend') && ` (${BASE_CURRENCY})`}
+              </Label>
+              <Input
+                id="alert-threshold"
+                inputMode="decimal"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </div>
+            {metric !== 'pacing' && (
+              <div className="space-y-1.5">
+                <Label htmlFor="alert-days">{t.alerts.consecutiveDays}</Label>
+                <Input
+                  id="alert-days"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={consecutiveDays}
+                  onChange={(e) => setConsecutiveDays(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          {metric === 'mer' && <p className="text-xs text-muted-foreground -mt-2">{t.alerts.merHint}</p>}
+          {metric === 'pacing' && <p className="text-xs text-muted-foreground -mt-2">{t.alerts.pacingHint}</p>}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="alert-webhook">{t.alerts.webhookUrl}</Label>
+            <Input
+              id="alert-webhook"
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="https://hooks.slack.com/services/..."
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="alert-email">{t.alerts.emailTo}</Label>
+            <Input
+              id="alert-email"
+              value={emailTo}
+              onChange={(e) => setEmailTo(e.target.value)}
+              placeholder="marketing@example.com"
+            />
+            <p className="text-xs text-muted-foreground">{t.alerts.emailHint}</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="alert-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            <Label htmlFor="alert-enabled">{t.alerts.enabled}</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t.alerts.cancel}</Button>
+          <Button onClick={handleSave} disabled={saving}>{t.alerts.save}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
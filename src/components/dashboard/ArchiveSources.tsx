@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Archive, FileUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDataSourceStore } from '@/store/dataSourceStore';
+import { useFashionData } from '@/hooks/useFashionData';
+import { parseCSV } from '@/utils/dataHarmonizer';
+import { toast } from '@/hooks/use-toast';
+
+const ARCHIVE_TAB_PATTERN = /^Daily_\d{4}$/;
+
+/**
+ * Register prior-year archives (sheet tabs or CSV files) for YoY comparisons
+ */
+export function ArchiveSources() {
+  const { archives, addArchive, removeArchive } = useDataSourceStore();
+  const { data } = useFashionData();
+  const [year, setYear] = useState(String(new Date().getFullYear() - 1));
+  const [sheetName, setSheetName] = useState('');
+
+  const parsedYear = Number(year);
+  const isValidYear = Number.isInteger(parsedYear) && parsedYear >= 2000 && parsedYear <= 2100;
+  const tabName = sheetName || `Daily_${year}`;
+
+  // Loaded row counts per archive, from the last harmonization
+  const loadedSources = data?.sources.filter((s) => s.type === 'historical') || [];
+
+  const handleAddSheet = () => {
+    if (!ARCHIVE_TAB_PATTERN.test(tabName)) {
+      toast({
+        title: 'Invalid tab name',
+        description: 'Archive tabs must be named Daily_<year>, e.g. Daily_2024.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    addArchive({ kind: 'sheet', year: parsedYear, sheetName: tabName });
+    setSheetName('');
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !isValidYear) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const rows = parseCSV(String(reader.result));
+      if (rows.length === 0) {
+        toast({
+          title: 'Empty file',
+          description: `${file.name} contains no data rows.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      addArchive({ kind: 'file', year: parsedYear, fileName: file.name, rows });
+      toast({
+        title: 'Archive added',
+        description: `${rows.length} rows from ${file.name} registered for ${parsedYear}.`,
+      });
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Prior-year archives</Label>
+      <p className="text-xs text-muted-foreground">
+        Register a sheet tab or CSV export per year. Rows that overlap with live data on the same date and label are skipped.
+      </p>
+
+      {archives.length > 0 && (
+        <ul className="space-y-2">
+          {archives.map((archive) => {
+            const name = archive.kind === 'sheet' ? archive.sheetName : archive.fileName;
+            const loaded = loadedSources.find((s) => s.name === name && s.year === archive.year);
+            return (
+              <li
+                key={archive.id}
+                className="flex items-center justify-between gap-2 rounded-lg border border-border px-3 py-2 text-sm"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {archive.kind === 'sheet' ? (
+                    <Archive className="w-4 h-4 text-muted-foreground shrink-0" />
+                  ) : (
+                    <FileUp className="w-4 h-4 text-muted-foreground shrink-0" />
+                  )}
+                  <span className="font-medium">{archive.year}</span>
+                  <span className="truncate text-muted-foreground">{name}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {loaded && (
+                    <span className="text-xs text-muted-foreground tabular-nums">
+                      {loaded.data.length} rows
+                      {loaded.duplicatesDropped ? `, ${loaded.duplicatesDropped} overlapping` : ''}
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => removeArchive(archive.id)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-[80px_1fr] gap-2">
+        <Input
+          type="number"
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          aria-label="Archive year"
+        />
+        <Input
+          placeholder={`Daily_${year}`}
+          value={sheetName}
+          onChange={(e) => setSheetName(e.target.value.trim())}
+          aria-label="Archive tab name"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" disabled={!isValidYear} onClick={handleAddSheet}>
+          <Plus className="w-3.5 h-3.5 mr-1" /> Add sheet tab
+        </Button>
+        <Button variant="outline" size="sm" disabled={!isValidYear} asChild>
+          <label className="cursor-pointer">
+            <FileUp className="w-3.5 h-3.5 mr-1" /> Upload CSV
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileUpload} />
+          </label>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { cn } from '@/lib/utils';
 import { motion } from 'framer-motion';
+import type { ExportTable } from '@/utils/dataExport';
+import { ExportMenu } from './ExportMenu';
 
 interface BentoCardProps {
   title: string;
@@ -10,6 +12,8 @@ interface BentoCardProps {
   icon?: React.ReactNode;
   action?: React.ReactNode;
   variant?: 'default' | 'hero' | 'small';
+  exportData?: ExportTable; // Data behind the card, downloadable as CSV/XLSX
+  exportChart?: boolean; // Card shows a chart that can be downloaded as PNG/SVG
 }
 
 export function BentoCard({
@@ -20,9 +24,14 @@ export function BentoCard({
   icon,
   action,
   variant = 'default',
+  exportData,
+  exportChart = false,
 }: BentoCardProps) {
+  const cardRef = useRef<HTMLDivElement>(null);
+
   return (
     <motion.div
+      ref={cardRef}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.4, ease: 'easeOut' }}
@@ -47,7 +56,14 @@ export function BentoCard({
             )}
           </div>
         </div>
-        {action}
+        {exportData || exportChart ? (
+          <div className="flex items-center gap-2">
+            {action}
+            <ExportMenu title={title} data={exportData} chartRef={exportChart ? cardRef : undefined} />
+          </div>
+        ) : (
+          action
+        )}
       </div>
       {children}
     </motion.div>
@@ -0,0 +1,95 @@
+import React from 'react';
+import { HelpCircle } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getUnknownHeaders,
+  type ColumnMapping,
+  type ColumnMatch,
+  type ColumnSpec,
+} from '@/utils/columnMapping';
+
+const UNMAPPED = '__unmapped__';
+
+interface ColumnMappingEditorProps {
+  specs: ColumnSpec[];
+  headers: string[];
+  mapping: ColumnMapping;
+  matches?: Record<string, ColumnMatch>;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+/**
+ * One row per expected column with a header picker; suggested matches are
+ * labelled and headers that are not mapped are listed below
+ */
+export function ColumnMappingEditor({ specs, headers, mapping, matches = {}, onChange }: ColumnMappingEditorProps) {
+  const options = headers.filter((h) => h.trim() !== '');
+  const unknownHeaders = getUnknownHeaders(headers, mapping);
+
+  const handleChange = (column: string, header: string) => {
+    const next = { ...mapping };
+    if (header === UNMAPPED) delete next[column];
+    else next[column] = header;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[110px_1fr_56px] items-center gap-x-2 gap-y-1.5">
+        {specs.map((spec) => {
+          const match = matches[spec.column];
+          const isSuggested = match && match.header === mapping[spec.column] && match.kind !== 'exact';
+          return (
+            <React.Fragment key={spec.column}>
+              <span className="text-xs font-medium">
+                {spec.column}
+                {spec.required && <span className="text-destructive">*</span>}
+              </span>
+              <Select
+                value={mapping[spec.column] || UNMAPPED}
+                onValueChange={(value) => handleChange(spec.column, value)}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED} className="text-xs text-muted-foreground">
+                    Not in source
+                  </SelectItem>
+                  {options.map((header) => (
+                    <SelectItem key={header} value={header} className="text-xs">
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-[10px] text-muted-foreground tabular-nums">
+                {isSuggested && (match.kind === 'alias' ? 'alias' : `${Math.round(match.score * 100)}% match`)}
+              </span>
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {unknownHeaders.length > 0 && (
+        <div className="rounded-md bg-secondary p-2 text-xs space-y-1">
+          <p className="flex items-center gap-1.5 font-medium">
+            <HelpCircle className="w-3 h-3 text-warning" />
+            Not used ({unknownHeaders.length})
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {unknownHeaders.map((header) => (
+              <code key={header} className="bg-muted px-1 rounded">{header}</code>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Columns3, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDataSourceStore, getArchiveMappingKey } from '@/store/dataSourceStore';
+import { fetchGoogleSheetCSV } from '@/utils/dataHarmonizer';
+import {
+  getDailyColumns,
+  TARGET_COLUMNS,
+  suggestColumnMapping,
+  resolveColumnMapping,
+  getUnknownHeaders,
+  getMissingRequiredColumns,
+  getHeaders,
+  type ColumnMapping,
+  type MappingSuggestion,
+  type ColumnSpec,
+} from '@/utils/columnMapping';
+import { toast } from '@/hooks/use-toast';
+import { ColumnMappingEditor } from './ColumnMappingEditor';
+
+interface MappableSource {
+  key: string;
+  name: string;
+  getSpecs: (headers: string[]) => ColumnSpec[];
+  loadRows: () => Promise<Record<string, string>[]>;
+}
+
+interface DetectedHeaders {
+  headers: string[];
+  suggestion: MappingSuggestion;
+  mapping: ColumnMapping;
+}
+
+/**
+ * Review and confirm how sheet headers map to the expected columns, per source
+ */
+export function ColumnMappingWizard() {
+  const { archives, columnMappings, setColumnMapping, resetColumnMapping } = useDataSourceStore();
+  const [sourceKey, setSourceKey] = useState('Daily_Input');
+  const [detected, setDetected] = useState<DetectedHeaders | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const sources: MappableSource[] = [
+    { key: 'Daily_Input', name: 'Daily_Input', getSpecs: getDailyColumns, loadRows: () => fetchGoogleSheetCSV('', 'Daily_Input') },
+    { key: 'Targets', name: 'Targets', getSpecs: () => TARGET_COLUMNS, loadRows: () => fetchGoogleSheetCSV('', 'Targets') },
+    ...archives.map((archive) => ({
+      key: getArchiveMappingKey(archive),
+      name: `${archive.kind === 'sheet' ? archive.sheetName : archive.fileName} (${archive.year})`,
+      getSpecs: getDailyColumns,
+      loadRows: async () => archive.kind === 'sheet'
+        ? fetchGoogleSheetCSV('', archive.sheetName || `Daily_${archive.year}`)
+        : archive.rows || [],
+    })),
+  ];
+  const source = sources.find((s) => s.key === sourceKey) || sources[0];
+  const saved = columnMappings[source.key];
+  const specs = source.getSpecs(detected?.headers ?? []);
+  const missingColumns = detected ? getMissingRequiredColumns(detected.mapping, specs) : [];
+
+  const handleSourceChange = (key: string) => {
+    setSourceKey(key);
+    setDetected(null);
+  };
+
+  const handleDetect = async () => {
+    setIsLoading(true);
+    try {
+      const headers = getHeaders(await source.loadRows());
+      if (headers.length === 0) {
+        toast({
+          title: 'No headers found',
+          description: `${source.name} is empty or could not be read.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      const suggestion = suggestColumnMapping(headers, source.getSpecs(headers));
+      const mapping = saved ? resolveColumnMapping(headers, source.getSpecs(headers), saved.mapping) : suggestion.mapping;
+      setDetected({ headers, suggestion, mapping });
+    } catch (e) {
+      console.warn(`Failed to load headers for ${source.name}:`, e);
+      toast({
+        title: 'Could not load headers',
+        description: `${source.name} could not be fetched.`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!detected) return;
+    // Headers left unmapped were reviewed, so stop reporting them
+    setColumnMapping(source.key, detected.mapping, getUnknownHeaders(detected.headers, detected.mapping));
+    toast({
+      title: 'Column mapping saved',
+      description: source.key === 'Daily_Input' || source.key === 'Targets'
+        ? `${source.name} will be read with this mapping. Refresh to sync it into the warehouse.`
+        : `${source.name} will be read with this mapping.`,
+    });
+    setDetected(null);
+  };
+
+  const handleReset = () => {
+    resetColumnMapping(source.key);
+    setDetected(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Column mapping</Label>
+      <p className="text-xs text-muted-foreground">
+        Sheets with different header names are matched automatically. Review the suggestions per source and save to confirm them.
+      </p>
+
+      <div className="flex gap-2">
+        <Select value={source.key} onValueChange={handleSourceChange}>
+          <SelectTrigger className="h-9 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sources.map((s) => (
+              <SelectItem key={s.key} value={s.key}>
+                {s.name}
+                {columnMappings[s.key] ? ' ✓' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" className="h-9 shrink-0" disabled={isLoading} onClick={handleDetect}>
+          {isLoading ? (
+            <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+          ) : (
+            <Columns3 className="w-3.5 h-3.5 mr-1" />
+          )}
+          Detect headers
+        </Button>
+      </div>
+
+      {saved && !detected && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Saved mapping from {new Date(saved.savedAt).toLocaleDateString()}</span>
+          <Button variant="ghost" size="sm" className="h-7" onClick={handleReset}>
+            <RotateCcw className="w-3 h-3 mr-1" /> Reset
+          </Button>
+        </div>
+      )}
+
+      {detected && (
+        <div className="rounded-lg border border-border p-3 space-y-3">
+          <ColumnMappingEditor
+            specs={specs}
+            headers={detected.headers}
+            mapping={detected.mapping}
+            matches={detected.suggestion.matches}
+            onChange={(mapping) => setDetected((prev) => prev && { ...prev, mapping })}
+          />
+          {missingColumns.length > 0 && (
+            <p className="text-xs text-destructive">
+              Map the required column{missingColumns.length > 1 ? 's' : ''}: {missingColumns.join(', ')}
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDetected(null)}>
+              Cancel
+            </Button>
+            <Button size="sm" disabled={missingColumns.length > 0} onClick={handleSave}>
+              Save mapping
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
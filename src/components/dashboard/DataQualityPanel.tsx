@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Download, ShieldCheck, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useFashionData } from '@/hooks/useFashionData';
+import { useTranslation } from '@/hooks/useTranslation';
+import { issuesToCSV, sortIssues } from '@/utils/dataQuality';
+import { downloadBlob } from '@/utils/dataExport';
+import type { DataSource, IssueSeverity } from '@/types';
+import { cn } from '@/lib/utils';
+
+type SeverityFilter = 'all' | IssueSeverity;
+
+// Rendering thousands of table rows makes the dialog sluggish; the export has all of them
+const MAX_VISIBLE_ROWS = 200;
+
+/**
+ * First and last day a source has rows for
+ */
+function sourceRange(source: DataSource): string {
+  const dates = source.data.map((m) => m.dateString).sort();
+  if (dates.length === 0) return '';
+  return dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} – ${dates[dates.length - 1]}`;
+}
+
+/**
+ * Header button + dialog listing where the data came from, and the rejected
+ * rows and warnings from the last load
+ */
+export function DataQualityPanel() {
+  const { data } = useFashionData();
+  const { t, interpolate } = useTranslation();
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+
+  const issues = useMemo(() => sortIssues(data?.issues || []), [data]);
+  const sources = data?.sources || [];
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const visible = filter === 'all' ? issues : issues.filter((i) => i.severity === filter);
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([issuesToCSV(visible)], { type: 'text/csv;charset=utf-8' }),
+      `data-quality-${format(new Date(), 'yyyy-MM-dd')}.csv`
+    );
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" title={t.dataQuality.title}>
+          {errorCount > 0 ? (
+            <XCircle className="w-4 h-4 text-destructive" />
+          ) : warningCount > 0 ? (
+            <AlertTriangle className="w-4 h-4 text-warning" />
+          ) : (
+            <ShieldCheck className="w-4 h-4" />
+          )}
+          {issues.length > 0 && (
+            <span
+              className={cn(
+                'absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full text-[10px] font-semibold leading-[18px] text-white tabular-nums',
+                errorCount > 0 ? 'bg-destructive' : 'bg-warning'
+              )}
+            >
+              {issues.length > 99 ? '99+' : issues.length}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{t.dataQuality.title}</DialogTitle>
+          <DialogDescription>{t.dataQuality.subtitle}</DialogDescription>
+        </DialogHeader>
+
+        {sources.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">{t.dataQuality.dataSources}</p>
+            <div className="flex flex-wrap gap-2">
+              {sources.map((source) => (
+                <div
+                  key={`${source.type}-${source.id || source.name || source.year}`}
+                  className="rounded-lg border border-border px-2.5 py-1.5 text-xs"
+                >
+                  <span className="font-medium">{source.name || 'Daily_Input'}</span>
+                  <span className="text-muted-foreground">
+                    {' · '}{t.dataQuality.sourceTypes[source.type]}
+                    {' · '}{interpolate(t.dataQuality.days, { count: source.data.length })}
+                    {' · '}{sourceRange(source)}
+                  </span>
+                  {source.type === 'connector' && (
+                    <span className="block text-muted-foreground">
+                      {t.dataQuality.connectorNote}
+                      {source.overrides ? ` (${interpolate(t.dataQuality.overrides, { count: source.overrides })})` : ''}
+                    </span>
+                  )}
+                  {!!source.duplicatesDropped && (
+                    <span className="block text-muted-foreground">
+                      {interpolate(t.dataQuality.duplicatesDropped, { count: source.duplicatesDropped })}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {issues.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+            <ShieldCheck className="w-8 h-8 text-profit" />
+            <p className="text-sm">{t.dataQuality.noIssues}</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <ToggleGroup
+                type="single"
+                value={filter}
+                onValueChange={(v) => v && setFilter(v as SeverityFilter)}
+                size="sm"
+                className="bg-secondary/50 rounded-lg p-0.5"
+              >
+                <ToggleGroupItem value="all" className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm">
+                  {t.dataQuality.all} ({issues.length})
+                </ToggleGroupItem>
+                <ToggleGroupItem value="error" className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm">
+                  {t.dataQuality.errors} ({errorCount})
+                </ToggleGroupItem>
+                <ToggleGroupItem value="warning" className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm">
+                  {t.dataQuality.warnings} ({warningCount})
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={visible.length === 0}>
+                <Download className="w-3.5 h-3.5 mr-1" /> {t.dataQuality.exportCsv}
+              </Button>
+            </div>
+
+            <div className="flex-1 overflow-auto rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.dataQuality.severity}</TableHead>
+                    <TableHead>{t.dataQuality.source}</TableHead>
+                    <TableHead className="text-right">{t.dataQuality.row}</TableHead>
+                    <TableHead>{t.dataQuality.column}</TableHead>
+                    <TableHead>{t.dataQuality.value}</TableHead>
+                    <TableHead>{t.dataQuality.issue}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.slice(0, MAX_VISIBLE_ROWS).map((issue) => (
+                    <TableRow key={`${issue.source}-${issue.rowNumber}-${issue.column}-${issue.code}`}>
+                      <TableCell>
+                        <span
+                          className={cn(
+                            'inline-flex items-center gap-1 text-xs font-medium',
+                            issue.severity === 'error' ? 'text-destructive' : 'text-warning'
+                          )}
+                        >
+                          {issue.severity === 'error' ? (
+                            <XCircle className="w-3 h-3" />
+                          ) : (
+                            <AlertTriangle className="w-3 h-3" />
+                          )}
+                          {issue.severity === 'error' ? t.dataQuality.rejected : t.dataQuality.kept}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{issue.source}</TableCell>
+                      <TableCell className="text-right text-xs tabular-nums">{issue.rowNumber}</TableCell>
+                      <TableCell className="text-xs font-mono">{issue.column}</TableCell>
+                      <TableCell className="text-xs font-mono max-w-[140px] truncate">{issue.value}</TableCell>
+                      <TableCell className="text-xs">
+                        <span className="font-medium">{t.dataQuality.codes[issue.code]}</span>
+                        <span className="block text-muted-foreground">{issue.reason}</span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {visible.length > MAX_VISIBLE_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                {interpolate(t.dataQuality.showing, { shown: MAX_VISIBLE_ROWS, total: visible.length })}
+              </p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Download, FileSpreadsheet, FileText, Image } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { useDashboardStore } from '@/store/dashboardStore';
+import {
+  chartToPNG,
+  chartToSVG,
+  downloadBlob,
+  tableToCSV,
+  tableToXlsx,
+  type ExportTable,
+} from '@/utils/dataExport';
+
+interface ExportMenuProps {
+  title: string; // Used for file names and the chart heading
+  data?: ExportTable; // Offer CSV/XLSX of the underlying data
+  chartRef?: React.RefObject<HTMLElement>; // Offer PNG/SVG of the charts inside this element
+}
+
+function fileSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+}
+
+/**
+ * Download menu for a card's data (CSV, XLSX) and chart (PNG, SVG)
+ */
+export function ExportMenu({ title, data, chartRef }: ExportMenuProps) {
+  const { t } = useTranslation();
+  const { europeanDecimals, setEuropeanDecimals } = useDashboardStore();
+  const baseName = `${fileSlug(title)}-${format(new Date(), 'yyyy-MM-dd')}`;
+
+  const runExport = async (action: () => Promise<void> | void) => {
+    try {
+      await action();
+    } catch (e) {
+      toast({
+        title: t.exportMenu.failed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderChart = () => {
+    const chart = chartRef?.current ? chartToSVG(chartRef.current, title) : null;
+    if (!chart) throw new Error(t.exportMenu.noChart);
+    return chart;
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title={t.exportMenu.export}>
+          <Download className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {data && (
+          <>
+            <DropdownMenuLabel>{t.exportMenu.data}</DropdownMenuLabel>
+            <DropdownMenuItem
+              onClick={() => runExport(() =>
+                downloadBlob(
+                  new Blob([tableToCSV(data, europeanDecimals)], { type: 'text/csv;charset=utf-8' }),
+                  `${baseName}.csv`
+                )
+              )}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              {t.exportMenu.csv}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => runExport(async () => downloadBlob(await tableToXlsx(data, title), `${baseName}.xlsx`))}
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              {t.exportMenu.xlsx}
+            </DropdownMenuItem>
+            <DropdownMenuCheckboxItem
+              checked={europeanDecimals}
+              onCheckedChange={setEuropeanDecimals}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {t.exportMenu.europeanDecimals}
+            </DropdownMenuCheckboxItem>
+          </>
+        )}
+        {data && chartRef && <DropdownMenuSeparator />}
+        {chartRef && (
+          <>
+            <DropdownMenuLabel>{t.exportMenu.chart}</DropdownMenuLabel>
+            <DropdownMenuItem
+              onClick={() => runExport(async () => downloadBlob(await chartToPNG(renderChart()), `${baseName}.png`))}
+            >
+              <Image className="w-4 h-4 mr-2" />
+              {t.exportMenu.png}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => runExport(() =>
+                downloadBlob(
+                  new Blob([renderChart().svg], { type: 'image/svg+xml;charset=utf-8' }),
+                  `${baseName}.svg`
+                )
+              )}
+            >
+              <Image className="w-4 h-4 mr-2" />
+              {t.exportMenu.svg}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
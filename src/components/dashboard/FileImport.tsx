@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, FileSpreadsheet, FileUp, Trash2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useDataSourceStore } from '@/store/dataSourceStore';
+import { useFashionData } from '@/hooks/useFashionData';
+import { readTabularFile, type TabularFile } from '@/utils/fileImport';
+import {
+  getDailyColumns,
+  suggestColumnMapping,
+  getMissingRequiredColumns,
+  applyColumnMapping,
+  type ColumnMapping,
+  type ColumnMatch,
+} from '@/utils/columnMapping';
+import { transformSheetData } from '@/utils/sheetTransformer';
+import { sortIssues } from '@/utils/dataQuality';
+import { toast } from '@/hooks/use-toast';
+import { ColumnMappingEditor } from './ColumnMappingEditor';
+
+const MAX_PREVIEW_ISSUES = 8;
+
+interface PendingImport {
+  fileName: string;
+  file: TabularFile;
+  mapping: ColumnMapping;
+  matches: Record<string, ColumnMatch>;
+}
+
+/**
+ * Import CSV/XLSX exports (e.g. Shopify, ad platforms) as removable data sources
+ */
+export function FileImport() {
+  const { uploads, addUpload, removeUpload } = useDataSourceStore();
+  const { data } = useFashionData();
+  const [pending, setPending] = useState<PendingImport | null>(null);
+
+  // Loaded row counts per upload, from the last harmonization
+  const loadedSources = data?.sources.filter((s) => s.type === 'upload') || [];
+
+  const mappedRows = useMemo(
+    () => (pending ? applyColumnMapping(pending.file.rows, pending.mapping) : []),
+    [pending]
+  );
+  const preview = useMemo(() => transformSheetData(mappedRows), [mappedRows]);
+  const missingColumns = pending ? getMissingRequiredColumns(pending.mapping) : [];
+  const canImport = pending && missingColumns.length === 0 && preview.data.length > 0;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const tabular = await readTabularFile(file);
+      if (tabular.rows.length === 0) {
+        toast({
+          title: 'Empty file',
+          description: `${file.name} contains no data rows.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      const suggestion = suggestColumnMapping(tabular.headers, getDailyColumns(tabular.headers));
+      setPending({ fileName: file.name, file: tabular, mapping: suggestion.mapping, matches: suggestion.matches });
+    } catch (error) {
+      console.warn('Failed to read file:', error);
+      toast({
+        title: 'Could not read file',
+        description: `${file.name} is not a valid CSV or XLSX file.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMappingChange = (mapping: ColumnMapping) => {
+    setPending((prev) => prev && { ...prev, mapping });
+  };
+
+  const handleImport = () => {
+    if (!pending || !canImport) return;
+    addUpload({ fileName: pending.fileName, mapping: pending.mapping, rows: mappedRows });
+    toast({
+      title: 'File imported',
+      description: `${preview.data.length} rows from ${pending.fileName} added${preview.errors > 0 ? `, ${preview.errors} skipped` : ''}.`,
+    });
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Imported files</Label>
+      <p className="text-xs text-muted-foreground">
+        Upload CSV or XLSX exports in the same layout as <code className="bg-muted px-1 rounded">Daily_Input</code>. Rows that overlap with live data on the same date and label are skipped.
+      </p>
+
+      {uploads.length > 0 && (
+        <ul className="space-y-2">
+          {uploads.map((upload) => {
+            const loaded = loadedSources.find((s) => s.id === upload.id);
+            return (
+              <li
+                key={upload.id}
+                className="flex items-center justify-between gap-2 rounded-lg border border-border px-3 py-2 text-sm"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <FileSpreadsheet className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <span className="truncate">{upload.fileName}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {loaded && (
+                    <span className="text-xs text-muted-foreground tabular-nums">
+                      {loaded.data.length} rows
+                      {loaded.duplicatesDropped ? `, ${loaded.duplicatesDropped} overlapping` : ''}
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => removeUpload(upload.id)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {pending ? (
+        <div className="rounded-lg border border-border p-3 space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            <FileSpreadsheet className="w-4 h-4 text-muted-foreground" />
+            <span className="font-medium truncate">{pending.fileName}</span>
+            <span className="text-xs text-muted-foreground">{pending.file.rows.length} rows</span>
+          </div>
+
+          {/* Column mapping */}
+          <ColumnMappingEditor
+            specs={getDailyColumns(pending.file.headers)}
+            headers={pending.file.headers}
+            mapping={pending.mapping}
+            matches={pending.matches}
+            onChange={handleMappingChange}
+          />
+
+          {/* Validation preview */}
+          {missingColumns.length > 0 ? (
+            <p className="text-xs text-destructive">
+              Map the required column{missingColumns.length > 1 ? 's' : ''}: {missingColumns.join(', ')}
+            </p>
+          ) : (
+            <div className="space-y-1.5">
+              <p className="text-xs text-muted-foreground">
+                {preview.data.length} valid rows
+                {preview.errors > 0 && `, ${preview.errors} will be skipped`}
+                {preview.issues.length > 0 && ` (${preview.issues.length} issues)`}
+              </p>
+              {preview.issues.length > 0 && (
+                <ul className="space-y-1 rounded-md bg-secondary p-2 text-xs">
+                  {sortIssues(preview.issues).slice(0, MAX_PREVIEW_ISSUES).map((issue) => (
+                    <li key={`${issue.rowNumber}-${issue.column}-${issue.code}`} className="flex items-start gap-1.5">
+                      {issue.severity === 'error' ? (
+                        <XCircle className="w-3 h-3 mt-0.5 text-destructive shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-3 h-3 mt-0.5 text-warning shrink-0" />
+                      )}
+                      <span>
+                        Row {issue.rowNumber}, {issue.column}: {issue.reason}
+                        {issue.value && <span className="text-muted-foreground"> ("{issue.value}")</span>}
+                      </span>
+                    </li>
+                  ))}
+                  {preview.issues.length > MAX_PREVIEW_ISSUES && (
+                    <li className="text-muted-foreground">
+                      and {preview.issues.length - MAX_PREVIEW_ISSUES} more
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button size="sm" disabled={!canImport} onClick={handleImport}>
+              Import {preview.data.length > 0 ? `${preview.data.length} rows` : ''}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" asChild>
+          <label className="cursor-pointer">
+            <FileUp className="w-3.5 h-3.5 mr-1" /> Upload CSV or XLSX
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+          </label>
+        </Button>
+      )}
+    </div>
+  );
+}
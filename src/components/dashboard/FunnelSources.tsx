@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { FileUp, MousePointerClick, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDataSourceStore } from '@/store/dataSourceStore';
+import { useFashionData } from '@/hooks/useFashionData';
+import { readTabularFile } from '@/utils/fileImport';
+import { parseGa4Export } from '@/utils/funnel';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * GA4 exports with sessions, add-to-carts and checkouts per label, on top of
+ * the sheet's funnel columns
+ */
+export function FunnelSources() {
+  const { funnelFiles, addFunnelFile, removeFunnelFile } = useDataSourceStore();
+  const { data } = useFashionData();
+  const [label, setLabel] = useState('');
+
+  const labels = useMemo(
+    () => [...new Set((data?.metrics || []).map((m) => m.label))].sort(),
+    [data?.metrics]
+  );
+  const selectedLabel = label || labels[0] || '';
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const tabular = await readTabularFile(file);
+      const { rows, errors } = parseGa4Export(tabular.rows, selectedLabel);
+      if (rows.length === 0) {
+        toast({
+          title: 'No funnel data found',
+          description: `${file.name} needs Date and Sessions columns, optionally Platform, Add to carts and Checkouts.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      addFunnelFile({ fileName: file.name, label: selectedLabel, rows: tabular.rows });
+      toast({
+        title: 'Funnel data added',
+        description: `${rows.length} days from ${file.name} added${errors > 0 ? `, ${errors} rows skipped` : ''}.`,
+      });
+    } catch (error) {
+      console.warn('Failed to read file:', error);
+      toast({
+        title: 'Could not read file',
+        description: `${file.name} is not a valid CSV or XLSX file.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (labels.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <Label>Web analytics funnel</Label>
+      <p className="text-xs text-muted-foreground">
+        Fill the Sessions_, AddToCart_ and Checkouts_ (Web/App) columns of <code className="bg-muted px-1 rounded">Daily_Input</code>, or upload a GA4 export per label with Date, Platform, Sessions, Add to carts and Checkouts. Uploaded days replace the sheet's values for the same date, label and channel.
+      </p>
+
+      {funnelFiles.map((file) => (
+        <div
+          key={file.id}
+          className="flex items-center justify-between gap-2 rounded-lg border border-border px-3 py-2 text-sm"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <MousePointerClick className="w-4 h-4 text-muted-foreground shrink-0" />
+            <span className="truncate">{file.fileName}</span>
+            <span className="text-xs text-muted-foreground shrink-0">{file.label}</span>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeFunnelFile(file.id)}>
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Select value={selectedLabel} onValueChange={setLabel}>
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {labels.map((l) => (
+              <SelectItem key={l} value={l}>{l}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" asChild>
+          <label className="cursor-pointer">
+            <FileUp className="w-3.5 h-3.5 mr-1" /> Upload GA4 export
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+          </label>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Coins, FileUp, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useDataSourceStore } from '@/store/dataSourceStore';
+import { useFashionData } from '@/hooks/useFashionData';
+import { readTabularFile } from '@/utils/fileImport';
+import { parseFxRates } from '@/utils/currency';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Label currencies from the sheet and an optional FX rate file upload
+ */
+export function FxRateSources() {
+  const { fxRateFile, setFxRateFile } = useDataSourceStore();
+  const { data } = useFashionData();
+
+  const labelCurrencies = Object.entries(data?.labelCurrencies || {}).filter(([, currency]) => currency !== 'EUR');
+  const rateCount = data?.fxRates.length || 0;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const tabular = await readTabularFile(file);
+      const { rates, errors } = parseFxRates(tabular.rows);
+      if (rates.length === 0) {
+        toast({
+          title: 'No FX rates found',
+          description: `${file.name} needs Date, Currency and Rate columns with GBP or CHF rates per 1 EUR.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      setFxRateFile({ fileName: file.name, rows: tabular.rows });
+      toast({
+        title: 'FX rates added',
+        description: `${rates.length} rates from ${file.name} added${errors > 0 ? `, ${errors} skipped` : ''}.`,
+      });
+    } catch (error) {
+      console.warn('Failed to read file:', error);
+      toast({
+        title: 'Could not read file',
+        description: `${file.name} is not a valid CSV or XLSX file.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Currencies & FX rates</Label>
+      <p className="text-xs text-muted-foreground">
+        Set a currency per label in a <code className="bg-muted px-1 rounded">Currencies</code> tab (Label, Currency) and daily rates per 1 EUR in an <code className="bg-muted px-1 rounded">FX_Rates</code> tab (Date, Currency, Rate), or upload the rates as a file. Labels without a currency are in EUR.
+      </p>
+
+      <p className="text-xs text-muted-foreground">
+        {labelCurrencies.length > 0
+          ? labelCurrencies.map(([label, currency]) => `${label}: ${currency}`).join(', ')
+          : 'All labels are in EUR'}
+        {' · '}
+        {rateCount} rates loaded
+      </p>
+
+      {fxRateFile ? (
+        <div className="flex items-center justify-between gap-2 rounded-lg border border-border px-3 py-2 text-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <Coins className="w-4 h-4 text-muted-foreground shrink-0" />
+            <span className="truncate">{fxRateFile.fileName}</span>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setFxRateFile(null)}>
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" asChild>
+          <label className="cursor-pointer">
+            <FileUp className="w-3.5 h-3.5 mr-1" /> Upload FX rates
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+          </label>
+        </Button>
+      )}
+    </div>
+  );
+}
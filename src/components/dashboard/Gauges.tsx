@@ -1,17 +1,19 @@
 import * as React from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { formatCurrency } from '@/utils/analytics';
 import { useTranslation } from '@/hooks/useTranslation';
-import type { PacingData } from '@/types';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
+import type { ForecastTotal, PacingData } from '@/types';
 
 interface PacingGaugeProps {
   pacing: PacingData;
+  quarterForecast?: ForecastTotal;
   className?: string;
 }
 
-const PacingGaugeComponent: React.FC<PacingGaugeProps> = ({ pacing, className }) => {
+const PacingGaugeComponent: React.FC<PacingGaugeProps> = ({ pacing, quarterForecast, className }) => {
   const { t, interpolate } = useTranslation();
+  const { formatCurrency } = useCurrencyFormat();
   
   const progressPercent = Math.min(
     (pacing.currentRevenue / pacing.targetRevenue) * 100,
@@ -81,10 +83,26 @@ const PacingGaugeComponent: React.FC<PacingGaugeProps> = ({ pacing, className })
             </p>
             <p className="text-sm text-muted-foreground">
               {pacing.projectedPercentage.toFixed(0)}% {t.gauges.target.toLowerCase()}
+              {pacing.projectedLower !== undefined && pacing.projectedUpper !== undefined && (
+                <> · {t.gauges.forecastRange} {formatCurrency(pacing.projectedLower, true)} – {formatCurrency(pacing.projectedUpper, true)}</>
+              )}
             </p>
           </div>
         </div>
       </div>
+      
+      {/* Quarter projection */}
+      {quarterForecast && (
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">{t.gauges.quarterProjected}</span>
+          <span className="font-medium text-foreground tabular-nums">
+            {formatCurrency(quarterForecast.expected, true)}
+            <span className="text-muted-foreground font-normal">
+              {' '}({formatCurrency(quarterForecast.lower, true)} – {formatCurrency(quarterForecast.upper, true)})
+            </span>
+          </span>
+        </div>
+      )}
     </div>
   );
 };
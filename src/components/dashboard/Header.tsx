@@ -1,15 +1,20 @@
 // Header components for the dashboard
 import React from 'react';
 import { motion } from 'framer-motion';
-import { RefreshCw, ArrowRight } from 'lucide-react';
+import { RefreshCw, ArrowRight, Link2, AlertTriangle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useDashboardStore } from '@/store/dashboardStore';
 import { useFilteredData } from '@/hooks/useFashionData';
 import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { DateRangePicker } from './DateRangePicker';
+import { DataQualityPanel } from './DataQualityPanel';
 import { format } from 'date-fns';
 import type { DateRange } from 'react-day-picker';
+import { CHANNELS, CURRENCIES, type Channel, type Currency, type Platform } from '@/types';
+import { getPlatformMeta } from '@/utils/platforms';
 
 interface DashboardHeaderProps {
   title: string;
@@ -47,6 +52,10 @@ export function DashboardHeader({ title, subtitle, onRefresh }: DashboardHeaderP
         </div>
         
         <div className="flex items-center gap-3">
+          <ChannelPlatformFilter />
+          
+          <CurrencySelector />
+          
           {/* Date Range Picker with Comparison (integrated) */}
           <DateRangePicker
             date={{
@@ -56,6 +65,22 @@ export function DashboardHeader({ title, subtitle, onRefresh }: DashboardHeaderP
             setDate={handleDateUpdate}
           />
           
+          {/* The URL holds the page and filters */}
+          <Button
+            variant="outline"
+            size="icon"
+            title={t.header.copyLink}
+            onClick={async () => {
+              await navigator.clipboard.writeText(window.location.href);
+              toast({ title: t.header.linkCopied });
+            }}
+          >
+            <Link2 className="w-4 h-4" />
+          </Button>
+          
+          {/* Rejected rows and warnings from the last load */}
+          <DataQualityPanel />
+          
           {/* Refresh Button */}
           {onRefresh && (
             <Button
@@ -100,6 +125,91 @@ export function DashboardHeader({ title, subtitle, onRefresh }: DashboardHeaderP
   );
 }
 
+const TOGGLE_ITEM_CLASS = 'text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm';
+
+/**
+ * Web/app and ad platform selection. At least one of each stays selected;
+ * selecting every platform is stored as all, so new platforms show up too.
+ */
+export function ChannelPlatformFilter() {
+  const { filters, setChannels, setPlatforms } = useDashboardStore();
+  const { availablePlatforms } = useFilteredData();
+  const { t } = useTranslation();
+  const selectedPlatforms = filters.platforms.length > 0 ? filters.platforms : availablePlatforms;
+  
+  const handlePlatformsChange = (platforms: Platform[]) => {
+    if (platforms.length === 0) return;
+    const all = availablePlatforms.every((p) => platforms.includes(p));
+    setPlatforms(all ? [] : platforms);
+  };
+  
+  return (
+    <div className="flex items-center gap-2">
+      <ToggleGroup
+        type="multiple"
+        value={filters.channels}
+        onValueChange={(v) => v.length > 0 && setChannels(v as Channel[])}
+        size="sm"
+        className="bg-secondary/50 rounded-lg p-0.5"
+        title={t.header.channels}
+      >
+        {CHANNELS.map((channel) => (
+          <ToggleGroupItem key={channel} value={channel} className={TOGGLE_ITEM_CLASS}>
+            {t.header.channelNames[channel]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <ToggleGroup
+        type="multiple"
+        value={selectedPlatforms}
+        onValueChange={handlePlatformsChange}
+        size="sm"
+        className="bg-secondary/50 rounded-lg p-0.5"
+        title={t.header.platforms}
+      >
+        {availablePlatforms.map((platform) => (
+          <ToggleGroupItem key={platform} value={platform} className={TOGGLE_ITEM_CLASS}>
+            {getPlatformMeta(platform).shortName}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+}
+
+/**
+ * Reporting currency; all amounts are converted to it with the daily FX rates
+ */
+export function CurrencySelector() {
+  const { reportingCurrency, setReportingCurrency } = useDashboardStore();
+  const { missingFxRates } = useFilteredData();
+  const { t, interpolate } = useTranslation();
+  
+  return (
+    <div className="flex items-center gap-1">
+      <ToggleGroup
+        type="single"
+        value={reportingCurrency}
+        onValueChange={(v) => v && setReportingCurrency(v as Currency)}
+        size="sm"
+        className="bg-secondary/50 rounded-lg p-0.5"
+        title={t.header.currency}
+      >
+        {CURRENCIES.map((currency) => (
+          <ToggleGroupItem key={currency} value={currency} className={TOGGLE_ITEM_CLASS}>
+            {currency}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      {missingFxRates.length > 0 && (
+        <span title={interpolate(t.header.missingFxRates, { currencies: missingFxRates.join(', ') })}>
+          <AlertTriangle className="w-4 h-4 text-warning" />
+        </span>
+      )}
+    </div>
+  );
+}
+
 interface LabelFilterProps {
   className?: string;
 }
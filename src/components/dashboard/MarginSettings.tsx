@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { useFashionData } from '@/hooks/useFashionData';
+import type { MarginInputs } from '@/types';
+
+interface MarginField {
+  key: keyof MarginInputs;
+  label: string;
+  percentage: boolean; // Stored as a fraction, entered as a percentage
+}
+
+const MARGIN_FIELDS: MarginField[] = [
+  { key: 'vatRate', label: 'VAT %', percentage: true },
+  { key: 'returnRate', label: 'Returns %', percentage: true },
+  { key: 'cogsRate', label: 'COGS %', percentage: true },
+  { key: 'shippingCost', label: 'Shipping / order', percentage: false },
+];
+
+function toDisplay(value: number | undefined, percentage: boolean): string {
+  if (value === undefined) return '';
+  return String(percentage ? Number((value * 100).toFixed(2)) : value);
+}
+
+/**
+ * Per-label VAT, return rate, COGS and shipping inputs. Values from the
+ * Margins tab show as placeholders; an entered value overrides them.
+ */
+export function MarginSettings() {
+  const { marginOverrides, setMarginOverride } = useDashboardStore();
+  const { data } = useFashionData();
+
+  const labels = useMemo(
+    () => [...new Set((data?.metrics || []).map((m) => m.label))].sort(),
+    [data?.metrics]
+  );
+  const sheetInputs = data?.marginInputs || {};
+
+  const handleChange = (label: string, field: MarginField, text: string) => {
+    const value = Number(text.replace(',', '.'));
+    if (text.trim() === '' || !Number.isFinite(value) || value < 0) {
+      setMarginOverride(label, field.key, null);
+      return;
+    }
+    setMarginOverride(label, field.key, field.percentage ? Math.min(value, 99) / 100 : value);
+  };
+
+  if (labels.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <Label>Margins</Label>
+      <p className="text-xs text-muted-foreground">
+        Used for net revenue, gross margin and POAS. Fill a <code className="bg-muted px-1 rounded">Margins</code> tab (Label, VAT, Return_Rate, COGS, Shipping_Cost) or enter values here; empty fields use the sheet. Shipping is in the label's currency.
+      </p>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_repeat(4,72px)] gap-2 text-xs text-muted-foreground">
+          <span>Label</span>
+          {MARGIN_FIELDS.map((field) => (
+            <span key={field.key}>{field.label}</span>
+          ))}
+        </div>
+        {labels.map((label) => (
+          <div key={label} className="grid grid-cols-[1fr_repeat(4,72px)] gap-2 items-center">
+            <span className="text-sm truncate">{label}</span>
+            {MARGIN_FIELDS.map((field) => (
+              <Input
+                key={field.key}
+                type="number"
+                min={0}
+                step="any"
+                className="h-8 text-xs"
+                value={toDisplay(marginOverrides[label]?.[field.key], field.percentage)}
+                placeholder={toDisplay(sheetInputs[label]?.[field.key] ?? 0, field.percentage)}
+                onChange={(e) => handleChange(label, field, e.target.value)}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
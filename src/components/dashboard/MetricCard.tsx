@@ -2,7 +2,8 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { formatCurrency, formatPercentage } from '@/utils/analytics';
+import { formatPercentage } from '@/utils/analytics';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
 
 interface MetricCardProps {
   label: string;
@@ -22,6 +23,7 @@ export function MetricCard({
   size = 'md',
   className,
 }: MetricCardProps) {
+  const { formatCurrency } = useCurrencyFormat();
   const formattedValue = React.useMemo(() => {
     switch (format) {
       case 'currency':
@@ -31,9 +33,10 @@ export function MetricCard({
       case 'multiplier':
         return `${value.toFixed(2)}x`;
       default:
-        return value.toLocaleString();
+        // Orders can be fractional when filtered to a channel
+        return Math.round(value).toLocaleString();
     }
-  }, [value, format, size]);
+  }, [value, format, size, formatCurrency]);
 
   const change = previousValue ? ((value - previousValue) / previousValue) * 100 : 0;
   const trend = change > 1 ? 'up' : change < -1 ? 'down' : 'neutral';
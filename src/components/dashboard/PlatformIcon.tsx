@@ -0,0 +1,26 @@
+import React from 'react';
+import { Chrome, Facebook, Megaphone, Music2, Pin, Search, type LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getPlatformMeta } from '@/utils/platforms';
+import type { Platform } from '@/types';
+
+const PLATFORM_ICONS: Record<Platform, LucideIcon> = {
+  facebook: Facebook,
+  google: Chrome,
+  tiktok: Music2,
+  pinterest: Pin,
+  microsoft: Search,
+};
+
+interface PlatformIconProps {
+  platform: Platform;
+  className?: string;
+}
+
+/**
+ * Icon of an ad platform in its colour; platforms without one get a megaphone
+ */
+export function PlatformIcon({ platform, className }: PlatformIconProps) {
+  const Icon = PLATFORM_ICONS[platform] ?? Megaphone;
+  return <Icon className={cn('w-4 h-4', className)} style={{ color: getPlatformMeta(platform).color }} />;
+}
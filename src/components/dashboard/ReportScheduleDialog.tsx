@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { saveReportSchedule } from '@/utils/reports';
+import type { ReportPeriod, ReportSchedule } from '@/types';
+
+interface ReportScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule?: ReportSchedule; // Edit this schedule; create a new one when omitted
+  labels: string[];
+  allowAllLabels: boolean; // Reports over all labels need access to every label
+  onSaved: () => void;
+}
+
+/**
+ * Create or edit a report schedule
+ */
+export function ReportScheduleDialog({ open, onOpenChange, schedule, labels, allowAllLabels, onSaved }: ReportScheduleDialogProps) {
+  const { t, language: appLanguage } = useTranslation();
+  const [name, setName] = useState('');
+  const [period, setPeriod] = useState<ReportPeriod>('weekly');
+  const [language, setLanguage] = useState<ReportSchedule['language']>('en');
+  const [recipients, setRecipients] = useState('');
+  const [selectedLabels, setSelectedLabels] = useState<string[] | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(schedule?.name ?? '');
+    setPeriod(schedule?.period ?? 'weekly');
+    setLanguage(schedule?.language ?? appLanguage);
+    setRecipients(schedule?.recipients ?? '');
+    setSelectedLabels(schedule ? schedule.labels : allowAllLabels ? null : []);
+    setEnabled(schedule?.enabled ?? true);
+  }, [open, schedule, appLanguage, allowAllLabels]);
+
+  // Keep labels of existing schedules selectable even if they are not in the current data
+  const labelOptions = [...new Set([...labels, ...(selectedLabels ?? [])])];
+
+  const toggleLabel = (label: string) => {
+    const current = selectedLabels ?? [];
+    setSelectedLabels(current.includes(label) ? current.filter((l) => l !== label) : [...current, label]);
+  };
+
+  const handleSave = async () => {
+    const recipientList = recipients.split(',').map((r) => r.trim()).filter(Boolean);
+    if (!name.trim()) {
+      toast({ title: t.reports.nameRequired, variant: 'destructive' });
+      return;
+    }
+    if (recipientList.length === 0) {
+      toast({ title: t.reports.recipientsRequired, variant: 'destructive' });
+      return;
+    }
+    if (selectedLabels?.length === 0) {
+      toast({ title: t.reports.labelsRequired, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveReportSchedule(
+        {
+          name: name.trim(),
+          period,
+          language,
+          recipients: recipientList.join(', '),
+          labels: selectedLabels,
+          enabled,
+        },
+        schedule?.id
+      );
+      onSaved();
+      onOpenChange(false);
+    } catch (e) {
+      toast({
+        title: t.reports.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{schedule ? t.reports.editSchedule : t.reports.newSchedule}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="report-name">{t.reports.name}</Label>
+            <Input
+              id="report-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t.reports.namePlaceholder}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>{t.reports.period}</Label>
+              <Select value={period} onValueChange={(v) => setPeriod(v as ReportPeriod)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">{t.reports.weekly}</SelectItem>
+                  <SelectItem value="monthly">{t.reports.monthly}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>{t.reports.language}</Label>
+              <Select value={language} onValueChange={(v) => setLanguage(v as ReportSchedule['language'])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="en">English</SelectItem>
+                  <SelectItem value="nl">Nederlands</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            {period === 'weekly' ? t.reports.weeklyHint : t.reports.monthlyHint}
+          </p>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="report-recipients">{t.reports.recipients}</Label>
+            <Input
+              id="report-recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder={t.reports.recipientsPlaceholder}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t.reports.labels}</Label>
+            {allowAllLabels && (
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={selectedLabels === null}
+                  onCheckedChange={(checked) => setSelectedLabels(checked ? null : [])}
+                />
+                {t.reports.allLabels}
+              </label>
+            )}
+            {selectedLabels !== null && (
+              <div className="flex flex-wrap gap-1.5">
+                {labelOptions.map((label) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleLabel(label)}
+                    className={cn(
+                      'px-2.5 py-1 rounded-full text-xs border transition-colors',
+                      selectedLabels.includes(label)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'text-muted-foreground border-border hover:bg-secondary'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="report-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            <Label htmlFor="report-enabled">{t.reports.enabled}</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t.reports.cancel}</Button>
+          <Button onClick={handleSave} disabled={saving}>{t.reports.save}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { useAuthStore } from '@/store/authStore';
+import {
+  filtersToViewDefinition,
+  matchRelativeRange,
+  resolveViewRange,
+  saveView,
+  setDefaultView,
+  toViewRange,
+} from '@/utils/savedViews';
+import { RELATIVE_RANGES, type RelativeRange, type SavedView } from '@/types';
+
+const FIXED_RANGE = '__fixed__';
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  view?: SavedView; // Edit this view; save the current filters as a new one when omitted
+}
+
+/**
+ * Save the current filters as a named view, or rename and re-share an
+ * existing one (its filters stay as saved)
+ */
+export function SaveViewDialog({ open, onOpenChange, view }: SaveViewDialogProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { filters, chartKPI } = useDashboardStore();
+  const { profile, refreshProfile } = useAuthStore();
+  const [name, setName] = useState('');
+  const [range, setRange] = useState<string>(FIXED_RANGE);
+  const [shared, setShared] = useState(false);
+  const [isDefault, setIsDefault] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const wasDefault = !!view && profile?.defaultViewId === view.id;
+  const fixedRange = view ? resolveViewRange(view.definition.dateRange) : filters.dateRange;
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(view?.name ?? '');
+    if (view) {
+      setRange(view.definition.dateRange.type === 'relative' ? view.definition.dateRange.range : FIXED_RANGE);
+    } else {
+      // Store the range relative when it matches one today, e.g. a "last month" preset
+      setRange(matchRelativeRange(filters.dateRange) ?? FIXED_RANGE);
+    }
+    setShared(view?.shared ?? false);
+    setIsDefault(wasDefault);
+  }, [open, view, filters.dateRange, wasDefault]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: t.savedViews.nameRequired, variant: 'destructive' });
+      return;
+    }
+
+    const relativeRange = range === FIXED_RANGE ? null : (range as RelativeRange);
+    const definition = view
+      ? { ...view.definition, dateRange: toViewRange(relativeRange, fixedRange) }
+      : filtersToViewDefinition(filters, chartKPI, relativeRange);
+
+    setSaving(true);
+    try {
+      const saved = await saveView({ name: name.trim(), definition, shared }, view?.id);
+      if (isDefault !== wasDefault) {
+        await setDefaultView(isDefault ? saved.id : null);
+        await refreshProfile();
+      }
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      onOpenChange(false);
+    } catch (e) {
+      toast({
+        title: t.savedViews.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{view ? t.savedViews.editView : t.savedViews.saveView}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="view-name">{t.savedViews.name}</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t.savedViews.namePlaceholder}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>{t.savedViews.dateRange}</Label>
+            <Select value={range} onValueChange={setRange}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {RELATIVE_RANGES.map((r) => (
+                  <SelectItem key={r} value={r}>{t.savedViews.ranges[r]}</SelectItem>
+                ))}
+                <SelectItem value={FIXED_RANGE}>
+                  {t.savedViews.fixedDates} ({format(fixedRange.start, 'd MMM yyyy')} - {format(fixedRange.end, 'd MMM yyyy')})
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {range === FIXED_RANGE ? t.savedViews.fixedHint : t.savedViews.relativeHint}
+            </p>
+          </div>
+
+          {!view && <p className="text-xs text-muted-foreground">{t.savedViews.includesHint}</p>}
+
+          <div className="flex items-center gap-2">
+            <Switch id="view-shared" checked={shared} onCheckedChange={setShared} />
+            <Label htmlFor="view-shared">{t.savedViews.share}</Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="view-default" checked={isDefault} onCheckedChange={setIsDefault} />
+            <Label htmlFor="view-default">{t.savedViews.useAsDefault}</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t.savedViews.cancel}</Button>
+          <Button onClick={handleSave} disabled={saving}>{t.savedViews.save}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Bookmark, MoreHorizontal, Pencil, Plus, Star, Trash2, Users } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import { deleteSavedView, setDefaultView } from '@/utils/savedViews';
+import { SaveViewDialog } from './SaveViewDialog';
+import type { SavedView } from '@/types';
+
+/**
+ * Saved views in the sidebar: own views and views shared by teammates
+ */
+export function SavedViewsList() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { views, applyView } = useSavedViews();
+  const { session, profile, refreshProfile } = useAuthStore();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingView, setEditingView] = useState<SavedView | undefined>();
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e) {
+      toast({
+        title: t.savedViews.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    }
+    queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+    refreshProfile();
+  };
+
+  const openDialog = (view?: SavedView) => {
+    setEditingView(view);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border shrink-0">
+      <div className="flex items-center justify-between px-4 mb-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          {t.savedViews.title}
+        </span>
+        <button
+          type="button"
+          onClick={() => openDialog()}
+          title={t.savedViews.saveView}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="max-h-40 overflow-y-auto space-y-0.5">
+        {views.length === 0 && (
+          <p className="px-4 py-1 text-xs text-muted-foreground">{t.savedViews.noViews}</p>
+        )}
+        {views.map((view) => {
+          const isOwn = view.ownerId === session?.user.id;
+          const isDefault = profile?.defaultViewId === view.id;
+
+          return (
+            <div
+              key={view.id}
+              className="group flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm text-muted-foreground hover:bg-secondary hover:text-foreground"
+            >
+              <button
+                type="button"
+                onClick={() => applyView(view)}
+                className="flex-1 flex items-center gap-2 min-w-0 text-left"
+              >
+                <Bookmark className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate">{view.name}</span>
+                {isDefault && <Star className="w-3 h-3 shrink-0 fill-warning text-warning" />}
+                {!isOwn && <Users className="w-3 h-3 shrink-0" aria-label={t.savedViews.sharedByTeammate} />}
+              </button>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100">
+                  <MoreHorizontal className="w-4 h-4" />
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => runAction(() => setDefaultView(isDefault ? null : view.id))}>
+                    <Star className="w-4 h-4 mr-2" />
+                    {isDefault ? t.savedViews.clearDefault : t.savedViews.setDefault}
+                  </DropdownMenuItem>
+                  {isOwn && (
+                    <>
+                      <DropdownMenuItem onClick={() => openDialog(view)}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        {t.savedViews.edit}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => runAction(() => deleteSavedView(view.id))}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        {t.savedViews.delete}
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          );
+        })}
+      </div>
+
+      <SaveViewDialog open={dialogOpen} onOpenChange={setDialogOpen} view={editingView} />
+    </div>
+  );
+}
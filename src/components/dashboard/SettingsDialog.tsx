@@ -13,6 +13,13 @@ import { Label } from '@/components/ui/label';
 import { Settings, ExternalLink, Check } from 'lucide-react';
 import { useDashboardStore } from '@/store/dashboardStore';
 import { toast } from '@/hooks/use-toast';
+import { ArchiveSources } from './ArchiveSources';
+import { FileImport } from './FileImport';
+import { FxRateSources } from './FxRateSources';
+import { FunnelSources } from './FunnelSources';
+import { WeatherSources } from './WeatherSources';
+import { MarginSettings } from './MarginSettings';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
 
 interface SettingsDialogProps {
   trigger?: React.ReactNode;
@@ -53,7 +60,7 @@ export function SettingsDialog({ trigger }: SettingsDialogProps) {
           </button>
         )}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Data Source Settings</DialogTitle>
           <DialogDescription>
@@ -85,11 +92,11 @@ export function SettingsDialog({ trigger }: SettingsDialogProps) {
               </li>
               <li className="flex items-start gap-2">
                 <Check className="w-3 h-3 mt-0.5 text-profit" />
-                <span><strong>Tab names:</strong> Must be exactly <code className="bg-muted px-1 rounded">Daily_Input</code> and optionally <code className="bg-muted px-1 rounded">Targets</code></span>
+                <span><strong>Tab names:</strong> Must be exactly <code className="bg-muted px-1 rounded">Daily_Input</code> and optionally <code className="bg-muted px-1 rounded">Targets</code>, <code className="bg-muted px-1 rounded">Currencies</code>, <code className="bg-muted px-1 rounded">FX_Rates</code>, <code className="bg-muted px-1 rounded">Margins</code>, <code className="bg-muted px-1 rounded">Ad_Accounts</code> (Platform, Account_ID, Label for the Meta and Google Ads connectors) and <code className="bg-muted px-1 rounded">Shopify_Stores</code> (Store, Label, App_Sources for the Shopify connector); archives as <code className="bg-muted px-1 rounded">Daily_2024</code>, <code className="bg-muted px-1 rounded">Daily_2025</code></span>
               </li>
               <li className="flex items-start gap-2">
                 <Check className="w-3 h-3 mt-0.5 text-profit" />
-                <span><strong>Headers:</strong> Date, Label, Rev_Web, Rev_App, Orders, Orders_App, Conv_FB, Conv_Google, Spend_FB, Spend_Google</span>
+                <span><strong>Headers:</strong> Other names can be mapped below. Expected: Date, Label, Rev_Web, Rev_App, Orders, Orders_App, Conv_FB, Conv_Google, Spend_FB, Spend_Google (optional: LastClick_FB, LastClick_Google for last-click attribution; Returned_Revenue, Returned_Orders for returns; Sessions_Web, Sessions_App, AddToCart_Web, AddToCart_App, Checkouts_Web, Checkouts_App for the funnel). Other ad platforms are picked up from extra Spend_&lt;Platform&gt; and Conv_&lt;Platform&gt; columns, e.g. Spend_TikTok and Conv_TikTok</span>
               </li>
               <li className="flex items-start gap-2">
                 <Check className="w-3 h-3 mt-0.5 text-profit" />
@@ -106,6 +113,27 @@ export function SettingsDialog({ trigger }: SettingsDialogProps) {
             </a>
           </div>
           
+          {/* Header mapping for non-standard sheets */}
+          <ColumnMappingWizard />
+          
+          {/* Prior-year archives */}
+          <ArchiveSources />
+          
+          {/* CSV / XLSX imports */}
+          <FileImport />
+          
+          {/* Label currencies and FX rates */}
+          <FxRateSources />
+          
+          {/* GA4 exports for the sessions / add-to-cart / checkout funnel */}
+          <FunnelSources />
+          
+          {/* Daily temperature and precipitation per country */}
+          <WeatherSources />
+          
+          {/* VAT, returns, COGS and shipping per label */}
+          <MarginSettings />
+          
           {/* Current Status */}
           <div className="flex items-center gap-2 text-sm">
             <div className={`w-2 h-2 rounded-full ${googleSheetId ? 'bg-profit' : 'bg-muted-foreground'}`} />
@@ -7,6 +7,12 @@ import {
   ChevronRight,
   Sparkles,
   Award,
+  Undo2,
+  Bell,
+  Target,
+  FileText,
+  LogOut,
+  Users,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { LiveIndicator } from './MetricCard';
@@ -14,6 +20,10 @@ import { SettingsDialog } from './SettingsDialog';
 import { LanguageToggle } from './LanguageToggle';
 import { useTranslation } from '@/hooks/useTranslation';
 import { AIChatWidget } from './AIChatWidget';
+import { SavedViewsList } from './SavedViewsList';
+import { Button } from '@/components/ui/button';
+import { useAuthStore } from '@/store/authStore';
+import { canManage } from '@/utils/userProfiles';
 
 interface SidebarProps {
   currentPage: string;
@@ -22,12 +32,18 @@ interface SidebarProps {
 
 export function DashboardSidebar({ currentPage, onNavigate }: SidebarProps) {
   const { t } = useTranslation();
+  const { session, profile, signOut } = useAuthStore();
   
   const navItems = [
     { id: 'dashboard', label: t.sidebar.commandCenter, icon: LayoutDashboard },
     { id: 'revenue', label: t.sidebar.revenueAnalysis, icon: TrendingUp },
     { id: 'marketing', label: t.sidebar.marketingBattle, icon: Megaphone },
     { id: 'brands', label: t.sidebar.brandBenchmarking || 'Brand Benchmarking', icon: Award },
+    { id: 'returns', label: t.sidebar.returns, icon: Undo2 },
+    { id: 'alerts', label: t.sidebar.alerts, icon: Bell },
+    ...(canManage(profile) ? [{ id: 'targets', label: t.sidebar.targets, icon: Target }] : []),
+    ...(canManage(profile) ? [{ id: 'reports', label: t.sidebar.reports, icon: FileText }] : []),
+    ...(profile?.role === 'admin' ? [{ id: 'users', label: t.sidebar.users, icon: Users }] : []),
   ];
 
   return (
@@ -73,6 +89,8 @@ export function DashboardSidebar({ currentPage, onNavigate }: SidebarProps) {
           })}
         </div>
         
+        <SavedViewsList />
+        
         {/* AI Chat Widget - fills remaining space */}
         <AIChatWidget />
       </nav>
@@ -84,6 +102,14 @@ export function DashboardSidebar({ currentPage, onNavigate }: SidebarProps) {
           <div className="flex items-center gap-1">
             <LanguageToggle />
             <SettingsDialog />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={signOut}
+              title={session?.user.email ? `${t.auth.signOut} (${session.user.email})` : t.auth.signOut}
+            >
+              <LogOut className="w-4 h-4" />
+            </Button>
           </div>
         </div>
       </div>
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { CloudSun, FileUp, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDataSourceStore } from '@/store/dataSourceStore';
+import { useFashionData } from '@/hooks/useFashionData';
+import { readTabularFile } from '@/utils/fileImport';
+import { getLabelCountry, parseWeatherRows, WEATHER_LOCATIONS } from '@/utils/weather';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Weather files with daily temperature and precipitation per country, next to
+ * the days the sync-weather connector stores
+ */
+export function WeatherSources() {
+  const { weatherFiles, addWeatherFile, removeWeatherFile } = useDataSourceStore();
+  const { data } = useFashionData();
+  const [country, setCountry] = useState('');
+
+  // Default to the country of the first label that has one
+  const labelCountry = useMemo(
+    () =>
+      (data?.metrics || [])
+        .map((m) => getLabelCountry(m.label))
+        .find((c) => c !== null && WEATHER_LOCATIONS.some((l) => l.country === c)),
+    [data?.metrics]
+  );
+  const selectedCountry = country || labelCountry || WEATHER_LOCATIONS[0].country;
+  const weatherDays = data?.weather.length ?? 0;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const tabular = await readTabularFile(file);
+      const { days, errors } = parseWeatherRows(tabular.rows, selectedCountry);
+      if (days.length === 0) {
+        toast({
+          title: 'No weather data found',
+          description: `${file.name} needs Date and Temperature columns, optionally Country and Precipitation.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      addWeatherFile({ fileName: file.name, country: selectedCountry, rows: tabular.rows });
+      toast({
+        title: 'Weather data added',
+        description: `${days.length} days from ${file.name} added${errors > 0 ? `, ${errors} rows skipped` : ''}.`,
+      });
+    } catch (error) {
+      console.warn('Failed to read file:', error);
+      toast({
+        title: 'Could not read file',
+        description: `${file.name} is not a valid CSV or XLSX file.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Weather</Label>
+      <p className="text-xs text-muted-foreground">
+        Upload daily weather with Date, Temperature (°C) and Precipitation (mm), and a Country column or the country picked below. Labels are matched to a country by their suffix (FMH.NL → NL). Uploaded days replace the connector's for the same date and country.
+      </p>
+
+      {weatherFiles.map((file) => (
+        <div
+          key={file.id}
+          className="flex items-center justify-between gap-2 rounded-lg border border-border px-3 py-2 text-sm"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <CloudSun className="w-4 h-4 text-muted-foreground shrink-0" />
+            <span className="truncate">{file.fileName}</span>
+            <span className="text-xs text-muted-foreground shrink-0">{file.country}</span>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeWeatherFile(file.id)}>
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Select value={selectedCountry} onValueChange={setCountry}>
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEATHER_LOCATIONS.map((l) => (
+              <SelectItem key={l.country} value={l.country}>{l.country} · {l.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" asChild>
+          <label className="cursor-pointer">
+            <FileUp className="w-3.5 h-3.5 mr-1" /> Upload weather
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+          </label>
+        </Button>
+      </div>
+
+      {weatherDays > 0 && (
+        <p className="text-xs text-muted-foreground">{weatherDays} days of weather loaded.</p>
+      )}
+    </div>
+  );
+}
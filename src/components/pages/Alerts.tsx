@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell, History, Mail, Pencil, Play, Plus, Trash2, Webhook } from 'lucide-react';
+import { format } from 'date-fns';
+import { BentoCard } from '@/components/dashboard/BentoGrid';
+import { StatusBadge } from '@/components/dashboard/MetricCard';
+import { AlertRuleDialog } from '@/components/dashboard/AlertRuleDialog';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useFilteredData } from '@/hooks/useFashionData';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import { canManage, canViewAllLabels } from '@/utils/userProfiles';
+import {
+  deleteAlertRule,
+  evaluateAlerts,
+  fetchAlertEvents,
+  fetchAlertRules,
+  formatAlertValue,
+  setAlertRuleEnabled,
+} from '@/utils/alerts';
+import type { AlertRule, AlertStatus } from '@/types';
+
+const STATUS_BADGE: Record<AlertStatus, 'positive' | 'negative' | 'neutral' | 'warning'> = {
+  pending: 'neutral',
+  ok: 'positive',
+  firing: 'negative',
+  no_data: 'warning',
+  error: 'negative',
+};
+
+export function Alerts() {
+  const { availableLabels } = useFilteredData();
+  const { t, interpolate } = useTranslation();
+  const queryClient = useQueryClient();
+  const profile = useAuthStore((s) => s.profile);
+  const canEdit = canManage(profile);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | undefined>();
+  const [evaluating, setEvaluating] = useState(false);
+
+  const { data: rules = [] } = useQuery({ queryKey: ['alert-rules'], queryFn: fetchAlertRules });
+  const { data: events = [] } = useQuery({ queryKey: ['alert-events'], queryFn: () => fetchAlertEvents() });
+
+  const ruleNames = new Map(rules.map((r) => [r.id, r.name]));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    queryClient.invalidateQueries({ queryKey: ['alert-events'] });
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e) {
+      toast({
+        title: t.alerts.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    }
+    refresh();
+  };
+
+  const handleEvaluate = async () => {
+    setEvaluating(true);
+    try {
+      const result = await evaluateAlerts();
+      toast({ title: interpolate(t.alerts.evaluated, { evaluated: result.evaluated, fired: result.fired }) });
+    } catch (e) {
+      toast({
+        title: t.alerts.evaluateFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setEvaluating(false);
+      refresh();
+    }
+  };
+
+  const openDialog = (rule?: AlertRule) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const describeCondition = (rule: AlertRule) => {
+    const condition = `${t.alerts.metrics[rule.metric]} ${t.alerts[rule.operator]} ${formatAlertValue(rule.metric, rule.threshold)}`;
+    return rule.metric !== 'pacing' && rule.consecutiveDays > 1
+      ? `${condition}, ${interpolate(t.alerts.daysRunning, { count: rule.consecutiveDays })}`
+      : condition;
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Rules */}
+      <BentoCard
+        title={t.alerts.rules}
+        subtitle={t.alerts.rulesSubtitle}
+        icon={<Bell className="w-5 h-5" />}
+        action={canEdit && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleEvaluate} disabled={evaluating || rules.length === 0}>
+              <Play className="w-3.5 h-3.5 mr-1" /> {t.alerts.evaluateNow}
+            </Button>
+            <Button size="sm" onClick={() => openDialog()}>
+              <Plus className="w-3.5 h-3.5 mr-1" /> {t.alerts.newRule}
+            </Button>
+          </div>
+        )}
+      >
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.alerts.noRules}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.alerts.name}</TableHead>
+                <TableHead>{t.alerts.condition}</TableHead>
+                <TableHead>{t.alerts.delivery}</TableHead>
+                <TableHead>{t.alerts.status}</TableHead>
+                <TableHead>{t.alerts.lastEvaluated}</TableHead>
+                <TableHead>{t.alerts.enabled}</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell className="text-sm">
+                    {describeCondition(rule)}
+                    <span className="block text-xs text-muted-foreground">{rule.label ?? t.alerts.allLabels}</span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1.5 text-muted-foreground">
+                      {rule.webhookUrl && <Webhook className="w-4 h-4" />}
+                      {rule.emailTo && <Mail className="w-4 h-4" />}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={STATUS_BADGE[rule.lastStatus]}>
+                      {t.alerts.statuses[rule.lastStatus]}
+                    </StatusBadge>
+                    {rule.lastValue !== null && (
+                      <span className="block text-xs text-muted-foreground mt-1 tabular-nums">
+                        {formatAlertValue(rule.metric, rule.lastValue)}
+                      </span>
+                    )}
+                    {rule.lastError && (
+                      <span className="block text-xs text-destructive mt-1">{rule.lastError}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground tabular-nums">
+                    {rule.lastEvaluatedAt ? format(rule.lastEvaluatedAt, 'd MMM yyyy HH:mm') : t.alerts.never}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.enabled}
+                      disabled={!canEdit}
+                      onCheckedChange={(checked) => runAction(() => setAlertRuleEnabled(rule.id, checked))}
+                    />
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" title={t.alerts.editRule} onClick={() => openDialog(rule)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t.alerts.delete}
+                          onClick={() => runAction(() => deleteAlertRule(rule.id))}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </BentoCard>
+
+      {/* Firing history */}
+      <BentoCard
+        title={t.alerts.history}
+        subtitle={t.alerts.historySubtitle}
+        icon={<History className="w-5 h-5" />}
+      >
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.alerts.noHistory}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.alerts.firedAt}</TableHead>
+                <TableHead>{t.alerts.name}</TableHead>
+                <TableHead>{t.alerts.message}</TableHead>
+                <TableHead>{t.alerts.delivery}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-sm tabular-nums whitespace-nowrap">
+                    {format(event.firedAt, 'd MMM yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell className="font-medium">{ruleNames.get(event.ruleId) ?? '—'}</TableCell>
+                  <TableCell className="text-sm">{event.message}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1.5 text-muted-foreground">
+                      {event.webhookDelivered && <Webhook className="w-4 h-4" />}
+                      {event.emailDelivered && <Mail className="w-4 h-4" />}
+                      {!event.webhookDelivered && !event.emailDelivered && (
+                        <span className="text-xs">{t.alerts.notDelivered}</span>
+                      )}
+                    </div>
+                    {event.deliveryError && (
+                      <span className="block text-xs text-destructive mt-1">{event.deliveryError}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </BentoCard>
+
+      <AlertRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        rule={editingRule}
+        labels={availableLabels}
+        allowAllLabels={canViewAllLabels(profile)}
+        onSaved={refresh}
+      />
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Trophy, TrendingUp, DollarSign } from 'lucide-react';
+import { Trophy, TrendingUp, DollarSign, CloudSun } from 'lucide-react';
 import { BentoCard } from '@/components/dashboard/BentoGrid';
 import { BrandPodium } from '@/components/charts/BrandPodium';
+import { benchmarksToTable, recordsToTable } from '@/utils/dataExport';
+import { calculateWeatherSensitivity, MIN_WEATHER_DAYS, RAINY_DAY_MM } from '@/utils/weather';
 import { useFilteredData } from '@/hooks/useFashionData';
 import { useDashboardStore } from '@/store/dashboardStore';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
+import { BENCHMARK_KPIS, type BenchmarkKPI } from '@/types';
 import {
   calculateBrandBenchmarks,
-  formatCurrency,
   formatROAS,
   formatPercentage,
 } from '@/utils/analytics';
@@ -20,12 +23,21 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { cn } from '@/lib/utils';
 
 export function BrandBenchmarking() {
-  const { metrics, allMetrics } = useFilteredData();
+  const { metrics, allMetrics, weather } = useFilteredData();
   const { filters } = useDashboardStore();
-  const { t } = useTranslation();
+  const { t, interpolate } = useTranslation();
+  const { formatCurrency } = useCurrencyFormat();
+  const [rankBy, setRankBy] = useState<BenchmarkKPI>('revenue');
 
   // Calculate Comparison Metrics (same logic as RevenueDeepDive)
   const previousMetrics = useMemo(() => {
@@ -58,6 +70,16 @@ export function BrandBenchmarking() {
     return calculateBrandBenchmarks(metrics, previousMetrics);
   }, [metrics, previousMetrics]);
 
+  const weatherSensitivity = useMemo(
+    () => calculateWeatherSensitivity(metrics, weather),
+    [metrics, weather]
+  );
+
+  const rankedData = useMemo(
+    () => [...benchmarkData].sort((a, b) => b[rankBy] - a[rankBy]),
+    [benchmarkData, rankBy]
+  );
+
   // Find Winners
   const topRevenue = benchmarkData[0]; // Already sorted by revenue
   const topRoas = [...benchmarkData].sort((a, b) => b.roas - a.roas)[0];
@@ -162,14 +184,33 @@ export function BrandBenchmarking() {
         title={tt?.thePodium || 'The Podium'}
         icon={<Trophy className="w-5 h-5" />}
         className="min-h-[500px]"
+        exportData={benchmarksToTable(benchmarkData)}
+        exportChart
+        action={
+          <Select value={rankBy} onValueChange={(v) => setRankBy(v as BenchmarkKPI)}>
+            <SelectTrigger className="h-8 w-[170px] text-xs" title={tt.rankBy}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BENCHMARK_KPIS.map((kpi) => (
+                <SelectItem key={kpi} value={kpi} className="text-xs">
+                  {tt[kpi]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        }
       >
         <div className="mt-4">
-          <BrandPodium data={benchmarkData} />
+          <BrandPodium data={benchmarkData} kpi={rankBy} />
         </div>
       </BentoCard>
 
       {/* Detailed Table */}
-      <BentoCard title={tt?.detailedBreakdown || 'Detailed Breakdown'}>
+      <BentoCard
+        title={tt?.detailedBreakdown || 'Detailed Breakdown'}
+        exportData={benchmarksToTable(rankedData)}
+      >
         <div className="mt-4 overflow-x-auto">
           <Table>
             <TableHeader>
@@ -190,13 +231,19 @@ export function BrandBenchmarking() {
                 <TableHead className="text-right">
                   {tt?.aov || 'AOV'}
                 </TableHead>
+                <TableHead className="text-right">{tt.netRevenue}</TableHead>
+                <TableHead className="text-right">{tt.grossMargin}</TableHead>
+                <TableHead className="text-right">
+                  {tt.contributionMarginAfterCogs}
+                </TableHead>
+                <TableHead className="text-right">{tt.poas}</TableHead>
                 <TableHead className="text-right">
                   {tt?.growth || 'Growth'}
                 </TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {benchmarkData.map((d) => (
+              {rankedData.map((d) => (
                 <TableRow key={d.label}>
                   <TableCell className="font-medium">{d.label}</TableCell>
                   <TableCell className="text-right tabular-nums">
@@ -214,11 +261,28 @@ export function BrandBenchmarking() {
                     {formatROAS(d.roas)}
                   </TableCell>
                   <TableCell className="text-right tabular-nums">
-                    {d.orders.toLocaleString()}
+                    {Math.round(d.orders).toLocaleString()}
                   </TableCell>
                   <TableCell className="text-right tabular-nums">
                     {formatCurrency(d.aov)}
                   </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCurrency(d.netRevenue)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatCurrency(d.grossMargin)}
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      'text-right tabular-nums',
+                      d.contributionMarginAfterCogs < 0 ? 'text-spend' : ''
+                    )}
+                  >
+                    {formatCurrency(d.contributionMarginAfterCogs)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatROAS(d.poas)}
+                  </TableCell>
                   <TableCell
                     className={cn(
                       'text-right tabular-nums font-medium',
@@ -233,6 +297,70 @@ export function BrandBenchmarking() {
           </Table>
         </div>
       </BentoCard>
+
+      {/* Weather sensitivity */}
+      <BentoCard
+        title={tt.weatherSensitivity}
+        subtitle={tt.weatherSensitivitySubtitle}
+        icon={<CloudSun className="w-5 h-5" />}
+        exportData={recordsToTable(weatherSensitivity.map((d) => ({ ...d })))}
+      >
+        {weatherSensitivity.length === 0 ? (
+          <p className="mt-4 text-sm text-muted-foreground">
+            {interpolate(tt.noWeatherData, { days: MIN_WEATHER_DAYS })}
+          </p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{tt.brand}</TableHead>
+                  <TableHead>{tt.country}</TableHead>
+                  <TableHead className="text-right">{tt.days}</TableHead>
+                  <TableHead className="text-right">{tt.temperatureCorrelation}</TableHead>
+                  <TableHead className="text-right">{tt.revenuePerDegree}</TableHead>
+                  <TableHead className="text-right">{tt.precipitationCorrelation}</TableHead>
+                  <TableHead className="text-right" title={interpolate(tt.rainyDayHint, { mm: RAINY_DAY_MM })}>
+                    {tt.rainyDayEffect}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {weatherSensitivity.map((d) => (
+                  <TableRow key={d.label}>
+                    <TableCell className="font-medium">{d.label}</TableCell>
+                    <TableCell>{d.country}</TableCell>
+                    <TableCell className="text-right tabular-nums">{d.days}</TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right tabular-nums font-medium',
+                        Math.abs(d.temperatureCorrelation) >= 0.3 &&
+                          (d.temperatureCorrelation >= 0 ? 'text-profit' : 'text-spend')
+                      )}
+                    >
+                      {d.temperatureCorrelation.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatPercentage(d.revenuePerDegree)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {d.precipitationCorrelation.toFixed(2)}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right tabular-nums',
+                        d.rainyDayEffect !== null && (d.rainyDayEffect >= 0 ? 'text-profit' : 'text-spend')
+                      )}
+                    >
+                      {d.rainyDayEffect === null ? '–' : formatPercentage(d.rainyDayEffect)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </BentoCard>
     </div>
   );
 }
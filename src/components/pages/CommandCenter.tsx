@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   TrendingUp, 
@@ -7,14 +7,19 @@ import {
   Target,
   Smartphone,
   Monitor,
+  Activity,
 } from 'lucide-react';
 import { BentoGrid, BentoCard, gridSpans } from '@/components/dashboard/BentoGrid';
 import { MetricCard, StatusBadge } from '@/components/dashboard/MetricCard';
 import { PacingGauge, ROASGauge } from '@/components/dashboard/Gauges';
 import { SmartTrendChart } from '@/components/charts/SmartTrendChart';
-import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
 import { useFilteredData } from '@/hooks/useFashionData';
+import { useAnomalies } from '@/hooks/useAnomalies';
+import { useForecast } from '@/hooks/useForecast';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
 import { 
   calculatePacing, 
   calculateROASStatus, 
@@ -22,17 +27,45 @@ import {
   aggregateByDate,
   formatChartData,
   formatCurrency,
+  formatPercentage,
   calculateYoYComparison,
 } from '@/utils/analytics';
+import { getBrandAbbreviation } from '@/utils/dataHarmonizer';
+import { weatherByDate, withWeather } from '@/utils/weather';
+import { chartDataToTable, recordsToTable } from '@/utils/dataExport';
 import { useDashboardStore } from '@/store/dashboardStore';
 import { cn } from '@/lib/utils';
-import type { ChartKPI } from '@/types';
+import { format } from 'date-fns';
+import { CHART_KPIS, WEATHER_OVERLAYS, type AnomalyMetric, type ChartKPI, type Currency, type WeatherOverlay } from '@/types';
+
+const MAX_LISTED_ANOMALIES = 8;
+
+function formatAnomalyValue(metric: AnomalyMetric, value: number, currency: Currency): string {
+  switch (metric) {
+    case 'orders':
+      return Math.round(value).toString();
+    case 'mer':
+      return `${(value * 100).toFixed(1)}%`;
+    default:
+      return formatCurrency(value, false, currency);
+  }
+}
 
 export function CommandCenter() {
-  const { metrics, target, allMetrics, totalRevenueAllLabels, events } = useFilteredData();
-  const { filters } = useDashboardStore();
-  const { t } = useTranslation();
-  const [selectedKPI, setSelectedKPI] = useState<ChartKPI>('revenue');
+  const { metrics, target, allMetrics, totalRevenueAllLabels, events, weather } = useFilteredData();
+  const {
+    filters,
+    anomalySettings,
+    setAnomalyThreshold,
+    chartKPI: selectedKPI,
+    setChartKPI: setSelectedKPI,
+    weatherOverlay,
+    setWeatherOverlay,
+  } = useDashboardStore();
+  const anomalies = useAnomalies();
+  const forecast = useForecast();
+  const { t, interpolate } = useTranslation();
+  const { currency } = useCurrencyFormat();
   
   // Aggregate data by date
   const aggregatedMetrics = useMemo(() => {
@@ -42,8 +75,8 @@ export function CommandCenter() {
   // Calculate pacing
   const pacing = useMemo(() => {
     if (!target) return null;
-    return calculatePacing(metrics, target);
-  }, [metrics, target]);
+    return calculatePacing(metrics, target, undefined, forecast);
+  }, [metrics, target, forecast]);
   
   // Calculate ROAS
   const roasStatus = useMemo(() => {
@@ -106,10 +139,11 @@ export function CommandCenter() {
     );
   }, [aggregatedMetrics, allMetrics, filters.enableYoY, filters.alignByDayOfWeek, filters.comparisonEnabled, filters.comparisonRange, filters.labels, currentYear]);
   
-  // Chart data
+  // Chart data, with the weather of the countries of the labels in view
   const chartData = useMemo(() => {
-    return formatChartData(aggregatedMetrics, yoyComparison);
-  }, [aggregatedMetrics, yoyComparison]);
+    const labels = [...new Set(metrics.map((m) => m.label))];
+    return withWeather(formatChartData(aggregatedMetrics, yoyComparison), weatherByDate(weather, labels));
+  }, [aggregatedMetrics, yoyComparison, metrics, weather]);
   
   // Summary stats
   const totals = useMemo(() => {
@@ -218,7 +252,7 @@ export function CommandCenter() {
             )
           }
         >
-          {pacing && <PacingGauge pacing={pacing} />}
+          {pacing && <PacingGauge pacing={pacing} quarterForecast={forecast?.quarter} />}
         </BentoCard>
         
         {/* ROAS Gauge */}
@@ -237,6 +271,10 @@ export function CommandCenter() {
           subtitle={t.commandCenter.webVsApp}
           icon={<Smartphone className="w-5 h-5" />}
           className="lg:col-start-4 lg:row-start-1 lg:row-span-2"
+          exportData={recordsToTable([
+            { channel: 'web', revenue: channelSplit.web, share: channelSplit.webPercentage },
+            { channel: 'app', revenue: channelSplit.app, share: channelSplit.appPercentage },
+          ])}
         >
           <div className="space-y-4">
             <div className="flex items-center gap-4">
@@ -280,7 +318,7 @@ export function CommandCenter() {
                   <span className="text-sm text-muted-foreground">{t.commandCenter.web}</span>
                 </div>
                 <p className="text-lg font-semibold tabular-nums">
-                  {formatCurrency(channelSplit.web, true)}
+                  {formatCurrency(channelSplit.web, true, currency)}
                 </p>
               </div>
               <div className="space-y-1">
@@ -289,7 +327,7 @@ export function CommandCenter() {
                   <span className="text-sm text-muted-foreground">{t.commandCenter.app}</span>
                 </div>
                 <p className="text-lg font-semibold tabular-nums">
-                  {formatCurrency(channelSplit.app, true)}
+                  {formatCurrency(channelSplit.app, true, currency)}
                 </p>
               </div>
             </div>
@@ -319,29 +357,39 @@ export function CommandCenter() {
         title={t.commandCenter.thePulse}
         subtitle={t.commandCenter.dailyRevenueTrend}
         icon={<TrendingUp className="w-5 h-5" />}
+        exportData={chartDataToTable(chartData)}
+        exportChart
         action={
           <div className="flex items-center gap-4">
             {/* KPI Selector */}
-            <ToggleGroup 
-              type="single" 
-              value={selectedKPI} 
-              onValueChange={(v) => v && setSelectedKPI(v as ChartKPI)}
-              size="sm"
-              className="bg-secondary/50 rounded-lg p-0.5"
-            >
-              <ToggleGroupItem value="revenue" className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm">
-                {t.charts.revenue}
-              </ToggleGroupItem>
-              <ToggleGroupItem value="aov" className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm">
-                {t.charts.aov}
-              </ToggleGroupItem>
-              <ToggleGroupItem value="spend" className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm">
-                {t.charts.spend}
-              </ToggleGroupItem>
-              <ToggleGroupItem value="roas" className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm">
-                {t.charts.roas}
-              </ToggleGroupItem>
-            </ToggleGroup>
+            <Select value={selectedKPI} onValueChange={(v) => setSelectedKPI(v as ChartKPI)}>
+              <SelectTrigger className="h-8 w-[160px] text-xs" title={t.charts.kpi}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHART_KPIS.map((kpi) => (
+                  <SelectItem key={kpi} value={kpi} className="text-xs">
+                    {t.charts[kpi]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            {/* Weather overlay */}
+            {weather.length > 0 && (
+              <Select value={weatherOverlay} onValueChange={(v) => setWeatherOverlay(v as WeatherOverlay)}>
+                <SelectTrigger className="h-8 w-[140px] text-xs" title={t.charts.weatherOverlay}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEATHER_OVERLAYS.map((overlay) => (
+                    <SelectItem key={overlay} value={overlay} className="text-xs">
+                      {overlay === 'none' ? t.charts.noWeather : t.charts[overlay]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             
             {/* Year legend */}
             {(filters.enableYoY || filters.comparisonEnabled) && (
@@ -367,8 +415,79 @@ export function CommandCenter() {
           currentYear={currentYear}
           comparisonYear={comparisonYear}
           selectedKPI={selectedKPI}
+          anomalies={anomalies}
+          forecast={forecast?.points}
+          weatherOverlay={weatherOverlay}
         />
       </BentoCard>
+      
+      {/* Anomalies */}
+      <BentoCard
+        title={t.anomalies.title}
+        subtitle={t.anomalies.subtitle}
+        icon={<Activity className="w-5 h-5" />}
+        action={
+          <div className="flex items-center gap-3 w-56">
+            <span className="text-xs text-muted-foreground whitespace-nowrap">{t.anomalies.sensitivity}</span>
+            <Slider
+              min={2}
+              max={6}
+              step={0.5}
+              value={[anomalySettings.threshold]}
+              onValueChange={([v]) => setAnomalyThreshold(v)}
+            />
+            <span className="text-xs font-semibold tabular-nums w-6 text-right">
+              {anomalySettings.threshold.toFixed(1)}
+            </span>
+          </div>
+        }
+      >
+        {anomalies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.anomalies.none}</p>
+        ) : (
+          <div className="space-y-2">
+            {[...anomalies]
+              .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+              .slice(0, MAX_LISTED_ANOMALIES)
+              .map((anomaly) => {
+                const deviation = anomaly.expected !== 0
+                  ? ((anomaly.value - anomaly.expected) / Math.abs(anomaly.expected)) * 100
+                  : 0;
+                return (
+                  <div
+                    key={`${anomaly.dateString}-${anomaly.label}-${anomaly.metric}`}
+                    className="flex items-center justify-between gap-4 rounded-lg bg-secondary/50 px-3 py-2 text-sm"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="tabular-nums text-muted-foreground w-14">
+                        {format(new Date(anomaly.date), 'd MMM')}
+                      </span>
+                      <span className="font-medium">{getBrandAbbreviation(anomaly.label) || anomaly.label}</span>
+                      <span className="text-muted-foreground">{t.anomalies.metrics[anomaly.metric]}</span>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0 tabular-nums">
+                      <span>{formatAnomalyValue(anomaly.metric, anomaly.value, currency)}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {t.anomalies.expected} {formatAnomalyValue(anomaly.metric, anomaly.expected, currency)}
+                      </span>
+                      <span className={cn(
+                        'text-xs font-semibold w-14 text-right',
+                        anomaly.zScore >= 0 ? 'text-profit' : 'text-spend'
+                      )}>
+                        {formatPercentage(deviation, 0)}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            {anomalies.length > MAX_LISTED_ANOMALIES && (
+              <p className="text-xs text-muted-foreground">
+                {interpolate(t.anomalies.andMore, { count: anomalies.length - MAX_LISTED_ANOMALIES })}
+              </p>
+            )}
+          </div>
+        )}
+      </BentoCard>
     </div>
   );
 }
@@ -2,217 +2,336 @@ import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Megaphone,
-  Facebook,
-  Chrome,
   DollarSign,
   MousePointer,
   ShoppingBag,
   TrendingUp,
+  Scale,
 } from 'lucide-react';
 import { BentoCard } from '@/components/dashboard/BentoGrid';
 import { StatusBadge } from '@/components/dashboard/MetricCard';
+import { PlatformIcon } from '@/components/dashboard/PlatformIcon';
 import { PlatformComparisonChart } from '@/components/charts/SmartTrendChart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Slider } from '@/components/ui/slider';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import { useFilteredData } from '@/hooks/useFashionData';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
+import { useDashboardStore } from '@/store/dashboardStore';
 import { 
   calculatePlatformComparison,
-  formatCurrency,
   formatROAS,
 } from '@/utils/analytics';
+import { applyAttribution, getFixedShares, getFixedWeight } from '@/utils/attribution';
+import { filterChannelsAndPlatforms } from '@/utils/channelFilter';
+import { recordsToTable } from '@/utils/dataExport';
+import { getPlatformMeta } from '@/utils/platforms';
+import { ATTRIBUTION_MODELS, type AttributionModel, type Platform, type PlatformComparison } from '@/types';
 import { cn } from '@/lib/utils';
 
+/**
+ * The platform with the best value, among those where it is meaningful
+ * (ROAS needs spend, CPA orders and CPC clicks)
+ */
+function findBest(
+  platforms: PlatformComparison[],
+  value: (p: PlatformComparison) => number,
+  lowerIsBetter = false
+): PlatformComparison | null {
+  let best: PlatformComparison | null = null;
+  for (const p of platforms) {
+    if (p.spend <= 0 || (lowerIsBetter && value(p) <= 0)) continue;
+    if (!best || (lowerIsBetter ? value(p) < value(best) : value(p) > value(best))) best = p;
+  }
+  return best;
+}
+
 export function MarketingBattle() {
-  const { metrics } = useFilteredData();
+  const { metrics, attributedMetrics, availableLabels, availablePlatforms } = useFilteredData();
+  const { attribution, filters, setAttributionModel, setFixedSplit } = useDashboardStore();
   const { t } = useTranslation();
+  const { formatCurrency } = useCurrencyFormat();
   
   const platformData = useMemo(() => {
     return calculatePlatformComparison(metrics);
   }, [metrics]);
   
-  const fbData = platformData.find(p => p.platform === 'facebook')!;
-  const googleData = platformData.find(p => p.platform === 'google')!;
+  // Same days and labels before the channel/platform filter, so every model
+  // splits web revenue over all platforms like the main attribution does
+  const periodMetrics = useMemo(() => {
+    const keys = new Set(metrics.map((m) => `${m.dateString}|${m.label}`));
+    return attributedMetrics.filter((m) => keys.has(`${m.dateString}|${m.label}`));
+  }, [metrics, attributedMetrics]);
+  
+  // Same period evaluated under every attribution model
+  const modelComparison = useMemo(() => {
+    return ATTRIBUTION_MODELS.map((model) => {
+      const comparison = calculatePlatformComparison(
+        filterChannelsAndPlatforms(applyAttribution(periodMetrics, { ...attribution, model }), filters)
+      );
+      return {
+        model,
+        platforms: new Map<Platform, PlatformComparison>(comparison.map((p) => [p.platform, p])),
+        roasWinner: findBest(comparison, (p) => p.roas)?.platform ?? null,
+      };
+    });
+  }, [periodMetrics, attribution, filters]);
   
-  const totalSpend = fbData.spend + googleData.spend;
-  const fbShareOfSpend = totalSpend > 0 ? (fbData.spend / totalSpend) * 100 : 0;
+  const totalSpend = platformData.reduce((sum, p) => sum + p.spend, 0);
+  const shareOfSpend = (p: PlatformComparison) => (totalSpend > 0 ? (p.spend / totalSpend) * 100 : 0);
   
   // Determine winner for each metric
-  const roasWinner = fbData.roas > googleData.roas ? 'facebook' : 'google';
-  const cpaWinner = fbData.cpa < googleData.cpa ? 'facebook' : 'google';
-  const cpcWinner = fbData.cpc < googleData.cpc ? 'facebook' : 'google';
+  const roasWinner = findBest(platformData, (p) => p.roas);
+  const cpaWinner = findBest(platformData, (p) => p.cpa, true);
+  const cpcWinner = findBest(platformData, (p) => p.cpc, true);
+  
+  const winners = [
+    { title: t.marketingBattle.roasWinner, icon: TrendingUp, winner: roasWinner, value: roasWinner && formatROAS(roasWinner.roas) },
+    { title: t.marketingBattle.bestCpa, icon: ShoppingBag, winner: cpaWinner, value: cpaWinner && formatCurrency(cpaWinner.cpa) },
+    { title: t.marketingBattle.bestCpc, icon: MousePointer, winner: cpcWinner, value: cpcWinner && formatCurrency(cpcWinner.cpc) },
+  ];
   
   return (
     <div className="p-8 space-y-6">
-      {/* Platform Overview Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* Facebook Card */}
-        <motion.div
-          initial={{ opacity: 0, x: -20 }}
-          animate={{ opacity: 1, x: 0 }}
-          className="bento-card border-l-4 border-l-platform-facebook"
-        >
-          <div className="flex items-center gap-3 mb-6">
-            <div className="p-3 rounded-xl bg-platform-facebook/10">
-              <Facebook className="w-6 h-6 text-platform-facebook" />
-            </div>
-            <div>
-              <h3 className="text-xl font-bold">Meta Ads</h3>
-              <p className="text-sm text-muted-foreground">Facebook & Instagram</p>
-            </div>
-          </div>
-          
-          <div className="grid grid-cols-2 gap-6">
-            <div className="space-y-1">
-              <span className="text-sm text-muted-foreground">{t.marketingBattle.spend}</span>
-              <p className="text-2xl font-bold tabular-nums">
-                {formatCurrency(fbData.spend, true)}
-              </p>
-            </div>
-            <div className="space-y-1">
-              <span className="text-sm text-muted-foreground">{t.marketingBattle.attrRevenue}</span>
-              <p className="text-2xl font-bold tabular-nums">
-                {formatCurrency(fbData.revenue, true)}
-              </p>
-            </div>
-            <div className="space-y-1">
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-muted-foreground">ROAS</span>
-                {roasWinner === 'facebook' && (
-                  <StatusBadge status="positive">{t.marketingBattle.winner}</StatusBadge>
-                )}
-              </div>
-              <p className={cn(
-                'text-2xl font-bold tabular-nums',
-                roasWinner === 'facebook' ? 'text-profit' : ''
-              )}>
-                {formatROAS(fbData.roas)}
-              </p>
-            </div>
-            <div className="space-y-1">
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-muted-foreground">CPA</span>
-                {cpaWinner === 'facebook' && (
-                  <StatusBadge status="positive">{t.marketingBattle.lower}</StatusBadge>
-                )}
-              </div>
-              <p className={cn(
-                'text-2xl font-bold tabular-nums',
-                cpaWinner === 'facebook' ? 'text-profit' : ''
-              )}>
-                {formatCurrency(fbData.cpa)}
-              </p>
-            </div>
-          </div>
-          
-          <div className="mt-6 pt-4 border-t border-border">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <MousePointer className="w-4 h-4 text-muted-foreground" />
-                <span className="text-sm text-muted-foreground">
-                  {fbData.clicks.toLocaleString()} {t.marketingBattle.clicks}
-                </span>
-              </div>
-              <span className="text-sm font-medium">
-                CPC: {formatCurrency(fbData.cpc)}
-              </span>
-            </div>
-          </div>
-        </motion.div>
+      {/* Attribution Model */}
+      <BentoCard
+        title={t.marketingBattle.attributionModel}
+        subtitle={t.marketingBattle.attributionModelSubtitle}
+        icon={<Scale className="w-5 h-5" />}
+        action={
+          <ToggleGroup 
+            type="single" 
+            value={attribution.model} 
+            onValueChange={(v) => v && setAttributionModel(v as AttributionModel)}
+            size="sm"
+            className="bg-secondary/50 rounded-lg p-0.5"
+          >
+            {ATTRIBUTION_MODELS.map((model) => (
+              <ToggleGroupItem 
+                key={model}
+                value={model} 
+                className="text-xs px-2.5 py-1 data-[state=on]:bg-background data-[state=on]:shadow-sm"
+              >
+                {t.marketingBattle.models[model]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        }
+      >
+        <p className="text-sm text-muted-foreground">
+          {t.marketingBattle.modelDescriptions[attribution.model]}
+        </p>
         
-        {/* Google Card */}
-        <motion.div
-          initial={{ opacity: 0, x: 20 }}
-          animate={{ opacity: 1, x: 0 }}
-          className="bento-card border-l-4 border-l-platform-google"
-        >
-          <div className="flex items-center gap-3 mb-6">
-            <div className="p-3 rounded-xl bg-platform-google/10">
-              <Chrome className="w-6 h-6 text-platform-google" />
-            </div>
-            <div>
-              <h3 className="text-xl font-bold">Google Ads</h3>
-              <p className="text-sm text-muted-foreground">Search & Shopping</p>
-            </div>
-          </div>
-          
-          <div className="grid grid-cols-2 gap-6">
-            <div className="space-y-1">
-              <span className="text-sm text-muted-foreground">{t.marketingBattle.spend}</span>
-              <p className="text-2xl font-bold tabular-nums">
-                {formatCurrency(googleData.spend, true)}
-              </p>
-            </div>
-            <div className="space-y-1">
-              <span className="text-sm text-muted-foreground">{t.marketingBattle.attrRevenue}</span>
-              <p className="text-2xl font-bold tabular-nums">
-                {formatCurrency(googleData.revenue, true)}
-              </p>
-            </div>
-            <div className="space-y-1">
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-muted-foreground">ROAS</span>
-                {roasWinner === 'google' && (
-                  <StatusBadge status="positive">{t.marketingBattle.winner}</StatusBadge>
-                )}
-              </div>
-              <p className={cn(
-                'text-2xl font-bold tabular-nums',
-                roasWinner === 'google' ? 'text-profit' : ''
-              )}>
-                {formatROAS(googleData.roas)}
-              </p>
-            </div>
-            <div className="space-y-1">
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-muted-foreground">CPA</span>
-                {cpaWinner === 'google' && (
-                  <StatusBadge status="positive">{t.marketingBattle.lower}</StatusBadge>
-                )}
-              </div>
-              <p className={cn(
-                'text-2xl font-bold tabular-nums',
-                cpaWinner === 'google' ? 'text-profit' : ''
-              )}>
-                {formatCurrency(googleData.cpa)}
-              </p>
-            </div>
-          </div>
-          
-          <div className="mt-6 pt-4 border-t border-border">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <MousePointer className="w-4 h-4 text-muted-foreground" />
-                <span className="text-sm text-muted-foreground">
-                  {googleData.clicks.toLocaleString()} {t.marketingBattle.clicks}
-                </span>
-              </div>
-              <span className="text-sm font-medium">
-                CPC: {formatCurrency(googleData.cpc)}
-              </span>
-            </div>
+        {/* Per-brand weights for the fixed model */}
+        {attribution.model === 'fixed' && availableLabels.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6 mt-6">
+            {availableLabels.map((label) => {
+              const shares = getFixedShares(label, availablePlatforms, attribution);
+              return (
+                <div key={label} className="space-y-3">
+                  <span className="text-sm font-medium">{label}</span>
+                  {availablePlatforms.map((platform) => {
+                    const weight = getFixedWeight(label, platform, attribution);
+                    return (
+                      <div key={platform} className="space-y-1.5">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="flex items-center gap-2">
+                            <PlatformIcon platform={platform} />
+                            {getPlatformMeta(platform).shortName}
+                          </span>
+                          <span className="text-muted-foreground tabular-nums">
+                            {t.marketingBattle.weight} {(weight * 100).toFixed(0)} · {(shares[platform] * 100).toFixed(0)}% {t.marketingBattle.share}
+                          </span>
+                        </div>
+                        <Slider
+                          value={[weight * 100]}
+                          min={0}
+                          max={100}
+                          step={5}
+                          onValueChange={([value]) => setFixedSplit(label, platform, value / 100)}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
           </div>
-        </motion.div>
-      </div>
+        )}
+      </BentoCard>
+      
+      {/* Platform Overview Cards */}
+      {platformData.length === 0 ? (
+        <div className="bento-card text-center text-sm text-muted-foreground">
+          {t.marketingBattle.noSpend}
+        </div>
+      ) : (
+        <div className={cn('grid grid-cols-1 md:grid-cols-2 gap-6', platformData.length > 2 && 'xl:grid-cols-3')}>
+          {platformData.map((data, index) => {
+            const meta = getPlatformMeta(data.platform);
+            const isRoasWinner = platformData.length > 1 && roasWinner?.platform === data.platform;
+            const isCpaWinner = platformData.length > 1 && cpaWinner?.platform === data.platform;
+            return (
+              <motion.div
+                key={data.platform}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="bento-card border-l-4"
+                style={{ borderLeftColor: meta.color }}
+              >
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-3 rounded-xl bg-secondary">
+                    <PlatformIcon platform={data.platform} className="w-6 h-6" />
+                  </div>
+                  <div>
+                    <h3 className="text-xl font-bold">{meta.name}</h3>
+                    <p className="text-sm text-muted-foreground">{meta.description}</p>
+                  </div>
+                </div>
+                
+                <div className="grid grid-cols-2 gap-6">
+                  <div className="space-y-1">
+                    <span className="text-sm text-muted-foreground">{t.marketingBattle.spend}</span>
+                    <p className="text-2xl font-bold tabular-nums">
+                      {formatCurrency(data.spend, true)}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-sm text-muted-foreground">{t.marketingBattle.attrRevenue}</span>
+                    <p className="text-2xl font-bold tabular-nums">
+                      {formatCurrency(data.revenue, true)}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">ROAS</span>
+                      {isRoasWinner && (
+                        <StatusBadge status="positive">{t.marketingBattle.winner}</StatusBadge>
+                      )}
+                    </div>
+                    <p className={cn('text-2xl font-bold tabular-nums', isRoasWinner && 'text-profit')}>
+                      {formatROAS(data.roas)}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">CPA</span>
+                      {isCpaWinner && (
+                        <StatusBadge status="positive">{t.marketingBattle.lower}</StatusBadge>
+                      )}
+                    </div>
+                    <p className={cn('text-2xl font-bold tabular-nums', isCpaWinner && 'text-profit')}>
+                      {formatCurrency(data.cpa)}
+                    </p>
+                  </div>
+                </div>
+                
+                <div className="mt-6 pt-4 border-t border-border">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <MousePointer className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-sm text-muted-foreground">
+                        {data.clicks.toLocaleString()} {t.marketingBattle.clicks}
+                      </span>
+                    </div>
+                    <span className="text-sm font-medium">
+                      CPC: {formatCurrency(data.cpc)}
+                    </span>
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
       
       {/* Comparison Chart */}
       <BentoCard
         title={t.marketingBattle.platformBattle}
         subtitle={t.marketingBattle.headToHead}
         icon={<Megaphone className="w-5 h-5" />}
+        exportData={recordsToTable(platformData.map((p) => ({ ...p })))}
+        exportChart
       >
-        <PlatformComparisonChart
-          facebookData={fbData}
-          googleData={googleData}
-        />
+        <PlatformComparisonChart platforms={platformData} />
         
-        <div className="flex items-center justify-center gap-6 mt-4">
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded bg-platform-facebook" />
-            <span className="text-sm text-muted-foreground">Meta Ads</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded bg-platform-google" />
-            <span className="text-sm text-muted-foreground">Google Ads</span>
-          </div>
+        <div className="flex flex-wrap items-center justify-center gap-6 mt-4">
+          {platformData.map((p) => {
+            const meta = getPlatformMeta(p.platform);
+            return (
+              <div key={p.platform} className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded" style={{ backgroundColor: meta.color }} />
+                <span className="text-sm text-muted-foreground">{meta.name}</span>
+              </div>
+            );
+          })}
+        </div>
+      </BentoCard>
+      
+      {/* Attribution Model Comparison */}
+      <BentoCard
+        title={t.marketingBattle.modelComparison}
+        subtitle={t.marketingBattle.modelComparisonSubtitle}
+        icon={<Scale className="w-5 h-5" />}
+      >
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.marketingBattle.model}</TableHead>
+                {platformData.map((p) => (
+                  <TableHead key={p.platform} className="text-right">
+                    {getPlatformMeta(p.platform).shortName} ROAS / CPA
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">{t.marketingBattle.roasWinner}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {modelComparison.map((row) => (
+                <TableRow 
+                  key={row.model}
+                  className={cn(row.model === attribution.model && 'bg-accent/50')}
+                >
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {t.marketingBattle.models[row.model]}
+                      {row.model === attribution.model && (
+                        <StatusBadge status="neutral">{t.marketingBattle.active}</StatusBadge>
+                      )}
+                    </div>
+                  </TableCell>
+                  {platformData.map(({ platform }) => {
+                    const data = row.platforms.get(platform);
+                    return (
+                      <TableCell key={platform} className="text-right tabular-nums">
+                        {data ? `${formatROAS(data.roas)} / ${formatCurrency(data.cpa)}` : '–'}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-right">
+                    {row.roasWinner && (
+                      <span
+                        className="text-sm font-medium"
+                        style={{ color: getPlatformMeta(row.roasWinner).color }}
+                      >
+                        {getPlatformMeta(row.roasWinner).name}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
         </div>
       </BentoCard>
       
@@ -231,131 +350,66 @@ export function MarketingBattle() {
           </div>
           
           {/* Split Bar */}
-          <div className="relative h-6 bg-secondary rounded-full overflow-hidden">
-            <motion.div
-              initial={{ width: 0 }}
-              animate={{ width: `${fbShareOfSpend}%` }}
-              transition={{ duration: 0.8, ease: 'easeOut' }}
-              className="absolute inset-y-0 left-0 bg-platform-facebook"
-            />
-            <motion.div
-              initial={{ width: 0 }}
-              animate={{ width: `${100 - fbShareOfSpend}%` }}
-              transition={{ duration: 0.8, delay: 0.2, ease: 'easeOut' }}
-              className="absolute inset-y-0 right-0 bg-platform-google"
-            />
+          <div className="flex h-6 bg-secondary rounded-full overflow-hidden">
+            {platformData.map((p, index) => (
+              <motion.div
+                key={p.platform}
+                initial={{ width: 0 }}
+                animate={{ width: `${shareOfSpend(p)}%` }}
+                transition={{ duration: 0.8, delay: index * 0.1, ease: 'easeOut' }}
+                className="h-full"
+                style={{ backgroundColor: getPlatformMeta(p.platform).color }}
+              />
+            ))}
           </div>
           
-          <div className="flex justify-between">
-            <div className="flex items-center gap-2">
-              <Facebook className="w-4 h-4 text-platform-facebook" />
-              <span className="text-sm font-medium">
-                {fbShareOfSpend.toFixed(1)}%
-              </span>
-              <span className="text-sm text-muted-foreground">
-                ({formatCurrency(fbData.spend, true)})
-              </span>
-            </div>
-            <div className="flex items-center gap-2">
-              <Chrome className="w-4 h-4 text-platform-google" />
-              <span className="text-sm font-medium">
-                {(100 - fbShareOfSpend).toFixed(1)}%
-              </span>
-              <span className="text-sm text-muted-foreground">
-                ({formatCurrency(googleData.spend, true)})
-              </span>
-            </div>
+          <div className="flex flex-wrap justify-between gap-4">
+            {platformData.map((p) => (
+              <div key={p.platform} className="flex items-center gap-2">
+                <PlatformIcon platform={p.platform} />
+                <span className="text-sm font-medium">
+                  {shareOfSpend(p).toFixed(1)}%
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  ({formatCurrency(p.spend, true)})
+                </span>
+              </div>
+            ))}
           </div>
         </div>
       </BentoCard>
       
       {/* Efficiency Summary */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="bento-card"
-        >
-          <div className="flex items-center gap-3 mb-4">
-            <div className="p-2 rounded-lg bg-profit/10">
-              <TrendingUp className="w-5 h-5 text-profit" />
-            </div>
-            <span className="font-medium">{t.marketingBattle.roasWinner}</span>
-          </div>
-          <div className="flex items-center gap-3">
-            {roasWinner === 'facebook' ? (
-              <Facebook className="w-8 h-8 text-platform-facebook" />
-            ) : (
-              <Chrome className="w-8 h-8 text-platform-google" />
-            )}
-            <div>
-              <p className="text-2xl font-bold text-profit">
-                {formatROAS(roasWinner === 'facebook' ? fbData.roas : googleData.roas)}
-              </p>
-              <p className="text-sm text-muted-foreground">
-                {roasWinner === 'facebook' ? 'Meta Ads' : 'Google Ads'}
-              </p>
-            </div>
-          </div>
-        </motion.div>
-        
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.1 }}
-          className="bento-card"
-        >
-          <div className="flex items-center gap-3 mb-4">
-            <div className="p-2 rounded-lg bg-profit/10">
-              <ShoppingBag className="w-5 h-5 text-profit" />
-            </div>
-            <span className="font-medium">{t.marketingBattle.bestCpa}</span>
-          </div>
-          <div className="flex items-center gap-3">
-            {cpaWinner === 'facebook' ? (
-              <Facebook className="w-8 h-8 text-platform-facebook" />
-            ) : (
-              <Chrome className="w-8 h-8 text-platform-google" />
-            )}
-            <div>
-              <p className="text-2xl font-bold text-profit">
-                {formatCurrency(cpaWinner === 'facebook' ? fbData.cpa : googleData.cpa)}
-              </p>
-              <p className="text-sm text-muted-foreground">
-                {cpaWinner === 'facebook' ? 'Meta Ads' : 'Google Ads'}
-              </p>
-            </div>
-          </div>
-        </motion.div>
-        
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2 }}
-          className="bento-card"
-        >
-          <div className="flex items-center gap-3 mb-4">
-            <div className="p-2 rounded-lg bg-profit/10">
-              <MousePointer className="w-5 h-5 text-profit" />
+        {winners.map(({ title, icon: Icon, winner, value }, index) => (
+          <motion.div
+            key={title}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.1 }}
+            className="bento-card"
+          >
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-2 rounded-lg bg-profit/10">
+                <Icon className="w-5 h-5 text-profit" />
+              </div>
+              <span className="font-medium">{title}</span>
             </div>
-            <span className="font-medium">{t.marketingBattle.bestCpc}</span>
-          </div>
-          <div className="flex items-center gap-3">
-            {cpcWinner === 'facebook' ? (
-              <Facebook className="w-8 h-8 text-platform-facebook" />
+            {winner ? (
+              <div className="flex items-center gap-3">
+                <PlatformIcon platform={winner.platform} className="w-8 h-8" />
+                <div>
+                  <p className="text-2xl font-bold text-profit">{value}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {getPlatformMeta(winner.platform).name}
+                  </p>
+                </div>
+              </div>
             ) : (
-              <Chrome className="w-8 h-8 text-platform-google" />
+              <p className="text-sm text-muted-foreground">{t.marketingBattle.noSpend}</p>
             )}
-            <div>
-              <p className="text-2xl font-bold text-profit">
-                {formatCurrency(cpcWinner === 'facebook' ? fbData.cpc : googleData.cpc)}
-              </p>
-              <p className="text-sm text-muted-foreground">
-                {cpcWinner === 'facebook' ? 'Meta Ads' : 'Google Ads'}
-              </p>
-            </div>
-          </div>
-        </motion.div>
+          </motion.div>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Eye, FileText, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { BentoCard } from '@/components/dashboard/BentoGrid';
+import { ReportScheduleDialog } from '@/components/dashboard/ReportScheduleDialog';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useFilteredData } from '@/hooks/useFashionData';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import { canViewAllLabels } from '@/utils/userProfiles';
+import {
+  deleteReportSchedule,
+  fetchReportPreview,
+  fetchReportSchedules,
+  sendReportNow,
+  setReportScheduleEnabled,
+} from '@/utils/reports';
+import type { ReportSchedule } from '@/types';
+
+export function Reports() {
+  const { availableLabels } = useFilteredData();
+  const { t, interpolate } = useTranslation();
+  const queryClient = useQueryClient();
+  const profile = useAuthStore((s) => s.profile);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | undefined>();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: schedules = [] } = useQuery({ queryKey: ['report-schedules'], queryFn: fetchReportSchedules });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e) {
+      toast({
+        title: t.reports.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    }
+    refresh();
+  };
+
+  const handleSend = async (schedule: ReportSchedule) => {
+    setBusyId(schedule.id);
+    try {
+      await sendReportNow(schedule.id);
+      toast({ title: interpolate(t.reports.sent, { recipients: schedule.recipients }) });
+    } catch (e) {
+      toast({
+        title: t.reports.sendFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+      refresh();
+    }
+  };
+
+  const handlePreview = async (schedule: ReportSchedule) => {
+    // Open the tab right away; browsers block pop-ups opened after an await
+    const preview = window.open('', '_blank');
+    setBusyId(schedule.id);
+    try {
+      const url = URL.createObjectURL(await fetchReportPreview(schedule.id));
+      if (preview) preview.location.href = url;
+    } catch (e) {
+      preview?.close();
+      toast({
+        title: t.reports.previewFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openDialog = (schedule?: ReportSchedule) => {
+    setEditingSchedule(schedule);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      <BentoCard
+        title={t.reports.schedules}
+        subtitle={t.reports.schedulesSubtitle}
+        icon={<FileText className="w-5 h-5" />}
+        action={
+          <Button size="sm" onClick={() => openDialog()}>
+            <Plus className="w-3.5 h-3.5 mr-1" /> {t.reports.newSchedule}
+          </Button>
+        }
+      >
+        {schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.reports.noSchedules}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.reports.name}</TableHead>
+                <TableHead>{t.reports.period}</TableHead>
+                <TableHead>{t.reports.recipients}</TableHead>
+                <TableHead>{t.reports.lastSent}</TableHead>
+                <TableHead>{t.reports.enabled}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell className="font-medium">
+                    {schedule.name}
+                    <span className="block text-xs text-muted-foreground font-normal">
+                      {schedule.labels ? schedule.labels.join(', ') : t.reports.allLabels}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {schedule.period === 'weekly' ? t.reports.weekly : t.reports.monthly}
+                    <span className="block text-xs text-muted-foreground uppercase">{schedule.language}</span>
+                  </TableCell>
+                  <TableCell className="text-sm max-w-[16rem] truncate">{schedule.recipients}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground tabular-nums">
+                    {schedule.lastSentAt ? format(schedule.lastSentAt, 'd MMM yyyy HH:mm') : t.reports.never}
+                    {schedule.lastError && (
+                      <span className="block text-xs text-destructive mt-1">{schedule.lastError}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={(checked) => runAction(() => setReportScheduleEnabled(schedule.id, checked))}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t.reports.preview}
+                        disabled={busyId === schedule.id}
+                        onClick={() => handlePreview(schedule)}
+                      >
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t.reports.sendNow}
+                        disabled={busyId === schedule.id}
+                        onClick={() => handleSend(schedule)}
+                      >
+                        <Send className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title={t.reports.editSchedule} onClick={() => openDialog(schedule)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t.reports.delete}
+                        onClick={() => runAction(() => deleteReportSchedule(schedule.id))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </BentoCard>
+
+      <ReportScheduleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        schedule={editingSchedule}
+        labels={availableLabels}
+        allowAllLabels={canViewAllLabels(profile)}
+        onSaved={refresh}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Undo2, TrendingDown, Scale } from 'lucide-react';
+import { BentoCard } from '@/components/dashboard/BentoGrid';
+import { MetricCard } from '@/components/dashboard/MetricCard';
+import { SmartTrendChart } from '@/components/charts/SmartTrendChart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useFilteredData } from '@/hooks/useFashionData';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
+import { aggregateByDate, formatChartData, formatROAS } from '@/utils/analytics';
+import { calculateLabelReturns, calculatePlatformReturns } from '@/utils/returns';
+import { chartDataToTable, recordsToTable } from '@/utils/dataExport';
+import { getPlatformMeta } from '@/utils/platforms';
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function Returns() {
+  const { metrics, events } = useFilteredData();
+  const { t } = useTranslation();
+  const { formatCurrency } = useCurrencyFormat();
+  const tt = t.returns;
+
+  const totals = useMemo(() => {
+    const revenue = metrics.reduce((sum, m) => sum + m.totalRevenue, 0);
+    const returnedRevenue = metrics.reduce((sum, m) => sum + m.returnedRevenue, 0);
+    const returnedOrders = metrics.reduce((sum, m) => sum + m.returnedOrders, 0);
+    return {
+      returnedRevenue,
+      returnedOrders,
+      returnRate: revenue > 0 ? returnedRevenue / revenue : 0,
+      revenueAfterReturns: revenue - returnedRevenue,
+    };
+  }, [metrics]);
+
+  const chartData = useMemo(() => formatChartData(aggregateByDate(metrics)), [metrics]);
+  const labelReturns = useMemo(() => calculateLabelReturns(metrics), [metrics]);
+  const platformReturns = useMemo(() => calculatePlatformReturns(metrics), [metrics]);
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Quick Stats Row */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="bento-card-sm"
+        >
+          <MetricCard label={tt.returnedRevenue} value={totals.returnedRevenue} format="currency" size="md" />
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="bento-card-sm"
+        >
+          <MetricCard label={tt.returnRate} value={totals.returnRate} format="percentage" size="md" />
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="bento-card-sm"
+        >
+          <MetricCard label={tt.returnedOrders} value={totals.returnedOrders} format="number" size="md" />
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+          className="bento-card-sm"
+        >
+          <MetricCard label={tt.revenueAfterReturns} value={totals.revenueAfterReturns} format="currency" size="md" />
+        </motion.div>
+      </div>
+
+      {totals.returnedRevenue === 0 && (
+        <p className="text-sm text-muted-foreground">{tt.noReturns}</p>
+      )}
+
+      {/* Return Rate Trend */}
+      <BentoCard
+        title={tt.trend}
+        subtitle={tt.trendSubtitle}
+        icon={<TrendingDown className="w-5 h-5" />}
+        exportData={chartDataToTable(chartData)}
+        exportChart
+      >
+        <SmartTrendChart data={chartData} events={events} height={300} selectedKPI="returnRate" />
+      </BentoCard>
+
+      {/* Gross vs Net ROAS */}
+      <BentoCard
+        title={tt.platformRoas}
+        subtitle={tt.platformRoasSubtitle}
+        icon={<Scale className="w-5 h-5" />}
+        exportData={recordsToTable(platformReturns.map((p) => ({ ...p })))}
+      >
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{tt.platform}</TableHead>
+                <TableHead className="text-right">{tt.spend}</TableHead>
+                <TableHead className="text-right">{tt.grossRevenue}</TableHead>
+                <TableHead className="text-right">{tt.netRevenue}</TableHead>
+                <TableHead className="text-right">{tt.grossRoas}</TableHead>
+                <TableHead className="text-right">{tt.netRoas}</TableHead>
+                <TableHead className="text-right">{tt.roasLost}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {platformReturns.map((p) => (
+                <TableRow key={p.platform}>
+                  <TableCell className="font-medium" style={{ color: getPlatformMeta(p.platform).color }}>
+                    {getPlatformMeta(p.platform).name}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(p.spend)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(p.grossRevenue)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(p.netRevenue)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatROAS(p.grossRoas)}</TableCell>
+                  <TableCell className="text-right tabular-nums font-medium">{formatROAS(p.netRoas)}</TableCell>
+                  <TableCell className="text-right tabular-nums text-spend">
+                    {p.grossRoas > 0 ? formatRate((p.grossRoas - p.netRoas) / p.grossRoas) : '–'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </BentoCard>
+
+      {/* Returns by Brand */}
+      <BentoCard
+        title={tt.byBrand}
+        icon={<Undo2 className="w-5 h-5" />}
+        exportData={recordsToTable(labelReturns.map((l) => ({ ...l })))}
+      >
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{tt.brand}</TableHead>
+                <TableHead className="text-right">{tt.revenue}</TableHead>
+                <TableHead className="text-right">{tt.returnedRevenue}</TableHead>
+                <TableHead className="text-right">{tt.returnedOrders}</TableHead>
+                <TableHead className="text-right">{tt.returnRate}</TableHead>
+                <TableHead className="text-right">{tt.revenueAfterReturns}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {labelReturns.map((l) => (
+                <TableRow key={l.label}>
+                  <TableCell className="font-medium">{l.label}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(l.revenue)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(l.returnedRevenue)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{Math.round(l.returnedOrders).toLocaleString()}</TableCell>
+                  <TableCell className="text-right tabular-nums font-medium">{formatRate(l.returnRate)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(l.revenueAfterReturns)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </BentoCard>
+    </div>
+  );
+}
@@ -4,28 +4,35 @@ import {
   TrendingUp, 
   TrendingDown,
   BarChart3,
+  Filter,
   Layers,
 } from 'lucide-react';
 import { BentoCard } from '@/components/dashboard/BentoGrid';
 import { MetricCard } from '@/components/dashboard/MetricCard';
 import { SmartTrendChart, VarianceChart } from '@/components/charts/SmartTrendChart';
+import { FunnelComparisonChart } from '@/components/charts/FunnelComparisonChart';
 import { useFilteredData } from '@/hooks/useFashionData';
+import { useAnomalies } from '@/hooks/useAnomalies';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useCurrencyFormat } from '@/hooks/useCurrencyFormat';
 import { useLanguageStore } from '@/store/languageStore';
 import { 
   aggregateByDate,
   formatChartData,
   calculateYoYComparison,
-  formatCurrency,
   formatPercentage,
 } from '@/utils/analytics';
+import { compareFunnels, summarizeFunnel } from '@/utils/funnel';
 import { useDashboardStore } from '@/store/dashboardStore';
+import { chartDataToTable, recordsToTable } from '@/utils/dataExport';
 import { cn } from '@/lib/utils';
 
 export function RevenueDeepDive() {
   const { metrics, allMetrics, events } = useFilteredData();
+  const anomalies = useAnomalies();
   const { filters } = useDashboardStore();
   const { t } = useTranslation();
+  const { formatCurrency, currencySymbol } = useCurrencyFormat();
   const { language } = useLanguageStore();
   
   const locale = language === 'nl' ? 'nl-NL' : 'en-US';
@@ -132,6 +139,18 @@ export function RevenueDeepDive() {
     };
   }, [yoyComparison]);
   
+  // Funnel steps and the per-session ratios, current vs comparison period
+  const funnelStats = useMemo(() => {
+    return {
+      steps: compareFunnels(aggregatedMetrics, previousYearMetrics),
+      current: summarizeFunnel(aggregatedMetrics),
+      previous: summarizeFunnel(previousYearMetrics),
+    };
+  }, [aggregatedMetrics, previousYearMetrics]);
+  
+  const ratioChange = (current: number, previous: number) =>
+    previous > 0 ? formatPercentage(((current - previous) / previous) * 100) : '–';
+  
   return (
     <div className="p-8 space-y-6">
       {/* Summary Cards */}
@@ -214,10 +233,13 @@ export function RevenueDeepDive() {
         title={t.revenueDeepDive.revenueTrend}
         subtitle={t.revenueDeepDive.comparingCurrentVsPrior}
         icon={<Layers className="w-5 h-5" />}
+        exportData={chartDataToTable(chartData)}
+        exportChart
       >
         <SmartTrendChart 
           data={chartData} 
           events={events}
+          anomalies={anomalies}
           showYoY={true}
           height={350}
         />
@@ -228,10 +250,60 @@ export function RevenueDeepDive() {
         title={t.revenueDeepDive.deltaView}
         subtitle={t.revenueDeepDive.dailyVarianceAnalysis}
         icon={<BarChart3 className="w-5 h-5" />}
+        exportData={recordsToTable(varianceData, ['displayDate'])}
+        exportChart
       >
         <VarianceChart data={varianceData} height={200} />
       </BentoCard>
       
+      {/* Sessions → add to cart → checkout → orders */}
+      <BentoCard
+        title={t.revenueDeepDive.funnel}
+        subtitle={t.revenueDeepDive.funnelSubtitle}
+        icon={<Filter className="w-5 h-5" />}
+        exportData={recordsToTable(funnelStats.steps.map((s) => ({ ...s })))}
+      >
+        {funnelStats.current.sessions > 0 ? (
+          <>
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              {[
+                {
+                  label: t.charts.conversionRate,
+                  current: `${(funnelStats.current.conversionRate * 100).toFixed(2)}%`,
+                  previous: `${(funnelStats.previous.conversionRate * 100).toFixed(2)}%`,
+                  change: ratioChange(funnelStats.current.conversionRate, funnelStats.previous.conversionRate),
+                  up: funnelStats.current.conversionRate >= funnelStats.previous.conversionRate,
+                },
+                {
+                  label: t.charts.revenuePerSession,
+                  current: `${currencySymbol}${funnelStats.current.revenuePerSession.toFixed(2)}`,
+                  previous: `${currencySymbol}${funnelStats.previous.revenuePerSession.toFixed(2)}`,
+                  change: ratioChange(funnelStats.current.revenuePerSession, funnelStats.previous.revenuePerSession),
+                  up: funnelStats.current.revenuePerSession >= funnelStats.previous.revenuePerSession,
+                },
+              ].map((ratio) => (
+                <div key={ratio.label} className="flex flex-col gap-1">
+                  <span className="metric-label">{ratio.label}</span>
+                  <span className="metric-value tabular-nums">{ratio.current}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {comparisonYear}: {ratio.previous}
+                    {' · '}
+                    <span className={cn('font-medium', ratio.up ? 'text-profit' : 'text-spend')}>{ratio.change}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <FunnelComparisonChart
+              data={funnelStats.steps}
+              currentName={`${t.revenueDeepDive.current} (${currentYear})`}
+              comparisonName={`${t.revenueDeepDive.comparison} (${comparisonYear})`}
+            />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground mt-4">{t.revenueDeepDive.noFunnelData}</p>
+        )}
+      </BentoCard>
+      
       {/* Best and Worst Days */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <BentoCard
@@ -0,0 +1,367 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { History, Save, Split, Target, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { BentoCard } from '@/components/dashboard/BentoGrid';
+import { StatusBadge } from '@/components/dashboard/MetricCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useFilteredData } from '@/hooks/useFashionData';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import {
+  deleteTarget,
+  distributeTarget,
+  fetchTargetChanges,
+  fetchTargetRecords,
+  getPeriodMonths,
+  saveTargets,
+  validateTarget,
+} from '@/utils/targets';
+import { TARGET_PERIODS, type MonthlyTarget, type TargetChange, type TargetPeriod, type TargetValues } from '@/types';
+
+// Input values as typed; MER is entered as a percentage
+type TargetDraft = Record<keyof TargetValues, string>;
+
+const EMPTY_DRAFT: TargetDraft = { revenueTarget: '', ordersTarget: '', merTarget: '', adBudget: '' };
+
+const TARGET_FIELDS: (keyof TargetValues)[] = ['revenueTarget', 'ordersTarget', 'merTarget', 'adBudget'];
+
+function parseInput(value: string): number {
+  const parsed = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function toDraft(values: TargetValues): TargetDraft {
+  return {
+    revenueTarget: String(values.revenueTarget),
+    ordersTarget: String(values.ordersTarget),
+    merTarget: String(Number((values.merTarget * 100).toFixed(2))),
+    adBudget: String(values.adBudget),
+  };
+}
+
+function fromDraft(month: string, label: string, draft: TargetDraft): MonthlyTarget {
+  return {
+    month,
+    label,
+    revenueTarget: parseInput(draft.revenueTarget || '0'),
+    ordersTarget: parseInput(draft.ordersTarget || '0'),
+    merTarget: parseInput(draft.merTarget || '0') / 100,
+    adBudget: parseInput(draft.adBudget || '0'),
+  };
+}
+
+function formatValue(field: keyof TargetValues, value: number): string {
+  return field === 'merTarget' ? `${(value * 100).toFixed(1)}%` : Math.round(value).toLocaleString();
+}
+
+export function Targets() {
+  const { attributedMetrics, availableLabels } = useFilteredData();
+  const { t, interpolate } = useTranslation();
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((s) => s.session?.user.id ?? null);
+  const tt = t.targets;
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [label, setLabel] = useState('All');
+  const [drafts, setDrafts] = useState<Record<string, TargetDraft>>({});
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [period, setPeriod] = useState<TargetPeriod>('Q1');
+  const [total, setTotal] = useState<TargetDraft>(EMPTY_DRAFT);
+
+  const { data: records = [] } = useQuery({ queryKey: ['targets'], queryFn: fetchTargetRecords });
+  const { data: changes = [] } = useQuery({ queryKey: ['target-changes'], queryFn: fetchTargetChanges });
+
+  const months = useMemo(() => getPeriodMonths(year, 'year'), [year]);
+  const recordsByMonth = useMemo(
+    () => new Map(records.filter((r) => r.label === label).map((r) => [r.month, r])),
+    [records, label]
+  );
+
+  const labelOptions = useMemo(
+    () => ['All', ...new Set([...availableLabels, ...records.map((r) => r.label)].filter((l) => l !== 'All'))],
+    [availableLabels, records]
+  );
+  const currentYear = new Date().getFullYear();
+  const yearOptions = useMemo(
+    () => [...new Set([currentYear - 1, currentYear, currentYear + 1, ...records.map((r) => Number(r.month.slice(0, 4)))])].sort(),
+    [records, currentYear]
+  );
+
+  // Reset the editor to the stored targets when switching year or label, or after a save
+  useEffect(() => {
+    const next: Record<string, TargetDraft> = {};
+    for (const month of months) {
+      const record = recordsByMonth.get(month);
+      next[month] = record ? toDraft(record) : EMPTY_DRAFT;
+    }
+    setDrafts(next);
+    setDirty(new Set());
+  }, [months, recordsByMonth]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['targets'] });
+    queryClient.invalidateQueries({ queryKey: ['target-changes'] });
+    queryClient.invalidateQueries({ queryKey: ['fashion-data'] });
+  };
+
+  const updateDraft = (month: string, field: keyof TargetValues, value: string) => {
+    setDrafts((current) => ({ ...current, [month]: { ...current[month], [field]: value } }));
+    setDirty((current) => new Set(current).add(month));
+  };
+
+  const handleSave = async () => {
+    const targets = [...dirty].sort().map((month) => fromDraft(month, label, drafts[month]));
+    for (const target of targets) {
+      const problem = validateTarget(target);
+      if (problem) {
+        toast({ title: interpolate(tt.invalid, { month: target.month }), description: problem, variant: 'destructive' });
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      await saveTargets(targets, userId);
+      toast({ title: interpolate(tt.saved, { count: String(targets.length) }) });
+      refresh();
+    } catch (e) {
+      toast({
+        title: tt.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (month: string) => {
+    try {
+      await deleteTarget(month, label);
+      refresh();
+    } catch (e) {
+      toast({
+        title: tt.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDistribute = () => {
+    const totals = fromDraft('', label, total);
+    if (TARGET_FIELDS.some((field) => Number.isNaN(totals[field]) || totals[field] < 0)) {
+      toast({ title: tt.invalidTotal, variant: 'destructive' });
+      return;
+    }
+
+    // Revenue shape from all channels, before the channel filter
+    const distributed = distributeTarget(totals, getPeriodMonths(year, period), label, attributedMetrics);
+    setDrafts((current) => {
+      const next = { ...current };
+      for (const target of distributed) next[target.month] = toDraft(target);
+      return next;
+    });
+    setDirty((current) => new Set([...current, ...distributed.map((d) => d.month)]));
+    toast({ title: interpolate(tt.distributed, { count: String(distributed.length) }) });
+  };
+
+  const describeChange = (change: TargetChange): string => {
+    const values = change.newValues ?? change.oldValues;
+    if (!values) return '';
+    return TARGET_FIELDS
+      .filter((field) => change.action !== 'update' || change.oldValues?.[field] !== change.newValues?.[field])
+      .map((field) => {
+        const after = formatValue(field, values[field]);
+        return change.action === 'update' && change.oldValues
+          ? `${tt.fields[field]} ${formatValue(field, change.oldValues[field])} → ${after}`
+          : `${tt.fields[field]} ${after}`;
+      })
+      .join(', ');
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Monthly Targets */}
+      <BentoCard
+        title={tt.monthlyTargets}
+        subtitle={tt.monthlyTargetsSubtitle}
+        icon={<Target className="w-5 h-5" />}
+        action={
+          <div className="flex items-center gap-2">
+            <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+              <SelectTrigger className="h-8 w-[90px] text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {yearOptions.map((y) => (
+                  <SelectItem key={y} value={String(y)} className="text-xs">{y}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={label} onValueChange={setLabel}>
+              <SelectTrigger className="h-8 w-[140px] text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {labelOptions.map((l) => (
+                  <SelectItem key={l} value={l} className="text-xs">{l === 'All' ? tt.allLabels : l}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleSave} disabled={saving || dirty.size === 0}>
+              <Save className="w-3.5 h-3.5 mr-1" /> {tt.save}
+            </Button>
+          </div>
+        }
+      >
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{tt.month}</TableHead>
+              {TARGET_FIELDS.map((field) => (
+                <TableHead key={field}>{tt.fields[field]}</TableHead>
+              ))}
+              <TableHead>{tt.source}</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {months.map((month) => {
+              const record = recordsByMonth.get(month);
+              return (
+                <TableRow key={month}>
+                  <TableCell className="font-medium whitespace-nowrap">
+                    {format(new Date(`${month}-01T00:00:00`), 'MMM yyyy')}
+                  </TableCell>
+                  {TARGET_FIELDS.map((field) => (
+                    <TableCell key={field} className="py-1.5">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        className="h-8 text-xs tabular-nums"
+                        value={drafts[month]?.[field] ?? ''}
+                        onChange={(e) => updateDraft(month, field, e.target.value)}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    {dirty.has(month) ? (
+                      <StatusBadge status="warning">{tt.unsaved}</StatusBadge>
+                    ) : record ? (
+                      <StatusBadge status="neutral">{tt.sources[record.source]}</StatusBadge>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>
+                    {record && (
+                      <Button variant="ghost" size="icon" title={tt.delete} onClick={() => handleDelete(month)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground mt-3">{tt.currencyHint}</p>
+      </BentoCard>
+
+      {/* Distribute a quarterly or annual target */}
+      <BentoCard
+        title={tt.distribute}
+        subtitle={tt.distributeSubtitle}
+        icon={<Split className="w-5 h-5" />}
+      >
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+          <div className="space-y-1.5">
+            <Label>{tt.period}</Label>
+            <Select value={period} onValueChange={(v) => setPeriod(v as TargetPeriod)}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {TARGET_PERIODS.map((p) => (
+                  <SelectItem key={p} value={p}>{p === 'year' ? interpolate(tt.fullYear, { year: String(year) }) : `${p} ${year}`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {TARGET_FIELDS.map((field) => (
+            <div key={field} className="space-y-1.5">
+              <Label>{tt.fields[field]}</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                className="h-9 tabular-nums"
+                value={total[field]}
+                onChange={(e) => setTotal((current) => ({ ...current, [field]: e.target.value }))}
+              />
+            </div>
+          ))}
+          <Button variant="outline" onClick={handleDistribute}>
+            <Split className="w-3.5 h-3.5 mr-1" /> {tt.distributeAction}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-3">{tt.distributeHint}</p>
+      </BentoCard>
+
+      {/* Audit trail */}
+      <BentoCard
+        title={tt.history}
+        subtitle={tt.historySubtitle}
+        icon={<History className="w-5 h-5" />}
+      >
+        {changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{tt.noHistory}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{tt.changedAt}</TableHead>
+                <TableHead>{tt.changedBy}</TableHead>
+                <TableHead>{tt.month}</TableHead>
+                <TableHead>{tt.label}</TableHead>
+                <TableHead>{tt.change}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell className="text-sm text-muted-foreground tabular-nums whitespace-nowrap">
+                    {format(change.changedAt, 'd MMM yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {change.changedByEmail ?? tt.sources[change.source]}
+                  </TableCell>
+                  <TableCell className="text-sm tabular-nums">{change.month}</TableCell>
+                  <TableCell className="text-sm">{change.label === 'All' ? tt.allLabels : change.label}</TableCell>
+                  <TableCell className="text-sm">
+                    <span className="font-medium">{tt.actions[change.action]}</span>
+                    <span className="block text-xs text-muted-foreground">{describeChange(change)}</span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </BentoCard>
+    </div>
+  );
+}
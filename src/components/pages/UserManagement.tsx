@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Users } from 'lucide-react';
+import { BentoCard } from '@/components/dashboard/BentoGrid';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useFilteredData } from '@/hooks/useFashionData';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/authStore';
+import { fetchUserProfiles, updateUserProfile } from '@/utils/userProfiles';
+import { cn } from '@/lib/utils';
+import { USER_ROLES, type UserProfile, type UserRole } from '@/types';
+
+interface UserRowProps {
+  user: UserProfile;
+  labels: string[];
+  isSelf: boolean;
+  onSaved: () => void;
+}
+
+function UserRow({ user, labels, isSelf, onSaved }: UserRowProps) {
+  const { t } = useTranslation();
+  const [role, setRole] = useState<UserRole>(user.role);
+  const [allowedLabels, setAllowedLabels] = useState<string[] | null>(user.allowedLabels);
+  const [saving, setSaving] = useState(false);
+
+  // Pick up the saved profile after a refetch
+  useEffect(() => {
+    setRole(user.role);
+    setAllowedLabels(user.allowedLabels);
+  }, [user]);
+
+  const dirty = role !== user.role || JSON.stringify(allowedLabels) !== JSON.stringify(user.allowedLabels);
+  // Keep assigned labels visible even if they are not in the current data
+  const labelOptions = [...new Set([...labels, ...(allowedLabels ?? [])])];
+
+  const toggleLabel = (label: string) => {
+    const current = allowedLabels ?? [];
+    setAllowedLabels(current.includes(label) ? current.filter((l) => l !== label) : [...current, label]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateUserProfile(user.userId, { role, allowedLabels });
+      toast({ title: t.users.saved });
+      onSaved();
+    } catch (e) {
+      toast({
+        title: t.users.saveFailed,
+        description: e instanceof Error ? e.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium">
+        {user.email}
+        {isSelf && <span className="block text-xs text-muted-foreground">{t.users.you}</span>}
+      </TableCell>
+      <TableCell>
+        {/* Admins can't demote themselves and lock everyone out */}
+        <Select value={role} onValueChange={(v) => setRole(v as UserRole)} disabled={isSelf}>
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {USER_ROLES.map((r) => (
+              <SelectItem key={r} value={r}>{t.users.roles[r]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        {role === 'admin' ? (
+          <span className="text-sm text-muted-foreground">{t.users.adminSeesAll}</span>
+        ) : (
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={allowedLabels === null}
+                onCheckedChange={(checked) => setAllowedLabels(checked ? null : [])}
+              />
+              {t.users.allBrands}
+            </label>
+            {allowedLabels !== null && (
+              <div className="flex flex-wrap gap-1.5">
+                {labelOptions.map((label) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleLabel(label)}
+                    className={cn(
+                      'px-2.5 py-1 rounded-full text-xs border transition-colors',
+                      allowedLabels.includes(label)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'text-muted-foreground border-border hover:bg-secondary'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {allowedLabels.length === 0 && (
+                  <span className="text-xs text-warning">{t.users.noBrands}</span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" onClick={handleSave} disabled={!dirty || saving}>
+          {t.users.save}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Admin screen to assign roles and brands. The user_profiles RLS policies
+ * only allow admins to list and update other users.
+ */
+export function UserManagement() {
+  const { availableLabels } = useFilteredData();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { session, refreshProfile } = useAuthStore();
+
+  const { data: users = [], isLoading } = useQuery({ queryKey: ['user-profiles'], queryFn: fetchUserProfiles });
+
+  const handleSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['user-profiles'] });
+    refreshProfile();
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      <BentoCard
+        title={t.users.title}
+        subtitle={t.users.subtitle}
+        icon={<Users className="w-5 h-5" />}
+      >
+        {!isLoading && users.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.users.noUsers}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.users.email}</TableHead>
+                <TableHead>{t.users.role}</TableHead>
+                <TableHead>{t.users.brands}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <UserRow
+                  key={user.userId}
+                  user={user}
+                  labels={availableLabels}
+                  isSelf={user.userId === session?.user.id}
+                  onSaved={handleSaved}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <p className="text-xs text-muted-foreground mt-4">{t.users.inviteHint}</p>
+      </BentoCard>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { useFilteredData } from '@/hooks/useFashionData';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { detectAnomalies } from '@/utils/anomalies';
+
+// ============================================
+// ANOMALIES HOOK
+// ============================================
+
+/**
+ * Anomalies for the selected labels within the current date range
+ */
+export function useAnomalies() {
+  const { allMetrics, availableLabels } = useFilteredData();
+  const filters = useDashboardStore((s) => s.filters);
+  const anomalySettings = useDashboardStore((s) => s.anomalySettings);
+
+  // Detect over the full history so days at the start of the range have a baseline
+  const labelAnomalies = useMemo(() => {
+    const validLabels = filters.labels.filter((l) => availableLabels.includes(l));
+    const metrics = validLabels.length > 0
+      ? allMetrics.filter((m) => validLabels.includes(m.label))
+      : allMetrics;
+    return detectAnomalies(metrics, anomalySettings);
+  }, [allMetrics, availableLabels, filters.labels, anomalySettings]);
+
+  return useMemo(() => {
+    return labelAnomalies.filter((a) => {
+      const date = new Date(a.date);
+      return date >= filters.dateRange.start && date <= filters.dateRange.end;
+    });
+  }, [labelAnomalies, filters.dateRange]);
+}
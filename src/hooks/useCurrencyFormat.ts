@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { formatCurrency, getCurrencySymbol } from '@/utils/analytics';
+
+// ============================================
+// CURRENCY FORMATTING HOOK
+// ============================================
+
+/**
+ * formatCurrency and the currency symbol in the reporting currency selected in the header
+ */
+export function useCurrencyFormat() {
+  const currency = useDashboardStore((s) => s.reportingCurrency);
+
+  const format = useCallback(
+    (value: number, compact: boolean = false) => formatCurrency(value, compact, currency),
+    [currency]
+  );
+
+  return { currency, formatCurrency: format, currencySymbol: getCurrencySymbol(currency) };
+}
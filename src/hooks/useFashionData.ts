@@ -2,13 +2,217 @@ import { useQuery } from '@tanstack/react-query';
 import { useMemo } from 'react';
 import type { DailyMetrics, MonthlyTarget, HarmonizedData } from '@/types';
 import { DataHarmonizer, fetchGoogleSheetCSV } from '@/utils/dataHarmonizer';
+import { applyAttribution } from '@/utils/attribution';
+import { filterChannelsAndPlatforms } from '@/utils/channelFilter';
+import { getPlatformsInData } from '@/utils/platforms';
+import { convertToCurrency } from '@/utils/currency';
+import { applyMargins, resolveMarginInputs } from '@/utils/margins';
+import { fetchWarehouseData, type WarehouseData } from '@/utils/warehouse';
 import { useDashboardStore } from '@/store/dashboardStore';
+import { useAuthStore } from '@/store/authStore';
+import { restrictToProfile } from '@/utils/userProfiles';
+import {
+  useDataSourceStore,
+  getArchivesKey,
+  getUploadsKey,
+  getColumnMappingsKey,
+  getArchiveMappingKey,
+  getFxRateFileKey,
+  getFunnelFilesKey,
+  getWeatherFilesKey,
+  type ArchiveSource,
+  type FunnelFile,
+  type FxRateFile,
+  type UploadedSource,
+  type WeatherFile,
+  type SavedColumnMapping,
+} from '@/store/dataSourceStore';
+import { mapSheetRows, getDailyColumns, getHeaders, TARGET_COLUMNS, type ColumnSpec } from '@/utils/columnMapping';
 import { toast } from '@/hooks/use-toast';
 
 // ============================================
-// DATA FETCHING HOOK (Google Sheet Only)
+// DATA FETCHING HOOK (Warehouse, Google Sheet fallback)
 // ============================================
 
+type ColumnMappings = Record<string, SavedColumnMapping>;
+
+/**
+ * Re-key fetched rows with the saved (or suggested) column mapping and
+ * surface headers that could not be mapped
+ */
+function mapRows(
+  sourceKey: string,
+  sourceName: string,
+  rows: Record<string, string>[],
+  specs: ColumnSpec[],
+  columnMappings: ColumnMappings
+): Record<string, string>[] {
+  if (rows.length === 0) return rows;
+  
+  const saved = columnMappings[sourceKey];
+  const result = mapSheetRows(rows, specs, saved?.mapping, saved?.ignoredHeaders);
+  
+  if (result.missingColumns.length > 0) {
+    toast({
+      title: 'Column Mapping Needed',
+      description: `${sourceName} has no column for ${result.missingColumns.join(', ')}. Map it in Settings → Column mapping.`,
+      variant: 'destructive',
+    });
+  } else if (result.unknownHeaders.length > 0) {
+    console.warn(`Unmapped columns in ${sourceName}:`, result.unknownHeaders);
+    toast({
+      title: 'Unmapped Columns',
+      description: `${sourceName} has columns that are not used: ${result.unknownHeaders.join(', ')}. Review them in Settings → Column mapping.`,
+    });
+  }
+  
+  return result.rows;
+}
+
+/**
+ * Load Daily_Input, Targets, Events, Currencies, FX_Rates and Margins directly from the Google Sheet
+ */
+async function loadFromSheet(harmonizer: DataHarmonizer, columnMappings: ColumnMappings): Promise<void> {
+  console.log('Fetching Google Sheet via Edge Function...');
+  // Sheet ID is handled server-side by the edge function
+  const liveData = await fetchGoogleSheetCSV('', 'Daily_Input');
+  console.log('Fetched rows:', liveData.length, 'Sample:', liveData[0]);
+  
+  // Use European format parser for Google Sheet data
+  const result = harmonizer.addLiveDataEuropean(
+    mapRows('Daily_Input', 'Daily_Input', liveData, getDailyColumns(getHeaders(liveData)), columnMappings)
+  );
+  
+  if (result.errors > 0) {
+    toast({
+      title: 'Data Warning',
+      description: `${result.errors} rows were rejected. Open Data Quality in the header to see which rows and why.`,
+      variant: 'destructive',
+    });
+  } else if (result.success > 0) {
+    toast({
+      title: 'Data Loaded',
+      description: `Successfully loaded ${result.success} rows from Google Sheet`,
+    });
+  }
+  
+  // Fetch targets from Targets tab if available
+  try {
+    const targetsData = await fetchGoogleSheetCSV('', 'Targets');
+    if (targetsData.length > 0) {
+      harmonizer.addTargets(mapRows('Targets', 'Targets', targetsData, TARGET_COLUMNS, columnMappings));
+    }
+  } catch {
+    console.log('No Targets tab found (optional)');
+  }
+  
+  // Fetch events from Events tab if available
+  try {
+    const eventsData = await fetchGoogleSheetCSV('', 'Events');
+    if (eventsData.length > 0) {
+      harmonizer.addEvents(eventsData);
+    }
+  } catch {
+    console.log('No Events tab found (optional)');
+  }
+  
+  // Currency per label and daily FX rates, for shops outside the eurozone
+  try {
+    const currenciesData = await fetchGoogleSheetCSV('', 'Currencies');
+    if (currenciesData.length > 0) {
+      harmonizer.addLabelCurrencies(currenciesData);
+    }
+  } catch {
+    console.log('No Currencies tab found (optional)');
+  }
+  
+  try {
+    const fxData = await fetchGoogleSheetCSV('', 'FX_Rates');
+    if (fxData.length > 0) {
+      harmonizer.addFxRates(fxData);
+    }
+  } catch {
+    console.log('No FX_Rates tab found (optional)');
+  }
+  
+  // VAT, returns, COGS and shipping per label for the margin metrics
+  try {
+    const marginsData = await fetchGoogleSheetCSV('', 'Margins');
+    if (marginsData.length > 0) {
+      harmonizer.addMarginInputs(marginsData);
+    }
+  } catch {
+    console.log('No Margins tab found (optional)');
+  }
+}
+
+/**
+ * Load registered prior-year archives (sheet tabs or uploaded files)
+ */
+async function loadArchives(
+  harmonizer: DataHarmonizer,
+  archives: ArchiveSource[],
+  columnMappings: ColumnMappings
+): Promise<void> {
+  for (const archive of archives) {
+    try {
+      const rows = archive.kind === 'sheet'
+        ? await fetchGoogleSheetCSV('', archive.sheetName || `Daily_${archive.year}`)
+        : archive.rows || [];
+      const name = archive.kind === 'sheet' ? archive.sheetName : archive.fileName;
+      const mapped = mapRows(getArchiveMappingKey(archive), name, rows, getDailyColumns(getHeaders(rows)), columnMappings);
+      const result = harmonizer.addHistoricalDataEuropean(mapped, archive.year, name);
+      console.log(`Loaded archive ${name} (${archive.year}):`, result);
+    } catch (e) {
+      console.warn(`Failed to load archive for ${archive.year}:`, e);
+      toast({
+        title: 'Archive Warning',
+        description: `Could not load the ${archive.year} archive. Prior-year comparisons may be incomplete.`,
+        variant: 'destructive',
+      });
+    }
+  }
+}
+
+/**
+ * Load imported CSV/XLSX datasets
+ */
+function loadUploads(harmonizer: DataHarmonizer, uploads: UploadedSource[]): void {
+  for (const upload of uploads) {
+    const result = harmonizer.addUploadedData(upload.rows, upload.fileName, upload.id);
+    console.log(`Loaded upload ${upload.fileName}:`, result);
+  }
+}
+
+/**
+ * Load the uploaded FX rate file on top of the sheet or warehouse rates
+ */
+function loadFxRateFile(harmonizer: DataHarmonizer, file: FxRateFile | null): void {
+  if (!file) return;
+  const result = harmonizer.addFxRates(file.rows, file.fileName);
+  console.log(`Loaded FX rates ${file.fileName}:`, result);
+}
+
+/**
+ * Load the uploaded GA4 exports on top of the sheet's funnel columns
+ */
+function loadFunnelFiles(harmonizer: DataHarmonizer, files: FunnelFile[]): void {
+  for (const file of files) {
+    const result = harmonizer.addFunnelData(file.rows, file.label, file.fileName);
+    console.log(`Loaded funnel ${file.fileName}:`, result);
+  }
+}
+
+/**
+ * Load the uploaded weather files on top of the connector's weather
+ */
+function loadWeatherFiles(harmonizer: DataHarmonizer, files: WeatherFile[]): void {
+  for (const file of files) {
+    const result = harmonizer.addWeather(file.rows, file.country, file.fileName);
+    console.log(`Loaded weather ${file.fileName}:`, result);
+  }
+}
+
 interface UseFashionDataOptions {
   staleTime?: number;
 }
@@ -17,55 +221,66 @@ export function useFashionData(options: UseFashionDataOptions = {}) {
   const { staleTime = 5 * 60 * 1000 } = options;
   const setLoading = useDashboardStore((s) => s.setLoading);
   const setLastRefresh = useDashboardStore((s) => s.setLastRefresh);
+  const archives = useDataSourceStore((s) => s.archives);
+  const uploads = useDataSourceStore((s) => s.uploads);
+  const columnMappings = useDataSourceStore((s) => s.columnMappings);
+  const fxRateFile = useDataSourceStore((s) => s.fxRateFile);
+  const funnelFiles = useDataSourceStore((s) => s.funnelFiles);
+  const weatherFiles = useDataSourceStore((s) => s.weatherFiles);
   
   const query = useQuery({
-    queryKey: ['fashion-data'],
+    queryKey: [
+      'fashion-data',
+      getArchivesKey(archives),
+      getUploadsKey(uploads),
+      getColumnMappingsKey(columnMappings),
+      getFxRateFileKey(fxRateFile),
+      getFunnelFilesKey(funnelFiles),
+      getWeatherFilesKey(weatherFiles),
+    ],
     queryFn: async (): Promise<HarmonizedData> => {
       setLoading(true);
       
       const harmonizer = new DataHarmonizer();
       
       try {
-        console.log('Fetching Google Sheet via Edge Function...');
-        // Sheet ID is handled server-side by the edge function
-        const liveData = await fetchGoogleSheetCSV('', 'Daily_Input');
-        console.log('Fetched rows:', liveData.length, 'Sample:', liveData[0]);
-        
-        // Use European format parser for Google Sheet data
-        const result = harmonizer.addLiveDataEuropean(liveData);
+        // Prefer the Postgres warehouse; fall back to the sheet when it is empty or unreachable
+        let warehouse: WarehouseData | null = null;
+        try {
+          warehouse = await fetchWarehouseData();
+        } catch (e) {
+          console.warn('Warehouse unavailable, falling back to Google Sheet:', e);
+        }
         
-        if (result.errors > 0) {
-          toast({
-            title: 'Data Warning',
-            description: `${result.errors} rows had parsing issues. Check console for details.`,
-            variant: 'destructive',
-          });
-        } else if (result.success > 0) {
+        if (warehouse && warehouse.metrics.length > 0) {
+          const result = harmonizer.addLiveMetrics(warehouse.metrics);
+          harmonizer.setTargets(warehouse.targets);
+          harmonizer.setEvents(warehouse.events);
+          harmonizer.setCurrencies(warehouse.labelCurrencies, warehouse.fxRates);
+          harmonizer.setMarginInputs(warehouse.marginInputs);
+          
           toast({
             title: 'Data Loaded',
-            description: `Successfully loaded ${result.success} rows from Google Sheet`,
+            description: `Successfully loaded ${result.success} rows from the warehouse`,
           });
+        } else {
+          await loadFromSheet(harmonizer, columnMappings);
         }
         
-        // Fetch targets from Targets tab if available
-        try {
-          const targetsData = await fetchGoogleSheetCSV('', 'Targets');
-          if (targetsData.length > 0) {
-            harmonizer.addTargets(targetsData);
-          }
-        } catch {
-          console.log('No Targets tab found (optional)');
+        // Shopify revenue, orders and returns win over the sheet, also in the fallback
+        if (warehouse && warehouse.shopMetrics.length > 0) {
+          harmonizer.addShopMetrics(warehouse.shopMetrics, warehouse.adPlatforms);
         }
         
-        // Fetch events from Events tab if available
-        try {
-          const eventsData = await fetchGoogleSheetCSV('', 'Events');
-          if (eventsData.length > 0) {
-            harmonizer.addEvents(eventsData);
-          }
-        } catch {
-          console.log('No Events tab found (optional)');
-        }
+        // Weather from the sync-weather connector, also in the fallback
+        if (warehouse) harmonizer.setWeather(warehouse.weather);
+        
+        // Uploads and prior-year archives; overlapping date + label rows are dropped in favour of live data
+        loadUploads(harmonizer, uploads);
+        await loadArchives(harmonizer, archives, columnMappings);
+        loadFxRateFile(harmonizer, fxRateFile);
+        loadFunnelFiles(harmonizer, funnelFiles);
+        loadWeatherFiles(harmonizer, weatherFiles);
         
         const errors = harmonizer.getErrors();
         if (errors.length > 0) {
@@ -94,8 +309,45 @@ export function useFashionData(options: UseFashionDataOptions = {}) {
 // ============================================
 
 export function useFilteredData() {
-  const { data: harmonizedData, ...queryState } = useFashionData();
+  const { data, ...queryState } = useFashionData();
   const filters = useDashboardStore((s) => s.filters);
+  const profile = useAuthStore((s) => s.profile);
+  
+  // Only labels the user may see, also for locally imported files
+  const harmonizedData = useMemo(() => restrictToProfile(data, profile), [data, profile]);
+  const attribution = useDashboardStore((s) => s.attribution);
+  const reportingCurrency = useDashboardStore((s) => s.reportingCurrency);
+  const marginOverrides = useDashboardStore((s) => s.marginOverrides);
+  
+  // Margin inputs from the sheet, with the settings on top
+  const marginInputs = useMemo(
+    () => resolveMarginInputs(harmonizedData?.marginInputs || {}, marginOverrides),
+    [harmonizedData, marginOverrides]
+  );
+  
+  // Margin metrics in the label's own currency (shipping costs are), then all
+  // money in the reporting currency, before anything is added up across labels
+  const conversion = useMemo(() => {
+    if (!harmonizedData) return null;
+    return convertToCurrency(
+      { ...harmonizedData, metrics: applyMargins(harmonizedData.metrics, marginInputs) },
+      reportingCurrency
+    );
+  }, [harmonizedData, marginInputs, reportingCurrency]);
+  
+  // Re-attribute platform revenue with the selected attribution model
+  const attributedMetrics = useMemo(() => {
+    if (!conversion) return [];
+    return applyAttribution(conversion.metrics, attribution);
+  }, [conversion, attribution]);
+  
+  // Only the selected channels and platforms; everything below derives from this
+  const segmentedMetrics = useMemo(() => {
+    return filterChannelsAndPlatforms(attributedMetrics, {
+      channels: filters.channels,
+      platforms: filters.platforms,
+    });
+  }, [attributedMetrics, filters.channels, filters.platforms]);
   
   // Get unique labels from the actual data
   const availableLabels = useMemo(() => {
@@ -103,10 +355,13 @@ export function useFilteredData() {
     return [...new Set(harmonizedData.metrics.map((m) => m.label))];
   }, [harmonizedData]);
   
+  // Ad platforms with columns in the data, Facebook and Google always included
+  const availablePlatforms = useMemo(() => getPlatformsInData(attributedMetrics), [attributedMetrics]);
+  
   const filteredMetrics = useMemo(() => {
     if (!harmonizedData) return [];
     
-    let metrics = harmonizedData.metrics;
+    let metrics = segmentedMetrics;
     
     // Filter by date range
     metrics = metrics.filter((m) => {
@@ -124,20 +379,20 @@ export function useFilteredData() {
     }
     
     return metrics;
-  }, [harmonizedData, filters.dateRange, filters.labels, availableLabels]);
+  }, [harmonizedData, segmentedMetrics, filters.dateRange, filters.labels, availableLabels]);
   
   const currentTarget = useMemo(() => {
-    if (!harmonizedData) return null;
+    if (!conversion) return null;
     
     // Use filter end date instead of today for dynamic target lookup
     const targetDate = filters.dateRange.end;
     const monthStr = `${targetDate.getFullYear()}-${String(targetDate.getMonth() + 1).padStart(2, '0')}`;
     
-    console.log('Looking for target month:', monthStr, 'Available targets:', harmonizedData.targets.map(t => t.month));
+    console.log('Looking for target month:', monthStr, 'Available targets:', conversion.targets.map(t => t.month));
     
     // If there are targets, use them
-    if (harmonizedData.targets.length > 0) {
-      const relevantTargets = harmonizedData.targets.filter((t) => t.month === monthStr);
+    if (conversion.targets.length > 0) {
+      const relevantTargets = conversion.targets.filter((t) => t.month === monthStr);
       console.log('Found matching targets:', relevantTargets);
       
       if (relevantTargets.length > 0) {
@@ -147,25 +402,26 @@ export function useFilteredData() {
           revenueTarget: relevantTargets.reduce((sum, t) => sum + t.revenueTarget, 0),
           ordersTarget: relevantTargets.reduce((sum, t) => sum + t.ordersTarget, 0),
           merTarget: relevantTargets[0].merTarget,
+          adBudget: relevantTargets.reduce((sum, t) => sum + t.adBudget, 0),
         };
       }
     }
     
     // Return null if no matching target found - don't use fake €100K fallback
     return null;
-  }, [harmonizedData, filters.dateRange]);
+  }, [conversion, filters.dateRange]);
   
   // Calculate total revenue for ALL labels within the date range (no label filter)
   const totalRevenueAllLabels = useMemo(() => {
     if (!harmonizedData) return 0;
     
-    const metricsInDateRange = harmonizedData.metrics.filter((m) => {
+    const metricsInDateRange = segmentedMetrics.filter((m) => {
       const date = new Date(m.date);
       return date >= filters.dateRange.start && date <= filters.dateRange.end;
     });
     
     return metricsInDateRange.reduce((sum, m) => sum + m.totalRevenue, 0);
-  }, [harmonizedData, filters.dateRange]);
+  }, [harmonizedData, segmentedMetrics, filters.dateRange]);
   
   // Filter events by date range and labels
   const filteredEvents = useMemo(() => {
@@ -186,10 +442,19 @@ export function useFilteredData() {
   return {
     metrics: filteredMetrics,
     target: currentTarget,
-    allMetrics: harmonizedData?.metrics || [],
-    allTargets: harmonizedData?.targets || [],
+    allMetrics: segmentedMetrics,
+    // Before the channel/platform filter, to re-attribute with another model
+    attributedMetrics,
+    allTargets: conversion?.targets || [],
+    currency: reportingCurrency,
+    // Currencies without FX rates; their amounts are shown unconverted
+    missingFxRates: conversion?.missingRates || [],
+    marginInputs,
     events: filteredEvents,
+    // Daily weather per country, not limited to the date range
+    weather: harmonizedData?.weather || [],
     availableLabels,
+    availablePlatforms,
     totalRevenueAllLabels,
     ...queryState,
   };
@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useFilteredData } from '@/hooks/useFashionData';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { forecastRevenue } from '@/utils/forecast';
+
+// ============================================
+// FORECAST HOOK
+// ============================================
+
+/**
+ * Revenue forecast for the selected labels, for the current month and quarter
+ */
+export function useForecast() {
+  const { allMetrics, availableLabels } = useFilteredData();
+  const labels = useDashboardStore((s) => s.filters.labels);
+
+  return useMemo(() => {
+    const validLabels = labels.filter((l) => availableLabels.includes(l));
+    const metrics = validLabels.length > 0
+      ? allMetrics.filter((m) => validLabels.includes(m.label))
+      : allMetrics;
+    return forecastRevenue(metrics);
+  }, [allMetrics, availableLabels, labels]);
+}
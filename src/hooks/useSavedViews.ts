@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { useAuthStore } from '@/store/authStore';
+import { fetchSavedViews, viewToFilters } from '@/utils/savedViews';
+import type { SavedView } from '@/types';
+
+export function useSavedViews() {
+  const setFilters = useDashboardStore((s) => s.setFilters);
+  const setChartKPI = useDashboardStore((s) => s.setChartKPI);
+  const query = useQuery({ queryKey: ['saved-views'], queryFn: fetchSavedViews });
+
+  // Relative dates resolve against today, every time a view is applied
+  const applyView = useCallback((view: SavedView) => {
+    setFilters(viewToFilters(view.definition));
+    setChartKPI(view.definition.chartKPI);
+  }, [setFilters, setChartKPI]);
+
+  return { views: query.data ?? [], isLoading: query.isLoading, applyView };
+}
+
+/**
+ * Apply the user's default view once on landing, unless the URL already
+ * carries filters (a shared link)
+ */
+export function useDefaultViewOnLanding() {
+  const { views, applyView } = useSavedViews();
+  const defaultViewId = useAuthStore((s) => s.profile?.defaultViewId ?? null);
+  // Read before the URL sync writes the current filters into the query params
+  const [hasLinkFilters] = useState(() => new URLSearchParams(window.location.search).has('from'));
+  const applied = useRef(false);
+
+  useEffect(() => {
+    if (applied.current || hasLinkFilters || !defaultViewId) return;
+    const view = views.find((v) => v.id === defaultViewId);
+    if (!view) return;
+    applied.current = true;
+    applyView(view);
+  }, [views, defaultViewId, hasLinkFilters, applyView]);
+}
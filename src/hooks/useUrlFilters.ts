@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useDashboardStore } from '@/store/dashboardStore';
+import { filtersFromSearchParams, filtersToSearchParams } from '@/utils/urlState';
+
+/**
+ * Keep the dashboard filters and the query params in sync, so every view
+ * can be shared as a link. The URL wins on load and on back/forward; after
+ * that filter changes replace the query params without adding history.
+ */
+export function useUrlFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useDashboardStore((s) => s.filters);
+  const setFilters = useDashboardStore((s) => s.setFilters);
+  const search = searchParams.toString();
+  // The query string last read or written here; other changes come from the user
+  const synced = useRef<string | null>(null);
+
+  // URL -> store
+  useEffect(() => {
+    if (search === synced.current) return;
+    synced.current = search;
+    const fromUrl = filtersFromSearchParams(new URLSearchParams(search));
+    if (Object.keys(fromUrl).length > 0) setFilters(fromUrl);
+  }, [search, setFilters]);
+
+  // Store -> URL. Reads the store directly: the effect above may just have
+  // hydrated it in this same commit.
+  useEffect(() => {
+    const next = filtersToSearchParams(useDashboardStore.getState().filters).toString();
+    if (next === synced.current) return;
+    synced.current = next;
+    setSearchParams(next, { replace: true });
+  }, [filters, search, setSearchParams]);
+}
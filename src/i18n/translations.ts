@@ -8,13 +8,26 @@ export const translations = {
       revenueAnalysis: 'Revenue Analysis',
       marketingBattle: 'Marketing Battle',
       brandBenchmarking: 'Brand Benchmarking',
+      returns: 'Returns',
+      alerts: 'Alerts',
+      targets: 'Targets',
+      reports: 'Reports',
+      users: 'Users',
     },
     
-    // Password Gate
-    passwordGate: {
-      enterPassword: 'Enter Password',
-      accessDashboard: 'Access Dashboard',
-      incorrectPassword: 'Incorrect password. Please try again.',
+    // Auth
+    auth: {
+      email: 'Email',
+      password: 'Password',
+      signIn: 'Sign In',
+      sendMagicLink: 'Email me a sign-in link',
+      useMagicLink: 'Sign in with an email link instead',
+      usePassword: 'Sign in with a password instead',
+      magicLinkSent: 'Check your inbox for a sign-in link.',
+      invalidCredentials: 'Incorrect email or password. Please try again.',
+      sessionExpired: 'Your session has expired. Please sign in again.',
+      inviteOnly: 'Access is by invitation only.',
+      signOut: 'Sign out',
     },
     
     // Header
@@ -27,6 +40,16 @@ export const translations = {
       alignedByWeekday: 'Aligned by weekday',
       exactDateMatch: 'Exact date match',
       lastSync: 'Last sync:',
+      copyLink: 'Copy link to this view',
+      linkCopied: 'Link copied to clipboard',
+      channels: 'Sales channels',
+      platforms: 'Ad platforms',
+      channelNames: {
+        web: 'Web',
+        app: 'App',
+      },
+      currency: 'Reporting currency',
+      missingFxRates: 'No FX rates for {currencies}; these amounts are shown unconverted',
     },
     
     // Date Picker
@@ -86,6 +109,26 @@ export const translations = {
         title: 'Brand Benchmarking',
         subtitle: 'Compare all brands head-to-head',
       },
+      returns: {
+        title: 'Returns',
+        subtitle: 'Refunded revenue and what it does to ROAS',
+      },
+      alerts: {
+        title: 'Alerts',
+        subtitle: 'Get notified when metrics cross a threshold',
+      },
+      targets: {
+        title: 'Targets',
+        subtitle: 'Monthly revenue, orders, MER and ad budget targets',
+      },
+      reports: {
+        title: 'Reports',
+        subtitle: 'Weekly and monthly summaries for management',
+      },
+      users: {
+        title: 'User Management',
+        subtitle: 'Roles and brand access',
+      },
     },
     
     // Brand Benchmarking
@@ -102,6 +145,44 @@ export const translations = {
       spend: 'Spend',
       orders: 'Orders',
       aov: 'AOV',
+      netRevenue: 'Net revenue',
+      grossMargin: 'Gross margin',
+      contributionMarginAfterCogs: 'Margin after COGS',
+      poas: 'POAS',
+      rankBy: 'Rank by',
+      weatherSensitivity: 'Weather Sensitivity',
+      weatherSensitivitySubtitle: 'How revenue moves with temperature and rain, against the surrounding four weeks and the weekday',
+      country: 'Country',
+      days: 'Days',
+      temperatureCorrelation: 'Temperature corr.',
+      revenuePerDegree: 'Revenue per °C above normal',
+      precipitationCorrelation: 'Rain corr.',
+      rainyDayEffect: 'Rainy days',
+      rainyDayHint: 'Revenue on days with at least {mm} mm of rain, compared to dry days',
+      noWeatherData: 'Not enough weather data. Labels need a country suffix (e.g. FMH.NL) and at least {days} days with weather, each with three weeks of revenue and weather around it to compare with; upload weather in Settings or run the weather connector.',
+    },
+    
+    // Returns
+    returns: {
+      returnedRevenue: 'Returned revenue',
+      returnedOrders: 'Returned orders',
+      returnRate: 'Return rate',
+      revenueAfterReturns: 'Revenue after returns',
+      trend: 'Return Rate Trend',
+      trendSubtitle: 'Returned revenue as a share of revenue per day',
+      byBrand: 'Returns by Brand',
+      brand: 'Brand',
+      revenue: 'Revenue',
+      platformRoas: 'Gross vs Net ROAS',
+      platformRoasSubtitle: 'Attributed revenue before and after returns, per platform',
+      platform: 'Platform',
+      spend: 'Spend',
+      grossRevenue: 'Attributed revenue',
+      netRevenue: 'After returns',
+      grossRoas: 'Gross ROAS',
+      netRoas: 'Net ROAS',
+      roasLost: 'Lost to returns',
+      noReturns: 'No returns in this period. Add Returned_Revenue and Returned_Orders columns to the Daily_Input tab to track them.',
     },
     
     // Gauges
@@ -110,6 +191,8 @@ export const translations = {
       target: 'Target',
       dayOfMonth: 'Day {current} of {total}',
       projected: 'Projected',
+      forecastRange: '80% range',
+      quarterProjected: 'Projected this quarter',
       excellent: 'Excellent',
       good: 'Good',
       warning: 'Warning',
@@ -151,6 +234,18 @@ export const translations = {
       bestPerformingDay: 'Best Performing Day',
       worstPerformingDay: 'Worst Performing Day',
       vsLastYear: 'vs comparison period',
+      funnel: 'Conversion Funnel',
+      funnelSubtitle: 'Each step vs the comparison period, with the share that reached it from the step before',
+      funnelSteps: {
+        sessions: 'Sessions',
+        addToCarts: 'Add to cart',
+        checkouts: 'Checkout',
+        orders: 'Orders',
+      },
+      ofPreviousStep: 'of previous step',
+      current: 'Current',
+      comparison: 'Comparison',
+      noFunnelData: 'No sessions in this period. Fill the Sessions_Web / Sessions_App columns or upload a GA4 export in settings.',
     },
     
     // Marketing Battle
@@ -161,14 +256,33 @@ export const translations = {
       lower: 'Lower',
       clicks: 'clicks',
       platformBattle: 'Platform Battle',
-      headToHead: 'Head to head performance comparison',
-      facebook: 'Facebook',
-      google: 'Google',
+      headToHead: 'ROAS and CPA of every platform with spend',
       roasWinner: 'ROAS Winner',
       bestCpa: 'Best CPA',
       bestCpc: 'Best CPC',
       budgetAllocation: 'Budget Allocation',
       spendDistribution: 'Spend distribution across platforms',
+      attributionModel: 'Attribution Model',
+      attributionModelSubtitle: 'How web revenue is credited to each platform',
+      models: {
+        fixed: 'Fixed Split',
+        spend: 'Spend Share',
+        conversions: 'Conversion Share',
+        last_click: 'Last Click',
+      },
+      modelDescriptions: {
+        fixed: 'A fixed weight per platform and brand; each platform gets its share of the total weight. Brands without custom weights use 60/40 Meta / Google.',
+        spend: 'Web revenue is split in proportion to each platform\'s spend that day.',
+        conversions: 'Web revenue is split in proportion to the Conv_<Platform> columns (Conv_FB, Conv_Google, ...). Days without conversions fall back to spend share.',
+        last_click: 'Uses the LastClick_<Platform> sheet columns (LastClick_FB, LastClick_Google, ...). Days without last-click data fall back to the fixed split.',
+      },
+      weight: 'Weight',
+      share: 'share',
+      modelComparison: 'Model Comparison',
+      modelComparisonSubtitle: 'How ROAS and CPA shift under each attribution model',
+      model: 'Model',
+      active: 'Active',
+      noSpend: 'No ad spend in this period',
     },
     
     // Charts
@@ -180,6 +294,21 @@ export const translations = {
       aov: 'AOV',
       spend: 'Spend',
       roas: 'ROAS',
+      forecast: 'Forecast',
+      forecastRange: 'Forecast range',
+      netRevenue: 'Net revenue',
+      grossMargin: 'Gross margin',
+      contributionMarginAfterCogs: 'Margin after COGS',
+      poas: 'POAS',
+      returnRate: 'Return rate',
+      conversionRate: 'Conversion rate',
+      revenuePerSession: 'Revenue / session',
+      kpi: 'Chart metric',
+      weather: 'Weather',
+      weatherOverlay: 'Weather overlay',
+      noWeather: 'No weather',
+      temperature: 'Temperature',
+      precipitation: 'Precipitation',
     },
     
     // Events
@@ -190,6 +319,312 @@ export const translations = {
       other: 'Other',
     },
     
+    // Data Quality
+    dataQuality: {
+      title: 'Data Quality',
+      subtitle: 'Rows that were rejected or look suspicious while loading the data',
+      errors: 'Errors',
+      warnings: 'Warnings',
+      all: 'All',
+      noIssues: 'No data quality issues found',
+      exportCsv: 'Export CSV',
+      severity: 'Status',
+      source: 'Source',
+      row: 'Row',
+      column: 'Column',
+      value: 'Value',
+      issue: 'Issue',
+      rejected: 'Rejected',
+      kept: 'Kept',
+      showing: 'Showing {shown} of {total}',
+      dataSources: 'Data sources',
+      sourceTypes: {
+        live: 'Sheet',
+        historical: 'Archive',
+        upload: 'Upload',
+        connector: 'Connector',
+      },
+      days: '{count} days',
+      connectorNote: 'Revenue, orders and returns replace the sheet on these days',
+      overrides: '{count} days differed from the sheet',
+      duplicatesDropped: '{count} duplicate days dropped',
+      codes: {
+        invalid_date: 'Invalid date',
+        missing_label: 'Missing label',
+        negative_value: 'Negative number',
+        not_a_number: 'Not a number',
+        duplicate_row: 'Duplicate date + label',
+        outlier: 'Suspicious outlier',
+        label_typo: 'Unknown label',
+      },
+    },
+    
+    // Anomalies
+    anomalies: {
+      title: 'Anomalies',
+      subtitle: 'Days that deviate from the usual level for that weekday',
+      anomaly: 'Anomaly',
+      sensitivity: 'Threshold',
+      none: 'No anomalies in this period',
+      expected: 'expected',
+      andMore: '+{count} more',
+      metrics: {
+        revenue: 'Revenue',
+        spend: 'Spend',
+        orders: 'Orders',
+        aov: 'AOV',
+        mer: 'MER',
+      },
+    },
+    
+    // Alerts
+    alerts: {
+      rules: 'Alert Rules',
+      rulesSubtitle: 'Evaluated daily on the synced warehouse data',
+      history: 'Firing History',
+      historySubtitle: 'Most recent notifications',
+      newRule: 'New rule',
+      editRule: 'Edit rule',
+      evaluateNow: 'Evaluate now',
+      noRules: 'No alert rules yet',
+      noHistory: 'No alerts have fired yet',
+      name: 'Name',
+      metric: 'Metric',
+      label: 'Label',
+      allLabels: 'All labels',
+      condition: 'Condition',
+      threshold: 'Threshold',
+      consecutiveDays: 'Days running',
+      daysRunning: '{count} days running',
+      webhookUrl: 'Webhook URL (Slack-compatible)',
+      emailTo: 'Email recipients',
+      emailHint: 'Separate addresses with commas',
+      enabled: 'Enabled',
+      save: 'Save',
+      cancel: 'Cancel',
+      delete: 'Delete',
+      status: 'Status',
+      lastEvaluated: 'Last evaluated',
+      never: 'Never',
+      value: 'Value',
+      firedAt: 'Fired',
+      message: 'Message',
+      delivery: 'Delivery',
+      notDelivered: 'Not delivered',
+      above: 'above',
+      below: 'below',
+      merHint: 'MER in %',
+      pacingHint: 'Projected month-end revenue as % of target',
+      nameRequired: 'Give the rule a name',
+      invalidThreshold: 'Enter a number for the threshold',
+      saveFailed: 'Could not save the rule',
+      evaluated: '{evaluated} rules evaluated, {fired} fired',
+      evaluateFailed: 'Could not evaluate the rules',
+      metrics: {
+        mer: 'MER',
+        roas: 'ROAS',
+        revenue: 'Revenue',
+        spend: 'Spend',
+        orders: 'Orders',
+        pacing: 'Projected vs target',
+      },
+      statuses: {
+        pending: 'Pending',
+        ok: 'OK',
+        firing: 'Firing',
+        no_data: 'No data',
+        error: 'Error',
+      },
+    },
+    
+    // User management
+    users: {
+      title: 'Users',
+      subtitle: 'Assign roles and the brands each user can see',
+      email: 'Email',
+      role: 'Role',
+      brands: 'Brands',
+      allBrands: 'All brands',
+      adminSeesAll: 'Admins see all brands',
+      noBrands: 'No brands: this user sees no data',
+      you: 'You',
+      save: 'Save',
+      saved: 'User updated',
+      saveFailed: 'Could not update the user',
+      noUsers: 'No users found.',
+      inviteHint: 'Invite new users from Supabase Auth. They start as brand viewers without brands.',
+      roles: {
+        admin: 'Admin',
+        analyst: 'Analyst',
+        brand_viewer: 'Brand viewer',
+      },
+    },
+    
+    // Saved views
+    savedViews: {
+      title: 'Saved views',
+      saveView: 'Save current view',
+      editView: 'Edit view',
+      name: 'Name',
+      namePlaceholder: 'e.g. Month to date vs last year',
+      nameRequired: 'Give the view a name',
+      dateRange: 'Date range',
+      fixedDates: 'Fixed dates',
+      relativeHint: 'Moves along with today, so the view never goes stale.',
+      fixedHint: 'Always shows these exact dates.',
+      includesHint: 'Also saves the selected labels, channels, platforms, comparison and chart metric.',
+      share: 'Share with teammates',
+      useAsDefault: 'Open this view when I sign in',
+      setDefault: 'Set as landing view',
+      clearDefault: 'Remove as landing view',
+      sharedByTeammate: 'Shared by a teammate',
+      edit: 'Edit',
+      delete: 'Delete',
+      cancel: 'Cancel',
+      save: 'Save',
+      saveFailed: 'Could not save the view',
+      noViews: 'No saved views yet',
+      ranges: {
+        today: 'Today',
+        yesterday: 'Yesterday',
+        last_7_days: 'Last 7 days',
+        last_28_days: 'Last 28 days',
+        last_30_days: 'Last 30 days',
+        this_week: 'This week',
+        last_week: 'Last week',
+        month_to_date: 'Month to date',
+        last_month: 'Last month',
+        quarter_to_date: 'Quarter to date',
+        last_quarter: 'Last quarter',
+        year_to_date: 'Year to date',
+        last_year: 'Last year',
+      },
+    },
+    
+    // Targets
+    targets: {
+      monthlyTargets: 'Monthly Targets',
+      monthlyTargetsSubtitle: 'Edit targets per month and brand',
+      allLabels: 'All brands',
+      month: 'Month',
+      label: 'Brand',
+      source: 'Source',
+      fields: {
+        revenueTarget: 'Revenue',
+        ordersTarget: 'Orders',
+        merTarget: 'MER %',
+        adBudget: 'Ad budget',
+      },
+      sources: {
+        sheet: 'Sheet sync',
+        app: 'Dashboard',
+      },
+      unsaved: 'Unsaved',
+      save: 'Save',
+      delete: 'Delete target',
+      saved: '{count} target(s) saved',
+      saveFailed: 'Could not save targets',
+      invalid: 'Invalid target for {month}',
+      currencyHint: "Amounts are in the brand's own currency. Targets saved here are no longer overwritten by the Targets sheet tab.",
+      distribute: 'Distribute a Target',
+      distributeSubtitle: 'Split a quarterly or annual target over its months',
+      period: 'Period',
+      fullYear: 'Full year {year}',
+      distributeAction: 'Distribute',
+      distributeHint: "Revenue, orders and ad budget follow last year's revenue per month; without history they follow the number of days. The MER target applies to every month. Review and save afterwards.",
+      distributed: 'Distributed over {count} months, review and save',
+      invalidTotal: 'Enter non-negative totals',
+      history: 'Change History',
+      historySubtitle: 'Latest changes from the dashboard and the sheet sync',
+      noHistory: 'No target changes yet',
+      changedAt: 'When',
+      changedBy: 'By',
+      change: 'Change',
+      actions: {
+        insert: 'Added',
+        update: 'Changed',
+        delete: 'Deleted',
+      },
+    },
+    
+    // Reports
+    reports: {
+      schedules: 'Report Schedules',
+      schedulesSubtitle: 'PDF summaries emailed on a schedule',
+      newSchedule: 'New schedule',
+      editSchedule: 'Edit schedule',
+      noSchedules: 'No report schedules yet',
+      name: 'Name',
+      namePlaceholder: 'e.g. Monday management update',
+      nameRequired: 'Give the schedule a name',
+      period: 'Period',
+      weekly: 'Weekly',
+      monthly: 'Monthly',
+      weeklyHint: 'Sent every Monday, covering the previous Monday to Sunday',
+      monthlyHint: 'Sent on the 1st, covering the previous month',
+      language: 'Language',
+      recipients: 'Recipients',
+      recipientsPlaceholder: 'ceo@example.com, cfo@example.com',
+      recipientsRequired: 'Add at least one recipient',
+      labels: 'Labels',
+      allLabels: 'All labels',
+      labelsRequired: 'Pick at least one label',
+      enabled: 'Enabled',
+      lastSent: 'Last sent',
+      never: 'Never',
+      preview: 'Preview PDF',
+      sendNow: 'Send now',
+      sent: 'Report sent to {recipients}',
+      sendFailed: 'Could not send the report',
+      previewFailed: 'Could not create the preview',
+      saveFailed: 'Could not save the schedule',
+      edit: 'Edit',
+      delete: 'Delete',
+      cancel: 'Cancel',
+      save: 'Save',
+      weeklyTitle: 'Weekly Report',
+      monthlyTitle: 'Monthly Report',
+      comparedWith: 'Compared with {range}',
+      keyMetrics: 'Key Metrics',
+      metric: 'Metric',
+      thisPeriod: 'This period',
+      lastYear: 'Last year',
+      change: 'Change',
+      kpis: {
+        revenue: 'Revenue',
+        spend: 'Ad Spend',
+        orders: 'Orders',
+        aov: 'AOV',
+        mer: 'MER',
+        roas: 'ROAS',
+      },
+      pacing: 'Pacing vs Target',
+      pacingSummary: '{current} of the {target} target after day {days} of {total} ({pacing} of pace)',
+      projected: 'Projected month end: {projected} ({percentage} of target)',
+      noTarget: 'No target set for {month}',
+      podium: 'Brand Podium',
+      podiumGrowth: '{growth} vs last year',
+      topEvents: 'Top Events',
+      noEvents: 'No events in this period',
+      generatedOn: 'Generated on {date}',
+      emailIntro: 'Attached is the {report} for {range}.',
+      emailRevenue: 'Revenue: {revenue} ({change} vs last year)',
+    },
+    
+    // Export
+    exportMenu: {
+      export: 'Export',
+      data: 'Data',
+      chart: 'Chart',
+      csv: 'CSV',
+      xlsx: 'Excel (XLSX)',
+      png: 'Image (PNG)',
+      svg: 'Vector (SVG)',
+      europeanDecimals: 'European decimals in CSV (1234,56)',
+      noChart: 'There is no chart to export',
+      failed: 'Export failed',
+    },
+    
     // Settings
     settings: {
       title: 'Settings',
@@ -219,13 +654,26 @@ export const translations = {
       revenueAnalysis: 'Omzet Analyse',
       marketingBattle: 'Marketing Strijd',
       brandBenchmarking: 'Merk Benchmarking',
+      returns: 'Retouren',
+      alerts: 'Meldingen',
+      targets: 'Doelen',
+      reports: 'Rapporten',
+      users: 'Gebruikers',
     },
     
     // Password Gate
-    passwordGate: {
-      enterPassword: 'Voer wachtwoord in',
-      accessDashboard: 'Toegang tot Dashboard',
-      incorrectPassword: 'Onjuist wachtwoord. Probeer het opnieuw.',
+    auth: {
+      email: 'E-mail',
+      password: 'Wachtwoord',
+      signIn: 'Inloggen',
+      sendMagicLink: 'Stuur mij een inloglink',
+      useMagicLink: 'Inloggen met een e-maillink',
+      usePassword: 'Inloggen met een wachtwoord',
+      magicLinkSent: 'Controleer je inbox voor een inloglink.',
+      invalidCredentials: 'Onjuist e-mailadres of wachtwoord. Probeer het opnieuw.',
+      sessionExpired: 'Je sessie is verlopen. Log opnieuw in.',
+      inviteOnly: 'Toegang alleen op uitnodiging.',
+      signOut: 'Uitloggen',
     },
     
     // Header
@@ -238,6 +686,16 @@ export const translations = {
       alignedByWeekday: 'Gekoppeld op weekdag',
       exactDateMatch: 'Exacte datum match',
       lastSync: 'Laatste sync:',
+      copyLink: 'Kopieer link naar deze weergave',
+      linkCopied: 'Link gekopieerd naar klembord',
+      channels: 'Verkoopkanalen',
+      platforms: 'Advertentieplatforms',
+      channelNames: {
+        web: 'Web',
+        app: 'App',
+      },
+      currency: 'Rapportagevaluta',
+      missingFxRates: 'Geen wisselkoersen voor {currencies}; deze bedragen zijn niet omgerekend',
     },
     
     // Date Picker
@@ -297,6 +755,26 @@ export const translations = {
         title: 'Merk Benchmarking',
         subtitle: 'Vergelijk alle merken onderling',
       },
+      returns: {
+        title: 'Retouren',
+        subtitle: 'Terugbetaalde omzet en het effect op ROAS',
+      },
+      alerts: {
+        title: 'Meldingen',
+        subtitle: 'Krijg een melding wanneer metrics een drempel overschrijden',
+      },
+      targets: {
+        title: 'Doelen',
+        subtitle: 'Maandelijkse doelen voor omzet, orders, MER en advertentiebudget',
+      },
+      reports: {
+        title: 'Rapporten',
+        subtitle: 'Wekelijkse en maandelijkse samenvattingen voor management',
+      },
+      users: {
+        title: 'Gebruikersbeheer',
+        subtitle: 'Rollen en toegang tot merken',
+      },
     },
     
     // Brand Benchmarking
@@ -313,6 +791,44 @@ export const translations = {
       spend: 'Uitgaven',
       orders: 'Bestellingen',
       aov: 'GBW',
+      netRevenue: 'Netto-omzet',
+      grossMargin: 'Brutomarge',
+      contributionMarginAfterCogs: 'Marge na inkoop',
+      poas: 'POAS',
+      rankBy: 'Rangschikken op',
+      weatherSensitivity: 'Weergevoeligheid',
+      weatherSensitivitySubtitle: 'Hoe de omzet meebeweegt met temperatuur en regen, ten opzichte van de vier weken eromheen en de weekdag',
+      country: 'Land',
+      days: 'Dagen',
+      temperatureCorrelation: 'Temperatuurcorr.',
+      revenuePerDegree: 'Omzet per °C boven normaal',
+      precipitationCorrelation: 'Regencorr.',
+      rainyDayEffect: 'Regendagen',
+      rainyDayHint: 'Omzet op dagen met minstens {mm} mm regen, vergeleken met droge dagen',
+      noWeatherData: 'Niet genoeg weerdata. Labels hebben een landcode nodig (bijv. FMH.NL) en minstens {days} dagen met weer, elk met drie weken omzet en weer eromheen om mee te vergelijken; upload weer in Instellingen of draai de weerconnector.',
+    },
+    
+    // Returns
+    returns: {
+      returnedRevenue: 'Geretourneerde omzet',
+      returnedOrders: 'Geretourneerde bestellingen',
+      returnRate: 'Retourpercentage',
+      revenueAfterReturns: 'Omzet na retouren',
+      trend: 'Retourpercentage Trend',
+      trendSubtitle: 'Geretourneerde omzet als deel van de omzet per dag',
+      byBrand: 'Retouren per Merk',
+      brand: 'Merk',
+      revenue: 'Omzet',
+      platformRoas: 'Bruto vs Netto ROAS',
+      platformRoasSubtitle: 'Toegewezen omzet voor en na retouren, per platform',
+      platform: 'Platform',
+      spend: 'Uitgaven',
+      grossRevenue: 'Toegewezen omzet',
+      netRevenue: 'Na retouren',
+      grossRoas: 'Bruto ROAS',
+      netRoas: 'Netto ROAS',
+      roasLost: 'Verloren aan retouren',
+      noReturns: 'Geen retouren in deze periode. Voeg de kolommen Returned_Revenue en Returned_Orders toe aan het tabblad Daily_Input om ze te volgen.',
     },
     
     // Gauges
@@ -321,6 +837,8 @@ export const translations = {
       target: 'Doel',
       dayOfMonth: 'Dag {current} van {total}',
       projected: 'Verwacht',
+      forecastRange: '80% bandbreedte',
+      quarterProjected: 'Verwacht dit kwartaal',
       excellent: 'Uitstekend',
       good: 'Goed',
       warning: 'Waarschuwing',
@@ -362,6 +880,18 @@ export const translations = {
       bestPerformingDay: 'Best Presterende Dag',
       worstPerformingDay: 'Slechtst Presterende Dag',
       vsLastYear: 'vs vergelijkingsperiode',
+      funnel: 'Conversietrechter',
+      funnelSubtitle: 'Elke stap vs de vergelijkingsperiode, met het deel dat de stap ervoor haalde',
+      funnelSteps: {
+        sessions: 'Sessies',
+        addToCarts: 'In winkelwagen',
+        checkouts: 'Afrekenen',
+        orders: 'Bestellingen',
+      },
+      ofPreviousStep: 'van vorige stap',
+      current: 'Huidig',
+      comparison: 'Vergelijking',
+      noFunnelData: 'Geen sessies in deze periode. Vul de kolommen Sessions_Web / Sessions_App of upload een GA4-export in de instellingen.',
     },
     
     // Marketing Battle
@@ -372,14 +902,33 @@ export const translations = {
       lower: 'Lager',
       clicks: 'klikken',
       platformBattle: 'Platform Strijd',
-      headToHead: 'Head-to-head prestatie vergelijking',
-      facebook: 'Facebook',
-      google: 'Google',
+      headToHead: 'ROAS en CPA van elk platform met uitgaven',
       roasWinner: 'ROAS Winnaar',
       bestCpa: 'Beste CPA',
       bestCpc: 'Beste CPC',
       budgetAllocation: 'Budget Allocatie',
       spendDistribution: 'Uitgaven verdeling over platformen',
+      attributionModel: 'Attributiemodel',
+      attributionModelSubtitle: 'Hoe web omzet aan elk platform wordt toegekend',
+      models: {
+        fixed: 'Vaste Verdeling',
+        spend: 'Aandeel Uitgaven',
+        conversions: 'Aandeel Conversies',
+        last_click: 'Laatste Klik',
+      },
+      modelDescriptions: {
+        fixed: 'Een vast gewicht per platform en merk; elk platform krijgt zijn aandeel van het totale gewicht. Merken zonder eigen gewichten gebruiken 60/40 Meta / Google.',
+        spend: 'Web omzet wordt verdeeld naar rato van de uitgaven per platform op die dag.',
+        conversions: 'Web omzet wordt verdeeld naar rato van de Conv_<Platform> kolommen (Conv_FB, Conv_Google, ...). Dagen zonder conversies vallen terug op aandeel uitgaven.',
+        last_click: 'Gebruikt de kolommen LastClick_<Platform> (LastClick_FB, LastClick_Google, ...). Dagen zonder laatste-klik data vallen terug op de vaste verdeling.',
+      },
+      weight: 'Gewicht',
+      share: 'aandeel',
+      modelComparison: 'Model Vergelijking',
+      modelComparisonSubtitle: 'Hoe ROAS en CPA verschuiven per attributiemodel',
+      model: 'Model',
+      active: 'Actief',
+      noSpend: 'Geen advertentie-uitgaven in deze periode',
     },
     
     // Charts
@@ -391,6 +940,21 @@ export const translations = {
       aov: 'GBW',
       spend: 'Uitgaven',
       roas: 'ROAS',
+      forecast: 'Prognose',
+      forecastRange: 'Prognosebereik',
+      netRevenue: 'Netto-omzet',
+      grossMargin: 'Brutomarge',
+      contributionMarginAfterCogs: 'Marge na inkoop',
+      poas: 'POAS',
+      returnRate: 'Retourpercentage',
+      conversionRate: 'Conversieratio',
+      revenuePerSession: 'Omzet / sessie',
+      kpi: 'Grafiekmetriek',
+      weather: 'Weer',
+      weatherOverlay: 'Weer in grafiek',
+      noWeather: 'Geen weer',
+      temperature: 'Temperatuur',
+      precipitation: 'Neerslag',
     },
     
     // Events
@@ -401,6 +965,312 @@ export const translations = {
       other: 'Overig',
     },
     
+    // Data Quality
+    dataQuality: {
+      title: 'Datakwaliteit',
+      subtitle: 'Rijen die zijn afgewezen of verdacht lijken bij het laden van de data',
+      errors: 'Fouten',
+      warnings: 'Waarschuwingen',
+      all: 'Alles',
+      noIssues: 'Geen problemen met datakwaliteit gevonden',
+      exportCsv: 'Exporteer CSV',
+      severity: 'Status',
+      source: 'Bron',
+      row: 'Rij',
+      column: 'Kolom',
+      value: 'Waarde',
+      issue: 'Probleem',
+      rejected: 'Afgewezen',
+      kept: 'Behouden',
+      showing: '{shown} van {total} getoond',
+      dataSources: 'Databronnen',
+      sourceTypes: {
+        live: 'Sheet',
+        historical: 'Archief',
+        upload: 'Upload',
+        connector: 'Koppeling',
+      },
+      days: '{count} dagen',
+      connectorNote: 'Omzet, bestellingen en retouren vervangen de sheet op deze dagen',
+      overrides: '{count} dagen weken af van de sheet',
+      duplicatesDropped: '{count} dubbele dagen weggelaten',
+      codes: {
+        invalid_date: 'Ongeldige datum',
+        missing_label: 'Label ontbreekt',
+        negative_value: 'Negatief getal',
+        not_a_number: 'Geen getal',
+        duplicate_row: 'Dubbele datum + label',
+        outlier: 'Verdachte uitschieter',
+        label_typo: 'Onbekend label',
+      },
+    },
+    
+    // Anomalies
+    anomalies: {
+      title: 'Afwijkingen',
+      subtitle: 'Dagen die afwijken van het gebruikelijke niveau voor die weekdag',
+      anomaly: 'Afwijking',
+      sensitivity: 'Drempel',
+      none: 'Geen afwijkingen in deze periode',
+      expected: 'verwacht',
+      andMore: '+{count} meer',
+      metrics: {
+        revenue: 'Omzet',
+        spend: 'Uitgaven',
+        orders: 'Bestellingen',
+        aov: 'GBW',
+        mer: 'MER',
+      },
+    },
+    
+    // Alerts
+    alerts: {
+      rules: 'Meldingsregels',
+      rulesSubtitle: 'Dagelijks gecontroleerd op de gesynchroniseerde data',
+      history: 'Meldingsgeschiedenis',
+      historySubtitle: 'Meest recente meldingen',
+      newRule: 'Nieuwe regel',
+      editRule: 'Regel bewerken',
+      evaluateNow: 'Nu controleren',
+      noRules: 'Nog geen meldingsregels',
+      noHistory: 'Er zijn nog geen meldingen verstuurd',
+      name: 'Naam',
+      metric: 'Metric',
+      label: 'Label',
+      allLabels: 'Alle labels',
+      condition: 'Voorwaarde',
+      threshold: 'Drempel',
+      consecutiveDays: 'Dagen op rij',
+      daysRunning: '{count} dagen op rij',
+      webhookUrl: 'Webhook URL (Slack-compatibel)',
+      emailTo: 'E-mailontvangers',
+      emailHint: 'Scheid adressen met komma\'s',
+      enabled: 'Actief',
+      save: 'Opslaan',
+      cancel: 'Annuleren',
+      delete: 'Verwijderen',
+      status: 'Status',
+      lastEvaluated: 'Laatst gecontroleerd',
+      never: 'Nooit',
+      value: 'Waarde',
+      firedAt: 'Verstuurd',
+      message: 'Bericht',
+      delivery: 'Bezorging',
+      notDelivered: 'Niet bezorgd',
+      above: 'boven',
+      below: 'onder',
+      merHint: 'MER in %',
+      pacingHint: 'Verwachte maandomzet als % van het doel',
+      nameRequired: 'Geef de regel een naam',
+      invalidThreshold: 'Vul een getal in als drempel',
+      saveFailed: 'De regel kon niet worden opgeslagen',
+      evaluated: '{evaluated} regels gecontroleerd, {fired} meldingen',
+      evaluateFailed: 'De regels konden niet worden gecontroleerd',
+      metrics: {
+        mer: 'MER',
+        roas: 'ROAS',
+        revenue: 'Omzet',
+        spend: 'Uitgaven',
+        orders: 'Bestellingen',
+        pacing: 'Verwacht vs doel',
+      },
+      statuses: {
+        pending: 'Wachtend',
+        ok: 'OK',
+        firing: 'Alarm',
+        no_data: 'Geen data',
+        error: 'Fout',
+      },
+    },
+    
+    // User management
+    users: {
+      title: 'Gebruikers',
+      subtitle: 'Wijs rollen toe en de merken die elke gebruiker ziet',
+      email: 'E-mail',
+      role: 'Rol',
+      brands: 'Merken',
+      allBrands: 'Alle merken',
+      adminSeesAll: 'Beheerders zien alle merken',
+      noBrands: 'Geen merken: deze gebruiker ziet geen data',
+      you: 'Jij',
+      save: 'Opslaan',
+      saved: 'Gebruiker bijgewerkt',
+      saveFailed: 'Kon de gebruiker niet bijwerken',
+      noUsers: 'Geen gebruikers gevonden.',
+      inviteHint: 'Nodig nieuwe gebruikers uit via Supabase Auth. Ze starten als merkkijker zonder merken.',
+      roles: {
+        admin: 'Beheerder',
+        analyst: 'Analist',
+        brand_viewer: 'Merkkijker',
+      },
+    },
+    
+    // Saved views
+    savedViews: {
+      title: 'Opgeslagen weergaven',
+      saveView: 'Huidige weergave opslaan',
+      editView: 'Weergave bewerken',
+      name: 'Naam',
+      namePlaceholder: 'bijv. Maand tot nu vs vorig jaar',
+      nameRequired: 'Geef de weergave een naam',
+      dateRange: 'Periode',
+      fixedDates: 'Vaste data',
+      relativeHint: 'Schuift mee met vandaag, zodat de weergave nooit verouderd raakt.',
+      fixedHint: 'Toont altijd precies deze data.',
+      includesHint: 'Slaat ook de gekozen labels, kanalen, platforms, vergelijking en grafiekmetric op.',
+      share: 'Delen met collega\'s',
+      useAsDefault: 'Open deze weergave bij het inloggen',
+      setDefault: 'Als startweergave instellen',
+      clearDefault: 'Niet meer als startweergave',
+      sharedByTeammate: 'Gedeeld door een collega',
+      edit: 'Bewerken',
+      delete: 'Verwijderen',
+      cancel: 'Annuleren',
+      save: 'Opslaan',
+      saveFailed: 'Kon de weergave niet opslaan',
+      noViews: 'Nog geen opgeslagen weergaven',
+      ranges: {
+        today: 'Vandaag',
+        yesterday: 'Gisteren',
+        last_7_days: 'Laatste 7 dagen',
+        last_28_days: 'Laatste 28 dagen',
+        last_30_days: 'Laatste 30 dagen',
+        this_week: 'Deze week',
+        last_week: 'Vorige week',
+        month_to_date: 'Maand tot nu',
+        last_month: 'Vorige maand',
+        quarter_to_date: 'Kwartaal tot nu',
+        last_quarter: 'Vorig kwartaal',
+        year_to_date: 'Jaar tot nu',
+        last_year: 'Vorig jaar',
+      },
+    },
+    
+    // Targets
+    targets: {
+      monthlyTargets: 'Maanddoelen',
+      monthlyTargetsSubtitle: 'Bewerk doelen per maand en merk',
+      allLabels: 'Alle merken',
+      month: 'Maand',
+      label: 'Merk',
+      source: 'Bron',
+      fields: {
+        revenueTarget: 'Omzet',
+        ordersTarget: 'Orders',
+        merTarget: 'MER %',
+        adBudget: 'Advertentiebudget',
+      },
+      sources: {
+        sheet: 'Sheet-synchronisatie',
+        app: 'Dashboard',
+      },
+      unsaved: 'Niet opgeslagen',
+      save: 'Opslaan',
+      delete: 'Doel verwijderen',
+      saved: '{count} doel(en) opgeslagen',
+      saveFailed: 'Doelen opslaan mislukt',
+      invalid: 'Ongeldig doel voor {month}',
+      currencyHint: 'Bedragen zijn in de eigen valuta van het merk. Doelen die hier zijn opgeslagen worden niet meer overschreven door het tabblad Targets in de sheet.',
+      distribute: 'Doel Verdelen',
+      distributeSubtitle: 'Verdeel een kwartaal- of jaardoel over de maanden',
+      period: 'Periode',
+      fullYear: 'Heel {year}',
+      distributeAction: 'Verdelen',
+      distributeHint: 'Omzet, orders en advertentiebudget volgen de omzet per maand van vorig jaar; zonder historie volgen ze het aantal dagen. Het MER-doel geldt voor elke maand. Controleer en sla daarna op.',
+      distributed: 'Verdeeld over {count} maanden, controleer en sla op',
+      invalidTotal: 'Vul totalen van nul of hoger in',
+      history: 'Wijzigingsgeschiedenis',
+      historySubtitle: 'Laatste wijzigingen vanuit het dashboard en de sheet-synchronisatie',
+      noHistory: 'Nog geen wijzigingen in doelen',
+      changedAt: 'Wanneer',
+      changedBy: 'Door',
+      change: 'Wijziging',
+      actions: {
+        insert: 'Toegevoegd',
+        update: 'Gewijzigd',
+        delete: 'Verwijderd',
+      },
+    },
+    
+    // Reports
+    reports: {
+      schedules: 'Rapportplanningen',
+      schedulesSubtitle: 'PDF-samenvattingen die volgens planning worden gemaild',
+      newSchedule: 'Nieuwe planning',
+      editSchedule: 'Planning bewerken',
+      noSchedules: 'Nog geen rapportplanningen',
+      name: 'Naam',
+      namePlaceholder: 'bijv. Maandag update management',
+      nameRequired: 'Geef de planning een naam',
+      period: 'Periode',
+      weekly: 'Wekelijks',
+      monthly: 'Maandelijks',
+      weeklyHint: 'Elke maandag verstuurd, over de vorige maandag tot en met zondag',
+      monthlyHint: 'Op de 1e verstuurd, over de vorige maand',
+      language: 'Taal',
+      recipients: 'Ontvangers',
+      recipientsPlaceholder: 'ceo@voorbeeld.nl, cfo@voorbeeld.nl',
+      recipientsRequired: 'Voeg minstens één ontvanger toe',
+      labels: 'Labels',
+      allLabels: 'Alle labels',
+      labelsRequired: 'Kies minstens één label',
+      enabled: 'Actief',
+      lastSent: 'Laatst verstuurd',
+      never: 'Nooit',
+      preview: 'PDF bekijken',
+      sendNow: 'Nu versturen',
+      sent: 'Rapport verstuurd naar {recipients}',
+      sendFailed: 'Kon het rapport niet versturen',
+      previewFailed: 'Kon het voorbeeld niet maken',
+      saveFailed: 'Kon de planning niet opslaan',
+      edit: 'Bewerken',
+      delete: 'Verwijderen',
+      cancel: 'Annuleren',
+      save: 'Opslaan',
+      weeklyTitle: 'Weekrapport',
+      monthlyTitle: 'Maandrapport',
+      comparedWith: 'Vergeleken met {range}',
+      keyMetrics: 'Kerncijfers',
+      metric: 'Metriek',
+      thisPeriod: 'Deze periode',
+      lastYear: 'Vorig jaar',
+      change: 'Verschil',
+      kpis: {
+        revenue: 'Omzet',
+        spend: 'Advertentie-uitgaven',
+        orders: 'Bestellingen',
+        aov: 'Gem. orderwaarde',
+        mer: 'MER',
+        roas: 'ROAS',
+      },
+      pacing: 'Voortgang vs Doel',
+      pacingSummary: '{current} van het doel van {target} na dag {days} van {total} ({pacing} van het tempo)',
+      projected: 'Verwacht aan het einde van de maand: {projected} ({percentage} van het doel)',
+      noTarget: 'Geen doel ingesteld voor {month}',
+      podium: 'Merkenpodium',
+      podiumGrowth: '{growth} vs vorig jaar',
+      topEvents: 'Belangrijkste Gebeurtenissen',
+      noEvents: 'Geen gebeurtenissen in deze periode',
+      generatedOn: 'Gemaakt op {date}',
+      emailIntro: 'In de bijlage het {report} over {range}.',
+      emailRevenue: 'Omzet: {revenue} ({change} vs vorig jaar)',
+    },
+    
+    // Export
+    exportMenu: {
+      export: 'Exporteren',
+      data: 'Data',
+      chart: 'Grafiek',
+      csv: 'CSV',
+      xlsx: 'Excel (XLSX)',
+      png: 'Afbeelding (PNG)',
+      svg: 'Vector (SVG)',
+      europeanDecimals: 'Europese decimalen in CSV (1234,56)',
+      noChart: 'Er is geen grafiek om te exporteren',
+      failed: 'Exporteren mislukt',
+    },
+    
     // Settings
     settings: {
       title: 'Instellingen',
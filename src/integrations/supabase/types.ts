@@ -14,13 +14,681 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      ad_accounts: {
+        Row: {
+          account_id: string
+          enabled: boolean
+          label: string
+          name: string | null
+          platform: string
+          synced_at: string
+        }
+        Insert: {
+          account_id: string
+          enabled?: boolean
+          label: string
+          name?: string | null
+          platform: string
+          synced_at?: string
+        }
+        Update: {
+          account_id?: string
+          enabled?: boolean
+          label?: string
+          name?: string | null
+          platform?: string
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      ad_platform_metrics: {
+        Row: {
+          account_id: string
+          clicks: number
+          conversions: number
+          date: string
+          impressions: number
+          label: string
+          platform: string
+          spend: number
+          synced_at: string
+        }
+        Insert: {
+          account_id: string
+          clicks?: number
+          conversions?: number
+          date: string
+          impressions?: number
+          label: string
+          platform: string
+          spend?: number
+          synced_at?: string
+        }
+        Update: {
+          account_id?: string
+          clicks?: number
+          conversions?: number
+          date?: string
+          impressions?: number
+          label?: string
+          platform?: string
+          spend?: number
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      alert_events: {
+        Row: {
+          delivery_error: string | null
+          email_delivered: boolean
+          fired_at: string
+          id: string
+          message: string
+          rule_id: string
+          value: number
+          webhook_delivered: boolean
+        }
+        Insert: {
+          delivery_error?: string | null
+          email_delivered?: boolean
+          fired_at?: string
+          id?: string
+          message: string
+          rule_id: string
+          value: number
+          webhook_delivered?: boolean
+        }
+        Update: {
+          delivery_error?: string | null
+          email_delivered?: boolean
+          fired_at?: string
+          id?: string
+          message?: string
+          rule_id?: string
+          value?: number
+          webhook_delivered?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          consecutive_days: number
+          created_at: string
+          email_to: string | null
+          enabled: boolean
+          id: string
+          label: string | null
+          last_error: string | null
+          last_evaluated_at: string | null
+          last_status: string
+          last_value: number | null
+          metric: string
+          name: string
+          operator: string
+          threshold: number
+          updated_at: string
+          webhook_url: string | null
+        }
+        Insert: {
+          consecutive_days?: number
+          created_at?: string
+          email_to?: string | null
+          enabled?: boolean
+          id?: string
+          label?: string | null
+          last_error?: string | null
+          last_evaluated_at?: string | null
+          last_status?: string
+          last_value?: number | null
+          metric: string
+          name: string
+          operator: string
+          threshold: number
+          updated_at?: string
+          webhook_url?: string | null
+        }
+        Update: {
+          consecutive_days?: number
+          created_at?: string
+          email_to?: string | null
+          enabled?: boolean
+          id?: string
+          label?: string | null
+          last_error?: string | null
+          last_evaluated_at?: string | null
+          last_status?: string
+          last_value?: number | null
+          metric?: string
+          name?: string
+          operator?: string
+          threshold?: number
+          updated_at?: string
+          webhook_url?: string | null
+        }
+        Relationships: []
+      }
+      daily_metrics: {
+        Row: {
+          add_to_carts_app: number
+          add_to_carts_web: number
+          checkouts_app: number
+          checkouts_web: number
+          conv_fb: number
+          conv_google: number
+          created_at: string
+          date: string
+          id: string
+          label: string
+          last_click_fb: number
+          last_click_google: number
+          orders_app: number
+          orders_web: number
+          platforms: Json
+          returned_orders: number
+          returned_revenue: number
+          rev_app: number
+          rev_web: number
+          row_hash: string
+          sessions_app: number
+          sessions_web: number
+          source: string
+          spend_fb: number
+          spend_google: number
+          synced_at: string
+        }
+        Insert: {
+          add_to_carts_app?: number
+          add_to_carts_web?: number
+          checkouts_app?: number
+          checkouts_web?: number
+          conv_fb?: number
+          conv_google?: number
+          created_at?: string
+          date: string
+          id?: string
+          label: string
+          last_click_fb?: number
+          last_click_google?: number
+          orders_app?: number
+          orders_web?: number
+          platforms?: Json
+          returned_orders?: number
+          returned_revenue?: number
+          rev_app?: number
+          rev_web?: number
+          row_hash: string
+          sessions_app?: number
+          sessions_web?: number
+          source?: string
+          spend_fb?: number
+          spend_google?: number
+          synced_at?: string
+        }
+        Update: {
+          add_to_carts_app?: number
+          add_to_carts_web?: number
+          checkouts_app?: number
+          checkouts_web?: number
+          conv_fb?: number
+          conv_google?: number
+          created_at?: string
+          date?: string
+          id?: string
+          label?: string
+          last_click_fb?: number
+          last_click_google?: number
+          orders_app?: number
+          orders_web?: number
+          platforms?: Json
+          returned_orders?: number
+          returned_revenue?: number
+          rev_app?: number
+          rev_web?: number
+          row_hash?: string
+          sessions_app?: number
+          sessions_web?: number
+          source?: string
+          spend_fb?: number
+          spend_google?: number
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      events: {
+        Row: {
+          date: string
+          description: string | null
+          id: string
+          label: string | null
+          source: string
+          synced_at: string
+          title: string
+          type: string
+        }
+        Insert: {
+          date: string
+          description?: string | null
+          id?: string
+          label?: string | null
+          source?: string
+          synced_at?: string
+          title: string
+          type?: string
+        }
+        Update: {
+          date?: string
+          description?: string | null
+          id?: string
+          label?: string | null
+          source?: string
+          synced_at?: string
+          title?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      fx_rates: {
+        Row: {
+          currency: string
+          date: string
+          id: string
+          rate: number
+          synced_at: string
+        }
+        Insert: {
+          currency: string
+          date: string
+          id?: string
+          rate: number
+          synced_at?: string
+        }
+        Update: {
+          currency?: string
+          date?: string
+          id?: string
+          rate?: number
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      label_currencies: {
+        Row: {
+          currency: string
+          label: string
+          synced_at: string
+        }
+        Insert: {
+          currency?: string
+          label: string
+          synced_at?: string
+        }
+        Update: {
+          currency?: string
+          label?: string
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      label_margins: {
+        Row: {
+          cogs_rate: number
+          label: string
+          return_rate: number
+          shipping_cost: number
+          synced_at: string
+          vat_rate: number
+        }
+        Insert: {
+          cogs_rate?: number
+          label: string
+          return_rate?: number
+          shipping_cost?: number
+          synced_at?: string
+          vat_rate?: number
+        }
+        Update: {
+          cogs_rate?: number
+          label?: string
+          return_rate?: number
+          shipping_cost?: number
+          synced_at?: string
+          vat_rate?: number
+        }
+        Relationships: []
+      }
+      monthly_targets: {
+        Row: {
+          ad_budget: number
+          id: string
+          label: string
+          mer_target: number
+          month: string
+          orders_target: number
+          revenue_target: number
+          source: string
+          synced_at: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          ad_budget?: number
+          id?: string
+          label: string
+          mer_target?: number
+          month: string
+          orders_target?: number
+          revenue_target?: number
+          source?: string
+          synced_at?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          ad_budget?: number
+          id?: string
+          label?: string
+          mer_target?: number
+          month?: string
+          orders_target?: number
+          revenue_target?: number
+          source?: string
+          synced_at?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      report_schedules: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          labels: string[] | null
+          language: string
+          last_error: string | null
+          last_sent_at: string | null
+          name: string
+          period: string
+          recipients: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          labels?: string[] | null
+          language?: string
+          last_error?: string | null
+          last_sent_at?: string | null
+          name: string
+          period: string
+          recipients: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          labels?: string[] | null
+          language?: string
+          last_error?: string | null
+          last_sent_at?: string | null
+          name?: string
+          period?: string
+          recipients?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          definition: Json
+          id: string
+          name: string
+          owner_id: string
+          shared: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          definition: Json
+          id?: string
+          name: string
+          owner_id?: string
+          shared?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          definition?: Json
+          id?: string
+          name?: string
+          owner_id?: string
+          shared?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      shop_daily_metrics: {
+        Row: {
+          date: string
+          label: string
+          orders_app: number
+          orders_web: number
+          returned_orders: number
+          returned_revenue: number
+          rev_app: number
+          rev_web: number
+          store: string
+          synced_at: string
+        }
+        Insert: {
+          date: string
+          label: string
+          orders_app?: number
+          orders_web?: number
+          returned_orders?: number
+          returned_revenue?: number
+          rev_app?: number
+          rev_web?: number
+          store: string
+          synced_at?: string
+        }
+        Update: {
+          date?: string
+          label?: string
+          orders_app?: number
+          orders_web?: number
+          returned_orders?: number
+          returned_revenue?: number
+          rev_app?: number
+          rev_web?: number
+          store?: string
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      shopify_stores: {
+        Row: {
+          app_sources: string[]
+          enabled: boolean
+          label: string
+          store: string
+          synced_at: string
+        }
+        Insert: {
+          app_sources?: string[]
+          enabled?: boolean
+          label: string
+          store: string
+          synced_at?: string
+        }
+        Update: {
+          app_sources?: string[]
+          enabled?: boolean
+          label?: string
+          store?: string
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      sync_runs: {
+        Row: {
+          error: string | null
+          finished_at: string | null
+          id: string
+          rows_failed: number
+          rows_unchanged: number
+          rows_upserted: number
+          source: string
+          started_at: string
+          status: string
+        }
+        Insert: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          rows_failed?: number
+          rows_unchanged?: number
+          rows_upserted?: number
+          source?: string
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          rows_failed?: number
+          rows_unchanged?: number
+          rows_upserted?: number
+          source?: string
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      target_changes: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          id: string
+          label: string
+          month: string
+          new_values: Json | null
+          old_values: Json | null
+          source: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          id?: string
+          label: string
+          month: string
+          new_values?: Json | null
+          old_values?: Json | null
+          source: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          id?: string
+          label?: string
+          month?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          source?: string
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          allowed_labels: string[] | null
+          created_at: string
+          default_view_id: string | null
+          email: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allowed_labels?: string[] | null
+          created_at?: string
+          default_view_id?: string | null
+          email: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allowed_labels?: string[] | null
+          created_at?: string
+          default_view_id?: string | null
+          email?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_default_view_id_fkey"
+            columns: ["default_view_id"]
+            isOneToOne: false
+            referencedRelation: "saved_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_daily: {
+        Row: {
+          country: string
+          date: string
+          precipitation: number
+          synced_at: string
+          temperature: number
+        }
+        Insert: {
+          country: string
+          date: string
+          precipitation?: number
+          synced_at?: string
+          temperature: number
+        }
+        Update: {
+          country?: string
+          date?: string
+          precipitation?: number
+          synced_at?: string
+          temperature?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_view_all_labels: { Args: never; Returns: boolean }
+      can_view_label: { Args: { label: string }; Returns: boolean }
+      can_view_labels: { Args: { labels: string[] | null }; Returns: boolean }
+      can_view_target_label: { Args: { label: string }; Returns: boolean }
+      set_default_view: { Args: { view_id: string | null }; Returns: undefined }
+      user_role: { Args: never; Returns: string }
     }
     Enums: {
       [_ in never]: never
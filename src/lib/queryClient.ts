@@ -0,0 +1,13 @@
+import { QueryClient } from '@tanstack/react-query';
+
+// Shared by the dashboard's provider and the auth store, which clears it when
+// the user changes: query keys don't include the user, and cached data of one
+// user (e.g. all labels during an admin session) must not reach the next
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      refetchOnWindowFocus: false,
+    },
+  },
+});
@@ -1,30 +1,105 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { queryClient } from '@/lib/queryClient';
+import { fetchUserProfile } from '@/utils/userProfiles';
+import type { UserProfile } from '@/types';
 
-const DASHBOARD_PASSWORD = "Cirkel007!";
+type AuthStatus = 'loading' | 'signedIn' | 'signedOut';
 
 interface AuthState {
-  isAuthenticated: boolean;
-  authenticate: (password: string) => boolean;
-  logout: () => void;
+  session: Session | null;
+  // Role and brand access; null when the user has no profile (no access)
+  profile: UserProfile | null;
+  status: AuthStatus;
+  // Set when a session ends without the user signing out (expired or revoked)
+  sessionExpired: boolean;
+  signingOut: boolean;
+  initialize: () => () => void;
+  signInWithPassword: (email: string, password: string) => Promise<string | null>;
+  sendMagicLink: (email: string) => Promise<string | null>;
+  signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
-export const useAuthStore = create<AuthState>()(
-  persist(
-    (set) => ({
-      isAuthenticated: false,
-      authenticate: (password: string) => {
-        if (password === DASHBOARD_PASSWORD) {
-          set({ isAuthenticated: true });
-          return true;
-        }
-        return false;
-      },
-      logout: () => set({ isAuthenticated: false }),
-    }),
-    {
-      name: 'fashion-pulse-auth',
-      storage: createJSONStorage(() => sessionStorage),
-    }
-  )
-);
+async function loadProfile(session: Session): Promise<UserProfile | null> {
+  try {
+    return await fetchUserProfile(session.user.id);
+  } catch (e) {
+    console.warn('Could not load user profile:', e);
+    return null;
+  }
+}
+
+/**
+ * Supabase Auth session. The session itself is persisted by the Supabase
+ * client; this store mirrors it for rendering. Sign-in methods return an
+ * error message, or null on success.
+ */
+export const useAuthStore = create<AuthState>()((set, get) => ({
+  session: null,
+  profile: null,
+  status: 'loading',
+  sessionExpired: false,
+  signingOut: false,
+
+  initialize: () => {
+    // The dashboard renders once the profile is known, so access is never briefly unrestricted
+    const signIn = async (session: Session) => {
+      const sameUser = get().session?.user.id === session.user.id;
+      // Signing in as someone else without signing out first
+      if (!sameUser) queryClient.clear();
+      const profile = sameUser ? get().profile : await loadProfile(session);
+      set({ session, profile, status: 'signedIn', sessionExpired: false });
+    };
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (data.session) signIn(data.session);
+      else set({ status: 'signedOut' });
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      const { status, signingOut } = get();
+      if (event === 'SIGNED_OUT') {
+        queryClient.clear();
+        set({
+          session: null,
+          profile: null,
+          status: 'signedOut',
+          sessionExpired: status === 'signedIn' && !signingOut,
+          signingOut: false,
+        });
+      } else if (session) {
+        // Defer: Supabase calls this listener while holding its auth lock
+        setTimeout(() => signIn(session), 0);
+      }
+    });
+
+    return () => data.subscription.unsubscribe();
+  },
+
+  signInWithPassword: async (email, password) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return error ? error.message : null;
+  },
+
+  // Invite-only: no account is created for unknown addresses. The link
+  // returns to the current URL so shared links survive signing in.
+  sendMagicLink: async (email) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: window.location.href },
+    });
+    return error ? error.message : null;
+  },
+
+  signOut: async () => {
+    set({ signingOut: true });
+    await supabase.auth.signOut();
+  },
+
+  refreshProfile: async () => {
+    const { session } = get();
+    if (session) set({ profile: await loadProfile(session) });
+  },
+}));
@@ -1,7 +1,9 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { subDays, subYears, differenceInDays } from 'date-fns';
-import type { DateRange, DashboardFilters, Label, Channel, Platform, ComparisonMode } from '@/types';
+import type { DateRange, DashboardFilters, Label, Channel, Platform, ComparisonMode, AttributionModel, AttributionSettings, AnomalySettings, ChartKPI, Currency, MarginInputs, WeatherOverlay } from '@/types';
+import { DEFAULT_ATTRIBUTION } from '@/utils/attribution';
+import { DEFAULT_ANOMALY_SETTINGS } from '@/utils/anomalies';
 
 interface DashboardState {
   // Filters
@@ -14,13 +16,41 @@ interface DashboardState {
   toggleDayOfWeekAlign: () => void;
   setAlignByDayOfWeek: (align: boolean) => void;
   resetFilters: () => void;
+  setFilters: (filters: Partial<DashboardFilters>) => void;
   
   // Comparison
   setComparisonEnabled: (enabled: boolean) => void;
   setComparisonMode: (mode: ComparisonMode) => void;
   setComparisonRange: (range: DateRange | null) => void;
   
+  // Attribution
+  attribution: AttributionSettings;
+  setAttributionModel: (model: AttributionModel) => void;
+  setFixedSplit: (label: string, platform: Platform, weight: number) => void;
+  
+  // Anomaly detection
+  anomalySettings: AnomalySettings;
+  setAnomalyThreshold: (threshold: number) => void;
+  
+  // Currency all amounts are converted to and shown in
+  reportingCurrency: Currency;
+  setReportingCurrency: (currency: Currency) => void;
+  
+  // Margin inputs per label, on top of the Margins tab
+  marginOverrides: Record<string, Partial<MarginInputs>>;
+  setMarginOverride: (label: string, field: keyof MarginInputs, value: number | null) => void;
+  
+  // Exports
+  europeanDecimals: boolean; // CSV exports use ; and decimal commas
+  setEuropeanDecimals: (enabled: boolean) => void;
+  
   // UI State
+  chartKPI: ChartKPI;
+  setChartKPI: (kpi: ChartKPI) => void;
+  
+  weatherOverlay: WeatherOverlay; // Temperature or precipitation on the trend chart
+  setWeatherOverlay: (overlay: WeatherOverlay) => void;
+  
   selectedCard: string | null;
   setSelectedCard: (card: string | null) => void;
   
@@ -76,7 +106,7 @@ const defaultFilters: DashboardFilters = {
   dateRange: getDefaultDateRange(),
   labels: [], // Start empty, will be populated from sheet data
   channels: ['web', 'app'] as Channel[],
-  platforms: ['facebook', 'google'] as Platform[],
+  platforms: [], // All platforms, including ones that show up later
   enableYoY: false,
   alignByDayOfWeek: true,
   comparisonEnabled: false,
@@ -135,6 +165,20 @@ export const useDashboardStore = create<DashboardState>()(
         resetFilters: () =>
           set({ filters: defaultFilters }),
         
+        // Apply several filters at once, e.g. from a shared link
+        setFilters: (partial) =>
+          set((state) => {
+            const filters = { ...state.filters, ...partial };
+            if (!filters.comparisonEnabled) {
+              filters.comparisonRange = null;
+            } else if (filters.comparisonMode !== 'custom' || !filters.comparisonRange) {
+              filters.comparisonRange = calculateComparisonRange(filters.dateRange, filters.comparisonMode);
+            }
+            filters.enableYoY = filters.comparisonEnabled; // Sync with legacy YoY toggle
+            
+            return { filters };
+          }),
+        
         // Comparison methods
         setComparisonEnabled: (enabled) =>
           set((state) => {
@@ -168,6 +212,56 @@ export const useDashboardStore = create<DashboardState>()(
             filters: { ...state.filters, comparisonRange: range },
           })),
           
+        attribution: DEFAULT_ATTRIBUTION,
+        
+        setAttributionModel: (model) =>
+          set((state) => ({
+            attribution: { ...state.attribution, model },
+          })),
+          
+        setFixedSplit: (label, platform, weight) =>
+          set((state) => ({
+            attribution: {
+              ...state.attribution,
+              fixedSplits: {
+                ...state.attribution.fixedSplits,
+                [label]: { ...state.attribution.fixedSplits[label], [platform]: weight },
+              },
+            },
+          })),
+          
+        anomalySettings: DEFAULT_ANOMALY_SETTINGS,
+        
+        setAnomalyThreshold: (threshold) =>
+          set((state) => ({
+            anomalySettings: { ...state.anomalySettings, threshold },
+          })),
+          
+        reportingCurrency: 'EUR',
+        setReportingCurrency: (currency) => set({ reportingCurrency: currency }),
+        
+        marginOverrides: {},
+        
+        // A null value removes the override, so the sheet value applies again
+        setMarginOverride: (label, field, value) =>
+          set((state) => {
+            const { [field]: _removed, ...rest } = state.marginOverrides[label] || {};
+            const override = value === null ? rest : { ...rest, [field]: value };
+            const { [label]: _label, ...others } = state.marginOverrides;
+            return {
+              marginOverrides: Object.keys(override).length > 0 ? { ...others, [label]: override } : others,
+            };
+          }),
+        
+        europeanDecimals: false,
+        setEuropeanDecimals: (enabled) => set({ europeanDecimals: enabled }),
+        
+        chartKPI: 'revenue',
+        setChartKPI: (kpi) => set({ chartKPI: kpi }),
+        
+        weatherOverlay: 'none',
+        setWeatherOverlay: (overlay) => set({ weatherOverlay: overlay }),
+        
         selectedCard: null,
         setSelectedCard: (card) => set({ selectedCard: card }),
         
@@ -184,6 +278,11 @@ export const useDashboardStore = create<DashboardState>()(
         name: 'fashion-pulse-store',
         partialize: (state) => ({ 
           googleSheetId: state.googleSheetId,
+          attribution: state.attribution,
+          anomalySettings: state.anomalySettings,
+          reportingCurrency: state.reportingCurrency,
+          marginOverrides: state.marginOverrides,
+          europeanDecimals: state.europeanDecimals,
           // Don't persist filters as date ranges become stale
         }),
       }
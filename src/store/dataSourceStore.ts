@@ -0,0 +1,234 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ColumnMapping } from '@/utils/columnMapping';
+
+/**
+ * A prior-year archive: either a sheet tab (e.g. Daily_2024) fetched through
+ * the edge function, or an uploaded CSV whose rows are kept in local storage.
+ */
+export interface ArchiveSource {
+  id: string;
+  year: number;
+  kind: 'sheet' | 'file';
+  sheetName?: string;
+  fileName?: string;
+  rows?: Record<string, string>[];
+  addedAt: string;
+}
+
+/**
+ * An imported CSV/XLSX dataset. Rows are stored re-keyed to the sheet column
+ * names, so the mapping is only kept for reference.
+ */
+export interface UploadedSource {
+  id: string;
+  fileName: string;
+  mapping: ColumnMapping;
+  rows: Record<string, string>[];
+  addedAt: string;
+}
+
+/**
+ * An uploaded FX rate file (Date, Currency, Rate per 1 EUR). Its rates win
+ * over the FX_Rates tab for the same date and currency.
+ */
+export interface FxRateFile {
+  fileName: string;
+  rows: Record<string, string>[];
+  addedAt: string;
+}
+
+/**
+ * An uploaded GA4 export (Date, Platform, Sessions, Add to carts, Checkouts)
+ * of one label. Its funnel replaces the sheet's funnel columns.
+ */
+export interface FunnelFile {
+  id: string;
+  fileName: string;
+  label: string;
+  rows: Record<string, string>[];
+  addedAt: string;
+}
+
+/**
+ * An uploaded weather file (Date, Country, Temperature, Precipitation). Files
+ * without a Country column are for the country picked on upload.
+ */
+export interface WeatherFile {
+  id: string;
+  fileName: string;
+  country?: string;
+  rows: Record<string, string>[];
+  addedAt: string;
+}
+
+/**
+ * A confirmed column mapping for one source. Ignored headers were reviewed by
+ * the user and are no longer reported as unknown.
+ */
+export interface SavedColumnMapping {
+  mapping: ColumnMapping;
+  ignoredHeaders: string[];
+  savedAt: string;
+}
+
+interface DataSourceState {
+  archives: ArchiveSource[];
+  uploads: UploadedSource[];
+  columnMappings: Record<string, SavedColumnMapping>; // By sheet tab name or file archive id
+  fxRateFile: FxRateFile | null;
+  funnelFiles: FunnelFile[];
+  weatherFiles: WeatherFile[];
+  addArchive: (archive: Omit<ArchiveSource, 'id' | 'addedAt'>) => void;
+  removeArchive: (id: string) => void;
+  addUpload: (upload: Omit<UploadedSource, 'id' | 'addedAt'>) => void;
+  removeUpload: (id: string) => void;
+  setColumnMapping: (sourceKey: string, mapping: ColumnMapping, ignoredHeaders: string[]) => void;
+  resetColumnMapping: (sourceKey: string) => void;
+  setFxRateFile: (file: Omit<FxRateFile, 'addedAt'> | null) => void;
+  addFunnelFile: (file: Omit<FunnelFile, 'id' | 'addedAt'>) => void;
+  removeFunnelFile: (id: string) => void;
+  addWeatherFile: (file: Omit<WeatherFile, 'id' | 'addedAt'>) => void;
+  removeWeatherFile: (id: string) => void;
+}
+
+export const useDataSourceStore = create<DataSourceState>()(
+  persist(
+    (set) => ({
+      archives: [],
+      uploads: [],
+      columnMappings: {},
+      fxRateFile: null,
+      funnelFiles: [],
+      weatherFiles: [],
+
+      addArchive: (archive) =>
+        set((state) => ({
+          archives: [
+            ...state.archives,
+            { ...archive, id: crypto.randomUUID(), addedAt: new Date().toISOString() },
+          ],
+        })),
+
+      removeArchive: (id) =>
+        set((state) => {
+          const { [id]: _removed, ...columnMappings } = state.columnMappings;
+          return {
+            archives: state.archives.filter((a) => a.id !== id),
+            columnMappings,
+          };
+        }),
+
+      addUpload: (upload) =>
+        set((state) => ({
+          uploads: [
+            ...state.uploads,
+            { ...upload, id: crypto.randomUUID(), addedAt: new Date().toISOString() },
+          ],
+        })),
+
+      removeUpload: (id) =>
+        set((state) => ({
+          uploads: state.uploads.filter((u) => u.id !== id),
+        })),
+
+      setColumnMapping: (sourceKey, mapping, ignoredHeaders) =>
+        set((state) => ({
+          columnMappings: {
+            ...state.columnMappings,
+            [sourceKey]: { mapping, ignoredHeaders, savedAt: new Date().toISOString() },
+          },
+        })),
+
+      resetColumnMapping: (sourceKey) =>
+        set((state) => {
+          const { [sourceKey]: _removed, ...columnMappings } = state.columnMappings;
+          return { columnMappings };
+        }),
+
+      setFxRateFile: (file) =>
+        set({ fxRateFile: file && { ...file, addedAt: new Date().toISOString() } }),
+
+      addFunnelFile: (file) =>
+        set((state) => ({
+          funnelFiles: [
+            ...state.funnelFiles,
+            { ...file, id: crypto.randomUUID(), addedAt: new Date().toISOString() },
+          ],
+        })),
+
+      removeFunnelFile: (id) =>
+        set((state) => ({
+          funnelFiles: state.funnelFiles.filter((f) => f.id !== id),
+        })),
+
+      addWeatherFile: (file) =>
+        set((state) => ({
+          weatherFiles: [
+            ...state.weatherFiles,
+            { ...file, id: crypto.randomUUID(), addedAt: new Date().toISOString() },
+          ],
+        })),
+
+      removeWeatherFile: (id) =>
+        set((state) => ({
+          weatherFiles: state.weatherFiles.filter((f) => f.id !== id),
+        })),
+    }),
+    {
+      name: 'fashion-pulse-data-sources',
+    }
+  )
+);
+
+/**
+ * Stable key describing the registered archives, used in query keys
+ */
+export function getArchivesKey(archives: ArchiveSource[]): string {
+  return archives.map((a) => `${a.id}:${a.year}`).join(',');
+}
+
+/**
+ * Stable key describing the uploaded datasets, used in query keys
+ */
+export function getUploadsKey(uploads: UploadedSource[]): string {
+  return uploads.map((u) => u.id).join(',');
+}
+
+/**
+ * Stable key describing the saved column mappings, used in query keys
+ */
+export function getColumnMappingsKey(columnMappings: Record<string, SavedColumnMapping>): string {
+  return Object.entries(columnMappings)
+    .map(([key, saved]) => `${key}:${saved.savedAt}`)
+    .sort()
+    .join(',');
+}
+
+/**
+ * Stable key describing the uploaded FX rate file, used in query keys
+ */
+export function getFxRateFileKey(file: FxRateFile | null): string {
+  return file ? `${file.fileName}:${file.addedAt}` : '';
+}
+
+/**
+ * Stable key describing the uploaded GA4 exports, used in query keys
+ */
+export function getFunnelFilesKey(files: FunnelFile[]): string {
+  return files.map((f) => f.id).join(',');
+}
+
+/**
+ * Stable key describing the uploaded weather files, used in query keys
+ */
+export function getWeatherFilesKey(files: WeatherFile[]): string {
+  return files.map((f) => f.id).join(',');
+}
+
+/**
+ * Mapping key for an archive: the tab name for sheets, the archive id for files
+ */
+export function getArchiveMappingKey(archive: ArchiveSource): string {
+  return archive.kind === 'sheet' ? archive.sheetName || `Daily_${archive.year}` : archive.id;
+}
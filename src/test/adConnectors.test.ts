@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fromGoogleAdsRow,
+  fromMetaInsight,
+  toSheetPlatforms,
+  withConnectorPlatforms,
+  type AdAccount,
+} from '@/utils/adConnectors';
+
+const meta: AdAccount = { platform: 'facebook', account_id: 'act_1', label: 'FMH.NL' };
+const google: AdAccount = { platform: 'google', account_id: '123-456-7890', label: 'FMH.NL' };
+
+describe('fromMetaInsight', () => {
+  it('reads string numbers and counts the broadest purchase action only', () => {
+    const row = fromMetaInsight(
+      {
+        date_start: '2026-10-01',
+        date_stop: '2026-10-01',
+        spend: '123.45',
+        clicks: '310',
+        impressions: '12000',
+        actions: [
+          { action_type: 'link_click', value: '310' },
+          { action_type: 'offsite_conversion.fb_pixel_purchase', value: '11' },
+          { action_type: 'omni_purchase', value: '12' },
+        ],
+      },
+      meta
+    );
+    expect(row).toEqual({
+      date: '2026-10-01',
+      platform: 'facebook',
+      account_id: 'act_1',
+      label: 'FMH.NL',
+      spend: 123.45,
+      clicks: 310,
+      impressions: 12000,
+      conversions: 12,
+    });
+  });
+
+  it('reads missing fields as zero', () => {
+    expect(fromMetaInsight({ date_start: '2026-10-01', date_stop: '2026-10-01' }, meta)).toMatchObject({
+      spend: 0,
+      clicks: 0,
+      impressions: 0,
+      conversions: 0,
+    });
+  });
+});
+
+describe('fromGoogleAdsRow', () => {
+  it('converts cost micros to the account currency', () => {
+    const row = fromGoogleAdsRow(
+      { segments: { date: '2026-10-01' }, metrics: { costMicros: '45670000', clicks: '88', impressions: '4000', conversions: 3.5 } },
+      google
+    );
+    expect(row).toEqual({
+      date: '2026-10-01',
+      platform: 'google',
+      account_id: '123-456-7890',
+      label: 'FMH.NL',
+      spend: 45.67,
+      clicks: 88,
+      impressions: 4000,
+      conversions: 3.5,
+    });
+    expect(fromGoogleAdsRow({ segments: { date: '2026-10-01' }, metrics: {} }, google).spend).toBe(0);
+  });
+});
+
+describe('toSheetPlatforms / withConnectorPlatforms', () => {
+  it('sums accounts per day and label and keeps the sheet last-click revenue', () => {
+    const rows = [
+      { date: '2026-10-01', platform: 'facebook', account_id: 'act_1', label: 'FMH.NL', spend: 100, clicks: 10, impressions: 0, conversions: 2 },
+      { date: '2026-10-01', platform: 'facebook', account_id: 'act_2', label: 'FMH.NL', spend: 50, clicks: 5, impressions: 0, conversions: 1 },
+    ];
+    const connector = toSheetPlatforms(rows).get('2026-10-01|FMH.NL');
+    expect(connector).toEqual({ facebook: { spend: 150, clicks: 15, conversions: 3, lastClickRevenue: 0 } });
+
+    const sheet = {
+      facebook: { spend: 140, clicks: 12, conversions: 2, lastClickRevenue: 900 },
+      google: { spend: 60, clicks: 8, conversions: 1, lastClickRevenue: 300 },
+    };
+    expect(withConnectorPlatforms(sheet, connector)).toEqual({
+      facebook: { spend: 150, clicks: 15, conversions: 3, lastClickRevenue: 900 },
+      google: sheet.google,
+    });
+  });
+});
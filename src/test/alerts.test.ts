@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePacing } from '@/utils/analytics';
+import { forecastRevenue } from '@/utils/forecast';
+import { evaluateRule, type AlertRule, type DailyRow, type TargetRow } from '../../supabase/functions/_shared/alerts';
+import { makeDays } from './fixtures';
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: 'rule-1',
+  name: 'Rule',
+  metric: 'revenue',
+  label: 'FMH.NL',
+  operator: 'below',
+  threshold: 1000,
+  consecutive_days: 1,
+  webhook_url: null,
+  email_to: null,
+  last_status: 'pending',
+  ...overrides,
+});
+
+const row = (date: string, label: string, revenue: number, spend = 0): DailyRow => ({
+  date,
+  label,
+  rev_web: revenue,
+  rev_app: 0,
+  orders_web: revenue > 0 ? 1 : 0,
+  orders_app: 0,
+  spend_fb: spend,
+  spend_google: 0,
+  platforms: null,
+});
+
+describe('evaluateRule', () => {
+  it('fires only when every one of the consecutive days crosses the threshold', () => {
+    const rows = [row('2026-10-14', 'FMH.NL', 500), row('2026-10-15', 'FMH.NL', 800), row('2026-10-16', 'FMH.NL', 900)];
+    const daily = rule({ consecutive_days: 3 });
+    expect(evaluateRule(daily, rows, [])).toMatchObject({ status: 'firing', value: 900 });
+
+    rows[0] = row('2026-10-14', 'FMH.NL', 1500);
+    expect(evaluateRule(daily, rows, []).status).toBe('ok');
+  });
+
+  it('has no data when a day in the consecutive window is missing', () => {
+    const rows = [row('2026-10-13', 'FMH.NL', 500), row('2026-10-14', 'FMH.NL', 500), row('2026-10-16', 'FMH.NL', 500)];
+    const result = evaluateRule(rule({ consecutive_days: 3 }), rows, []);
+    expect(result.status).toBe('no_data');
+    expect(result.message).toContain('2026-10-15');
+  });
+
+  it('has no data without rows for the rule label', () => {
+    expect(evaluateRule(rule({}), [row('2026-10-16', 'FMH.DE', 500)], []).status).toBe('no_data');
+    expect(evaluateRule(rule({ label: null }), [], []).status).toBe('no_data');
+  });
+
+  it('adds up all labels when the rule has none', () => {
+    const rows = [row('2026-10-16', 'FMH.NL', 1000, 100), row('2026-10-16', 'FMH.DE', 3000, 500)];
+    const result = evaluateRule(rule({ metric: 'mer', label: null, operator: 'above', threshold: 0.1 }), rows, []);
+    expect(result.value).toBeCloseTo(0.15);
+    expect(result.status).toBe('firing');
+    expect(result.message).toContain('all labels');
+  });
+
+  it('projects pacing like the dashboard pacing gauge', () => {
+    // Weekends sell twice as much as weekdays, up to Friday 16 October
+    const metrics = makeDays('2026-08-01', 77, 'FMH.NL', (_, date) => ({
+      revenueWeb: date.getDay() === 0 || date.getDay() === 6 ? 2000 : 1000,
+    }));
+    const rows = metrics.map((m) => row(m.dateString, m.label, m.totalRevenue));
+    const targets: TargetRow[] = [{ month: '2026-10', label: 'FMH.NL', revenue_target: 50000 }];
+    const reference = new Date(2026, 9, 16);
+
+    const pacing = calculatePacing(
+      metrics,
+      { month: '2026-10', label: 'FMH.NL', revenueTarget: 50000, ordersTarget: 0, merTarget: 0, adBudget: 0 },
+      reference,
+      forecastRevenue(metrics, reference)
+    );
+    const result = evaluateRule(rule({ metric: 'pacing', operator: 'below', threshold: 100 }), rows, targets);
+    expect(result.value).toBeCloseTo(pacing.projectedPercentage);
+    // The weekend-heavy forecast differs from the month-to-date run rate
+    const runRate = ((pacing.currentRevenue / 16) * 31 / 50000) * 100;
+    expect(result.value).not.toBeCloseTo(runRate);
+  });
+
+  it('has no pacing data without a revenue target for the month', () => {
+    const result = evaluateRule(rule({ metric: 'pacing' }), [row('2026-10-16', 'FMH.NL', 500)], []);
+    expect(result).toMatchObject({ status: 'no_data', value: null });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies, getAnomalyMetricValue, isEmptyDay } from '@/utils/anomalies';
+import { makeDay, makeDays } from './fixtures';
+
+// Ten weeks where Saturdays sell three times as much, with a little noise
+const revenueOn = (i: number, date: Date) => (date.getDay() === 6 ? 3000 : 1000) + (i % 3) * 20;
+const history = makeDays('2026-08-03', 70, 'FMH.NL', (i, date) => ({ revenueWeb: revenueOn(i, date), ordersWeb: 10 }));
+
+describe('getAnomalyMetricValue / isEmptyDay', () => {
+  it('has no AOV or MER without orders or revenue', () => {
+    const empty = makeDay('2026-10-01', 'FMH.NL');
+    expect(isEmptyDay(empty)).toBe(true);
+    expect(getAnomalyMetricValue(empty, 'aov')).toBeNull();
+    expect(getAnomalyMetricValue(empty, 'mer')).toBeNull();
+    expect(getAnomalyMetricValue(empty, 'revenue')).toBe(0);
+  });
+});
+
+describe('detectAnomalies', () => {
+  const settings = { threshold: 3.5, metrics: ['revenue' as const] };
+
+  it('compares each day with the same weekday, so busy Saturdays are normal', () => {
+    expect(detectAnomalies(history, settings)).toEqual([]);
+  });
+
+  it('flags a drop on a weekday with its expected value', () => {
+    // Wednesday 2026-10-07
+    const withDrop = history.map((m) =>
+      m.dateString === '2026-10-07' ? makeDay(m.dateString, m.label, { revenueWeb: 300, ordersWeb: 10 }) : m
+    );
+    const anomalies = detectAnomalies(withDrop, settings);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ dateString: '2026-10-07', label: 'FMH.NL', metric: 'revenue', value: 300 });
+    expect(anomalies[0].expected).toBeCloseTo(1020, -2);
+    expect(anomalies[0].zScore).toBeLessThan(-3.5);
+  });
+
+  it('does not flag days the sheet wasn’t filled in, nor use them as baseline', () => {
+    const withGap = history.map((m) =>
+      m.dateString >= '2026-09-14' && m.dateString <= '2026-09-27' ? makeDay(m.dateString, m.label) : m
+    );
+    expect(detectAnomalies(withGap, settings)).toEqual([]);
+  });
+
+  it('needs a few weeks of baseline before flagging', () => {
+    const short = makeDays('2026-08-03', 21, 'FMH.NL', (_, date) => ({ revenueWeb: date.getDate() === 20 ? 100 : 1000 }));
+    expect(detectAnomalies(short, settings)).toEqual([]);
+  });
+});
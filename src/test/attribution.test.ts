@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { AttributionSettings } from '@/types';
+import { applyAttribution, attributeWebRevenue, getFixedShares, type AttributionInput } from '@/utils/attribution';
+import { makeDay } from './fixtures';
+
+const row: AttributionInput = {
+  label: 'FMH.NL',
+  revenueWeb: 1000,
+  platforms: {
+    facebook: { spend: 300, conversions: 10, lastClickRevenue: 0 },
+    google: { spend: 100, conversions: 30, lastClickRevenue: 0 },
+    tiktok: { spend: 100, conversions: 0, lastClickRevenue: 0 },
+  },
+};
+
+const settings = (model: AttributionSettings['model'], fixedSplits: AttributionSettings['fixedSplits'] = {}): AttributionSettings => ({
+  model,
+  fixedSplits,
+});
+
+describe('getFixedShares', () => {
+  it('splits 60/40 by default and gives other platforms nothing', () => {
+    expect(getFixedShares('FMH.NL', ['facebook', 'google', 'tiktok'], settings('fixed'))).toEqual({
+      facebook: 0.6,
+      google: 0.4,
+      tiktok: 0,
+    });
+  });
+
+  it('normalizes a label’s own weights and clamps them to 0-1', () => {
+    const shares = getFixedShares('FMH.NL', ['facebook', 'tiktok'], settings('fixed', { 'FMH.NL': { facebook: 2, tiktok: 0.5 } }));
+    expect(shares.facebook).toBeCloseTo(2 / 3);
+    expect(shares.tiktok).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('attributeWebRevenue', () => {
+  it('splits by spend, and attributes nothing without spend', () => {
+    expect(attributeWebRevenue(row, settings('spend'))).toEqual({ facebook: 600, google: 200, tiktok: 200 });
+    const noSpend = { ...row, platforms: { facebook: { spend: 0, conversions: 5, lastClickRevenue: 0 } } };
+    expect(attributeWebRevenue(noSpend, settings('spend'))).toEqual({ facebook: 0 });
+  });
+
+  it('splits by conversions, falling back to spend without any', () => {
+    expect(attributeWebRevenue(row, settings('conversions'))).toEqual({ facebook: 250, google: 750, tiktok: 0 });
+    const noConversions = {
+      ...row,
+      platforms: Object.fromEntries(Object.entries(row.platforms).map(([p, m]) => [p, { ...m, conversions: 0 }])),
+    };
+    expect(attributeWebRevenue(noConversions, settings('conversions'))).toEqual({ facebook: 600, google: 200, tiktok: 200 });
+  });
+
+  it('uses last-click revenue as reported, or the fixed split when it is empty', () => {
+    const lastClick = {
+      ...row,
+      platforms: { ...row.platforms, google: { ...row.platforms.google, lastClickRevenue: 450 } },
+    };
+    expect(attributeWebRevenue(lastClick, settings('last_click'))).toEqual({ facebook: 0, google: 450, tiktok: 0 });
+    expect(attributeWebRevenue(row, settings('last_click'))).toEqual({ facebook: 600, google: 400, tiktok: 0 });
+  });
+});
+
+describe('applyAttribution', () => {
+  it('re-attributes each day with its own label’s split and recomputes ROAS', () => {
+    const platforms = {
+      facebook: { spend: 100, clicks: 10, conversions: 1, lastClickRevenue: 0 },
+      google: { spend: 100, clicks: 10, conversions: 1, lastClickRevenue: 0 },
+    };
+    const days = [
+      makeDay('2026-10-01', 'FMH.NL', { revenueWeb: 1000, platforms }),
+      makeDay('2026-10-01', 'FMH.BE', { revenueWeb: 1000, platforms }),
+    ];
+    const [nl, be] = applyAttribution(days, settings('fixed', { 'FMH.BE': { facebook: 1, google: 0 } }));
+    expect(nl.platforms.facebook.attributedRevenue).toBeCloseTo(600);
+    expect(nl.platforms.facebook.roas).toBeCloseTo(6);
+    expect(be.platforms.facebook.attributedRevenue).toBe(1000);
+    expect(be.platforms.google.roas).toBe(0);
+  });
+});
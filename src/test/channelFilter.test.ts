@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { filterChannelsAndPlatforms, isFullSelection } from '@/utils/channelFilter';
+import { makeDay } from './fixtures';
+
+const day = makeDay('2026-10-01', 'FMH.NL', {
+  revenueWeb: 8000,
+  revenueApp: 2000,
+  ordersWeb: 100,
+  ordersApp: 10,
+  returnedRevenue: 1000,
+  returnedOrders: 11,
+  platforms: {
+    facebook: { spend: 500, clicks: 100, conversions: 40, lastClickRevenue: 0 },
+    google: { spend: 300, clicks: 60, conversions: 20, lastClickRevenue: 0 },
+  },
+  funnel: { web: { sessions: 4000, addToCarts: 400, checkouts: 200 }, app: { sessions: 100, addToCarts: 20, checkouts: 15 } },
+});
+
+describe('filterChannelsAndPlatforms', () => {
+  it('returns the rows as-is for the full selection', () => {
+    expect(isFullSelection({ channels: ['web', 'app'], platforms: [] })).toBe(true);
+    expect(isFullSelection({ channels: ['web'], platforms: [] })).toBe(false);
+    const metrics = [day];
+    expect(filterChannelsAndPlatforms(metrics, { channels: ['web', 'app'], platforms: [] })).toBe(metrics);
+  });
+
+  it('keeps the app channel its own orders, not a revenue share of all orders', () => {
+    const [app] = filterChannelsAndPlatforms([day], { channels: ['app'], platforms: [] });
+    expect(app.totalRevenue).toBe(2000);
+    expect(app.ordersWeb).toBe(0);
+    expect(app.ordersApp).toBe(10);
+    expect(app.orders).toBe(10);
+    expect(app.aov).toBe(200);
+    expect(app.sessions).toBe(100);
+    expect(app.conversionRate).toBeCloseTo(0.1);
+  });
+
+  it('drops attributed revenue and the web funnel with the web channel', () => {
+    const [app] = filterChannelsAndPlatforms([day], { channels: ['app'], platforms: [] });
+    expect(Object.values(app.platforms).every((p) => p.attributedRevenue === 0)).toBe(true);
+    expect(app.funnel.web.sessions).toBe(0);
+    // Returns aren't per channel and follow the revenue share
+    expect(app.returnedRevenue).toBeCloseTo(200);
+  });
+
+  it('zeroes deselected platforms and recomputes spend ratios', () => {
+    const [fb] = filterChannelsAndPlatforms([day], { channels: ['web', 'app'], platforms: ['facebook'] });
+    expect(fb.platforms.google.spend).toBe(0);
+    expect(fb.totalSpend).toBe(500);
+    expect(fb.mer).toBeCloseTo(0.05);
+    expect(fb.orders).toBe(110);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DAILY_COLUMNS,
+  TARGET_COLUMNS,
+  getDailyColumns,
+  headerSimilarity,
+  mapSheetRows,
+  resolveColumnMapping,
+  suggestColumnMapping,
+} from '@/utils/columnMapping';
+
+describe('suggestColumnMapping', () => {
+  it('matches exact names, aliases and close misspellings, each header once', () => {
+    const { mapping, matches, unknownHeaders } = suggestColumnMapping(
+      ['datum', 'Brand', 'Revenu_Web', 'Orders', 'Web_Orders', 'Notes'],
+      DAILY_COLUMNS
+    );
+    expect(mapping).toMatchObject({ Date: 'datum', Label: 'Brand', Rev_Web: 'Revenu_Web', Orders: 'Orders' });
+    expect(matches.Date.kind).toBe('alias');
+    expect(matches.Orders.kind).toBe('exact');
+    expect(matches.Rev_Web.kind).toBe('fuzzy');
+    expect(matches.Rev_Web.score).toBeCloseTo(0.9);
+    // Orders is taken by its exact header, so its alias stays unmapped
+    expect(Object.values(mapping).filter((h) => h === 'Web_Orders')).toEqual([]);
+    expect(unknownHeaders).toEqual(['Web_Orders', 'Notes']);
+  });
+
+  it('does not suggest headers below the similarity threshold', () => {
+    expect(headerSimilarity('Ad_budget', 'AdBudget')).toBe(1);
+    expect(suggestColumnMapping(['Budget', 'Comments'], TARGET_COLUMNS).mapping).toEqual({ Ad_budget: 'Budget' });
+  });
+});
+
+describe('resolveColumnMapping', () => {
+  it('keeps saved choices whose header still exists and suggests the rest', () => {
+    const mapping = resolveColumnMapping(['Dag', 'Label', 'Omzet web'], DAILY_COLUMNS, { Date: 'Dag', Rev_Web: 'Omzet web', Orders: 'Gone' });
+    expect(mapping).toEqual({ Date: 'Dag', Label: 'Label', Rev_Web: 'Omzet web' });
+  });
+});
+
+describe('mapSheetRows', () => {
+  it('re-keys rows, keeps extra platform columns and reports what is missing or unknown', () => {
+    const rows = [{ Day: '1-10-2026', Spend_TikTok: '50', Notes: 'x', Reviewed: '' }];
+    const result = mapSheetRows(rows, getDailyColumns(Object.keys(rows[0])), undefined, ['Reviewed']);
+    expect(result.rows[0]).toEqual({ Date: '1-10-2026', Spend_TikTok: '50' });
+    expect(result.missingColumns).toEqual(['Label']);
+    expect(result.unknownHeaders).toEqual(['Notes']);
+  });
+});
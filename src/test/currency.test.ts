@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import type { FxRate, MonthlyTarget } from '@/types';
+import { convertToCurrency, createCurrencyConverter, createFxLookup, mergeFxRates, parseFxRates, parseLabelCurrencies } from '@/utils/currency';
+import { makeDay } from './fixtures';
+
+const fxRates: FxRate[] = [
+  { dateString: '2026-10-01', currency: 'GBP', rate: 0.8 },
+  { dateString: '2026-10-05', currency: 'GBP', rate: 0.9 },
+  { dateString: '2026-10-01', currency: 'CHF', rate: 0.95 },
+];
+
+describe('parseFxRates / parseLabelCurrencies', () => {
+  it('reads decimal commas and points, skips EUR and counts invalid rows', () => {
+    const { rates, errors } = parseFxRates([
+      { Date: '1-10-2026', Currency: 'gbp', Rate: '0,8567' },
+      { Date: '1-10-2026', Currency: 'CHF', Rate: '0.9412' },
+      { Date: '1-10-2026', Currency: 'EUR', Rate: '1' },
+      { Date: '1-10-2026', Currency: 'USD', Rate: '1.1' },
+      { Date: '1-10-2026', Currency: 'GBP', Rate: '0' },
+    ]);
+    expect(rates).toEqual([
+      { dateString: '2026-10-01', currency: 'GBP', rate: 0.8567 },
+      { dateString: '2026-10-01', currency: 'CHF', rate: 0.9412 },
+    ]);
+    expect(errors).toBe(2);
+  });
+
+  it('maps labels to known currencies only', () => {
+    expect(parseLabelCurrencies([
+      { Label: 'FMH.UK', Currency: 'gbp' },
+      { Label: 'FMH.US', Currency: 'USD' },
+      { Label: '', Currency: 'EUR' },
+    ])).toEqual({ currencies: { 'FMH.UK': 'GBP' }, errors: 1 });
+  });
+});
+
+describe('createFxLookup', () => {
+  it('uses the latest earlier rate, the first rate before it, and null without rates', () => {
+    const lookup = createFxLookup(mergeFxRates(fxRates, [{ dateString: '2026-10-01', currency: 'GBP', rate: 0.85 }]));
+    expect(lookup('EUR', '2026-10-03')).toBe(1);
+    expect(lookup('GBP', '2026-10-03')).toBe(0.85);
+    expect(lookup('GBP', '2026-10-10')).toBe(0.9);
+    expect(lookup('GBP', '2026-09-01')).toBe(0.85);
+    expect(createFxLookup([])('GBP', '2026-10-01')).toBeNull();
+  });
+});
+
+describe('createCurrencyConverter', () => {
+  it('gives factors via EUR at the rate of the day and lists currencies without rates', () => {
+    const converter = createCurrencyConverter({ 'FMH.UK': 'GBP', 'FMH.CH': 'CHF' }, fxRates.slice(0, 2), 'EUR');
+    expect(converter.factor('FMH.NL', '2026-10-06')).toBe(1);
+    expect(converter.factor('FMH.UK', '2026-10-02')).toBeCloseTo(1 / 0.8);
+    expect(converter.factor('FMH.UK', '2026-10-06')).toBeCloseTo(1 / 0.9);
+    expect(converter.factor('FMH.CH', '2026-10-06')).toBe(1);
+    expect(converter.missingRates()).toEqual(['CHF']);
+  });
+});
+
+describe('convertToCurrency', () => {
+  const uk = makeDay('2026-10-06', 'FMH.UK', {
+    revenueWeb: 900,
+    ordersWeb: 10,
+    platforms: { facebook: { spend: 90, clicks: 50, conversions: 5, lastClickRevenue: 0 } },
+  });
+  const nl = makeDay('2026-10-06', 'FMH.NL', { revenueWeb: 1000, ordersWeb: 10 });
+  const target: MonthlyTarget = { month: '2026-10', label: 'FMH.UK', revenueTarget: 8000, ordersTarget: 100, merTarget: 0.1, adBudget: 800 };
+
+  it('converts money at the rate of the day and leaves ratios and counts alone', () => {
+    const { metrics, targets, missingRates } = convertToCurrency(
+      { metrics: [uk, nl], targets: [target], labelCurrencies: { 'FMH.UK': 'GBP' }, fxRates },
+      'EUR'
+    );
+    expect(missingRates).toEqual([]);
+    expect(metrics[0].totalRevenue).toBeCloseTo(1000);
+    expect(metrics[0].aov).toBeCloseTo(100);
+    expect(metrics[0].platforms.facebook.spend).toBeCloseTo(100);
+    expect(metrics[0].orders).toBe(10);
+    expect(metrics[0].mer).toBeCloseTo(uk.mer);
+    expect(metrics[1]).toBe(nl);
+    // Targets at the first of the month
+    expect(targets[0].revenueTarget).toBeCloseTo(10000);
+    expect(targets[0].ordersTarget).toBe(100);
+  });
+
+  it('converts between two other currencies via EUR', () => {
+    const { metrics } = convertToCurrency(
+      { metrics: [nl], targets: [], labelCurrencies: {}, fxRates },
+      'GBP'
+    );
+    expect(metrics[0].totalRevenue).toBeCloseTo(900);
+  });
+
+  it('leaves amounts without a rate unconverted and reports the currency', () => {
+    const { metrics, missingRates } = convertToCurrency(
+      { metrics: [uk], targets: [], labelCurrencies: { 'FMH.UK': 'GBP' }, fxRates: [] },
+      'EUR'
+    );
+    expect(metrics[0].totalRevenue).toBe(900);
+    expect(missingRates).toEqual(['GBP']);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { recordsToTable, tableToCSV } from '@/utils/dataExport';
+
+const table = recordsToTable([
+  { label: 'FMH.NL', note: 'Sale; "Autumn", week 1', mer: 0.1 + 0.2 },
+  { label: 'FMH.DE', revenue: 1234.5, note: null },
+]);
+
+describe('recordsToTable', () => {
+  it('takes the columns from the keys in order of first appearance', () => {
+    expect(table.columns.map((c) => c.key)).toEqual(['label', 'note', 'mer', 'revenue']);
+    expect(recordsToTable([{ date: '2026-10-01', displayDate: '1 Oct' }], ['displayDate']).columns).toEqual([
+      { key: 'date', header: 'date' },
+    ]);
+  });
+});
+
+describe('tableToCSV', () => {
+  it('quotes separators and quotes, rounds numbers and leaves missing values empty', () => {
+    expect(tableToCSV(table).split('\n')).toEqual([
+      '\uFEFFlabel,note,mer,revenue', // Byte order mark for Excel
+      'FMH.NL,"Sale; ""Autumn"", week 1",0.3,',
+      'FMH.DE,,,1234.5',
+    ]);
+  });
+
+  it('uses semicolons and decimal commas in European format', () => {
+    expect(tableToCSV(table, true).split('\n').slice(1)).toEqual([
+      'FMH.NL;"Sale; ""Autumn"", week 1";0,3;',
+      'FMH.DE;;;1234,5',
+    ]);
+  });
+});
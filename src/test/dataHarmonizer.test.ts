@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { DataHarmonizer } from '@/utils/dataHarmonizer';
+import { makeDay } from './fixtures';
+
+const sheetRow = (date: string, label: string, revenue: number) => ({ Date: date, Label: label, Rev_Web: String(revenue) });
+
+const revenueOf = (harmonizer: DataHarmonizer, dateString: string, label: string) =>
+  harmonizer.harmonize(false).metrics.find((m) => m.dateString === dateString && m.label === label)?.totalRevenue;
+
+describe('DataHarmonizer de-duplication', () => {
+  it('prefers live rows over uploads, and uploads over archives, per date + label', () => {
+    const harmonizer = new DataHarmonizer();
+    harmonizer.addHistoricalDataEuropean(
+      [sheetRow('31-12-2025', 'FMH.NL', 100), sheetRow('1-1-2026', 'FMH.NL', 100), sheetRow('2-1-2026', 'FMH.NL', 100), sheetRow('2-1-2026', 'FMH.DE', 100)],
+      2026
+    );
+    harmonizer.addUploadedData([sheetRow('1-1-2026', 'FMH.NL', 200), sheetRow('2-1-2026', 'FMH.NL', 200)], 'export.xlsx', 'upload-1');
+    harmonizer.addLiveMetrics([makeDay('2026-01-02', 'FMH.NL', { revenueWeb: 300 })]);
+
+    expect(revenueOf(harmonizer, '2026-01-02', 'FMH.NL')).toBe(300);
+    expect(revenueOf(harmonizer, '2026-01-01', 'FMH.NL')).toBe(200);
+    expect(revenueOf(harmonizer, '2026-01-02', 'FMH.DE')).toBe(100);
+    // Rows outside the archive's year are ignored
+    expect(revenueOf(harmonizer, '2025-12-31', 'FMH.NL')).toBeUndefined();
+
+    const { metrics, sources } = harmonizer.harmonize(false);
+    expect(metrics).toHaveLength(3);
+    expect(sources.map((s) => [s.type, s.data.length, s.duplicatesDropped])).toEqual([
+      ['upload', 1, 1],
+      ['historical', 1, 2],
+      ['live', 1, undefined],
+    ]);
+  });
+
+  it('keeps the first registered archive when two overlap', () => {
+    const harmonizer = new DataHarmonizer();
+    harmonizer.addHistoricalDataEuropean([sheetRow('1-10-2025', 'FMH.NL', 100)], 2025, 'Daily_2025');
+    harmonizer.addHistoricalDataEuropean([sheetRow('1-10-2025', 'FMH.NL', 150)], 2025, 'Daily_2025_copy');
+
+    expect(revenueOf(harmonizer, '2025-10-01', 'FMH.NL')).toBe(100);
+    expect(harmonizer.harmonize(false).sources.map((s) => s.duplicatesDropped)).toEqual([0, 1]);
+  });
+});
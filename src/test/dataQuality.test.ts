@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { RowIssue } from '@/types';
+import { issuesToCSV, sortIssues, validateRawRow } from '@/utils/dataQuality';
+import { transformSheetData } from '@/utils/sheetTransformer';
+
+const sheetRow = (date: string, label: string, values: Record<string, string> = {}): Record<string, string> => ({
+  Date: date,
+  Label: label,
+  Rev_Web: '1000',
+  Spend_FB: '100',
+  ...values,
+});
+
+describe('validateRawRow', () => {
+  it('rejects rows without a valid date or label, or with negative values', () => {
+    const codes = (row: Record<string, string>) => validateRawRow(row, 2).map((i) => `${i.severity}:${i.code}`);
+    expect(codes(sheetRow('next week', 'FMH.NL'))).toEqual(['error:invalid_date']);
+    expect(codes(sheetRow('1-10-2026', ' '))).toEqual(['error:missing_label']);
+    expect(codes(sheetRow('1-10-2026', 'FMH.NL', { Spend_FB: '-5' }))).toEqual(['error:negative_value']);
+  });
+
+  it('warns about text in number columns and accepts European numbers', () => {
+    const issues = validateRawRow(sheetRow('1-10-2026', 'FMH.NL', { Rev_Web: '1.234,50', Orders: 'n/a' }), 5);
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'warning', code: 'not_a_number', rowNumber: 5, column: 'Orders', value: 'n/a' }),
+    ]);
+  });
+});
+
+describe('findRowWarnings', () => {
+  it('flags duplicate date + label rows after the first', () => {
+    const { data, issues } = transformSheetData([sheetRow('1-10-2026', 'FMH.NL'), sheetRow('1-10-2026', 'FMH.NL')]);
+    expect(data).toHaveLength(2);
+    expect(issues).toEqual([
+      expect.objectContaining({ code: 'duplicate_row', rowNumber: 3, reason: expect.stringContaining('row 2') }),
+    ]);
+  });
+
+  it('flags revenue far above the label median once there is enough history', () => {
+    const rows = Array.from({ length: 20 }, (_, i) =>
+      sheetRow(`${i + 1}-10-2026`, 'FMH.NL', { Rev_Web: String(1000 + (i % 3) * 50) })
+    );
+    rows[9] = sheetRow('10-10-2026', 'FMH.NL', { Rev_Web: '50000' });
+    const outliers = transformSheetData(rows).issues.filter((i) => i.code === 'outlier');
+    expect(outliers).toEqual([expect.objectContaining({ rowNumber: 11, column: 'Rev_Web + Rev_App' })]);
+
+    // Too few rows to tell
+    expect(transformSheetData(rows.slice(0, 12)).issues.filter((i) => i.code === 'outlier')).toEqual([]);
+  });
+
+  it('suggests the common label for a rare lookalike', () => {
+    const rows = [
+      ...Array.from({ length: 10 }, (_, i) => sheetRow(`${i + 1}-10-2026`, 'FMH.NL')),
+      sheetRow('11-10-2026', 'FMH.NLL'),
+    ];
+    const typos = transformSheetData(rows).issues.filter((i) => i.code === 'label_typo');
+    expect(typos).toEqual([expect.objectContaining({ rowNumber: 12, value: 'FMH.NLL', reason: expect.stringContaining('"FMH.NL"') })]);
+  });
+});
+
+describe('issuesToCSV / sortIssues', () => {
+  const issues: RowIssue[] = [
+    { severity: 'warning', code: 'not_a_number', source: 'Daily_Input', rowNumber: 4, column: 'Orders', value: '1,2,3', reason: 'Not a number, read as 0' },
+    { severity: 'error', code: 'invalid_date', source: 'Daily_Input', rowNumber: 9, column: 'Date', value: 'say "soon"', reason: 'Date is not in d-m-yyyy format' },
+  ];
+
+  it('puts errors first, then orders by source and row', () => {
+    expect(sortIssues(issues).map((i) => i.rowNumber)).toEqual([9, 4]);
+  });
+
+  it('quotes values with commas and quotes', () => {
+    expect(issuesToCSV(issues).split('\n')).toEqual([
+      'Severity,Source,Row,Column,Value,Issue,Reason',
+      'warning,Daily_Input,4,Orders,"1,2,3",not_a_number,"Not a number, read as 0"',
+      'error,Daily_Input,9,Date,"say ""soon""",invalid_date,Date is not in d-m-yyyy format',
+    ]);
+  });
+});
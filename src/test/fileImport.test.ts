@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { cellToString, parseCsvFile } from '@/utils/fileImport';
+
+describe('cellToString', () => {
+  it('writes XLSX cells in the European text format of the sheet', () => {
+    expect(cellToString(new Date(Date.UTC(2026, 9, 1)))).toBe('1-10-2026');
+    expect(cellToString(1234.5)).toBe('1234,5');
+    expect(cellToString(42)).toBe('42');
+    expect(cellToString('  FMH.NL ')).toBe('FMH.NL');
+    expect(cellToString(null)).toBe('');
+    expect(cellToString(undefined)).toBe('');
+  });
+});
+
+describe('parseCsvFile', () => {
+  it('reads semicolon CSV with quoted decimal commas', () => {
+    const file = parseCsvFile('Date;Label;Rev_Web\r\n1-10-2026;FMH.NL;"1.234,50"\r\n\r\n2-10-2026;FMH.DE;900\r\n');
+    expect(file.headers).toEqual(['Date', 'Label', 'Rev_Web']);
+    expect(file.rows).toEqual([
+      { Date: '1-10-2026', Label: 'FMH.NL', Rev_Web: '1.234,50' },
+      { Date: '2-10-2026', Label: 'FMH.DE', Rev_Web: '900' },
+    ]);
+  });
+
+  it('skips the comment lines of GA4 exports', () => {
+    const file = parseCsvFile('# Sessions report\n# 1-10-2026 - 2-10-2026\nDate,Sessions\n20261001,400\n');
+    expect(file.headers).toEqual(['Date', 'Sessions']);
+    expect(file.rows).toEqual([{ Date: '20261001', Sessions: '400' }]);
+  });
+
+  it('has no headers without data rows', () => {
+    expect(parseCsvFile('Date,Label\n')).toEqual({ headers: [], rows: [] });
+  });
+});
@@ -0,0 +1,51 @@
+import type { DailyMetrics, FunnelSteps } from '@/types';
+import { createTransformedRow, toCompatibleMetrics, type SheetRowValues } from '@/utils/sheetTransformer';
+import { emptyFunnel } from '@/utils/funnel';
+
+// ============================================
+// TEST FIXTURES
+// Daily rows built the way the sheet parser builds them, so derived fields
+// (totals, ratios, attribution, margins) are consistent
+// ============================================
+
+export interface DayInput extends Partial<Omit<SheetRowValues, 'funnel'>> {
+  funnel?: { web?: Partial<FunnelSteps>; app?: Partial<FunnelSteps> };
+}
+
+export function makeDay(date: string, label: string, input: DayInput = {}): DailyMetrics {
+  const [year, month, day] = date.split('-').map(Number);
+  const none = emptyFunnel();
+  return toCompatibleMetrics(
+    createTransformedRow(new Date(year, month - 1, day), label, {
+      revenueWeb: 0,
+      revenueApp: 0,
+      ordersWeb: 0,
+      ordersApp: 0,
+      platforms: {},
+      returnedRevenue: 0,
+      returnedOrders: 0,
+      ...input,
+      funnel: {
+        web: { ...none.web, ...input.funnel?.web },
+        app: { ...none.app, ...input.funnel?.app },
+      },
+    })
+  );
+}
+
+/**
+ * One row per day from start (yyyy-MM-dd) on, with the inputs of each day
+ */
+export function makeDays(
+  start: string,
+  count: number,
+  label: string,
+  input: (index: number, date: Date) => DayInput
+): DailyMetrics[] {
+  const [year, month, day] = start.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(year, month - 1, day + i);
+    const dateString = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return makeDay(dateString, label, input(i, date));
+  });
+}
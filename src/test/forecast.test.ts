@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { forecastRevenue } from '@/utils/forecast';
+import { makeDay, makeDays } from './fixtures';
+
+// Weekends sell twice as much as weekdays
+const revenueOn = (date: Date) => (date.getDay() === 0 || date.getDay() === 6 ? 2000 : 1000);
+
+const history = makeDays('2026-08-01', 77, 'FMH.NL', (_, date) => ({ revenueWeb: revenueOn(date) }));
+const reference = new Date(2026, 9, 16); // Last day of history
+
+describe('forecastRevenue', () => {
+  it('continues the weekday pattern at the recent level', () => {
+    const forecast = forecastRevenue(history, reference)!;
+    expect(forecast).not.toBeNull();
+    expect(forecast.usesPriorYear).toBe(false);
+    expect(forecast.points[0].dateString).toBe('2026-10-17');
+    // Saturday and Monday
+    expect(forecast.points[0].expected).toBeCloseTo(2000, 0);
+    expect(forecast.points[2].expected).toBeCloseTo(1000, 0);
+    expect(forecast.points.at(-1)?.dateString).toBe('2026-12-31');
+    expect(forecast.month.actual).toBe(history.filter((m) => m.dateString >= '2026-10-01').reduce((s, m) => s + m.totalRevenue, 0));
+  });
+
+  it('skips empty days instead of counting them as zero revenue', () => {
+    // A week the sheet wasn't filled in, as the harmonizer fills it: zero rows
+    const withGap = history.map((m) =>
+      m.dateString >= '2026-10-05' && m.dateString <= '2026-10-11' ? makeDay(m.dateString, m.label) : m
+    );
+    const forecast = forecastRevenue(withGap, reference)!;
+    expect(forecast.points[0].expected).toBeCloseTo(2000, 0);
+    expect(forecast.points[2].expected).toBeCloseTo(1000, 0);
+  });
+
+  it('returns null without recent data', () => {
+    expect(forecastRevenue(history, new Date(2026, 11, 1))).toBeNull();
+    expect(forecastRevenue([], reference)).toBeNull();
+  });
+});
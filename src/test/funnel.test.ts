@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { compareFunnels, parseGa4Export, readFunnelColumns, summarizeFunnel } from '@/utils/funnel';
+import { aggregateByDate } from '@/utils/analytics';
+import { makeDay } from './fixtures';
+
+// A GA4 export without a platform column: all sessions are web, but the shop
+// also has app orders
+const webOnly = makeDay('2026-10-01', 'FMH.NL', {
+  revenueWeb: 5000,
+  revenueApp: 3000,
+  ordersWeb: 50,
+  ordersApp: 30,
+  funnel: { web: { sessions: 2000, addToCarts: 200, checkouts: 60 } },
+});
+
+describe('calculateFunnelMetrics', () => {
+  it('sets each channel’s orders and revenue against its own sessions', () => {
+    expect(webOnly.sessions).toBe(2000);
+    expect(webOnly.conversionRate).toBeCloseTo(0.025);
+    expect(webOnly.revenuePerSession).toBeCloseTo(2.5);
+  });
+
+  it('uses both channels when both have sessions', () => {
+    const both = makeDay('2026-10-01', 'FMH.NL', {
+      revenueWeb: 5000,
+      revenueApp: 3000,
+      ordersWeb: 50,
+      ordersApp: 30,
+      funnel: { web: { sessions: 2000 }, app: { sessions: 1000 } },
+    });
+    expect(both.conversionRate).toBeCloseTo(80 / 3000);
+    expect(both.revenuePerSession).toBeCloseTo(8000 / 3000);
+  });
+
+  it('is 0 without sessions', () => {
+    const none = makeDay('2026-10-01', 'FMH.NL', { revenueWeb: 100, ordersWeb: 1 });
+    expect(none.conversionRate).toBe(0);
+    expect(none.revenuePerSession).toBe(0);
+  });
+});
+
+describe('summarizeFunnel', () => {
+  it('keeps channels paired per label after aggregating by date', () => {
+    // Only the BE label tracks app sessions
+    const be = makeDay('2026-10-01', 'FMH.BE', {
+      revenueWeb: 1000,
+      revenueApp: 1000,
+      ordersWeb: 10,
+      ordersApp: 10,
+      funnel: { web: { sessions: 500 }, app: { sessions: 500 } },
+    });
+    const [day] = aggregateByDate([webOnly, be]);
+    expect(day.sessions).toBe(3000);
+    expect(day.conversionRate).toBeCloseTo((50 + 20) / 3000);
+    expect(summarizeFunnel([webOnly, be])).toEqual({
+      sessions: day.sessions,
+      conversionRate: day.conversionRate,
+      revenuePerSession: day.revenuePerSession,
+    });
+  });
+});
+
+describe('compareFunnels', () => {
+  it('never has more orders than the tracked channels’ checkouts lead to', () => {
+    const previous = makeDay('2025-10-02', 'FMH.NL', {
+      revenueWeb: 4000,
+      ordersWeb: 40,
+      funnel: { web: { sessions: 1600, addToCarts: 160, checkouts: 50 } },
+    });
+    const [sessions, addToCarts, checkouts, orders] = compareFunnels([webOnly], [previous]);
+    expect(sessions).toMatchObject({ current: 2000, previous: 1600, currentRate: null });
+    expect(sessions.change).toBeCloseTo(25);
+    expect(addToCarts.currentRate).toBeCloseTo(0.1);
+    expect(checkouts.current).toBe(60);
+    expect(orders.current).toBeCloseTo(50);
+    expect(orders.currentRate).toBeCloseTo(50 / 60);
+  });
+});
+
+describe('readFunnelColumns', () => {
+  it('reads the _Web and _App columns, 0 for missing ones', () => {
+    expect(readFunnelColumns({ Sessions_Web: '1200', Checkouts_App: '7,4' }, (v) => Number((v ?? '').replace(',', '.')) || 0)).toEqual({
+      web: { sessions: 1200, addToCarts: 0, checkouts: 0 },
+      app: { sessions: 0, addToCarts: 0, checkouts: 7 },
+    });
+  });
+});
+
+describe('parseGa4Export', () => {
+  it('sums rows per day and channel and skips the totals row', () => {
+    const { rows, errors } = parseGa4Export(
+      [
+        { Date: '20261004', Platform: 'web', Sessions: '1,200', 'Add to carts': '100', Checkouts: '40' },
+        { Date: '20261004', Platform: 'iOS', Sessions: '300', 'Add to carts': '30', Checkouts: '12' },
+        { Date: '20261004', Platform: 'Android', Sessions: '200', 'Add to carts': '20', Checkouts: '8' },
+        { Date: 'Grand total', Platform: '', Sessions: '1700', 'Add to carts': '150', Checkouts: '60' },
+      ],
+      'FMH.NL'
+    );
+    expect(errors).toBe(1);
+    expect(rows).toEqual([
+      { dateString: '2026-10-04', label: 'FMH.NL', channel: 'web', steps: { sessions: 1200, addToCarts: 100, checkouts: 40 } },
+      { dateString: '2026-10-04', label: 'FMH.NL', channel: 'app', steps: { sessions: 500, addToCarts: 50, checkouts: 20 } },
+    ]);
+  });
+
+  it('counts everything as web without a platform column', () => {
+    const { rows } = parseGa4Export([{ Datum: '4-10-2026', Sessies: '80' }], 'FMH.BE');
+    expect(rows).toEqual([
+      { dateString: '2026-10-04', label: 'FMH.BE', channel: 'web', steps: { sessions: 80, addToCarts: 0, checkouts: 0 } },
+    ]);
+  });
+});
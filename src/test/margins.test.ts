@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMargins, parseMarginInputs, resolveMarginInputs, NO_MARGIN_INPUTS } from '@/utils/margins';
+
+describe('parseMarginInputs', () => {
+  it('reads rates as fractions, bare percentages and percentages with a % sign', () => {
+    const inputs = parseMarginInputs([
+      { Label: 'FMH.NL', VAT: '0,21', Return_Rate: '30', COGS: '40%', Shipping_Cost: '4,95' },
+      { Label: 'FMH.BE', VAT: '21%', Return_Rate: '1%', COGS: '0,5%', Shipping_Cost: '' },
+    ]);
+    expect(inputs['FMH.NL']).toEqual({ vatRate: 0.21, returnRate: 0.3, cogsRate: 0.4, shippingCost: 4.95 });
+    expect(inputs['FMH.BE'].vatRate).toBeCloseTo(0.21);
+    expect(inputs['FMH.BE'].returnRate).toBeCloseTo(0.01);
+    expect(inputs['FMH.BE'].cogsRate).toBeCloseTo(0.005);
+    expect(inputs['FMH.BE'].shippingCost).toBe(0);
+  });
+
+  it('treats a bare 1 as a fraction and skips invalid values and rows without a label', () => {
+    const inputs = parseMarginInputs([
+      { Label: 'FMH.DE', VAT: '1', Return_Rate: 'n/a', COGS: '-5' },
+      { Label: '', VAT: '21' },
+    ]);
+    expect(Object.keys(inputs)).toEqual(['FMH.DE']);
+    expect(inputs['FMH.DE']).toEqual({ vatRate: 1, returnRate: 0, cogsRate: 0, shippingCost: 0 });
+  });
+});
+
+describe('calculateMargins', () => {
+  const inputs = { vatRate: 0.21, returnRate: 0.2, cogsRate: 0.4, shippingCost: 5 };
+
+  it('equals revenue without inputs', () => {
+    const m = calculateMargins({ totalRevenue: 1210, returnedRevenue: 0, orders: 10, totalSpend: 100 });
+    expect(m.netRevenue).toBe(1210);
+    expect(m.grossMargin).toBe(1210);
+    expect(m.contributionMarginAfterCogs).toBe(1110);
+    expect(m.poas).toBeCloseTo(12.1);
+  });
+
+  it('uses the estimated return rate when the day has no reported returns', () => {
+    const m = calculateMargins({ totalRevenue: 1210, returnedRevenue: 0, orders: 10, totalSpend: 100 }, inputs);
+    expect(m.netRevenue).toBeCloseTo(800);
+    expect(m.grossMargin).toBeCloseTo(480);
+    expect(m.shippingCosts).toBe(50);
+    expect(m.contributionMarginAfterCogs).toBeCloseTo(330);
+    expect(m.poas).toBeCloseTo(4.3);
+  });
+
+  it('prefers reported returns over the estimate', () => {
+    const m = calculateMargins({ totalRevenue: 1210, returnedRevenue: 605, orders: 10, totalSpend: 0 }, inputs);
+    expect(m.netRevenue).toBeCloseTo(500);
+    expect(m.poas).toBe(0);
+  });
+});
+
+describe('resolveMarginInputs', () => {
+  it('puts overrides on top of the sheet inputs per field', () => {
+    const resolved = resolveMarginInputs(
+      { 'FMH.NL': { vatRate: 0.21, returnRate: 0.3, cogsRate: 0.4, shippingCost: 5 } },
+      { 'FMH.NL': { cogsRate: 0.35 }, 'FMH.BE': { vatRate: 0.21 } }
+    );
+    expect(resolved['FMH.NL']).toEqual({ vatRate: 0.21, returnRate: 0.3, cogsRate: 0.35, shippingCost: 5 });
+    expect(resolved['FMH.BE']).toEqual({ ...NO_MARGIN_INPUTS, vatRate: 0.21 });
+  });
+});
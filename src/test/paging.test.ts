@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { PAGE_SIZE, fetchAllPages } from '@/utils/paging';
+
+describe('fetchAllPages', () => {
+  it('reads pages until one comes back short', async () => {
+    const table = Array.from({ length: PAGE_SIZE * 2 + 5 }, (_, i) => i);
+    const ranges: [number, number][] = [];
+    const rows = await fetchAllPages(async (from, to) => {
+      ranges.push([from, to]);
+      return { data: table.slice(from, to + 1), error: null };
+    });
+    expect(rows).toEqual(table);
+    expect(ranges).toEqual([
+      [0, PAGE_SIZE - 1],
+      [PAGE_SIZE, PAGE_SIZE * 2 - 1],
+      [PAGE_SIZE * 2, PAGE_SIZE * 3 - 1],
+    ]);
+  });
+
+  it('throws the error of a failed page', async () => {
+    const error = new Error('timeout');
+    await expect(fetchAllPages(async () => ({ data: null, error }))).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import type { DateRange, EventAnnotation, MonthlyTarget } from '@/types';
+import { buildReport, previousYearRange, reportRange } from '../../supabase/functions/_shared/report';
+import { makeDays } from './fixtures';
+
+const days = (range: DateRange) => [format(range.start, 'yyyy-MM-dd'), format(range.end, 'yyyy-MM-dd')];
+
+// Wednesday
+const reference = new Date(2026, 9, 14);
+
+describe('reportRange / previousYearRange', () => {
+  it('reports the previous Monday-Sunday week against the same weekdays last year', () => {
+    const range = reportRange('weekly', reference);
+    expect(days(range)).toEqual(['2026-10-05', '2026-10-11']);
+    // Like the dashboard: the Monday of the same week of the month
+    expect(days(previousYearRange('weekly', range))).toEqual(['2025-10-13', '2025-10-19']);
+  });
+
+  it('reports the previous calendar month against the same month last year', () => {
+    const range = reportRange('monthly', reference);
+    expect(days(range)).toEqual(['2026-09-01', '2026-09-30']);
+    expect(days(previousYearRange('monthly', range))).toEqual(['2025-09-01', '2025-09-30']);
+  });
+});
+
+describe('buildReport', () => {
+  const metrics = [
+    ...makeDays('2025-09-01', 30, 'FMH.NL', () => ({ revenueWeb: 800, ordersWeb: 8 })),
+    ...makeDays('2026-09-01', 30, 'FMH.NL', () => ({ revenueWeb: 1000, ordersWeb: 10 })),
+    ...makeDays('2026-09-01', 30, 'FMH.DE', () => ({ revenueWeb: 500, ordersWeb: 5 })),
+  ];
+  const target = (label: string, revenueTarget: number): MonthlyTarget => ({
+    month: '2026-09',
+    label,
+    revenueTarget,
+    ordersTarget: 0,
+    merTarget: 0.2,
+    adBudget: 1000,
+  });
+  const event = (date: Date, title: string): EventAnnotation => ({ date, dateString: format(date, 'yyyy-MM-dd'), title, type: 'marketing' });
+
+  it('compares the period KPIs with last year and paces against the combined target', () => {
+    const report = buildReport(
+      { period: 'monthly', labels: null },
+      reference,
+      metrics,
+      [target('FMH.NL', 30000), target('FMH.DE', 20000)],
+      [event(new Date(2026, 8, 20), 'Autumn sale'), event(new Date(2026, 9, 2), 'Later')]
+    );
+
+    expect(report.kpis.find((k) => k.kpi === 'revenue')).toEqual({ kpi: 'revenue', value: 45000, previous: 24000 });
+    expect(report.kpis.find((k) => k.kpi === 'aov')?.value).toBeCloseTo(100);
+    expect(report.pacing).toMatchObject({ currentRevenue: 45000, targetRevenue: 50000, daysPassed: 30 });
+    expect(report.podium.map((p) => p.label)).toEqual(['FMH.NL', 'FMH.DE']);
+    expect(report.events.map((e) => e.title)).toEqual(['Autumn sale']);
+  });
+
+  it('has no pacing without a target for the month', () => {
+    expect(buildReport({ period: 'monthly', labels: null }, reference, metrics, [], []).pacing).toBeNull();
+  });
+});
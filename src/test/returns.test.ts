@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLabelReturns, calculatePlatformReturns } from '@/utils/returns';
+import { makeDay } from './fixtures';
+
+const platforms = {
+  facebook: { spend: 100, clicks: 10, conversions: 1, lastClickRevenue: 0 },
+  google: { spend: 50, clicks: 10, conversions: 1, lastClickRevenue: 0 },
+  tiktok: { spend: 0, clicks: 0, conversions: 0, lastClickRevenue: 0 },
+};
+
+// Attributed 60/40 to Facebook and Google by default
+const days = [
+  makeDay('2026-10-01', 'FMH.NL', { revenueWeb: 1000, returnedRevenue: 250, returnedOrders: 2, platforms }),
+  makeDay('2026-10-02', 'FMH.NL', { revenueWeb: 100, returnedRevenue: 400, returnedOrders: 3, platforms }),
+  makeDay('2026-10-01', 'FMH.BE', { revenueWeb: 1000, returnedRevenue: 100, returnedOrders: 1 }),
+];
+
+describe('calculatePlatformReturns', () => {
+  it('takes each day’s returned share off attributed revenue, at most all of it', () => {
+    const [facebook, google] = calculatePlatformReturns(days.slice(0, 2));
+    expect(facebook).toMatchObject({ platform: 'facebook', spend: 200 });
+    expect(facebook.grossRevenue).toBeCloseTo(660);
+    expect(facebook.netRevenue).toBeCloseTo(450);
+    expect(facebook.grossRoas).toBeCloseTo(3.3);
+    expect(facebook.netRoas).toBeCloseTo(2.25);
+    expect(google.netRevenue).toBeCloseTo(300);
+  });
+
+  it('leaves out platforms without spend or revenue', () => {
+    expect(calculatePlatformReturns(days).map((p) => p.platform)).toEqual(['facebook', 'google']);
+  });
+});
+
+describe('calculateLabelReturns', () => {
+  it('sums returns per label, highest return rate first', () => {
+    expect(calculateLabelReturns(days)).toEqual([
+      { label: 'FMH.NL', revenue: 1100, returnedRevenue: 650, returnedOrders: 5, returnRate: 650 / 1100, revenueAfterReturns: 450 },
+      { label: 'FMH.BE', revenue: 1000, returnedRevenue: 100, returnedOrders: 1, returnRate: 0.1, revenueAfterReturns: 900 },
+    ]);
+  });
+});
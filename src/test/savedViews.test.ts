@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { DashboardFilters } from '@/types';
+import { filtersToViewDefinition, matchRelativeRange, resolveRelativeRange, viewToFilters } from '@/utils/savedViews';
+
+const today = new Date(2026, 9, 18); // Sunday
+
+const filters: DashboardFilters = {
+  dateRange: { start: new Date(2026, 9, 1), end: new Date(2026, 9, 18) },
+  labels: ['FMH.NL'],
+  channels: ['web', 'app'],
+  platforms: [],
+  enableYoY: true,
+  alignByDayOfWeek: false,
+  comparisonEnabled: true,
+  comparisonMode: 'custom',
+  comparisonRange: { start: new Date(2026, 7, 1), end: new Date(2026, 7, 18) },
+};
+
+describe('relative ranges', () => {
+  it('resolves weeks from Monday and matches them back', () => {
+    expect(resolveRelativeRange('last_week', today)).toEqual({ start: new Date(2026, 9, 5), end: new Date(2026, 9, 11) });
+    expect(matchRelativeRange(filters.dateRange, today)).toBe('month_to_date');
+  });
+});
+
+describe('filtersToViewDefinition / viewToFilters', () => {
+  it('keeps a custom comparison range', () => {
+    const definition = filtersToViewDefinition(filters, 'revenue', null);
+    expect(definition.comparisonRange).toEqual({ start: '2026-08-01', end: '2026-08-18' });
+    expect(viewToFilters(definition, today).comparisonRange).toEqual(filters.comparisonRange);
+  });
+
+  it('leaves the range to the store for other comparison modes', () => {
+    const definition = filtersToViewDefinition({ ...filters, comparisonMode: 'previous_year' }, 'revenue', 'month_to_date');
+    expect(definition.comparisonRange).toBeUndefined();
+    expect(viewToFilters(definition, today)).toMatchObject({
+      dateRange: filters.dateRange,
+      comparisonRange: null,
+    });
+  });
+});
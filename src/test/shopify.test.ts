@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateShopifyOrders,
+  normalizeStoreDomain,
+  toShopDays,
+  withShopDay,
+  type ShopifyOrder,
+  type ShopifyStore,
+} from '@/utils/shopify';
+
+const store: ShopifyStore = { store: 'fmh-nl.myshopify.com', label: 'FMH.NL', app_sources: ['iphone', 'android'] };
+
+const order = (id: number, createdAt: string, totalPrice: string, extra: Partial<ShopifyOrder> = {}): ShopifyOrder => ({
+  id,
+  created_at: createdAt,
+  cancelled_at: null,
+  total_price: totalPrice,
+  source_name: 'web',
+  ...extra,
+});
+
+const refund = (createdAt: string, amount: string, status = 'success') => ({
+  id: 1,
+  created_at: createdAt,
+  transactions: [{ kind: 'refund', status, amount }],
+});
+
+describe('normalizeStoreDomain', () => {
+  it('writes store names and URLs as a myshopify domain', () => {
+    expect(normalizeStoreDomain('https://FMH-NL.myshopify.com/admin')).toBe('fmh-nl.myshopify.com');
+    expect(normalizeStoreDomain(' fmh-nl ')).toBe('fmh-nl.myshopify.com');
+    expect(normalizeStoreDomain('')).toBe('');
+  });
+});
+
+describe('aggregateShopifyOrders', () => {
+  it('sums orders per local day and channel, with a row for every day', () => {
+    const rows = aggregateShopifyOrders(
+      [
+        order(1, '2026-10-01T23:30:00+02:00', '100.10'),
+        order(2, '2026-10-01T10:00:00+02:00', '50.20', { source_name: 'iphone' }),
+        order(1, '2026-10-01T23:30:00+02:00', '100.10'),
+        order(3, '2026-10-01T11:00:00+02:00', '80.00', { test: true }),
+        order(4, '2026-10-01T12:00:00+02:00', '70.00', { cancelled_at: '2026-10-03T09:00:00+02:00' }),
+      ],
+      store,
+      '2026-10-01',
+      '2026-10-03'
+    );
+    expect(rows.map((r) => r.date)).toEqual(['2026-10-01', '2026-10-02', '2026-10-03']);
+    expect(rows[0]).toMatchObject({ label: 'FMH.NL', rev_web: 100.1, orders_web: 1, rev_app: 50.2, orders_app: 1 });
+    expect(rows[1]).toMatchObject({ rev_web: 0, orders_web: 0 });
+  });
+
+  it('books successful refunds on the day they were issued, once per order and day', () => {
+    const rows = aggregateShopifyOrders(
+      [
+        order(1, '2026-09-20T10:00:00+02:00', '100.00', {
+          refunds: [refund('2026-10-02T10:00:00+02:00', '30.00'), refund('2026-10-02T15:00:00+02:00', '20.00')],
+        }),
+        order(2, '2026-10-01T10:00:00+02:00', '60.00', {
+          refunds: [refund('2026-10-02T10:00:00+02:00', '60.00', 'failure')],
+        }),
+      ],
+      store,
+      '2026-10-01',
+      '2026-10-02'
+    );
+    expect(rows[0]).toMatchObject({ rev_web: 60, returned_revenue: 0 });
+    expect(rows[1]).toMatchObject({ returned_revenue: 50, returned_orders: 1 });
+  });
+});
+
+describe('toShopDays / withShopDay', () => {
+  it('sums a label’s stores and puts them over the sheet values', () => {
+    const base = { date: '2026-10-01', label: 'FMH.NL', rev_app: 0, orders_app: 0, returned_revenue: 0, returned_orders: 0 };
+    const days = toShopDays([
+      { ...base, store: 'fmh-nl.myshopify.com', rev_web: 100, orders_web: 1 },
+      { ...base, store: 'fmh-nl-outlet.myshopify.com', rev_web: 50, orders_web: 2 },
+    ]);
+    const shop = days.get('2026-10-01|FMH.NL');
+    expect(shop).toMatchObject({ revenueWeb: 150, ordersWeb: 3 });
+
+    const platforms = { facebook: { spend: 10, clicks: 1, conversions: 0, lastClickRevenue: 0 } };
+    const sheet = {
+      revenueWeb: 999,
+      revenueApp: 0,
+      ordersWeb: 9,
+      ordersApp: 0,
+      returnedRevenue: 0,
+      returnedOrders: 0,
+      platforms,
+      funnel: { web: { sessions: 10, addToCarts: 0, checkouts: 0 }, app: { sessions: 0, addToCarts: 0, checkouts: 0 } },
+    };
+    expect(withShopDay(sheet, shop)).toMatchObject({ revenueWeb: 150, ordersWeb: 3, platforms });
+    expect(withShopDay(sheet, undefined)).toBe(sheet);
+  });
+});
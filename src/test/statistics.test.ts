@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { linearSlope, median, medianAbsoluteDeviation, pearsonCorrelation, robustZScore } from '@/utils/statistics';
+
+describe('median / medianAbsoluteDeviation', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBe(0);
+  });
+
+  it('is not pulled along by an outlier', () => {
+    const values = [10, 11, 9, 10, 1000];
+    expect(median(values)).toBe(10);
+    expect(medianAbsoluteDeviation(values)).toBe(1);
+  });
+});
+
+describe('robustZScore', () => {
+  it('scales the deviation by the MAD and is 0 without spread', () => {
+    expect(robustZScore(20, 10, 0.6745)).toBeCloseTo(10);
+    expect(robustZScore(5, 10, 0.6745)).toBeCloseTo(-5);
+    expect(robustZScore(20, 10, 0)).toBe(0);
+  });
+});
+
+describe('pearsonCorrelation / linearSlope', () => {
+  it('measures how closely and how steeply y follows x', () => {
+    const xs = [1, 2, 3, 4, 5];
+    expect(pearsonCorrelation(xs, [3, 5, 7, 9, 11])).toBeCloseTo(1);
+    expect(pearsonCorrelation(xs, [10, 8, 6, 4, 2])).toBeCloseTo(-1);
+    expect(linearSlope(xs, [3, 5, 7, 9, 11])).toBeCloseTo(2);
+  });
+
+  it('is 0 without spread', () => {
+    expect(pearsonCorrelation([1, 2, 3], [4, 4, 4])).toBe(0);
+    expect(linearSlope([2, 2, 2], [1, 2, 3])).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { MonthlyTarget } from '@/types';
+import { distributeTarget, getPeriodMonths, getRevenueShape, validateTarget } from '@/utils/targets';
+import { makeDay } from './fixtures';
+
+// Last year's fourth quarter: November sold twice as much as October and December
+const history = [
+  makeDay('2025-10-10', 'FMH.NL', { revenueWeb: 1000 }),
+  makeDay('2025-11-10', 'FMH.NL', { revenueWeb: 2000 }),
+  makeDay('2025-12-10', 'FMH.NL', { revenueWeb: 1000 }),
+  makeDay('2025-11-10', 'FMH.BE', { revenueWeb: 5000 }),
+];
+
+describe('getPeriodMonths', () => {
+  it('lists the months of a quarter or year', () => {
+    expect(getPeriodMonths(2026, 'Q4')).toEqual(['2026-10', '2026-11', '2026-12']);
+    expect(getPeriodMonths(2026, 'year')).toHaveLength(12);
+  });
+});
+
+describe('getRevenueShape', () => {
+  it('follows the label’s revenue in the same months last year', () => {
+    expect(getRevenueShape(getPeriodMonths(2026, 'Q4'), 'FMH.NL', history)).toEqual([0.25, 0.5, 0.25]);
+  });
+
+  it('falls back to the number of days without history', () => {
+    expect(getRevenueShape(getPeriodMonths(2026, 'Q1'), 'FMH.NL', history)).toEqual([31 / 90, 28 / 90, 31 / 90]);
+  });
+});
+
+describe('distributeTarget', () => {
+  it('splits into whole amounts that add up to the total and keeps the MER target', () => {
+    const targets = distributeTarget(
+      { revenueTarget: 1000, ordersTarget: 11, merTarget: 0.2, adBudget: 200 },
+      getPeriodMonths(2026, 'Q4'),
+      'FMH.NL',
+      history
+    );
+    expect(targets.map((t) => t.revenueTarget)).toEqual([250, 500, 250]);
+    expect(targets.map((t) => t.ordersTarget)).toEqual([3, 5, 3]);
+    expect(targets.map((t) => t.adBudget)).toEqual([50, 100, 50]);
+    expect(targets.every((t) => t.merTarget === 0.2 && t.label === 'FMH.NL')).toBe(true);
+  });
+});
+
+describe('validateTarget', () => {
+  const target: MonthlyTarget = { month: '2026-10', label: 'FMH.NL', revenueTarget: 1000, ordersTarget: 10, merTarget: 0.2, adBudget: 200 };
+
+  it('accepts a valid target and names the first invalid field', () => {
+    expect(validateTarget(target)).toBeNull();
+    expect(validateTarget({ ...target, month: '2026-13' })).toBe('Month: Month must be yyyy-MM');
+    expect(validateTarget({ ...target, ordersTarget: 2.5 })).toMatch(/^Orders_Target:/);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { DashboardFilters } from '@/types';
+import { filtersFromSearchParams, filtersToSearchParams, pageFromPath } from '@/utils/urlState';
+
+const filters: DashboardFilters = {
+  dateRange: { start: new Date(2026, 9, 1), end: new Date(2026, 9, 18) },
+  labels: ['FMH.NL', 'FMH.DE'],
+  channels: ['web'],
+  platforms: ['google', 'tiktok'],
+  enableYoY: false,
+  alignByDayOfWeek: false,
+  comparisonEnabled: true,
+  comparisonMode: 'custom',
+  comparisonRange: { start: new Date(2025, 9, 1), end: new Date(2025, 9, 18) },
+};
+
+describe('filtersToSearchParams / filtersFromSearchParams', () => {
+  it('round-trips the filters through the query string', () => {
+    const params = filtersToSearchParams(filters);
+    expect(params.toString()).toBe(
+      'from=2026-10-01&to=2026-10-18&labels=FMH.NL%2CFMH.DE&compare=custom&cfrom=2025-10-01&cto=2025-10-18&align=0&channels=web&platforms=google%2Ctiktok'
+    );
+
+    const { enableYoY, ...shared } = filters;
+    expect(filtersFromSearchParams(new URLSearchParams(params.toString()))).toEqual(shared);
+  });
+
+  it('leaves out the full channel and platform selection and a disabled comparison', () => {
+    const params = filtersToSearchParams({ ...filters, channels: ['web', 'app'], platforms: [], comparisonEnabled: false });
+    expect([...params.keys()]).toEqual(['from', 'to', 'labels', 'align']);
+    expect(filtersFromSearchParams(params)).toMatchObject({
+      channels: ['web', 'app'],
+      platforms: [],
+      comparisonEnabled: false,
+    });
+  });
+
+  it('keeps the current filters for missing or invalid params', () => {
+    expect(filtersFromSearchParams(new URLSearchParams('labels=FMH.NL'))).toEqual({ labels: ['FMH.NL'] });
+    expect(
+      filtersFromSearchParams(new URLSearchParams('from=2026-10-18&to=2026-10-01&align=yes&channels=tv&platforms=Bad-Id'))
+    ).toEqual({ comparisonEnabled: false, channels: ['web', 'app'], platforms: [] });
+  });
+});
+
+describe('pageFromPath', () => {
+  it('maps known paths to pages', () => {
+    expect(pageFromPath('/revenue')).toBe('revenue');
+    expect(pageFromPath('/unknown')).toBeNull();
+  });
+});
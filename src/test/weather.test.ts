@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import type { WeatherDay } from '@/types';
+import {
+  calculateWeatherSensitivity,
+  getLabelCountry,
+  mergeWeather,
+  openMeteoToWeatherRows,
+  parseWeatherRows,
+  weatherByDate,
+  withWeather,
+} from '@/utils/weather';
+import { makeDays } from './fixtures';
+
+describe('getLabelCountry', () => {
+  it('reads the domain suffix and writes the UK as GB', () => {
+    expect(getLabelCountry('FMH.NL')).toBe('NL');
+    expect(getLabelCountry('fmh.uk')).toBe('GB');
+    expect(getLabelCountry('FMH')).toBeNull();
+  });
+});
+
+describe('parseWeatherRows', () => {
+  it('matches headers with units and reads decimal commas', () => {
+    const { days, errors } = parseWeatherRows(
+      [
+        { 'time': '2026-10-01', 'temperature_2m_mean (°C)': '12,5', 'precipitation_sum (mm)': '3.2' },
+        { 'time': '2026-10-02', 'temperature_2m_mean (°C)': '11', 'precipitation_sum (mm)': '' },
+        { 'time': 'n/a', 'temperature_2m_mean (°C)': '10', 'precipitation_sum (mm)': '0' },
+      ],
+      'NL'
+    );
+    expect(errors).toBe(1);
+    expect(days).toEqual([
+      { dateString: '2026-10-01', country: 'NL', temperature: 12.5, precipitation: 3.2 },
+      { dateString: '2026-10-02', country: 'NL', temperature: 11, precipitation: 0 },
+    ]);
+  });
+
+  it('prefers a Country column over the given country', () => {
+    const { days } = parseWeatherRows([{ Date: '1-10-2026', Country: 'uk', Temp: '9' }], 'NL');
+    expect(days[0]).toMatchObject({ country: 'GB', temperature: 9 });
+  });
+});
+
+describe('mergeWeather', () => {
+  it('lets later lists win for the same date and country', () => {
+    const connector: WeatherDay[] = [{ dateString: '2026-10-01', country: 'NL', temperature: 10, precipitation: 0 }];
+    const upload: WeatherDay[] = [{ dateString: '2026-10-01', country: 'NL', temperature: 12, precipitation: 1 }];
+    expect(mergeWeather(connector, upload)).toEqual(upload);
+  });
+});
+
+describe('weatherByDate / withWeather', () => {
+  const weather: WeatherDay[] = [
+    { dateString: '2026-10-01', country: 'NL', temperature: 10, precipitation: 2 },
+    { dateString: '2026-10-01', country: 'BE', temperature: 14, precipitation: 0 },
+    { dateString: '2026-10-01', country: 'DE', temperature: 30, precipitation: 0 },
+  ];
+
+  it('averages the countries of the labels in view', () => {
+    const byDate = weatherByDate(weather, ['FMH.NL', 'FMH.BE']);
+    expect(byDate.get('2026-10-01')).toEqual({ temperature: 12, precipitation: 1 });
+    const [point] = withWeather([{ date: '2026-10-01', displayDate: 'Oct 1', revenue: 100, spend: 10, orders: 2 }], byDate);
+    expect(point).toMatchObject({ temperature: 12, precipitation: 1, weather: '12.0°C · 1.0 mm' });
+  });
+});
+
+describe('openMeteoToWeatherRows', () => {
+  it('leaves out days the archive has not measured yet', () => {
+    expect(
+      openMeteoToWeatherRows(
+        { time: ['2026-10-16', '2026-10-17'], temperature_2m_mean: [11.2, null], precipitation_sum: [null, null] },
+        'NL'
+      )
+    ).toEqual([{ date: '2026-10-16', country: 'NL', temperature: 11.2, precipitation: 0 }]);
+  });
+});
+
+describe('calculateWeatherSensitivity', () => {
+  // Half a year from summer into winter: temperature falls by ~0.12 °C a day,
+  // with a warm spell or cold snap every few days
+  const DAYS = 180;
+  const seasonalTemperature = (i: number) => 22 - i * 0.12;
+  const deviation = (i: number) => [3, -2, 0, 1, -3, 2, -1][i % 7] * (i % 3 === 0 ? 1 : -1);
+  const weatherFor = (country: string): WeatherDay[] =>
+    Array.from({ length: DAYS }, (_, i) => ({
+      dateString: format(new Date(2026, 5, 1 + i), 'yyyy-MM-dd'),
+      country,
+      temperature: seasonalTemperature(i) + deviation(i),
+      precipitation: i % 5 === 0 ? 6 : 0,
+    }));
+
+  it('does not mistake seasonal sales for a weather effect', () => {
+    // Revenue doubles into the fourth quarter, with no response to the weather
+    const metrics = makeDays('2026-06-01', DAYS, 'FMH.NL', (i, date) => ({
+      revenueWeb: (1000 + i * 10) * (date.getDay() === 6 ? 1.5 : 1),
+    }));
+    const [nl] = calculateWeatherSensitivity(metrics, weatherFor('NL'));
+    expect(nl.country).toBe('NL');
+    expect(Math.abs(nl.temperatureCorrelation)).toBeLessThan(0.1);
+    expect(Math.abs(nl.revenuePerDegree)).toBeLessThan(0.5);
+  });
+
+  it('finds revenue that rises on days warmer than normal and drops on rainy days', () => {
+    const weather = weatherFor('BE');
+    const metrics = makeDays('2026-06-01', DAYS, 'FMH.BE', (i) => ({
+      revenueWeb: (1000 + i * 10) * (1 + 0.04 * deviation(i)) * (weather[i].precipitation > 0 ? 0.9 : 1),
+    }));
+    const [be] = calculateWeatherSensitivity(metrics, weather);
+    expect(be.temperatureCorrelation).toBeGreaterThan(0.8);
+    expect(be.revenuePerDegree).toBeGreaterThan(3);
+    expect(be.revenuePerDegree).toBeLessThan(5);
+    expect(be.rainyDayEffect).toBeLessThan(-5);
+  });
+
+  it('leaves out labels without a country or enough days', () => {
+    const short = makeDays('2026-06-01', 10, 'FMH.NL', () => ({ revenueWeb: 1000 }));
+    const noCountry = makeDays('2026-06-01', 60, 'FMH', () => ({ revenueWeb: 1000 }));
+    expect(calculateWeatherSensitivity([...short, ...noCountry], weatherFor('NL'))).toEqual([]);
+  });
+});
@@ -16,18 +16,32 @@ export type Label = string;
 export const CHANNELS = ['web', 'app'] as const;
 export type Channel = typeof CHANNELS[number];
 
-export const PLATFORMS = ['facebook', 'google'] as const;
-export type Platform = typeof PLATFORMS[number];
+// Ad platform id, e.g. 'facebook' or 'tiktok'. Platforms are detected from the
+// Spend_<Platform> / Conv_<Platform> sheet columns (see utils/platforms)
+export type Platform = string;
+
+// Attribution models for splitting web revenue across ad platforms
+export const ATTRIBUTION_MODELS = ['fixed', 'spend', 'conversions', 'last_click'] as const;
+export type AttributionModel = typeof ATTRIBUTION_MODELS[number];
+
+// Daily metrics checked by the anomaly detector
+export const ANOMALY_METRICS = ['revenue', 'spend', 'orders', 'aov', 'mer'] as const;
+export type AnomalyMetric = typeof ANOMALY_METRICS[number];
 
 // Event types for color coding
 export const EVENT_TYPES = ['marketing', 'technical', 'holiday', 'other'] as const;
 export type EventType = typeof EVENT_TYPES[number];
 
+// Shop currencies; FX rates are quoted against EUR
+export const CURRENCIES = ['EUR', 'GBP', 'CHF'] as const;
+export type Currency = typeof CURRENCIES[number];
+
 // ============================================
 // ZOD SCHEMAS - Robust data validation
 // ============================================
 
-// Schema for raw data row (from Google Sheet or CSV)
+// Schema for raw data row (from Google Sheet or CSV). Columns of other ad
+// platforms (Spend_TikTok, Conv_TikTok, ...) are passed through as-is.
 export const DataRowSchema = z.object({
   Date: z.string().refine((val) => !isNaN(Date.parse(val)), {
     message: 'Invalid date format',
@@ -35,22 +49,36 @@ export const DataRowSchema = z.object({
   Label: z.string(),
   Rev_Web: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
   Rev_App: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
-  Orders: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+  Orders: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)), // Web orders
+  Orders_App: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
   Spend_FB: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
   Spend_Google: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
   Clicks_FB: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
   Clicks_Google: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
-});
+  Conv_FB: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
+  Conv_Google: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
+  LastClick_FB: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
+  LastClick_Google: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
+  Returned_Revenue: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
+  Returned_Orders: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+  Sessions_Web: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+  Sessions_App: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+  AddToCart_Web: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+  AddToCart_App: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+  Checkouts_Web: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+  Checkouts_App: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
+}).passthrough();
 
 export type DataRowRaw = z.infer<typeof DataRowSchema>;
 
 // Schema for monthly targets
 export const MonthlyTargetSchema = z.object({
-  Month: z.string(), // Format: "2026-01"
-  Label: z.string(),
+  Month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be yyyy-MM'), // Format: "2026-01"
+  Label: z.string().min(1),
   Revenue_Target: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
   Orders_Target: z.preprocess((val) => Number(val) || 0, z.number().int().min(0)),
   MER_Target: z.preprocess((val) => Number(val) || 0.2, z.number().min(0).max(1)),
+  Ad_Budget: z.preprocess((val) => Number(val) || 0, z.number().min(0)),
 });
 
 export type MonthlyTargetRaw = z.infer<typeof MonthlyTargetSchema>;
@@ -93,24 +121,37 @@ export interface DailyMetrics {
   totalRevenue: number;
   
   // Orders
-  orders: number;
+  ordersWeb: number;
+  ordersApp: number;
+  orders: number; // Web + app
   aov: number; // Average Order Value
   
-  // Spend
-  spendFB: number;
-  spendGoogle: number;
-  totalSpend: number;
+  // Returns (optional sheet columns, 0 when absent)
+  returnedRevenue: number;
+  returnedOrders: number;
+  returnRate: number; // Returned revenue / revenue
+  
+  // Web analytics funnel (optional sheet columns or a GA4 export, 0 when absent)
+  funnel: Record<Channel, FunnelSteps>;
+  sessions: number; // Web + app
+  conversionRate: number; // Orders / sessions
+  revenuePerSession: number; // Revenue / sessions
   
-  // Clicks
-  clicksFB: number;
-  clicksGoogle: number;
+  // Ad platforms
+  platforms: Record<Platform, PlatformDayMetrics>;
+  totalSpend: number;
   totalClicks: number;
   
   // Calculated Metrics
   mer: number; // Marketing Efficiency Ratio
   contributionMargin: number; // Revenue - Spend
-  roasFB: number;
-  roasGoogle: number;
+  
+  // Margin metrics, from the label's margin inputs (equal to revenue without them)
+  netRevenue: number; // Revenue excl. VAT, after returns (reported, else estimated)
+  grossMargin: number; // Net revenue - COGS
+  shippingCosts: number; // Orders x shipping cost per order
+  contributionMarginAfterCogs: number; // Gross margin - shipping - spend
+  poas: number; // Profit on ad spend: (gross margin - shipping) / spend
   
   // Day-of-week for smart alignment
   dayOfWeek: number; // 0 = Sunday, 6 = Saturday
@@ -118,14 +159,61 @@ export interface DailyMetrics {
   monthDay: number; // 1-31
 }
 
+// A channel's day in the web analytics funnel, before the order
+export interface FunnelSteps {
+  sessions: number;
+  addToCarts: number;
+  checkouts: number;
+}
+
+// A platform's day from its Spend_, Conv_, Clicks_ and LastClick_ columns
+export interface PlatformInputs {
+  spend: number;
+  clicks: number;
+  conversions: number; // As reported by the platform
+  lastClickRevenue: number; // Last-click web revenue (optional column, 0 when absent)
+}
+
+export interface PlatformDayMetrics extends PlatformInputs {
+  attributedRevenue: number; // Web revenue attributed by the active attribution model
+  roas: number; // Attributed revenue / spend
+}
+
 export interface MonthlyTarget {
   month: string;
   label: Label | string;
   revenueTarget: number;
   ordersTarget: number;
   merTarget: number;
+  adBudget: number; // Planned ad spend for the month
+}
+
+export type TargetValues = Pick<MonthlyTarget, 'revenueTarget' | 'ordersTarget' | 'merTarget' | 'adBudget'>;
+
+// Where a target was last set; dashboard edits are not overwritten by the sheet
+export type TargetSource = 'sheet' | 'app';
+
+export interface TargetRecord extends MonthlyTarget {
+  source: TargetSource;
+  updatedAt: Date;
 }
 
+export interface TargetChange {
+  id: string;
+  month: string;
+  label: string;
+  action: 'insert' | 'update' | 'delete';
+  oldValues: TargetValues | null;
+  newValues: TargetValues | null;
+  source: TargetSource;
+  changedByEmail: string | null; // Null for changes made by the sync
+  changedAt: Date;
+}
+
+// Spread a target over the months of a quarter or a year
+export const TARGET_PERIODS = ['Q1', 'Q2', 'Q3', 'Q4', 'year'] as const;
+export type TargetPeriod = typeof TARGET_PERIODS[number];
+
 export interface PacingData {
   currentRevenue: number;
   targetRevenue: number;
@@ -135,6 +223,8 @@ export interface PacingData {
   pacingPercentage: number; // Current vs Target
   projectedPercentage: number; // Projected vs Target
   onTrack: boolean;
+  projectedLower?: number; // Forecast interval, only set when a forecast was used
+  projectedUpper?: number;
 }
 
 export interface MERStatus {
@@ -154,12 +244,152 @@ export interface PlatformComparison {
   platform: Platform;
   spend: number;
   revenue: number; // Attributed
+  orders: number; // Attributed
   roas: number;
   clicks: number;
   cpc: number;
   cpa: number; // Cost per acquisition (estimated)
 }
 
+export interface PlatformReturns {
+  platform: Platform;
+  spend: number;
+  grossRevenue: number; // Attributed
+  netRevenue: number; // Attributed, minus the day's returned share
+  grossRoas: number;
+  netRoas: number;
+}
+
+export interface LabelReturns {
+  label: string;
+  revenue: number;
+  returnedRevenue: number;
+  returnedOrders: number;
+  returnRate: number;
+  revenueAfterReturns: number;
+}
+
+export interface AttributionSettings {
+  model: AttributionModel;
+  // Platform weights per label for the 'fixed' model; web revenue is split in
+  // proportion to them. Labels without an entry use the default weights.
+  fixedSplits: Record<string, Record<Platform, number>>;
+}
+
+// Cost inputs per label for the margin metrics. Rates are fractions (0.21 = 21%).
+export interface MarginInputs {
+  vatRate: number; // VAT included in the reported revenue
+  returnRate: number; // Estimated share refunded, for days without reported returns
+  cogsRate: number; // Cost of goods as a share of net revenue
+  shippingCost: number; // Per order, in the label's currency
+}
+
+export interface Anomaly {
+  date: Date;
+  dateString: string;
+  label: string;
+  metric: AnomalyMetric;
+  value: number;
+  expected: number; // Median of the same weekday in the baseline window
+  zScore: number; // Robust z-score; positive = above expected
+}
+
+export interface AnomalySettings {
+  threshold: number; // Minimum absolute robust z-score to flag a day
+  metrics: AnomalyMetric[];
+}
+
+export const ALERT_METRICS = ['mer', 'roas', 'revenue', 'spend', 'orders', 'pacing'] as const;
+export type AlertMetric = typeof ALERT_METRICS[number];
+export type AlertOperator = 'above' | 'below';
+export type AlertStatus = 'pending' | 'ok' | 'firing' | 'no_data' | 'error';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  label: string | null; // null = all labels combined
+  operator: AlertOperator;
+  threshold: number; // MER as fraction, ROAS as ratio, pacing as % of target
+  consecutiveDays: number; // Daily metrics only
+  webhookUrl: string | null;
+  emailTo: string | null; // Comma-separated
+  enabled: boolean;
+  lastEvaluatedAt: Date | null;
+  lastStatus: AlertStatus;
+  lastValue: number | null;
+  lastError: string | null;
+}
+
+export type AlertRuleInput = Pick<
+  AlertRule,
+  'name' | 'metric' | 'label' | 'operator' | 'threshold' | 'consecutiveDays' | 'webhookUrl' | 'emailTo' | 'enabled'
+>;
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  firedAt: Date;
+  value: number;
+  message: string;
+  webhookDelivered: boolean;
+  emailDelivered: boolean;
+  deliveryError: string | null;
+}
+
+export type ReportPeriod = 'weekly' | 'monthly';
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  period: ReportPeriod; // weekly: previous Monday-Sunday; monthly: previous month
+  language: 'en' | 'nl';
+  recipients: string; // Comma-separated
+  labels: string[] | null; // null = all labels combined
+  enabled: boolean;
+  lastSentAt: Date | null;
+  lastError: string | null;
+}
+
+export type ReportScheduleInput = Pick<
+  ReportSchedule,
+  'name' | 'period' | 'language' | 'recipients' | 'labels' | 'enabled'
+>;
+
+export interface ForecastPoint {
+  date: Date;
+  dateString: string;
+  expected: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastTotal {
+  actual: number; // Revenue already booked in the period
+  expected: number; // Actual + forecast for the remaining days
+  lower: number;
+  upper: number;
+}
+
+export interface RevenueForecast {
+  lastActualDate: Date;
+  points: ForecastPoint[]; // Remaining days of the quarter after the last actual day
+  month: ForecastTotal;
+  quarter: ForecastTotal;
+  usesPriorYear: boolean; // False when there was too little prior-year data for the shape
+}
+
+export const USER_ROLES = ['admin', 'analyst', 'brand_viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export interface UserProfile {
+  userId: string;
+  email: string;
+  role: UserRole;
+  allowedLabels: string[] | null; // null = all labels
+  defaultViewId: string | null; // Saved view applied on landing
+}
+
 export interface YoYComparison {
   currentPeriod: DailyMetrics[];
   previousPeriod: DailyMetrics[];
@@ -189,7 +419,7 @@ export interface DashboardFilters {
   dateRange: DateRange;
   labels: Label[];
   channels: Channel[];
-  platforms: Platform[];
+  platforms: Platform[]; // Empty for all platforms in the data
   enableYoY: boolean;
   alignByDayOfWeek: boolean;
   // Comparison functionality
@@ -198,12 +428,55 @@ export interface DashboardFilters {
   comparisonRange: DateRange | null;
 }
 
+// Date ranges relative to today, resolved whenever a saved view is applied
+export const RELATIVE_RANGES = [
+  'today',
+  'yesterday',
+  'last_7_days',
+  'last_28_days',
+  'last_30_days',
+  'this_week',
+  'last_week',
+  'month_to_date',
+  'last_month',
+  'quarter_to_date',
+  'last_quarter',
+  'year_to_date',
+  'last_year',
+] as const;
+export type RelativeRange = typeof RELATIVE_RANGES[number];
+
+export type SavedViewRange =
+  | { type: 'relative'; range: RelativeRange }
+  | { type: 'fixed'; start: string; end: string }; // yyyy-MM-dd
+
+export interface SavedViewDefinition {
+  dateRange: SavedViewRange;
+  labels: string[];
+  comparisonEnabled: boolean;
+  comparisonMode: ComparisonMode; // Other than custom, the comparison range follows from the date range
+  comparisonRange?: { start: string; end: string }; // yyyy-MM-dd, custom mode only
+  alignByDayOfWeek: boolean;
+  chartKPI: ChartKPI;
+  // Absent in views saved before the channel/platform filter: all of them
+  channels?: Channel[];
+  platforms?: Platform[];
+}
+
+export interface SavedView {
+  id: string;
+  ownerId: string;
+  name: string;
+  definition: SavedViewDefinition;
+  shared: boolean;
+}
+
 export interface TooltipData {
   date: Date;
   metrics: DailyMetrics;
   yoyMetrics?: DailyMetrics;
   variance?: number;
-  weather?: string; // Mocked
+  weather?: string; // formatWeather of the day, e.g. "14.2°C · 3.1 mm"
 }
 
 // ============================================
@@ -217,26 +490,92 @@ export interface GoogleSheetConfig {
 }
 
 export interface DataSource {
-  type: 'historical' | 'live';
+  type: 'historical' | 'live' | 'upload' | 'connector';
   year: number;
   data: DailyMetrics[];
+  id?: string; // Uploaded dataset id, used to remove it again
+  name?: string; // Archive tab, file or connector name
+  duplicatesDropped?: number; // Rows already covered by live data or an earlier archive
+  overrides?: number; // Connector days that replaced different values from the sheet
+}
+
+// Row-level data quality findings. Errors reject the row, warnings keep it.
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'invalid_date'
+  | 'missing_label'
+  | 'negative_value'
+  | 'not_a_number'
+  | 'duplicate_row'
+  | 'outlier'
+  | 'label_typo';
+
+export interface RowIssue {
+  severity: IssueSeverity;
+  code: IssueCode;
+  rowNumber: number; // 1-based line in the source, header = row 1
+  column: string;
+  value: string;
+  reason: string; // Human-readable detail, also used in the CSV export
+  source?: string; // Sheet tab or file name, set by the harmonizer
+}
+
+// Daily FX rate: units of the currency per 1 EUR
+export interface FxRate {
+  dateString: string; // yyyy-MM-dd
+  currency: Currency;
+  rate: number;
+}
+
+// Daily weather of a country, from an uploaded file or the sync-weather connector
+export interface WeatherDay {
+  dateString: string; // yyyy-MM-dd
+  country: string; // ISO 3166 code, e.g. NL
+  temperature: number; // Daily mean, °C
+  precipitation: number; // mm
 }
 
 export interface HarmonizedData {
   metrics: DailyMetrics[];
   targets: MonthlyTarget[];
   events: EventAnnotation[];
+  labelCurrencies: Record<string, Currency>; // Labels without an entry are in EUR
+  fxRates: FxRate[];
+  marginInputs: Record<string, MarginInputs>; // From the Margins tab
+  weather: WeatherDay[];
   lastUpdated: Date;
   sources: DataSource[];
+  issues: RowIssue[];
 }
 
 // ============================================
 // CHART TYPES
 // ============================================
 
-export type ChartKPI = 'revenue' | 'aov' | 'spend' | 'roas';
+export const CHART_KPIS = [
+  'revenue',
+  'aov',
+  'spend',
+  'roas',
+  'netRevenue',
+  'grossMargin',
+  'contributionMarginAfterCogs',
+  'poas',
+  'returnRate',
+  'conversionRate',
+  'revenuePerSession',
+] as const;
+export type ChartKPI = typeof CHART_KPIS[number];
+
+// Weather on the trend chart's secondary axis
+export const WEATHER_OVERLAYS = ['none', 'temperature', 'precipitation'] as const;
+export type WeatherOverlay = typeof WEATHER_OVERLAYS[number];
 
 // Brand Benchmarking
+export const BENCHMARK_KPIS = ['revenue', 'netRevenue', 'grossMargin', 'contributionMarginAfterCogs', 'poas'] as const;
+export type BenchmarkKPI = typeof BENCHMARK_KPIS[number];
+
 export interface BrandBenchmarkPoint {
   label: string;
   revenue: number;
@@ -246,6 +585,10 @@ export interface BrandBenchmarkPoint {
   aov: number;
   growthPercentage: number;
   growthValue: number;
+  netRevenue: number;
+  grossMargin: number;
+  contributionMarginAfterCogs: number;
+  poas: number;
 }
 
 export interface ChartDataPoint {
@@ -260,6 +603,23 @@ export interface ChartDataPoint {
   aovYoY?: number;
   roas?: number;
   roasYoY?: number;
+  netRevenue?: number;
+  netRevenueYoY?: number;
+  grossMargin?: number;
+  grossMarginYoY?: number;
+  contributionMarginAfterCogs?: number;
+  contributionMarginAfterCogsYoY?: number;
+  poas?: number;
+  poasYoY?: number;
+  returnRate?: number;
+  returnRateYoY?: number;
+  conversionRate?: number;
+  conversionRateYoY?: number;
+  revenuePerSession?: number;
+  revenuePerSessionYoY?: number;
+  temperature?: number; // Mean over the countries of the labels in view
+  precipitation?: number;
+  weather?: string;
   variance?: number;
   [key: string]: string | number | undefined;
 }
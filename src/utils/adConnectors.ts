@@ -0,0 +1,165 @@
+import type { Platform } from '@/types';
+import type { SheetPlatformValues } from './sheetTransformer';
+
+// ============================================
+// AD PLATFORM CONNECTORS
+// Shared by the sync-meta-ads / sync-google-ads edge functions, which map the
+// API responses, and the warehouse readers, which put them on the daily rows
+// ============================================
+
+/**
+ * Platforms with an API connector
+ */
+export const CONNECTOR_PLATFORMS = ['facebook', 'google'] as const;
+export type ConnectorPlatform = (typeof CONNECTOR_PLATFORMS)[number];
+
+/**
+ * An ad account and the brand label it spends for (ad_accounts table)
+ */
+export interface AdAccount {
+  platform: ConnectorPlatform;
+  account_id: string;
+  label: string;
+}
+
+/**
+ * One account's day, as stored in ad_platform_metrics
+ */
+export interface AdPlatformMetricsRow {
+  date: string; // yyyy-MM-dd
+  platform: string;
+  account_id: string;
+  label: string;
+  spend: number;
+  clicks: number;
+  impressions: number;
+  conversions: number;
+}
+
+export function isConnectorPlatform(value: string): value is ConnectorPlatform {
+  return (CONNECTOR_PLATFORMS as readonly string[]).includes(value);
+}
+
+// ============================================
+// META MARKETING API
+// ============================================
+
+/**
+ * An account-level row of the insights endpoint with time_increment=1.
+ * Numbers come back as strings.
+ */
+export interface MetaInsight {
+  date_start: string; // yyyy-MM-dd
+  date_stop: string;
+  spend?: string;
+  clicks?: string;
+  impressions?: string;
+  actions?: { action_type: string; value: string }[];
+}
+
+export const META_INSIGHT_FIELDS = ['spend', 'clicks', 'impressions', 'actions'];
+
+// Purchase action types, broadest first. They overlap, so only the first one found counts.
+const META_PURCHASE_ACTIONS = ['omni_purchase', 'purchase', 'offsite_conversion.fb_pixel_purchase'];
+
+export function fromMetaInsight(insight: MetaInsight, account: AdAccount): AdPlatformMetricsRow {
+  const actions = insight.actions ?? [];
+  const purchases = META_PURCHASE_ACTIONS.map((type) => actions.find((a) => a.action_type === type)).find(Boolean);
+
+  return {
+    date: insight.date_start,
+    platform: account.platform,
+    account_id: account.account_id,
+    label: account.label,
+    spend: Number(insight.spend) || 0,
+    clicks: Math.round(Number(insight.clicks) || 0),
+    impressions: Math.round(Number(insight.impressions) || 0),
+    conversions: Number(purchases?.value) || 0,
+  };
+}
+
+// ============================================
+// GOOGLE ADS API
+// ============================================
+
+/**
+ * A row of googleAds:searchStream for googleAdsQuery(). int64 fields come
+ * back as strings, cost in millionths of the account currency.
+ */
+export interface GoogleAdsRow {
+  segments: { date: string }; // yyyy-MM-dd
+  metrics: {
+    costMicros?: string;
+    clicks?: string;
+    impressions?: string;
+    conversions?: number;
+  };
+}
+
+/**
+ * Daily account totals between two dates (yyyy-MM-dd, inclusive)
+ */
+export function googleAdsQuery(since: string, until: string): string {
+  return [
+    'SELECT segments.date, metrics.cost_micros, metrics.clicks, metrics.impressions, metrics.conversions',
+    'FROM customer',
+    `WHERE segments.date BETWEEN '${since}' AND '${until}'`,
+  ].join(' ');
+}
+
+export function fromGoogleAdsRow(row: GoogleAdsRow, account: AdAccount): AdPlatformMetricsRow {
+  return {
+    date: row.segments.date,
+    platform: account.platform,
+    account_id: account.account_id,
+    label: account.label,
+    spend: (Number(row.metrics.costMicros) || 0) / 1_000_000,
+    clicks: Math.round(Number(row.metrics.clicks) || 0),
+    impressions: Math.round(Number(row.metrics.impressions) || 0),
+    conversions: Number(row.metrics.conversions) || 0,
+  };
+}
+
+// ============================================
+// DAILY ROWS
+// ============================================
+
+/**
+ * Sum the connector rows per day and label into the platform values of a
+ * sheet row (see transformSheetRow), keyed by `${date}|${label}`.
+ * The APIs report no last-click revenue; it stays 0 here.
+ */
+export function toSheetPlatforms(rows: AdPlatformMetricsRow[]): Map<string, Record<Platform, SheetPlatformValues>> {
+  const byKey = new Map<string, Record<Platform, SheetPlatformValues>>();
+
+  for (const row of rows) {
+    const key = `${row.date}|${row.label}`;
+    const platforms = byKey.get(key) ?? {};
+    const existing = platforms[row.platform] ?? { spend: 0, clicks: 0, conversions: 0, lastClickRevenue: 0 };
+    platforms[row.platform] = {
+      spend: existing.spend + Number(row.spend),
+      clicks: (existing.clicks ?? 0) + Number(row.clicks),
+      conversions: existing.conversions + Number(row.conversions),
+      lastClickRevenue: 0,
+    };
+    byKey.set(key, platforms);
+  }
+  return byKey;
+}
+
+/**
+ * A day's platform values with the connector data on top. The sheet's
+ * last-click revenue is kept, as the APIs don't report it.
+ */
+export function withConnectorPlatforms(
+  platforms: Record<Platform, SheetPlatformValues>,
+  connector: Record<Platform, SheetPlatformValues> | undefined
+): Record<Platform, SheetPlatformValues> {
+  if (!connector) return platforms;
+
+  const merged = { ...platforms };
+  for (const [platform, values] of Object.entries(connector)) {
+    merged[platform] = { ...values, lastClickRevenue: platforms[platform]?.lastClickRevenue ?? 0 };
+  }
+  return merged;
+}
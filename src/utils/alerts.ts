@@ -0,0 +1,144 @@
+import type { AlertEvent, AlertMetric, AlertOperator, AlertRule, AlertRuleInput, AlertStatus } from '@/types';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+import { formatCurrency, formatROAS } from './analytics';
+import { BASE_CURRENCY } from './currency';
+
+// ============================================
+// ALERT RULES (Supabase)
+// ============================================
+
+export interface EvaluateResult {
+  evaluated: number;
+  fired: number;
+}
+
+function rowToAlertRule(row: Tables<'alert_rules'>): AlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    metric: row.metric as AlertMetric,
+    label: row.label,
+    operator: row.operator as AlertOperator,
+    threshold: Number(row.threshold),
+    consecutiveDays: row.consecutive_days,
+    webhookUrl: row.webhook_url,
+    emailTo: row.email_to,
+    enabled: row.enabled,
+    lastEvaluatedAt: row.last_evaluated_at ? new Date(row.last_evaluated_at) : null,
+    lastStatus: row.last_status as AlertStatus,
+    lastValue: row.last_value === null ? null : Number(row.last_value),
+    lastError: row.last_error,
+  };
+}
+
+function alertRuleToRow(rule: AlertRuleInput): TablesInsert<'alert_rules'> {
+  return {
+    name: rule.name,
+    metric: rule.metric,
+    label: rule.label,
+    operator: rule.operator,
+    threshold: rule.threshold,
+    // Consecutive days don't apply to the month-end projection
+    consecutive_days: rule.metric === 'pacing' ? 1 : rule.consecutiveDays,
+    webhook_url: rule.webhookUrl || null,
+    email_to: rule.emailTo || null,
+    enabled: rule.enabled,
+  };
+}
+
+export async function fetchAlertRules(): Promise<AlertRule[]> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(rowToAlertRule);
+}
+
+/**
+ * Most recent notifications across all rules
+ */
+export async function fetchAlertEvents(limit = 50): Promise<AlertEvent[]> {
+  const { data, error } = await supabase
+    .from('alert_events')
+    .select('*')
+    .order('fired_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    ruleId: row.rule_id,
+    firedAt: new Date(row.fired_at),
+    value: Number(row.value),
+    message: row.message,
+    webhookDelivered: row.webhook_delivered,
+    emailDelivered: row.email_delivered,
+    deliveryError: row.delivery_error,
+  }));
+}
+
+/**
+ * Create a rule, or update it when an id is given. Editing resets the last
+ * evaluation so the changed condition can notify on its next run.
+ */
+export async function saveAlertRule(rule: AlertRuleInput, id?: string): Promise<void> {
+  const row = alertRuleToRow(rule);
+  const { error } = id
+    ? await supabase
+        .from('alert_rules')
+        .update({ ...row, last_status: 'pending', last_value: null, last_error: null, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('alert_rules').insert(row);
+
+  if (error) throw error;
+}
+
+export async function setAlertRuleEnabled(id: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('alert_rules')
+    .update({ enabled, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  const { error } = await supabase.from('alert_rules').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Run the evaluator now, for one rule or all enabled rules
+ */
+export async function evaluateAlerts(ruleId?: string): Promise<EvaluateResult> {
+  const { data, error } = await supabase.functions.invoke('evaluate-alerts', {
+    body: ruleId ? { ruleId } : {},
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as EvaluateResult;
+}
+
+/**
+ * Format a rule threshold or value in the metric's unit. Rules are evaluated
+ * with all labels converted to the base currency, so amounts are in EUR.
+ */
+export function formatAlertValue(metric: AlertMetric, value: number): string {
+  switch (metric) {
+    case 'mer':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'roas':
+      return formatROAS(value);
+    case 'pacing':
+      return `${value.toFixed(0)}%`;
+    case 'orders':
+      return Math.round(value).toString();
+    default:
+      return formatCurrency(value, false, BASE_CURRENCY);
+  }
+}
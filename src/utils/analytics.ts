@@ -1,4 +1,5 @@
 import type { 
+  Currency,
   DailyMetrics, 
   DataRowRaw, 
   MonthlyTarget, 
@@ -6,12 +7,18 @@ import type {
   PacingData,
   MERStatus,
   ChannelSplit,
+  Platform,
   PlatformComparison,
   YoYComparison,
   ChartDataPoint,
   DateRange,
   BrandBenchmarkPoint,
+  RevenueForecast,
 } from '@/types';
+import { attributePlatforms } from './attribution';
+import { calculateMargins } from './margins';
+import { mergePlatformMetrics, readPlatformColumns, sortPlatforms } from './platforms';
+import { addFunnels, calculateFunnelMetrics, readFunnelColumns, summarizeFunnel } from './funnel';
 
 // ============================================
 // DATE UTILITIES
@@ -112,8 +119,15 @@ export function formatDate(date: Date, format: 'short' | 'long' | 'iso' = 'short
 export function transformToMetrics(row: DataRowRaw): DailyMetrics {
   const date = new Date(row.Date);
   const totalRevenue = row.Rev_Web + row.Rev_App;
-  const totalSpend = row.Spend_FB + row.Spend_Google;
-  const totalClicks = row.Clicks_FB + row.Clicks_Google;
+  const orders = row.Orders + row.Orders_App;
+  const platforms = attributePlatforms({
+    label: row.Label,
+    revenueWeb: row.Rev_Web,
+    platforms: readPlatformColumns(row, (value) => Number(value) || 0),
+  });
+  const totalSpend = Object.values(platforms).reduce((sum, p) => sum + p.spend, 0);
+  const totalClicks = Object.values(platforms).reduce((sum, p) => sum + p.clicks, 0);
+  const funnel = readFunnelColumns(row, (value) => Number(value) || 0);
   
   return {
     date,
@@ -124,21 +138,35 @@ export function transformToMetrics(row: DataRowRaw): DailyMetrics {
     revenueApp: row.Rev_App,
     totalRevenue,
     
-    orders: row.Orders,
-    aov: row.Orders > 0 ? totalRevenue / row.Orders : 0,
+    ordersWeb: row.Orders,
+    ordersApp: row.Orders_App,
+    orders,
+    aov: orders > 0 ? totalRevenue / orders : 0,
     
-    spendFB: row.Spend_FB,
-    spendGoogle: row.Spend_Google,
-    totalSpend,
+    returnedRevenue: row.Returned_Revenue,
+    returnedOrders: row.Returned_Orders,
+    returnRate: totalRevenue > 0 ? row.Returned_Revenue / totalRevenue : 0,
     
-    clicksFB: row.Clicks_FB,
-    clicksGoogle: row.Clicks_Google,
+    funnel,
+    ...calculateFunnelMetrics(funnel, {
+      revenueWeb: row.Rev_Web,
+      revenueApp: row.Rev_App,
+      ordersWeb: row.Orders,
+      ordersApp: row.Orders_App,
+    }),
+    
+    platforms,
+    totalSpend,
     totalClicks,
     
     mer: totalRevenue > 0 ? totalSpend / totalRevenue : 0,
     contributionMargin: totalRevenue - totalSpend,
-    roasFB: row.Spend_FB > 0 ? row.Rev_Web * 0.6 / row.Spend_FB : 0, // Estimated attribution
-    roasGoogle: row.Spend_Google > 0 ? row.Rev_Web * 0.4 / row.Spend_Google : 0,
+    ...calculateMargins({
+      totalRevenue,
+      returnedRevenue: row.Returned_Revenue,
+      orders,
+      totalSpend,
+    }),
     
     dayOfWeek: date.getDay(),
     weekOfMonth: getWeekOfMonth(date),
@@ -156,6 +184,7 @@ export function transformToTarget(row: MonthlyTargetRaw): MonthlyTarget {
     revenueTarget: row.Revenue_Target,
     ordersTarget: row.Orders_Target,
     merTarget: row.MER_Target,
+    adBudget: row.Ad_Budget,
   };
 }
 
@@ -164,12 +193,15 @@ export function transformToTarget(row: MonthlyTargetRaw): MonthlyTarget {
 // ============================================
 
 /**
- * Calculate pacing against monthly target
+ * Calculate pacing against monthly target.
+ * With a forecast the projection uses its remaining-days estimate and interval
+ * instead of the naive daily run rate.
  */
 export function calculatePacing(
   metrics: DailyMetrics[],
   target: MonthlyTarget,
-  referenceDate?: Date
+  referenceDate?: Date,
+  forecast?: RevenueForecast | null
 ): PacingData {
   const now = referenceDate || new Date();
   const year = now.getFullYear();
@@ -185,8 +217,7 @@ export function calculatePacing(
     })
     .reduce((sum, m) => sum + m.totalRevenue, 0);
   
-  const dailyRate = daysPassed > 0 ? currentRevenue / daysPassed : 0;
-  const projectedRevenue = dailyRate * daysInMonth;
+  const projectedRevenue = projectMonthRevenue(currentRevenue, daysPassed, daysInMonth, forecast);
   
   const pacingPercentage = target.revenueTarget > 0 
     ? (currentRevenue / (target.revenueTarget * (daysPassed / daysInMonth))) * 100
@@ -205,9 +236,25 @@ export function calculatePacing(
     pacingPercentage,
     projectedPercentage,
     onTrack: projectedPercentage >= 95,
+    projectedLower: forecast ? currentRevenue + (forecast.month.lower - forecast.month.actual) : undefined,
+    projectedUpper: forecast ? currentRevenue + (forecast.month.upper - forecast.month.actual) : undefined,
   };
 }
 
+/**
+ * Month-end revenue: the month's actuals plus the forecast of its remaining
+ * days, or the month-to-date daily run rate without a forecast
+ */
+export function projectMonthRevenue(
+  currentRevenue: number,
+  daysPassed: number,
+  daysInMonth: number,
+  forecast?: RevenueForecast | null
+): number {
+  if (forecast) return currentRevenue + (forecast.month.expected - forecast.month.actual);
+  return daysPassed > 0 ? (currentRevenue / daysPassed) * daysInMonth : 0;
+}
+
 /**
  * Calculate MER status with thresholds
  */
@@ -282,47 +329,43 @@ export function calculateChannelSplit(metrics: DailyMetrics[]): ChannelSplit {
 }
 
 /**
- * Calculate platform comparison (FB vs Google)
+ * Calculate platform comparison, one entry per platform with spend or
+ * attributed revenue in the period
+ * Uses the attributed revenue on each row, so apply the desired attribution
+ * model (see applyAttribution) before calling this.
  */
 export function calculatePlatformComparison(metrics: DailyMetrics[]): PlatformComparison[] {
-  const totals = metrics.reduce(
-    (acc, m) => ({
-      spendFB: acc.spendFB + m.spendFB,
-      spendGoogle: acc.spendGoogle + m.spendGoogle,
-      clicksFB: acc.clicksFB + m.clicksFB,
-      clicksGoogle: acc.clicksGoogle + m.clicksGoogle,
-      revenueWeb: acc.revenueWeb + m.revenueWeb,
-      orders: acc.orders + m.orders,
-    }),
-    { spendFB: 0, spendGoogle: 0, clicksFB: 0, clicksGoogle: 0, revenueWeb: 0, orders: 0 }
-  );
+  const totals = new Map<Platform, { spend: number; clicks: number; revenue: number; orders: number }>();
   
-  // Estimated attribution: 60% FB, 40% Google for web revenue
-  const fbRevenue = totals.revenueWeb * 0.6;
-  const googleRevenue = totals.revenueWeb * 0.4;
-  const fbOrders = Math.floor(totals.orders * 0.6);
-  const googleOrders = Math.floor(totals.orders * 0.4);
+  for (const m of metrics) {
+    for (const [platform, p] of Object.entries(m.platforms)) {
+      const acc = totals.get(platform) ?? { spend: 0, clicks: 0, revenue: 0, orders: 0 };
+      // Web orders follow the same split as the attributed web revenue
+      const orderShare = m.revenueWeb > 0 ? p.attributedRevenue / m.revenueWeb : 0;
+      acc.spend += p.spend;
+      acc.clicks += p.clicks;
+      acc.revenue += p.attributedRevenue;
+      acc.orders += m.ordersWeb * orderShare;
+      totals.set(platform, acc);
+    }
+  }
   
-  return [
-    {
-      platform: 'facebook',
-      spend: totals.spendFB,
-      revenue: fbRevenue,
-      roas: totals.spendFB > 0 ? fbRevenue / totals.spendFB : 0,
-      clicks: totals.clicksFB,
-      cpc: totals.clicksFB > 0 ? totals.spendFB / totals.clicksFB : 0,
-      cpa: fbOrders > 0 ? totals.spendFB / fbOrders : 0,
-    },
-    {
-      platform: 'google',
-      spend: totals.spendGoogle,
-      revenue: googleRevenue,
-      roas: totals.spendGoogle > 0 ? googleRevenue / totals.spendGoogle : 0,
-      clicks: totals.clicksGoogle,
-      cpc: totals.clicksGoogle > 0 ? totals.spendGoogle / totals.clicksGoogle : 0,
-      cpa: googleOrders > 0 ? totals.spendGoogle / googleOrders : 0,
-    },
-  ];
+  return sortPlatforms(totals.keys())
+    .map((platform) => ({ platform, ...totals.get(platform)! }))
+    .filter((t) => t.spend > 0 || t.revenue > 0)
+    .map((t) => {
+      const orders = Math.floor(t.orders);
+      return {
+        platform: t.platform,
+        spend: t.spend,
+        revenue: t.revenue,
+        orders,
+        roas: t.spend > 0 ? t.revenue / t.spend : 0,
+        clicks: t.clicks,
+        cpc: t.clicks > 0 ? t.spend / t.clicks : 0,
+        cpa: orders > 0 ? t.spend / orders : 0,
+      };
+    });
 }
 
 /**
@@ -416,6 +459,20 @@ export function formatChartData(
       aovYoY: prevMetric?.aov,
       roas,
       roasYoY,
+      netRevenue: m.netRevenue,
+      netRevenueYoY: prevMetric?.netRevenue,
+      grossMargin: m.grossMargin,
+      grossMarginYoY: prevMetric?.grossMargin,
+      contributionMarginAfterCogs: m.contributionMarginAfterCogs,
+      contributionMarginAfterCogsYoY: prevMetric?.contributionMarginAfterCogs,
+      poas: m.poas,
+      poasYoY: prevMetric?.poas,
+      returnRate: m.returnRate,
+      returnRateYoY: prevMetric?.returnRate,
+      conversionRate: m.conversionRate,
+      conversionRateYoY: prevMetric?.conversionRate,
+      revenuePerSession: m.revenuePerSession,
+      revenuePerSessionYoY: prevMetric?.revenuePerSession,
       variance: yoy?.revenueVariance,
     };
   });
@@ -426,13 +483,13 @@ export function formatChartData(
 // ============================================
 
 /**
- * Format currency
+ * Format currency. Components format in the reporting currency through useCurrencyFormat
  */
-export function formatCurrency(value: number, compact: boolean = false): string {
+export function formatCurrency(value: number, compact: boolean = false, currency: Currency = 'EUR'): string {
   if (compact && Math.abs(value) >= 1000) {
     return new Intl.NumberFormat('en-EU', {
       style: 'currency',
-      currency: 'EUR',
+      currency,
       notation: 'compact',
       maximumFractionDigits: 1,
     }).format(value);
@@ -440,12 +497,21 @@ export function formatCurrency(value: number, compact: boolean = false): string
   
   return new Intl.NumberFormat('en-EU', {
     style: 'currency',
-    currency: 'EUR',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(value);
 }
 
+/**
+ * Currency symbol as shown by formatCurrency, e.g. € or CHF
+ */
+export function getCurrencySymbol(currency: Currency = 'EUR'): string {
+  return new Intl.NumberFormat('en-EU', { style: 'currency', currency })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+}
+
 /**
  * Format percentage
  */
@@ -482,23 +548,34 @@ export function formatROAS(value: number): string {
  */
 export function aggregateByDate(metrics: DailyMetrics[]): DailyMetrics[] {
   const byDate = new Map<string, DailyMetrics>();
+  // The labels' rows per date, for the funnel ratios (each label's channels paired on their own)
+  const rowsByDate = new Map<string, DailyMetrics[]>();
   
   for (const m of metrics) {
     const key = m.dateString;
     const existing = byDate.get(key);
+    const rows = rowsByDate.get(key);
+    if (rows) rows.push(m);
+    else rowsByDate.set(key, [m]);
     
     if (existing) {
       existing.revenueWeb += m.revenueWeb;
       existing.revenueApp += m.revenueApp;
       existing.totalRevenue += m.totalRevenue;
+      existing.ordersWeb += m.ordersWeb;
+      existing.ordersApp += m.ordersApp;
       existing.orders += m.orders;
-      existing.spendFB += m.spendFB;
-      existing.spendGoogle += m.spendGoogle;
+      existing.returnedRevenue += m.returnedRevenue;
+      existing.returnedOrders += m.returnedOrders;
+      existing.funnel = addFunnels(existing.funnel, m.funnel);
+      existing.platforms = mergePlatformMetrics(existing.platforms, m.platforms);
       existing.totalSpend += m.totalSpend;
-      existing.clicksFB += m.clicksFB;
-      existing.clicksGoogle += m.clicksGoogle;
       existing.totalClicks += m.totalClicks;
       existing.contributionMargin += m.contributionMargin;
+      existing.netRevenue += m.netRevenue;
+      existing.grossMargin += m.grossMargin;
+      existing.shippingCosts += m.shippingCosts;
+      existing.contributionMarginAfterCogs += m.contributionMarginAfterCogs;
     } else {
       byDate.set(key, { ...m, label: 'All' });
     }
@@ -508,9 +585,10 @@ export function aggregateByDate(metrics: DailyMetrics[]): DailyMetrics[] {
   return Array.from(byDate.values()).map((m) => ({
     ...m,
     aov: m.orders > 0 ? m.totalRevenue / m.orders : 0,
+    returnRate: m.totalRevenue > 0 ? m.returnedRevenue / m.totalRevenue : 0,
     mer: m.totalRevenue > 0 ? m.totalSpend / m.totalRevenue : 0,
-    roasFB: m.spendFB > 0 ? (m.revenueWeb * 0.6) / m.spendFB : 0,
-    roasGoogle: m.spendGoogle > 0 ? (m.revenueWeb * 0.4) / m.spendGoogle : 0,
+    poas: m.totalSpend > 0 ? (m.grossMargin - m.shippingCosts) / m.totalSpend : 0,
+    ...summarizeFunnel(rowsByDate.get(m.dateString) ?? [m]),
   }));
 }
 
@@ -542,22 +620,32 @@ export function filterByLabels(
 // BRAND BENCHMARKING
 // ============================================
 
+interface LabelTotals {
+  revenue: number;
+  spend: number;
+  orders: number;
+  netRevenue: number;
+  grossMargin: number;
+  shippingCosts: number;
+}
+
 /**
  * Helper: Aggregate metrics by Label
  */
-function aggregateMetricsByLabel(
-  metrics: DailyMetrics[]
-): Record<string, { revenue: number; spend: number; orders: number }> {
-  const groups: Record<string, { revenue: number; spend: number; orders: number }> = {};
+function aggregateMetricsByLabel(metrics: DailyMetrics[]): Record<string, LabelTotals> {
+  const groups: Record<string, LabelTotals> = {};
 
   metrics.forEach((m) => {
     const label = String(m.label);
     if (!groups[label]) {
-      groups[label] = { revenue: 0, spend: 0, orders: 0 };
+      groups[label] = { revenue: 0, spend: 0, orders: 0, netRevenue: 0, grossMargin: 0, shippingCosts: 0 };
     }
     groups[label].revenue += m.totalRevenue;
     groups[label].spend += m.totalSpend;
     groups[label].orders += m.orders;
+    groups[label].netRevenue += m.netRevenue;
+    groups[label].grossMargin += m.grossMargin;
+    groups[label].shippingCosts += m.shippingCosts;
   });
 
   return groups;
@@ -586,6 +674,9 @@ export function calculateBrandBenchmarks(
       const roas = spend > 0 ? revenue / spend : 0;
       const aov = orders > 0 ? revenue / orders : 0;
 
+      // Margin metrics
+      const grossProfit = curr.grossMargin - curr.shippingCosts;
+
       // Calculate Growth
       const prevRevenue = prev?.revenue || 0;
       const growthValue = revenue - prevRevenue;
@@ -607,6 +698,10 @@ export function calculateBrandBenchmarks(
         aov,
         growthPercentage,
         growthValue,
+        netRevenue: curr.netRevenue,
+        grossMargin: curr.grossMargin,
+        contributionMarginAfterCogs: grossProfit - spend,
+        poas: spend > 0 ? grossProfit / spend : 0,
       };
     }
   );
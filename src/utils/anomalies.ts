@@ -0,0 +1,114 @@
+import type { Anomaly, AnomalyMetric, AnomalySettings, DailyMetrics } from '@/types';
+import { ANOMALY_METRICS } from '@/types';
+import { median, medianAbsoluteDeviation, robustZScore } from './statistics';
+
+// ============================================
+// ANOMALY DETECTION
+// ============================================
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  threshold: 3.5,
+  metrics: [...ANOMALY_METRICS],
+};
+
+// Baseline: the same weekday over the preceding weeks, so Monday is compared with Mondays
+const BASELINE_WEEKS = 8;
+const MIN_BASELINE_POINTS = 4;
+
+// Near-constant series have a MAD close to 0, which would flag tiny changes.
+// The spread is floored at this share of the baseline median.
+const MIN_RELATIVE_SPREAD = 0.05;
+
+/**
+ * Value of a metric for one day, or null when it is undefined (e.g. AOV without orders)
+ */
+export function getAnomalyMetricValue(m: DailyMetrics, metric: AnomalyMetric): number | null {
+  switch (metric) {
+    case 'revenue':
+      return m.totalRevenue;
+    case 'spend':
+      return m.totalSpend;
+    case 'orders':
+      return m.orders;
+    case 'aov':
+      return m.orders > 0 ? m.totalRevenue / m.orders : null;
+    case 'mer':
+      return m.totalRevenue > 0 ? m.totalSpend / m.totalRevenue : null;
+  }
+}
+
+/**
+ * Days without any revenue, spend or orders are gaps in the sheet, not data
+ */
+export function isEmptyDay(m: DailyMetrics): boolean {
+  return m.totalRevenue === 0 && m.totalSpend === 0 && m.orders === 0;
+}
+
+/**
+ * Flag days per label where a metric deviates from its weekday baseline.
+ *
+ * For each day the baseline is the median of the same weekday over the
+ * previous BASELINE_WEEKS weeks (seasonal by day-of-week, trailing so a day is
+ * never compared with the future). Deviation is a robust z-score using the MAD
+ * of that baseline. Pass the full history so early days in a range have a baseline.
+ */
+export function detectAnomalies(
+  metrics: DailyMetrics[],
+  settings: AnomalySettings = DEFAULT_ANOMALY_SETTINGS
+): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+
+  const byLabel = new Map<string, DailyMetrics[]>();
+  for (const m of metrics) {
+    if (isEmptyDay(m)) continue;
+    const rows = byLabel.get(m.label);
+    if (rows) rows.push(m);
+    else byLabel.set(m.label, [m]);
+  }
+
+  for (const [label, rows] of byLabel) {
+    const sorted = [...rows].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    for (const metric of settings.metrics) {
+      // Values per weekday in date order
+      const history: { m: DailyMetrics; value: number }[][] = Array.from({ length: 7 }, () => []);
+
+      for (const m of sorted) {
+        const value = getAnomalyMetricValue(m, metric);
+        if (value === null) continue;
+
+        const sameWeekday = history[m.dayOfWeek];
+        const dayTime = new Date(m.date).getTime();
+        const windowStart = dayTime - BASELINE_WEEKS * 7 * 24 * 60 * 60 * 1000;
+        const baseline = sameWeekday
+          .filter((h) => new Date(h.m.date).getTime() >= windowStart)
+          .map((h) => h.value);
+
+        if (baseline.length >= MIN_BASELINE_POINTS) {
+          const expected = median(baseline);
+          const spread = Math.max(
+            medianAbsoluteDeviation(baseline, expected),
+            Math.abs(expected) * MIN_RELATIVE_SPREAD
+          );
+          const zScore = robustZScore(value, expected, spread);
+
+          if (Math.abs(zScore) >= settings.threshold) {
+            anomalies.push({
+              date: m.date,
+              dateString: m.dateString,
+              label,
+              metric,
+              value,
+              expected,
+              zScore,
+            });
+          }
+        }
+
+        sameWeekday.push({ m, value });
+      }
+    }
+  }
+
+  return anomalies.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
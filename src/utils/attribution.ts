@@ -0,0 +1,147 @@
+import type { AttributionSettings, DailyMetrics, Platform, PlatformDayMetrics, PlatformInputs } from '@/types';
+
+// ============================================
+// ATTRIBUTION ENGINE
+// ============================================
+
+/**
+ * Default platform weights for the 'fixed' model: the historical 60/40
+ * Facebook / Google split. Other platforms get nothing until a brand
+ * gives them a weight.
+ */
+export const DEFAULT_FIXED_WEIGHTS: Record<Platform, number> = {
+  facebook: 0.6,
+  google: 0.4,
+};
+
+export const DEFAULT_ATTRIBUTION: AttributionSettings = {
+  model: 'fixed',
+  fixedSplits: {},
+};
+
+/**
+ * The fields of a daily row that the attribution models read
+ */
+export interface AttributionInput {
+  label: DailyMetrics['label'];
+  revenueWeb: number;
+  platforms: Record<Platform, Pick<PlatformInputs, 'spend' | 'conversions' | 'lastClickRevenue'>>;
+}
+
+// Attributed web revenue per platform
+export type AttributedRevenue = Record<Platform, number>;
+
+/**
+ * Get a platform's weight for the 'fixed' model, clamped to 0-1
+ */
+export function getFixedWeight(label: string, platform: Platform, settings: AttributionSettings): number {
+  const weight = settings.fixedSplits[label]?.[platform] ?? DEFAULT_FIXED_WEIGHTS[platform] ?? 0;
+  if (isNaN(weight)) return 0;
+  return Math.min(Math.max(weight, 0), 1);
+}
+
+/**
+ * Share of web revenue per platform under the 'fixed' model
+ */
+export function getFixedShares(
+  label: string,
+  platforms: Platform[],
+  settings: AttributionSettings
+): Record<Platform, number> {
+  const weights = platforms.map((p) => getFixedWeight(label, p, settings));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return Object.fromEntries(platforms.map((p, i) => [p, total > 0 ? weights[i] / total : 0]));
+}
+
+/**
+ * Split web revenue proportionally to a weight per platform.
+ * Returns null when all weights are zero so callers can decide on a fallback.
+ */
+function splitProportional(revenue: number, weights: Record<Platform, number>): AttributedRevenue | null {
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return null;
+
+  return Object.fromEntries(
+    Object.entries(weights).map(([platform, weight]) => [platform, revenue * (weight / total)])
+  );
+}
+
+function pick(row: AttributionInput, field: 'spend' | 'conversions' | 'lastClickRevenue'): Record<Platform, number> {
+  return Object.fromEntries(Object.entries(row.platforms).map(([platform, p]) => [platform, p[field]]));
+}
+
+function splitFixed(row: AttributionInput, settings: AttributionSettings): AttributedRevenue {
+  const shares = getFixedShares(String(row.label), Object.keys(row.platforms), settings);
+  return Object.fromEntries(Object.entries(shares).map(([platform, share]) => [platform, row.revenueWeb * share]));
+}
+
+/**
+ * Attribute a single day's web revenue to the ad platforms
+ * - fixed: user-defined weights per label (defaults to 60/40 Facebook / Google)
+ * - spend: proportional to spend; nothing is attributed on days without spend
+ * - conversions: proportional to the Conv_ columns, falls back to spend when no conversions are recorded
+ * - last_click: the LastClick_ columns, falls back to the fixed split when they are all empty
+ */
+export function attributeWebRevenue(
+  row: AttributionInput,
+  settings: AttributionSettings = DEFAULT_ATTRIBUTION
+): AttributedRevenue {
+  const noRevenue = Object.fromEntries(Object.keys(row.platforms).map((platform) => [platform, 0]));
+
+  switch (settings.model) {
+    case 'spend':
+      return splitProportional(row.revenueWeb, pick(row, 'spend')) ?? noRevenue;
+    case 'conversions':
+      return (
+        splitProportional(row.revenueWeb, pick(row, 'conversions')) ??
+        splitProportional(row.revenueWeb, pick(row, 'spend')) ??
+        noRevenue
+      );
+    case 'last_click': {
+      const lastClick = pick(row, 'lastClickRevenue');
+      if (Object.values(lastClick).some((revenue) => revenue > 0)) return lastClick;
+      return splitFixed(row, settings);
+    }
+    case 'fixed':
+    default:
+      return splitFixed(row, settings);
+  }
+}
+
+/**
+ * Platform metrics for a day: the inputs plus attributed revenue and ROAS
+ */
+export function attributePlatforms(
+  row: AttributionInput & { platforms: Record<Platform, PlatformInputs> },
+  settings: AttributionSettings = DEFAULT_ATTRIBUTION
+): Record<Platform, PlatformDayMetrics> {
+  const attributed = attributeWebRevenue(row, settings);
+
+  return Object.fromEntries(
+    Object.entries(row.platforms).map(([platform, p]) => {
+      const attributedRevenue = attributed[platform] ?? 0;
+      return [
+        platform,
+        {
+          spend: p.spend,
+          clicks: p.clicks,
+          conversions: p.conversions,
+          lastClickRevenue: p.lastClickRevenue,
+          attributedRevenue,
+          roas: p.spend > 0 ? attributedRevenue / p.spend : 0,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Re-attribute a list of daily metrics with the given settings.
+ * Attribution is applied per day and label so that per-brand splits survive aggregation.
+ */
+export function applyAttribution(
+  metrics: DailyMetrics[],
+  settings: AttributionSettings = DEFAULT_ATTRIBUTION
+): DailyMetrics[] {
+  return metrics.map((m) => ({ ...m, platforms: attributePlatforms(m, settings) }));
+}
@@ -0,0 +1,93 @@
+import { CHANNELS, type Channel, type DailyMetrics, type Platform, type PlatformDayMetrics } from '@/types';
+import { calculateFunnelMetrics, emptyFunnel } from './funnel';
+
+// ============================================
+// CHANNEL & PLATFORM FILTER
+// ============================================
+
+export interface ChannelPlatformFilter {
+  channels: Channel[];
+  platforms: Platform[]; // Empty for all platforms
+}
+
+export function isFullSelection({ channels, platforms }: ChannelPlatformFilter): boolean {
+  return CHANNELS.every((c) => channels.includes(c)) && platforms.length === 0;
+}
+
+/**
+ * Limit daily metrics to the selected channels (web/app revenue) and
+ * platforms (spend, clicks, conversions and attributed revenue), then
+ * recompute the totals and ratios derived from them.
+ * - Apply after attribution: a platform keeps the revenue credited to it with
+ *   all platforms running, deselecting another doesn't move it over
+ * - Deselected platforms stay on the row with zeros
+ * - Attributed revenue is web revenue, so it is dropped with the web channel
+ * - The funnel (sessions, add-to-carts, checkouts) is per channel as well
+ * - Orders are per channel (Orders and Orders_App columns); returns aren't,
+ *   they follow the revenue share, and so do the margin metrics (net revenue,
+ *   gross margin, shipping)
+ */
+export function filterChannelsAndPlatforms(
+  metrics: DailyMetrics[],
+  filter: ChannelPlatformFilter
+): DailyMetrics[] {
+  if (isFullSelection(filter)) return metrics;
+
+  const web = filter.channels.includes('web');
+  const app = filter.channels.includes('app');
+  const isSelected = (platform: Platform) => filter.platforms.length === 0 || filter.platforms.includes(platform);
+
+  return metrics.map((m) => {
+    const revenueWeb = web ? m.revenueWeb : 0;
+    const revenueApp = app ? m.revenueApp : 0;
+    const totalRevenue = revenueWeb + revenueApp;
+    const revenueShare = m.totalRevenue > 0 ? totalRevenue / m.totalRevenue : 0;
+    const ordersWeb = web ? m.ordersWeb : 0;
+    const ordersApp = app ? m.ordersApp : 0;
+    const orders = ordersWeb + ordersApp;
+    const none = emptyFunnel();
+    const funnel = { web: web ? m.funnel.web : none.web, app: app ? m.funnel.app : none.app };
+
+    const platforms: Record<Platform, PlatformDayMetrics> = {};
+    for (const [platform, p] of Object.entries(m.platforms)) {
+      const selected = isSelected(platform);
+      const attributedRevenue = web && selected ? p.attributedRevenue : 0;
+      platforms[platform] = {
+        spend: selected ? p.spend : 0,
+        clicks: selected ? p.clicks : 0,
+        conversions: selected ? p.conversions : 0,
+        lastClickRevenue: web && selected ? p.lastClickRevenue : 0,
+        attributedRevenue,
+        roas: selected && p.spend > 0 ? attributedRevenue / p.spend : 0,
+      };
+    }
+    const totalSpend = Object.values(platforms).reduce((sum, p) => sum + p.spend, 0);
+    const grossMargin = m.grossMargin * revenueShare;
+    const shippingCosts = m.shippingCosts * revenueShare;
+
+    return {
+      ...m,
+      revenueWeb,
+      revenueApp,
+      totalRevenue,
+      ordersWeb,
+      ordersApp,
+      orders,
+      aov: orders > 0 ? totalRevenue / orders : 0,
+      returnedRevenue: m.returnedRevenue * revenueShare,
+      returnedOrders: m.returnedOrders * revenueShare,
+      funnel,
+      ...calculateFunnelMetrics(funnel, { revenueWeb, revenueApp, ordersWeb, ordersApp }),
+      platforms,
+      totalSpend,
+      totalClicks: Object.values(platforms).reduce((sum, p) => sum + p.clicks, 0),
+      mer: totalRevenue > 0 ? totalSpend / totalRevenue : 0,
+      contributionMargin: totalRevenue - totalSpend,
+      netRevenue: m.netRevenue * revenueShare,
+      grossMargin,
+      shippingCosts,
+      contributionMarginAfterCogs: grossMargin - shippingCosts - totalSpend,
+      poas: totalSpend > 0 ? (grossMargin - shippingCosts) / totalSpend : 0,
+    };
+  });
+}
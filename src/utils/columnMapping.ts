@@ -0,0 +1,243 @@
+import { getExtraPlatformColumns } from './platforms';
+import { FUNNEL_COLUMNS } from './funnel';
+
+// ============================================
+// COLUMN MAPPING
+// ============================================
+
+/**
+ * An expected column in a sheet tab or file, with known alternate header names
+ */
+export interface ColumnSpec {
+  column: string;
+  required?: boolean;
+  aliases?: string[];
+}
+
+/**
+ * Daily_Input, Daily_<year> archives and uploaded files
+ */
+export const DAILY_COLUMNS: ColumnSpec[] = [
+  { column: 'Date', required: true, aliases: ['Day', 'Datum'] },
+  { column: 'Label', required: true, aliases: ['Brand', 'Store', 'Shop'] },
+  { column: 'Rev_Web', aliases: ['Revenue_Web', 'Web_Revenue'] },
+  { column: 'Rev_App', aliases: ['Revenue_App', 'App_Revenue'] },
+  { column: 'Orders', aliases: ['Orders_Web', 'Web_Orders'] },
+  { column: 'Orders_App', aliases: ['App_Orders'] },
+  { column: 'Conv_FB', aliases: ['Conversions_FB', 'Conv_Meta', 'Conversions_Meta'] },
+  { column: 'Conv_Google', aliases: ['Conversions_Google'] },
+  { column: 'Spend_FB', aliases: ['Spend_Meta', 'FB_Spend', 'Meta_Spend'] },
+  { column: 'Spend_Google', aliases: ['Google_Spend'] },
+  { column: 'LastClick_FB', aliases: ['LastClick_Meta', 'Last_Click_FB'] },
+  { column: 'LastClick_Google', aliases: ['Last_Click_Google'] },
+  { column: 'Returned_Revenue', aliases: ['Returns', 'Returns_Revenue', 'Refunds', 'Refunded_Revenue'] },
+  { column: 'Returned_Orders', aliases: ['Returns_Orders', 'Refunded_Orders'] },
+  ...FUNNEL_COLUMNS.map((column) => ({ column })),
+];
+
+/**
+ * DAILY_COLUMNS plus the columns of other ad platforms in the headers
+ * (Spend_TikTok, Conv_TikTok, ...), so they survive the column mapping
+ */
+export function getDailyColumns(headers: string[]): ColumnSpec[] {
+  return [...DAILY_COLUMNS, ...getExtraPlatformColumns(headers).map((column) => ({ column }))];
+}
+
+/**
+ * Targets tab
+ */
+export const TARGET_COLUMNS: ColumnSpec[] = [
+  { column: 'Month', required: true },
+  { column: 'Label' },
+  { column: 'Rev_target', aliases: ['Revenue_Target', 'RevenueTarget'] },
+  { column: 'Orders_Target', aliases: ['OrdersTarget'] },
+  { column: 'MER_Target', aliases: ['MERTarget'] },
+  { column: 'Ad_budget', aliases: ['Ad_Budget', 'AdBudget'] },
+];
+
+/**
+ * Maps each expected column to a header in the source
+ */
+export type ColumnMapping = Record<string, string>;
+
+export type MatchKind = 'exact' | 'alias' | 'fuzzy';
+
+export interface ColumnMatch {
+  header: string;
+  kind: MatchKind;
+  score: number; // 0-1 similarity, 1 for exact and alias matches
+}
+
+export interface MappingSuggestion {
+  mapping: ColumnMapping;
+  matches: Record<string, ColumnMatch>;
+  unknownHeaders: string[];
+}
+
+// Minimum similarity for a fuzzy match to be suggested
+const FUZZY_THRESHOLD = 0.7;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity between two headers after normalization (1 = identical)
+ */
+export function headerSimilarity(a: string, b: string): number {
+  const na = normalizeHeader(a);
+  const nb = normalizeHeader(b);
+  if (!na || !nb) return 0;
+  return 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+}
+
+/**
+ * Suggest a mapping for the given headers. Exact and alias matches (ignoring
+ * case, spaces and underscores) are taken first; remaining columns get the most
+ * similar unused header above the fuzzy threshold. Each header is used once.
+ */
+export function suggestColumnMapping(headers: string[], specs: ColumnSpec[]): MappingSuggestion {
+  const mapping: ColumnMapping = {};
+  const matches: Record<string, ColumnMatch> = {};
+  const used = new Set<string>();
+  const candidates = headers.filter((h) => h.trim() !== '');
+
+  const assign = (column: string, match: ColumnMatch) => {
+    mapping[column] = match.header;
+    matches[column] = match;
+    used.add(match.header);
+  };
+
+  // Pass 1: exact names and aliases
+  for (const spec of specs) {
+    const names = [spec.column, ...(spec.aliases ?? [])].map(normalizeHeader);
+    const exact = candidates.find((h) => !used.has(h) && h === spec.column)
+      || candidates.find((h) => !used.has(h) && normalizeHeader(h) === normalizeHeader(spec.column));
+    const alias = exact ? undefined : candidates.find((h) => !used.has(h) && names.includes(normalizeHeader(h)));
+
+    if (exact) assign(spec.column, { header: exact, kind: 'exact', score: 1 });
+    else if (alias) assign(spec.column, { header: alias, kind: 'alias', score: 1 });
+  }
+
+  // Pass 2: fuzzy, best-scoring pairs first
+  const pairs = specs
+    .filter((spec) => !mapping[spec.column])
+    .flatMap((spec) =>
+      candidates
+        .filter((h) => !used.has(h))
+        .map((header) => ({
+          column: spec.column,
+          header,
+          score: Math.max(...[spec.column, ...(spec.aliases ?? [])].map((name) => headerSimilarity(name, header))),
+        }))
+    )
+    .filter((p) => p.score >= FUZZY_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  for (const pair of pairs) {
+    if (mapping[pair.column] || used.has(pair.header)) continue;
+    assign(pair.column, { header: pair.header, kind: 'fuzzy', score: pair.score });
+  }
+
+  return { mapping, matches, unknownHeaders: getUnknownHeaders(headers, mapping) };
+}
+
+/**
+ * Use a saved mapping where its headers still exist, suggest the rest
+ */
+export function resolveColumnMapping(
+  headers: string[],
+  specs: ColumnSpec[],
+  saved?: ColumnMapping
+): ColumnMapping {
+  const valid = Object.fromEntries(
+    Object.entries(saved ?? {}).filter(([, header]) => headers.includes(header))
+  );
+  const remainingHeaders = headers.filter((h) => !Object.values(valid).includes(h));
+  const remainingSpecs = specs.filter((spec) => !valid[spec.column]);
+
+  return { ...suggestColumnMapping(remainingHeaders, remainingSpecs).mapping, ...valid };
+}
+
+/**
+ * Headers in the source that no column is mapped to
+ */
+export function getUnknownHeaders(headers: string[], mapping: ColumnMapping): string[] {
+  const mapped = new Set(Object.values(mapping));
+  return headers.filter((h) => h.trim() !== '' && !mapped.has(h));
+}
+
+/**
+ * Required columns that have no header assigned
+ */
+export function getMissingRequiredColumns(mapping: ColumnMapping, specs: ColumnSpec[] = DAILY_COLUMNS): string[] {
+  return specs.filter((spec) => spec.required && !mapping[spec.column]).map((spec) => spec.column);
+}
+
+/**
+ * Re-key rows to the expected column names so they can go through the sheet parsers
+ */
+export function applyColumnMapping(
+  rows: Record<string, string>[],
+  mapping: ColumnMapping
+): Record<string, string>[] {
+  const entries = Object.entries(mapping).filter(([, header]) => header);
+
+  return rows.map((row) => {
+    const mapped: Record<string, string> = {};
+    for (const [column, header] of entries) {
+      mapped[column] = row[header] ?? '';
+    }
+    return mapped;
+  });
+}
+
+/**
+ * Header names of parsed CSV rows (parseCSV keeps header order)
+ */
+export function getHeaders(rows: Record<string, string>[]): string[] {
+  return rows.length > 0 ? Object.keys(rows[0]) : [];
+}
+
+export interface MappedRows {
+  rows: Record<string, string>[];
+  mapping: ColumnMapping;
+  unknownHeaders: string[];
+  missingColumns: string[];
+}
+
+/**
+ * Resolve the mapping for fetched rows and re-key them. Headers the user
+ * already reviewed (ignoredHeaders) are not reported as unknown.
+ */
+export function mapSheetRows(
+  rows: Record<string, string>[],
+  specs: ColumnSpec[],
+  saved?: ColumnMapping,
+  ignoredHeaders: string[] = []
+): MappedRows {
+  const headers = getHeaders(rows);
+  const mapping = resolveColumnMapping(headers, specs, saved);
+
+  return {
+    rows: applyColumnMapping(rows, mapping),
+    mapping,
+    unknownHeaders: getUnknownHeaders(headers, mapping).filter((h) => !ignoredHeaders.includes(h)),
+    missingColumns: getMissingRequiredColumns(mapping, specs),
+  };
+}
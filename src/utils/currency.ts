@@ -0,0 +1,233 @@
+import { format } from 'date-fns';
+import { CURRENCIES, type Currency, type DailyMetrics, type FxRate, type MonthlyTarget, type PlatformDayMetrics } from '@/types';
+import { parseEuropeanDate } from './sheetTransformer';
+
+// ============================================
+// CURRENCIES & FX CONVERSION
+// ============================================
+
+// FX rates are quoted against EUR; labels without a currency are in EUR
+export const BASE_CURRENCY: Currency = 'EUR';
+
+type MoneyField =
+  | 'revenueWeb'
+  | 'revenueApp'
+  | 'totalRevenue'
+  | 'aov'
+  | 'returnedRevenue'
+  | 'totalSpend'
+  | 'contributionMargin'
+  | 'netRevenue'
+  | 'grossMargin'
+  | 'shippingCosts'
+  | 'contributionMarginAfterCogs'
+  | 'revenuePerSession';
+
+// Ratios (MER, ROAS, POAS, return and conversion rate) and counts are the same in every currency
+const MONEY_FIELDS: MoneyField[] = [
+  'revenueWeb',
+  'revenueApp',
+  'totalRevenue',
+  'aov',
+  'returnedRevenue',
+  'totalSpend',
+  'contributionMargin',
+  'netRevenue',
+  'grossMargin',
+  'shippingCosts',
+  'contributionMarginAfterCogs',
+  'revenuePerSession',
+];
+
+// The same for each ad platform
+const PLATFORM_MONEY_FIELDS: (keyof PlatformDayMetrics)[] = ['spend', 'lastClickRevenue', 'attributedRevenue'];
+
+export function isCurrency(value: string): value is Currency {
+  return (CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a rate. Rates have no thousands, so both 0,8567 (sheet) and
+ * 0.8567 (ECB or bank exports) are read as decimals.
+ */
+function parseRate(value: string | undefined): number {
+  const parsed = Number((value ?? '').trim().replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Parse FX_Rates rows (Date, Currency, Rate per 1 EUR). EUR rows are skipped.
+ */
+export function parseFxRates(rows: Record<string, string>[]): { rates: FxRate[]; errors: number } {
+  const rates: FxRate[] = [];
+  let errors = 0;
+
+  for (const row of rows) {
+    const date = parseEuropeanDate(row['Date'] || row['date']);
+    const currency = (row['Currency'] || row['currency'] || '').trim().toUpperCase();
+    const rate = parseRate(row['Rate'] || row['rate']);
+
+    if (currency === BASE_CURRENCY) continue;
+    if (!date || !isCurrency(currency) || rate <= 0) {
+      errors++;
+      continue;
+    }
+    rates.push({ dateString: format(date, 'yyyy-MM-dd'), currency, rate });
+  }
+
+  return { rates, errors };
+}
+
+/**
+ * Parse Currencies rows (Label, Currency)
+ */
+export function parseLabelCurrencies(rows: Record<string, string>[]): { currencies: Record<string, Currency>; errors: number } {
+  const currencies: Record<string, Currency> = {};
+  let errors = 0;
+
+  for (const row of rows) {
+    const label = (row['Label'] || row['label'] || '').trim();
+    const currency = (row['Currency'] || row['currency'] || '').trim().toUpperCase();
+    if (!label) continue;
+    if (!isCurrency(currency)) {
+      errors++;
+      continue;
+    }
+    currencies[label] = currency;
+  }
+
+  return { currencies, errors };
+}
+
+/**
+ * Combine rate lists; later lists win when they have the same date and currency
+ */
+export function mergeFxRates(...lists: FxRate[][]): FxRate[] {
+  const byKey = new Map<string, FxRate>();
+  for (const rate of lists.flat()) byKey.set(`${rate.dateString}|${rate.currency}`, rate);
+  return [...byKey.values()].sort((a, b) => a.dateString.localeCompare(b.dateString));
+}
+
+export type FxLookup = (currency: Currency, dateString: string) => number | null;
+
+/**
+ * Rate lookup by currency and date. Days without a fixing (weekends,
+ * holidays) use the latest earlier rate; days before the first rate use the
+ * first one. Null when there are no rates for the currency at all.
+ */
+export function createFxLookup(rates: FxRate[]): FxLookup {
+  const byCurrency = new Map<Currency, FxRate[]>();
+  for (const rate of rates) {
+    const list = byCurrency.get(rate.currency);
+    if (list) list.push(rate);
+    else byCurrency.set(rate.currency, [rate]);
+  }
+  byCurrency.forEach((list) => list.sort((a, b) => a.dateString.localeCompare(b.dateString)));
+
+  return (currency, dateString) => {
+    if (currency === BASE_CURRENCY) return 1;
+    const list = byCurrency.get(currency);
+    if (!list || list.length === 0) return null;
+
+    // Binary search for the last rate on or before the date
+    let low = 0;
+    let high = list.length - 1;
+    let found = 0;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (list[mid].dateString <= dateString) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return list[found].rate;
+  };
+}
+
+export interface CurrencyConverter {
+  factor: (label: string, dateString: string) => number;
+  missingRates: () => Currency[]; // Currencies factor() found no rates for
+}
+
+/**
+ * Factors from each label's currency into `currency` at the rate of the day,
+ * via EUR. Without a rate for either currency the factor is 1, so amounts are
+ * left unconverted. Shared by convertToCurrency and the alert evaluation, which
+ * converts warehouse rows.
+ */
+export function createCurrencyConverter(
+  labelCurrencies: Record<string, Currency>,
+  fxRates: FxRate[],
+  currency: Currency
+): CurrencyConverter {
+  const lookup = createFxLookup(fxRates);
+  const missingRates = new Set<Currency>();
+
+  return {
+    factor: (label, dateString) => {
+      const from = labelCurrencies[label] ?? BASE_CURRENCY;
+      if (from === currency) return 1;
+      const fromRate = lookup(from, dateString);
+      const toRate = lookup(currency, dateString);
+      if (fromRate === null) missingRates.add(from);
+      if (toRate === null) missingRates.add(currency);
+      return fromRate === null || toRate === null ? 1 : toRate / fromRate;
+    },
+    missingRates: () => [...missingRates],
+  };
+}
+
+export interface CurrencyConversion {
+  metrics: DailyMetrics[];
+  targets: MonthlyTarget[];
+  missingRates: Currency[]; // Amounts in these currencies are left unconverted
+}
+
+interface ConversionInput {
+  metrics: DailyMetrics[];
+  targets: MonthlyTarget[];
+  labelCurrencies: Record<string, Currency>;
+  fxRates: FxRate[];
+}
+
+/**
+ * Convert all money fields of the metrics, and the revenue targets and ad
+ * budgets, from each label's currency into the reporting currency at the rate
+ * of the day (the first day of the month for targets). Apply before any
+ * aggregation, so totals across labels add up amounts in one currency.
+ */
+export function convertToCurrency(
+  { metrics, targets, labelCurrencies, fxRates }: ConversionInput,
+  currency: Currency
+): CurrencyConversion {
+  const currencyOf = (label: string): Currency => labelCurrencies[label] ?? BASE_CURRENCY;
+  const needsConversion = (label: string) => currencyOf(label) !== currency;
+
+  if (!metrics.some((m) => needsConversion(m.label)) && !targets.some((t) => needsConversion(t.label))) {
+    return { metrics, targets, missingRates: [] };
+  }
+
+  const converter = createCurrencyConverter(labelCurrencies, fxRates, currency);
+
+  const convertedMetrics = metrics.map((m) => {
+    const factor = converter.factor(m.label, m.dateString);
+    if (factor === 1) return m;
+    const converted = { ...m, platforms: { ...m.platforms } };
+    for (const field of MONEY_FIELDS) converted[field] = m[field] * factor;
+    for (const [platform, p] of Object.entries(m.platforms)) {
+      const convertedPlatform = { ...p };
+      for (const field of PLATFORM_MONEY_FIELDS) convertedPlatform[field] = p[field] * factor;
+      converted.platforms[platform] = convertedPlatform;
+    }
+    return converted;
+  });
+
+  const convertedTargets = targets.map((t) => {
+    const factor = converter.factor(t.label, `${t.month}-01`);
+    return factor === 1 ? t : { ...t, revenueTarget: t.revenueTarget * factor, adBudget: t.adBudget * factor };
+  });
+
+  return { metrics: convertedMetrics, targets: convertedTargets, missingRates: converter.missingRates() };
+}
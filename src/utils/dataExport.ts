@@ -0,0 +1,202 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import type { BrandBenchmarkPoint, ChartDataPoint } from '@/types';
+import { escapeCSV } from './dataQuality';
+
+// ============================================
+// DATA EXPORT (CSV / XLSX)
+// ============================================
+
+export type ExportValue = string | number | null | undefined;
+
+export interface ExportTable {
+  columns: { key: string; header: string }[];
+  rows: Record<string, ExportValue>[];
+}
+
+// Enough for MER fractions, without floating point noise like 0.30000000000000004
+const EXPORT_DECIMALS = 4;
+
+/**
+ * Table from plain records; columns are the keys in order of first appearance
+ */
+export function recordsToTable(records: Record<string, ExportValue>[], exclude: string[] = []): ExportTable {
+  const keys = [...new Set(records.flatMap((r) => Object.keys(r)))].filter((k) => !exclude.includes(k));
+  return { columns: keys.map((key) => ({ key, header: key })), rows: records };
+}
+
+/**
+ * Chart points as exported rows; the display date is dropped as the ISO date is there
+ */
+export function chartDataToTable(data: ChartDataPoint[]): ExportTable {
+  return recordsToTable(data, ['displayDate']);
+}
+
+export function benchmarksToTable(data: BrandBenchmarkPoint[]): ExportTable {
+  return recordsToTable(data.map((d) => ({ ...d })));
+}
+
+function roundValue(value: number): number {
+  return Number(value.toFixed(EXPORT_DECIMALS));
+}
+
+/**
+ * Serialize to CSV. European formatting uses ; between fields and a decimal
+ * comma, which is what Excel expects with Dutch regional settings.
+ */
+export function tableToCSV(table: ExportTable, european = false): string {
+  const separator = european ? ';' : ',';
+  const formatValue = (value: ExportValue) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') {
+      const text = String(roundValue(value));
+      return european ? text.replace('.', ',') : text;
+    }
+    return escapeCSV(value);
+  };
+
+  const header = table.columns.map((c) => escapeCSV(c.header)).join(separator);
+  const lines = table.rows.map((row) => table.columns.map((c) => formatValue(row[c.key])).join(separator));
+  // The byte order mark makes Excel read the file as UTF-8
+  return '\uFEFF' + [header, ...lines].join('\n');
+}
+
+/**
+ * Serialize to an XLSX workbook. Numbers stay numeric; Excel shows them with
+ * the viewer's own decimal separator.
+ */
+export async function tableToXlsx(table: ExportTable, sheetName: string): Promise<Blob> {
+  const header = table.columns.map((c) => ({ value: c.header, fontWeight: 'bold' as const }));
+  const rows = table.rows.map((row) =>
+    table.columns.map((c) => {
+      const value = row[c.key];
+      if (typeof value === 'number') return { value: roundValue(value), type: Number };
+      return value === null || value === undefined ? null : { value: String(value), type: String };
+    })
+  );
+
+  // Sheet names are limited to 31 characters and can't contain []:*?/\
+  return writeXlsxFile([header, ...rows], { sheet: sheetName.replace(/[[\]:*?/\\]/g, '').slice(0, 31) || 'Export' }).toBlob();
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// CHART EXPORT (SVG / PNG)
+// ============================================
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const TITLE_HEIGHT = 36;
+const PNG_SCALE = 2; // Sharp on slides and retina screens
+
+// Colors and fonts come from CSS variables and classes, which don't travel with the SVG
+const INLINE_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline',
+];
+
+function inlineStyles(source: Element, target: Element) {
+  const computed = getComputedStyle(source);
+  target.setAttribute('style', INLINE_STYLES.map((p) => `${p}:${computed.getPropertyValue(p)}`).join(';'));
+  Array.from(source.children).forEach((child, i) => {
+    if (target.children[i]) inlineStyles(child, target.children[i]);
+  });
+}
+
+export interface RenderedChart {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Combine the Recharts charts inside a container into one standalone SVG,
+ * laid out as on screen under the given title. Null when there is no chart.
+ */
+export function chartToSVG(container: HTMLElement, title: string): RenderedChart | null {
+  const charts = Array.from(container.querySelectorAll<SVGSVGElement>('svg.recharts-surface'))
+    .filter((svg) => !svg.closest('.recharts-legend-wrapper'));
+  if (charts.length === 0) return null;
+
+  const rects = charts.map((chart) => chart.getBoundingClientRect());
+  const left = Math.min(...rects.map((r) => r.left));
+  const top = Math.min(...rects.map((r) => r.top));
+  const width = Math.ceil(Math.max(...rects.map((r) => r.right)) - left);
+  const height = Math.ceil(Math.max(...rects.map((r) => r.bottom)) - top) + TITLE_HEIGHT;
+  const containerStyle = getComputedStyle(container);
+
+  const root = document.createElementNS(SVG_NS, 'svg');
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', containerStyle.backgroundColor);
+  root.appendChild(background);
+
+  const heading = document.createElementNS(SVG_NS, 'text');
+  heading.textContent = title;
+  heading.setAttribute('x', '0');
+  heading.setAttribute('y', '20');
+  heading.setAttribute('style', `fill:${containerStyle.color};font-family:${containerStyle.fontFamily};font-size:16px;font-weight:600`);
+  root.appendChild(heading);
+
+  charts.forEach((chart, i) => {
+    const clone = chart.cloneNode(true) as SVGSVGElement;
+    inlineStyles(chart, clone);
+    clone.setAttribute('x', String(rects[i].left - left));
+    clone.setAttribute('y', String(rects[i].top - top + TITLE_HEIGHT));
+    root.appendChild(clone);
+  });
+
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+}
+
+/**
+ * Rasterize a rendered chart to PNG
+ */
+export function chartToPNG({ svg, width, height }: RenderedChart): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = width * PNG_SCALE;
+      canvas.height = height * PNG_SCALE;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(PNG_SCALE, PNG_SCALE);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not render the chart'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the chart'));
+    };
+    image.src = url;
+  });
+}
@@ -1,15 +1,36 @@
 import type { 
+  Channel,
+  Currency,
   DailyMetrics, 
+  FxRate,
+  MarginInputs,
   MonthlyTarget, 
   DataRowRaw, 
   HarmonizedData,
   DataSource,
   EventAnnotation,
   EventType,
+  FunnelSteps,
+  Platform,
+  RowIssue,
+  WeatherDay,
 } from '@/types';
 import { parseDataRow, safeParseRows } from '@/types';
 import { transformToMetrics, getDaysInMonth } from './analytics';
-import { transformSheetData, toCompatibleMetrics, parseEuropeanNumber, type TransformedSheetRow } from './sheetTransformer';
+import {
+  transformSheetData,
+  toCompatibleMetrics,
+  createTransformedRow,
+  parseEuropeanDate,
+  parseEuropeanNumber,
+  type SheetPlatformValues,
+  type TransformedSheetRow,
+} from './sheetTransformer';
+import { toShopDays, type ShopDailyMetricsRow, type ShopDay } from './shopify';
+import { calculateFunnelMetrics, emptyFunnel, parseGa4Export } from './funnel';
+import { mergeWeather, parseWeatherRows } from './weather';
+import { mergeFxRates, parseFxRates, parseLabelCurrencies } from './currency';
+import { calculateMargins, parseMarginInputs } from './margins';
 import { supabase } from '@/integrations/supabase/client';
 
 // ============================================
@@ -24,10 +45,20 @@ import { supabase } from '@/integrations/supabase/client';
  */
 export class DataHarmonizer {
   private historicalData: DailyMetrics[] = [];
+  private historicalSources: { name: string; year: number; data: DailyMetrics[] }[] = [];
+  private uploadSources: { id: string; name: string; data: DailyMetrics[] }[] = [];
   private liveData: DailyMetrics[] = [];
+  private shopDays = new Map<string, ShopDay>();
+  private shopAdPlatforms = new Map<string, Record<Platform, SheetPlatformValues>>();
+  private funnelDays = new Map<string, Partial<Record<Channel, FunnelSteps>>>();
   private targets: MonthlyTarget[] = [];
   private events: EventAnnotation[] = [];
+  private labelCurrencies: Record<string, Currency> = {};
+  private fxRates: FxRate[] = [];
+  private marginInputs: Record<string, MarginInputs> = {};
+  private weather: WeatherDay[] = [];
   private errors: string[] = [];
+  private issues: RowIssue[] = [];
 
   /**
    * Add historical data (from JSON/CSV)
@@ -48,21 +79,116 @@ export class DataHarmonizer {
     return { success: valid.length, errors };
   }
 
+  /**
+   * Add a prior-year archive (sheet tab or uploaded file) with European format support
+   * Rows outside the archive's year are ignored.
+   */
+  addHistoricalDataEuropean(
+    rawData: Record<string, string>[],
+    year: number,
+    name: string = `Daily_${year}`
+  ): { success: number; errors: number } {
+    const { data, errors, issues } = transformSheetData(rawData);
+    
+    const metrics = data
+      .filter((row) => row.date.getFullYear() === year)
+      .map(toCompatibleMetrics);
+    
+    this.historicalSources.push({ name, year, data: metrics });
+    this.addIssues(issues, name);
+    
+    if (errors > 0) {
+      this.errors.push(`Historical data (${name}): ${errors} rows failed validation`);
+    }
+    
+    return { success: metrics.length, errors };
+  }
+
+  /**
+   * Add an uploaded CSV/XLSX dataset whose columns are already mapped to the sheet headers
+   */
+  addUploadedData(
+    rawData: Record<string, string>[],
+    name: string,
+    id: string
+  ): { success: number; errors: number } {
+    const { data, errors, issues } = transformSheetData(rawData);
+    
+    this.uploadSources.push({ id, name, data: data.map(toCompatibleMetrics) });
+    this.addIssues(issues, name);
+    
+    if (errors > 0) {
+      this.errors.push(`Upload (${name}): ${errors} rows failed validation`);
+    }
+    
+    return { success: data.length, errors };
+  }
+
   /**
    * Add live data from Google Sheet with European format support
    */
-  addLiveDataEuropean(rawData: Record<string, string>[]): { success: number; errors: number } {
-    const { data, errors } = transformSheetData(rawData);
+  addLiveDataEuropean(
+    rawData: Record<string, string>[],
+    name: string = 'Daily_Input'
+  ): { success: number; errors: number; warnings: number } {
+    const { data, errors, issues } = transformSheetData(rawData);
     
     // Convert to DailyMetrics format for compatibility
     const metrics = data.map(toCompatibleMetrics);
     this.liveData = metrics;
+    this.addIssues(issues, name);
     
     if (errors > 0) {
       this.errors.push(`Live data: ${errors} rows failed validation`);
     }
     
-    return { success: data.length, errors };
+    return {
+      success: data.length,
+      errors,
+      warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    };
+  }
+
+  /**
+   * Add live data that is already in DailyMetrics form (e.g. from the Postgres warehouse)
+   */
+  addLiveMetrics(metrics: DailyMetrics[]): { success: number; errors: number } {
+    this.liveData = metrics;
+    return { success: metrics.length, errors: 0 };
+  }
+
+  /**
+   * Add Shopify connector days. Their revenue, orders and returns replace those
+   * of the live, uploaded and archived rows of the same date + label; days
+   * without such a row get one, with the ad platform connector values if any.
+   */
+  addShopMetrics(
+    rows: ShopDailyMetricsRow[],
+    adPlatforms: Map<string, Record<Platform, SheetPlatformValues>> = new Map()
+  ): { success: number; errors: number } {
+    this.shopDays = toShopDays(rows);
+    this.shopAdPlatforms = adPlatforms;
+    return { success: this.shopDays.size, errors: 0 };
+  }
+
+  /**
+   * Add a GA4 export (Date, Platform, Sessions, Add to carts, Checkouts) for a
+   * label. Its channels replace the sheet's funnel columns on the rows of the
+   * same date + label; days without a row are not added.
+   */
+  addFunnelData(rawData: Record<string, string>[], label: string, source: string = 'GA4'): { success: number; errors: number } {
+    const { rows, errors } = parseGa4Export(rawData, label);
+
+    for (const row of rows) {
+      const key = `${row.dateString}|${row.label}`;
+      this.funnelDays.set(key, { ...this.funnelDays.get(key), [row.channel]: row.steps });
+    }
+
+    if (errors > 0) {
+      this.errors.push(`${source}: ${errors} rows failed validation`);
+    }
+
+    return { success: rows.length, errors };
   }
 
   /**
@@ -81,6 +207,13 @@ export class DataHarmonizer {
     return { success: valid.length, errors };
   }
 
+  /**
+   * Record row-level issues, tagged with the sheet tab or file they came from
+   */
+  private addIssues(issues: RowIssue[], source: string): void {
+    this.issues.push(...issues.map((issue) => ({ ...issue, source })));
+  }
+
   /**
    * Normalize month from various formats to yyyy-MM
    * Handles: "1-2025", "01-2025", "1/2025", "01/2025" → "2025-01"
@@ -99,6 +232,7 @@ export class DataHarmonizer {
 
   /**
    * Add monthly targets from Google Sheet with European format support
+   * Expects the TARGET_COLUMNS headers; alternate spellings are resolved by the column mapping.
    */
   addTargets(rawData: unknown[]): { success: number; errors: number } {
     console.log('Parsing targets, raw data:', rawData);
@@ -111,26 +245,18 @@ export class DataHarmonizer {
       try {
         const r = row as Record<string, string>;
         
-        // Get the month - support both "Month" and "month" headers
-        const rawMonth = r['Month'] || r['month'] || '';
-        const label = r['Label'] || r['label'] || 'All';
+        const rawMonth = r['Month'] || '';
+        const label = r['Label'] || 'All';
         
         // Normalize month to yyyy-MM format
         const month = this.normalizeMonth(rawMonth);
         
-        // Parse European number format for targets - support multiple column name variations
-        const revenueTarget = parseEuropeanNumber(
-          r['Rev_target'] || r['Revenue_Target'] || r['revenue_target'] || r['RevenueTarget'] || '0'
-        );
-        const ordersTarget = parseEuropeanNumber(
-          r['Orders_Target'] || r['orders_target'] || r['OrdersTarget'] || '0'
-        );
-        const merTargetRaw = parseEuropeanNumber(
-          r['MER_Target'] || r['mer_target'] || r['MERTarget'] || '0.2'
-        );
+        // Parse European number format for targets
+        const revenueTarget = parseEuropeanNumber(r['Rev_target'] || '0');
+        const ordersTarget = parseEuropeanNumber(r['Orders_Target'] || '0');
+        const merTargetRaw = parseEuropeanNumber(r['MER_Target'] || '0.2');
         
-        // Also capture Ad_budget for potential future use
-        const adBudget = parseEuropeanNumber(r['Ad_budget'] || r['ad_budget'] || '0');
+        const adBudget = parseEuropeanNumber(r['Ad_budget'] || '0');
         
         // MER target might be given as percentage (20) or decimal (0.20)
         const merTarget = merTargetRaw > 1 ? merTargetRaw / 100 : merTargetRaw;
@@ -149,6 +275,7 @@ export class DataHarmonizer {
           revenueTarget,
           ordersTarget,
           merTarget,
+          adBudget,
         });
       } catch (error) {
         console.warn('Failed to parse target row:', row, error);
@@ -167,6 +294,96 @@ export class DataHarmonizer {
     return { success: targets.length, errors };
   }
 
+  /**
+   * Set monthly targets that are already parsed (e.g. from the Postgres warehouse)
+   */
+  setTargets(targets: MonthlyTarget[]): void {
+    this.targets = targets;
+  }
+
+  /**
+   * Set events that are already parsed (e.g. from the Postgres warehouse)
+   */
+  setEvents(events: EventAnnotation[]): void {
+    this.events = events;
+  }
+
+  /**
+   * Set label currencies and FX rates that are already parsed (e.g. from the Postgres warehouse)
+   */
+  setCurrencies(labelCurrencies: Record<string, Currency>, fxRates: FxRate[]): void {
+    this.labelCurrencies = labelCurrencies;
+    this.fxRates = fxRates;
+  }
+
+  /**
+   * Add label currencies from the Currencies tab (Label, Currency)
+   */
+  addLabelCurrencies(rawData: Record<string, string>[]): { success: number; errors: number } {
+    const { currencies, errors } = parseLabelCurrencies(rawData);
+    this.labelCurrencies = { ...this.labelCurrencies, ...currencies };
+
+    if (errors > 0) {
+      this.errors.push(`Currencies: ${errors} rows have an unsupported currency`);
+    }
+
+    return { success: Object.keys(currencies).length, errors };
+  }
+
+  /**
+   * Add FX rates (Date, Currency, Rate per 1 EUR) from the FX_Rates tab or a
+   * file. Later sources win for the same date and currency.
+   */
+  addFxRates(rawData: Record<string, string>[], source: string = 'FX_Rates'): { success: number; errors: number } {
+    const { rates, errors } = parseFxRates(rawData);
+    this.fxRates = mergeFxRates(this.fxRates, rates);
+
+    if (errors > 0) {
+      this.errors.push(`${source}: ${errors} rows failed validation`);
+    }
+
+    return { success: rates.length, errors };
+  }
+
+  /**
+   * Set margin inputs that are already parsed (e.g. from the Postgres warehouse)
+   */
+  setMarginInputs(marginInputs: Record<string, MarginInputs>): void {
+    this.marginInputs = marginInputs;
+  }
+
+  /**
+   * Set weather that is already parsed (e.g. from the Postgres warehouse)
+   */
+  setWeather(weather: WeatherDay[]): void {
+    this.weather = weather;
+  }
+
+  /**
+   * Add weather rows (Date, Country, Temperature, Precipitation), for the
+   * given country when they have no Country column. They win over the
+   * connector's weather for the same date and country.
+   */
+  addWeather(rawData: Record<string, string>[], country?: string, source: string = 'Weather'): { success: number; errors: number } {
+    const { days, errors } = parseWeatherRows(rawData, country);
+    this.weather = mergeWeather(this.weather, days);
+
+    if (errors > 0) {
+      this.errors.push(`${source}: ${errors} rows failed validation`);
+    }
+
+    return { success: days.length, errors };
+  }
+
+  /**
+   * Add margin inputs from the Margins tab (Label, VAT, Return_Rate, COGS, Shipping_Cost)
+   */
+  addMarginInputs(rawData: Record<string, string>[]): { success: number; errors: number } {
+    const inputs = parseMarginInputs(rawData);
+    this.marginInputs = { ...this.marginInputs, ...inputs };
+    return { success: Object.keys(inputs).length, errors: 0 };
+  }
+
   /**
    * Add events from Google Sheet
    * 
@@ -260,18 +477,23 @@ export class DataHarmonizer {
             revenueWeb: 0,
             revenueApp: 0,
             totalRevenue: 0,
+            ordersWeb: 0,
+            ordersApp: 0,
             orders: 0,
             aov: 0,
-            spendFB: 0,
-            spendGoogle: 0,
+            returnedRevenue: 0,
+            returnedOrders: 0,
+            returnRate: 0,
+            funnel: emptyFunnel(),
+            sessions: 0,
+            conversionRate: 0,
+            revenuePerSession: 0,
+            platforms: {},
             totalSpend: 0,
-            clicksFB: 0,
-            clicksGoogle: 0,
             totalClicks: 0,
             mer: 0,
             contributionMargin: 0,
-            roasFB: 0,
-            roasGoogle: 0,
+            ...calculateMargins({ totalRevenue: 0, returnedRevenue: 0, orders: 0, totalSpend: 0 }),
             dayOfWeek: current.getDay(),
             weekOfMonth: Math.ceil((current.getDate() + new Date(current.getFullYear(), current.getMonth(), 1).getDay()) / 7),
             monthDay: current.getDate(),
@@ -285,12 +507,127 @@ export class DataHarmonizer {
     return filledMetrics;
   }
 
+  /**
+   * De-duplicate on date + label. Live data always wins, then uploads, then
+   * archives; within each group the first registered source wins.
+   */
+  private deduplicateSources(): DataSource[] {
+    const seen = new Set(this.liveData.map((m) => `${m.dateString}-${m.label}`));
+    
+    const sources: DataSource[] = [
+      ...this.uploadSources.map((source) => ({
+        type: 'upload' as const,
+        id: source.id,
+        name: source.name,
+        year: source.data.length > 0 ? new Date(source.data[0].date).getFullYear() : new Date().getFullYear(),
+        data: source.data,
+      })),
+      ...this.historicalSources.map((source) => ({ type: 'historical' as const, ...source })),
+      // Legacy historical rows (addHistoricalData) grouped per year
+      ...[...new Set(this.historicalData.map((m) => new Date(m.date).getFullYear()))].map((year) => ({
+        type: 'historical' as const,
+        year,
+        data: this.historicalData.filter((m) => new Date(m.date).getFullYear() === year),
+      })),
+    ];
+    
+    return sources.map((source) => {
+      const kept: DailyMetrics[] = [];
+      
+      for (const m of source.data) {
+        const key = `${m.dateString}-${m.label}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        kept.push(m);
+      }
+      
+      return {
+        ...source,
+        data: kept,
+        duplicatesDropped: source.data.length - kept.length,
+      };
+    });
+  }
+
+  /**
+   * Put the Shopify days on the combined rows. Returns the rows, the days that
+   * came from Shopify and how many of them had different sheet values.
+   */
+  private applyShopDays(metrics: DailyMetrics[]): {
+    metrics: DailyMetrics[];
+    shopMetrics: DailyMetrics[];
+    overrides: number;
+  } {
+    if (this.shopDays.size === 0) return { metrics, shopMetrics: [], overrides: 0 };
+    
+    const shopMetrics: DailyMetrics[] = [];
+    const covered = new Set<string>();
+    let overrides = 0;
+    
+    const merged = metrics.map((m) => {
+      const key = `${m.dateString}|${m.label}`;
+      const shop = this.shopDays.get(key);
+      if (!shop) return m;
+      
+      covered.add(key);
+      const fromShop = toCompatibleMetrics(createTransformedRow(m.date, m.label, { ...shop, platforms: m.platforms, funnel: m.funnel }));
+      // An empty sheet day is not a conflict, just not typed in yet
+      const sheetFilled = m.totalRevenue > 0 || m.orders > 0;
+      if (
+        sheetFilled &&
+        (Math.abs(m.totalRevenue - fromShop.totalRevenue) >= 1 ||
+          m.orders !== fromShop.orders ||
+          Math.abs(m.returnedRevenue - fromShop.returnedRevenue) >= 1)
+      ) {
+        overrides++;
+      }
+      shopMetrics.push(fromShop);
+      return fromShop;
+    });
+    
+    for (const [key, shop] of this.shopDays) {
+      if (covered.has(key)) continue;
+      const [dateString, label] = key.split('|');
+      const date = parseEuropeanDate(dateString);
+      if (!date) continue;
+      const fromShop = toCompatibleMetrics(
+        createTransformedRow(date, label, {
+          ...shop,
+          platforms: this.shopAdPlatforms.get(key) ?? {},
+          funnel: emptyFunnel(),
+        })
+      );
+      shopMetrics.push(fromShop);
+      merged.push(fromShop);
+    }
+    
+    return { metrics: merged, shopMetrics, overrides };
+  }
+
+  /**
+   * Put the GA4 funnel days on the combined rows, channel by channel
+   */
+  private applyFunnelDays(metrics: DailyMetrics[]): DailyMetrics[] {
+    if (this.funnelDays.size === 0) return metrics;
+
+    return metrics.map((m) => {
+      const steps = this.funnelDays.get(`${m.dateString}|${m.label}`);
+      if (!steps) return m;
+
+      const funnel = { ...m.funnel, ...steps };
+      return { ...m, funnel, ...calculateFunnelMetrics(funnel, m) };
+    });
+  }
+
   /**
    * Get harmonized output
    */
   harmonize(fillMissing: boolean = true): HarmonizedData {
-    // Combine all metrics
-    let allMetrics = [...this.historicalData, ...this.liveData];
+    const dedupedSources = this.deduplicateSources();
+    
+    // Combine all metrics, with the Shopify days on top
+    const shop = this.applyShopDays([...dedupedSources.flatMap((s) => s.data), ...this.liveData]);
+    let allMetrics = this.applyFunnelDays(shop.metrics);
     
     // Get unique labels
     const labels = [...new Set(allMetrics.map((m) => m.label))];
@@ -304,16 +641,7 @@ export class DataHarmonizer {
     allMetrics.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
     
     // Build sources metadata
-    const sources: DataSource[] = [];
-    
-    const historicalYears = [...new Set(this.historicalData.map((m) => new Date(m.date).getFullYear()))];
-    for (const year of historicalYears) {
-      sources.push({
-        type: 'historical',
-        year,
-        data: this.historicalData.filter((m) => new Date(m.date).getFullYear() === year),
-      });
-    }
+    const sources: DataSource[] = [...dedupedSources];
     
     if (this.liveData.length > 0) {
       const liveYear = new Date(this.liveData[0].date).getFullYear();
@@ -324,12 +652,27 @@ export class DataHarmonizer {
       });
     }
     
+    if (shop.shopMetrics.length > 0) {
+      sources.push({
+        type: 'connector',
+        year: new Date(shop.shopMetrics[0].date).getFullYear(),
+        name: 'Shopify',
+        data: shop.shopMetrics,
+        overrides: shop.overrides,
+      });
+    }
+    
     return {
       metrics: allMetrics,
       targets: this.targets,
       events: this.events,
+      labelCurrencies: this.labelCurrencies,
+      fxRates: this.fxRates,
+      marginInputs: this.marginInputs,
+      weather: this.weather,
       lastUpdated: new Date(),
       sources,
+      issues: this.issues,
     };
   }
 
@@ -340,15 +683,32 @@ export class DataHarmonizer {
     return this.errors;
   }
 
+  /**
+   * Get row-level data quality issues from all sources
+   */
+  getIssues(): RowIssue[] {
+    return this.issues;
+  }
+
   /**
    * Clear all data
    */
   clear(): void {
     this.historicalData = [];
+    this.historicalSources = [];
+    this.uploadSources = [];
     this.liveData = [];
+    this.shopDays = new Map();
+    this.shopAdPlatforms = new Map();
+    this.funnelDays = new Map();
     this.targets = [];
     this.events = [];
+    this.labelCurrencies = {};
+    this.fxRates = [];
+    this.marginInputs = {};
+    this.weather = [];
     this.errors = [];
+    this.issues = [];
   }
 }
 
@@ -0,0 +1,219 @@
+import type { RowIssue } from '@/types';
+import { parseEuropeanDate, parseEuropeanNumber, type TransformedSheetRow } from './sheetTransformer';
+import { headerSimilarity } from './columnMapping';
+import { getExtraPlatformColumns } from './platforms';
+import { FUNNEL_COLUMNS } from './funnel';
+import { median, medianAbsoluteDeviation, robustZScore } from './statistics';
+
+// ============================================
+// DATA QUALITY CHECKS
+// ============================================
+
+const NUMERIC_COLUMNS = [
+  'Rev_Web',
+  'Rev_App',
+  'Orders',
+  'Orders_App',
+  'Conv_FB',
+  'Conv_Google',
+  'Spend_FB',
+  'Spend_Google',
+  'LastClick_FB',
+  'LastClick_Google',
+  'Returned_Revenue',
+  'Returned_Orders',
+  ...FUNNEL_COLUMNS,
+];
+
+// Outlier checks need enough history per label to be meaningful
+const MIN_ROWS_FOR_OUTLIERS = 14;
+const OUTLIER_Z_THRESHOLD = 6;
+
+// A label used on only a few rows that closely resembles a common label is likely a typo
+const RARE_LABEL_MAX_ROWS = 3;
+const COMMON_LABEL_MIN_ROWS = 10;
+const LABEL_TYPO_SIMILARITY = 0.8;
+
+/**
+ * European numbers may only contain digits, dots, one comma and a leading minus
+ */
+function isNumericCell(value: string | undefined): boolean {
+  if (!value || value.trim() === '') return true;
+  return /^-?[\d.]*(,\d+)?$/.test(value.trim());
+}
+
+/**
+ * Check a single raw row before transformation. Any error-severity issue
+ * means the row should be rejected.
+ */
+export function validateRawRow(rawRow: Record<string, string>, rowNumber: number): RowIssue[] {
+  const issues: RowIssue[] = [];
+  const dateValue = rawRow['Date'] || '';
+
+  if (!parseEuropeanDate(dateValue)) {
+    issues.push({
+      severity: 'error',
+      code: 'invalid_date',
+      rowNumber,
+      column: 'Date',
+      value: dateValue,
+      reason: dateValue.trim() ? 'Date is not in d-m-yyyy format' : 'Date is empty',
+    });
+  }
+
+  if (!rawRow['Label']?.trim()) {
+    issues.push({
+      severity: 'error',
+      code: 'missing_label',
+      rowNumber,
+      column: 'Label',
+      value: '',
+      reason: 'Label is empty',
+    });
+  }
+
+  for (const column of [...NUMERIC_COLUMNS, ...getExtraPlatformColumns(Object.keys(rawRow))]) {
+    const value = rawRow[column];
+    if (!isNumericCell(value)) {
+      issues.push({
+        severity: 'warning',
+        code: 'not_a_number',
+        rowNumber,
+        column,
+        value,
+        reason: 'Not a number, read as 0',
+      });
+    } else if (parseEuropeanNumber(value) < 0) {
+      issues.push({
+        severity: 'error',
+        code: 'negative_value',
+        rowNumber,
+        column,
+        value,
+        reason: 'Negative values are not allowed',
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Cross-row warnings for accepted rows: duplicate date + label, revenue or
+ * spend outliers per label, and labels that look like typos of a common label
+ */
+export function findRowWarnings(rows: { row: TransformedSheetRow; rowNumber: number }[]): RowIssue[] {
+  const issues: RowIssue[] = [];
+
+  // Duplicate date + label
+  const firstSeen = new Map<string, number>();
+  for (const { row, rowNumber } of rows) {
+    const key = `${row.dateString}|${row.brand}`;
+    const first = firstSeen.get(key);
+    if (first === undefined) {
+      firstSeen.set(key, rowNumber);
+    } else {
+      issues.push({
+        severity: 'warning',
+        code: 'duplicate_row',
+        rowNumber,
+        column: 'Date',
+        value: `${row.dateString} ${row.brand}`,
+        reason: `Same date and label as row ${first}; both rows are counted`,
+      });
+    }
+  }
+
+  // Outliers per label
+  const byLabel = new Map<string, { row: TransformedSheetRow; rowNumber: number }[]>();
+  for (const entry of rows) {
+    const entries = byLabel.get(entry.row.brand);
+    if (entries) entries.push(entry);
+    else byLabel.set(entry.row.brand, [entry]);
+  }
+
+  const outlierChecks: { metric: string; column: string; getValue: (row: TransformedSheetRow) => number }[] = [
+    { metric: 'Revenue', column: 'Rev_Web + Rev_App', getValue: (row) => row.totalRevenue },
+    { metric: 'Spend', column: 'Spend_*', getValue: (row) => row.totalSpend },
+  ];
+
+  for (const entries of byLabel.values()) {
+    if (entries.length < MIN_ROWS_FOR_OUTLIERS) continue;
+
+    for (const check of outlierChecks) {
+      const values = entries.map((e) => check.getValue(e.row));
+      const center = median(values);
+      const mad = medianAbsoluteDeviation(values, center);
+
+      for (const { row, rowNumber } of entries) {
+        const z = robustZScore(check.getValue(row), center, mad);
+        if (z > OUTLIER_Z_THRESHOLD) {
+          issues.push({
+            severity: 'warning',
+            code: 'outlier',
+            rowNumber,
+            column: check.column,
+            value: String(Math.round(check.getValue(row))),
+            reason: `${check.metric} is far above the usual level for ${row.brand} (median ${Math.round(center)})`,
+          });
+        }
+      }
+    }
+  }
+
+  // Label typos
+  const labelCounts = [...byLabel.entries()].map(([label, entries]) => ({ label, count: entries.length }));
+  const commonLabels = labelCounts.filter((l) => l.count >= COMMON_LABEL_MIN_ROWS);
+
+  for (const { label, count } of labelCounts) {
+    if (count > RARE_LABEL_MAX_ROWS) continue;
+    const lookalike = commonLabels.find((c) => headerSimilarity(c.label, label) >= LABEL_TYPO_SIMILARITY);
+    if (!lookalike) continue;
+
+    for (const { rowNumber } of byLabel.get(label) || []) {
+      issues.push({
+        severity: 'warning',
+        code: 'label_typo',
+        rowNumber,
+        column: 'Label',
+        value: label,
+        reason: `Unknown label, did you mean "${lookalike.label}"?`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export function escapeCSV(value: string | number): string {
+  const text = String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize issues to CSV for the person maintaining the sheet
+ */
+export function issuesToCSV(issues: RowIssue[]): string {
+  const header = ['Severity', 'Source', 'Row', 'Column', 'Value', 'Issue', 'Reason'];
+  const lines = issues.map((issue) =>
+    [issue.severity, issue.source || '', issue.rowNumber, issue.column, issue.value, issue.code, issue.reason]
+      .map(escapeCSV)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\n');
+}
+
+/**
+ * Sort errors before warnings, then by source and row
+ */
+export function sortIssues(issues: RowIssue[]): RowIssue[] {
+  return [...issues].sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1)
+    || (a.source || '').localeCompare(b.source || '')
+    || a.rowNumber - b.rowNumber
+  );
+}
@@ -0,0 +1,71 @@
+import { readSheet } from 'read-excel-file/browser';
+import { parseCSV } from './dataHarmonizer';
+
+// ============================================
+// FILE IMPORT (CSV / XLSX)
+// ============================================
+
+export interface TabularFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+const XLSX_EXTENSION = /\.xlsx$/i;
+
+/**
+ * Convert an XLSX cell to the European text format the sheet parser expects
+ */
+export function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Excel dates carry no timezone; read-excel-file returns them as UTC midnight
+    return `${value.getUTCDate()}-${value.getUTCMonth() + 1}-${value.getUTCFullYear()}`;
+  }
+  if (typeof value === 'number') return String(value).replace('.', ',');
+  return String(value).trim();
+}
+
+async function readXlsx(file: File): Promise<TabularFile> {
+  const sheet = await readSheet(file);
+  const [headerRow, ...dataRows] = sheet;
+  if (!headerRow) return { headers: [], rows: [] };
+
+  const headers = headerRow.map(cellToString);
+  const rows = dataRows
+    .filter((cells) => cells.some((cell) => cell !== null && cell !== ''))
+    .map((cells) => {
+      const row: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        row[header] = cellToString(cells[index]);
+      });
+      return row;
+    });
+
+  return { headers, rows };
+}
+
+/**
+ * Read CSV text into header-keyed rows
+ */
+export function parseCsvFile(text: string): TabularFile {
+  // GA4 exports start with # comment lines describing the report
+  const rows = parseCSV(
+    text
+      .split(/\r?\n/)
+      .filter((line) => !line.startsWith('#'))
+      .join('\n')
+  );
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  return { headers, rows };
+}
+
+async function readCsv(file: File): Promise<TabularFile> {
+  return parseCsvFile(await file.text());
+}
+
+/**
+ * Read the first sheet of an XLSX file or a CSV file into header-keyed rows
+ */
+export function readTabularFile(file: File): Promise<TabularFile> {
+  return XLSX_EXTENSION.test(file.name) ? readXlsx(file) : readCsv(file);
+}
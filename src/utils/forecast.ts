@@ -0,0 +1,169 @@
+import { addDays, differenceInCalendarDays, endOfMonth, endOfQuarter, format, startOfMonth, startOfQuarter } from 'date-fns';
+import type { DailyMetrics, ForecastPoint, ForecastTotal, RevenueForecast } from '@/types';
+import { alignDateByDayOfWeek } from './analytics';
+import { isEmptyDay } from './anomalies';
+
+// ============================================
+// REVENUE FORECAST
+// ============================================
+
+// Weekday weights come from the last 8 weeks, the level from the last 14 days
+const WEEKDAY_WEEKS = 8;
+const LEVEL_DAYS = 14;
+const MIN_LEVEL_DAYS = 7;
+
+// Prior-year shape is scaled by the YoY growth of the last 4 weeks
+const YOY_DAYS = 28;
+const MIN_PRIOR_YEAR_COVERAGE = 0.8;
+const PRIOR_YEAR_WEIGHT = 0.6;
+
+// No forecast when the newest data is older than this
+const MAX_STALE_DAYS = 14;
+
+// 80% interval; relative daily error never assumed below 5%
+const INTERVAL_Z = 1.28;
+const MIN_RELATIVE_ERROR = 0.05;
+
+function dayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Forecast daily revenue for the rest of the month and quarter of referenceDate.
+ *
+ * Each remaining day blends two estimates:
+ * - recent level (last LEVEL_DAYS, deseasonalised) times the weekday weight
+ * - revenue on the aligned prior-year day (alignDateByDayOfWeek) times recent YoY growth
+ * The prior-year estimate is only used when most recent days have a prior-year match.
+ * Intervals come from the model's relative error over the last YOY_DAYS.
+ *
+ * Pass all history for the selected labels; returns null without recent data.
+ */
+export function forecastRevenue(
+  metrics: DailyMetrics[],
+  referenceDate: Date = new Date()
+): RevenueForecast | null {
+  // Daily revenue across labels; missing days are gaps, not zeros, and so are
+  // the empty rows the harmonizer fills in between days with data
+  const revenueByDay = new Map<string, number>();
+  for (const m of metrics) {
+    if (isEmptyDay(m)) continue;
+    revenueByDay.set(m.dateString, (revenueByDay.get(m.dateString) || 0) + m.totalRevenue);
+  }
+
+  return forecastDailyRevenue(revenueByDay, referenceDate);
+}
+
+/**
+ * forecastRevenue from revenue per yyyy-MM-dd day, for callers without
+ * DailyMetrics (the alert evaluator). Leave days without data out of the map.
+ */
+export function forecastDailyRevenue(
+  revenueByDay: Map<string, number>,
+  referenceDate: Date = new Date()
+): RevenueForecast | null {
+  const referenceKey = dayKey(referenceDate);
+  const actualKeys = [...revenueByDay.keys()].filter((k) => k <= referenceKey).sort();
+  if (actualKeys.length === 0) return null;
+
+  const lastActualKey = actualKeys[actualKeys.length - 1];
+  const lastActualDate = new Date(`${lastActualKey}T00:00:00`);
+  if (differenceInCalendarDays(referenceDate, lastActualDate) > MAX_STALE_DAYS) return null;
+
+  // Recent days with data, newest first
+  const recentDays = (days: number) => {
+    const result: { date: Date; revenue: number }[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = addDays(lastActualDate, -i);
+      const revenue = revenueByDay.get(dayKey(date));
+      if (revenue !== undefined) result.push({ date, revenue });
+    }
+    return result;
+  };
+
+  // Weekday weights relative to the average weekday
+  const byWeekday: number[][] = Array.from({ length: 7 }, () => []);
+  for (const { date, revenue } of recentDays(WEEKDAY_WEEKS * 7)) {
+    byWeekday[date.getDay()].push(revenue);
+  }
+  const weekdayMeans = byWeekday.map((values) => (values.length > 0 ? mean(values) : null));
+  const overallMean = mean(weekdayMeans.filter((v): v is number => v !== null));
+  const weekdayWeight = weekdayMeans.map((v) =>
+    v !== null && overallMean > 0 && v > 0 ? v / overallMean : 1
+  );
+
+  // Recent level with the weekday pattern removed
+  const levelDays = recentDays(LEVEL_DAYS);
+  if (levelDays.length < MIN_LEVEL_DAYS) return null;
+  const level = mean(levelDays.map(({ date, revenue }) => revenue / weekdayWeight[date.getDay()]));
+
+  // Prior-year shape and recent YoY growth
+  const priorYearRevenue = (date: Date) => revenueByDay.get(dayKey(alignDateByDayOfWeek(date)));
+  const yoyDays = recentDays(YOY_DAYS);
+  const matched = yoyDays
+    .map(({ date, revenue }) => ({ revenue, priorYear: priorYearRevenue(date) }))
+    .filter((d): d is { revenue: number; priorYear: number } => d.priorYear !== undefined);
+  const priorYearTotal = matched.reduce((sum, d) => sum + d.priorYear, 0);
+  const usesPriorYear = matched.length >= yoyDays.length * MIN_PRIOR_YEAR_COVERAGE && priorYearTotal > 0;
+  const yoyGrowth = usesPriorYear ? matched.reduce((sum, d) => sum + d.revenue, 0) / priorYearTotal : 1;
+
+  const estimate = (date: Date): number => {
+    const weekdayBased = level * weekdayWeight[date.getDay()];
+    const priorYear = usesPriorYear ? priorYearRevenue(date) : undefined;
+    if (priorYear === undefined) return weekdayBased;
+    return PRIOR_YEAR_WEIGHT * priorYear * yoyGrowth + (1 - PRIOR_YEAR_WEIGHT) * weekdayBased;
+  };
+
+  // Relative error of the model on recent actuals
+  const errors = yoyDays
+    .map(({ date, revenue }) => ({ revenue, fitted: estimate(date) }))
+    .filter((d) => d.fitted > 0)
+    .map((d) => (d.revenue - d.fitted) / d.fitted);
+  const relativeError = Math.max(Math.sqrt(mean(errors.map((e) => e * e))), MIN_RELATIVE_ERROR);
+
+  // Remaining days of the quarter
+  const quarterEnd = endOfQuarter(referenceDate);
+  const points: ForecastPoint[] = [];
+  for (let date = addDays(lastActualDate, 1); date <= quarterEnd; date = addDays(date, 1)) {
+    const expected = Math.max(estimate(date), 0);
+    const halfWidth = INTERVAL_Z * relativeError * expected;
+    points.push({
+      date,
+      dateString: dayKey(date),
+      expected,
+      lower: Math.max(expected - halfWidth, 0),
+      upper: expected + halfWidth,
+    });
+  }
+
+  // Daily errors are treated as independent, plus a shared error in the level itself
+  const total = (start: Date, end: Date): ForecastTotal => {
+    const startKey = dayKey(start);
+    const actual = actualKeys
+      .filter((k) => k >= startKey)
+      .reduce((sum, k) => sum + (revenueByDay.get(k) || 0), 0);
+    const remaining = points.filter((p) => p.date >= start && p.date <= end);
+    const expected = remaining.reduce((sum, p) => sum + p.expected, 0);
+    const dailyVariance = remaining.reduce((sum, p) => sum + (relativeError * p.expected) ** 2, 0);
+    const levelVariance = (relativeError / Math.sqrt(levelDays.length) * expected) ** 2;
+    const halfWidth = INTERVAL_Z * Math.sqrt(dailyVariance + levelVariance);
+    return {
+      actual,
+      expected: actual + expected,
+      lower: actual + Math.max(expected - halfWidth, 0),
+      upper: actual + expected + halfWidth,
+    };
+  };
+
+  return {
+    lastActualDate,
+    points,
+    month: total(startOfMonth(referenceDate), endOfMonth(referenceDate)),
+    quarter: total(startOfQuarter(referenceDate), quarterEnd),
+    usesPriorYear,
+  };
+}
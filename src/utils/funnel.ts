@@ -0,0 +1,281 @@
+import { CHANNELS, type Channel, type DailyMetrics, type FunnelSteps } from '@/types';
+
+// ============================================
+// WEB ANALYTICS FUNNEL
+// Sessions, add-to-carts and checkouts per day, label and channel, from the
+// optional Sessions_ / AddToCart_ / Checkouts_ columns or a GA4 export
+// ============================================
+
+export const FUNNEL_STEPS = ['sessions', 'addToCarts', 'checkouts', 'orders'] as const;
+export type FunnelStep = typeof FUNNEL_STEPS[number];
+
+// Sheet columns per step, suffixed with _Web / _App
+const FUNNEL_COLUMN_PREFIXES: Record<keyof FunnelSteps, string> = {
+  sessions: 'Sessions',
+  addToCarts: 'AddToCart',
+  checkouts: 'Checkouts',
+};
+
+const CHANNEL_SUFFIXES: Record<Channel, string> = { web: 'Web', app: 'App' };
+
+/**
+ * The funnel sheet columns, e.g. Sessions_Web and Checkouts_App
+ */
+export const FUNNEL_COLUMNS = Object.values(FUNNEL_COLUMN_PREFIXES).flatMap((prefix) =>
+  CHANNELS.map((channel) => `${prefix}_${CHANNEL_SUFFIXES[channel]}`)
+);
+
+export function emptyFunnel(): Record<Channel, FunnelSteps> {
+  return {
+    web: { sessions: 0, addToCarts: 0, checkouts: 0 },
+    app: { sessions: 0, addToCarts: 0, checkouts: 0 },
+  };
+}
+
+/**
+ * Read the funnel columns of a row, 0 for missing ones
+ */
+export function readFunnelColumns(
+  row: Record<string, unknown>,
+  parseNumber: (value: string | undefined) => number
+): Record<Channel, FunnelSteps> {
+  const funnel = emptyFunnel();
+  for (const channel of CHANNELS) {
+    for (const [step, prefix] of Object.entries(FUNNEL_COLUMN_PREFIXES) as [keyof FunnelSteps, string][]) {
+      const value = row[`${prefix}_${CHANNEL_SUFFIXES[channel]}`];
+      funnel[channel][step] = Math.round(parseNumber(value === undefined ? undefined : String(value)));
+    }
+  }
+  return funnel;
+}
+
+export function addFunnels(a: Record<Channel, FunnelSteps>, b: Record<Channel, FunnelSteps>): Record<Channel, FunnelSteps> {
+  const sum = emptyFunnel();
+  for (const channel of CHANNELS) {
+    sum[channel] = {
+      sessions: a[channel].sessions + b[channel].sessions,
+      addToCarts: a[channel].addToCarts + b[channel].addToCarts,
+      checkouts: a[channel].checkouts + b[channel].checkouts,
+    };
+  }
+  return sum;
+}
+
+export type ChannelSales = Pick<DailyMetrics, 'revenueWeb' | 'revenueApp' | 'ordersWeb' | 'ordersApp'>;
+
+export type FunnelMetrics = Pick<DailyMetrics, 'sessions' | 'conversionRate' | 'revenuePerSession'>;
+
+const CHANNEL_SALES: Record<Channel, { revenue: keyof ChannelSales; orders: keyof ChannelSales }> = {
+  web: { revenue: 'revenueWeb', orders: 'ordersWeb' },
+  app: { revenue: 'revenueApp', orders: 'ordersApp' },
+};
+
+/**
+ * A day's orders and revenue of the channels that have sessions. A channel's
+ * orders are only set against its own sessions: a GA4 export without app
+ * sessions must not turn app orders into web conversions.
+ */
+function trackedSales(funnel: Record<Channel, FunnelSteps>, sales: ChannelSales): { orders: number; revenue: number } {
+  const tracked = CHANNELS.filter((channel) => funnel[channel].sessions > 0);
+  return {
+    orders: tracked.reduce((sum, channel) => sum + sales[CHANNEL_SALES[channel].orders], 0),
+    revenue: tracked.reduce((sum, channel) => sum + sales[CHANNEL_SALES[channel].revenue], 0),
+  };
+}
+
+/**
+ * Sessions and the ratios on them, for a day's funnel and sales per channel
+ */
+export function calculateFunnelMetrics(funnel: Record<Channel, FunnelSteps>, sales: ChannelSales): FunnelMetrics {
+  const sessions = CHANNELS.reduce((sum, channel) => sum + funnel[channel].sessions, 0);
+  const { orders, revenue } = trackedSales(funnel, sales);
+  return {
+    sessions,
+    conversionRate: sessions > 0 ? orders / sessions : 0,
+    revenuePerSession: sessions > 0 ? revenue / sessions : 0,
+  };
+}
+
+/**
+ * Orders set against sessions on a row, from its ratios (see calculateFunnelMetrics)
+ */
+function convertedOrders(m: FunnelMetrics): number {
+  return m.conversionRate * m.sessions;
+}
+
+/**
+ * Sessions and the ratios on them over several rows (days or labels). Uses
+ * each row's ratios, so channels stay paired per label and day also after
+ * aggregateByDate.
+ */
+export function summarizeFunnel(metrics: FunnelMetrics[]): FunnelMetrics {
+  let sessions = 0;
+  let orders = 0;
+  let revenue = 0;
+  for (const m of metrics) {
+    sessions += m.sessions;
+    orders += convertedOrders(m);
+    revenue += m.revenuePerSession * m.sessions;
+  }
+  return {
+    sessions,
+    conversionRate: sessions > 0 ? orders / sessions : 0,
+    revenuePerSession: sessions > 0 ? revenue / sessions : 0,
+  };
+}
+
+// ============================================
+// PERIOD COMPARISON
+// ============================================
+
+export interface FunnelStepComparison {
+  step: FunnelStep;
+  current: number;
+  previous: number;
+  change: number | null; // Percent, null without a previous value
+  // Share of the previous step that reached this one; null for sessions
+  currentRate: number | null;
+  previousRate: number | null;
+}
+
+function sumSteps(metrics: DailyMetrics[]): Record<FunnelStep, number> {
+  const totals: Record<FunnelStep, number> = { sessions: 0, addToCarts: 0, checkouts: 0, orders: 0 };
+  for (const m of metrics) {
+    for (const channel of CHANNELS) {
+      totals.sessions += m.funnel[channel].sessions;
+      totals.addToCarts += m.funnel[channel].addToCarts;
+      totals.checkouts += m.funnel[channel].checkouts;
+    }
+    totals.orders += convertedOrders(m);
+  }
+  return totals;
+}
+
+/**
+ * Each funnel step summed over two periods, with the step-to-step rates
+ */
+export function compareFunnels(current: DailyMetrics[], previous: DailyMetrics[]): FunnelStepComparison[] {
+  const now = sumSteps(current);
+  const before = sumSteps(previous);
+
+  return FUNNEL_STEPS.map((step, index) => {
+    const prior = index > 0 ? FUNNEL_STEPS[index - 1] : null;
+    return {
+      step,
+      current: now[step],
+      previous: before[step],
+      change: before[step] > 0 ? ((now[step] - before[step]) / before[step]) * 100 : null,
+      currentRate: prior ? (now[prior] > 0 ? now[step] / now[prior] : 0) : null,
+      previousRate: prior ? (before[prior] > 0 ? before[step] / before[prior] : 0) : null,
+    };
+  });
+}
+
+// ============================================
+// GA4 EXPORT
+// ============================================
+
+/**
+ * A day of a label's channel from a GA4 export
+ */
+export interface FunnelRow {
+  dateString: string; // yyyy-MM-dd
+  label: string;
+  channel: Channel;
+  steps: FunnelSteps;
+}
+
+// Header names as GA4 (English or Dutch) or the sheet write them, lower-cased
+// with underscores and dashes as spaces
+const GA4_HEADERS = {
+  date: ['date', 'datum', 'day'],
+  label: ['label'],
+  channel: ['platform', 'channel', 'kanaal'],
+  sessions: ['sessions', 'sessies'],
+  addToCarts: ['add to carts', 'addtocarts', 'addtocart', 'add to cart', 'toevoegingen aan winkelwagen'],
+  checkouts: ['checkouts', 'begin checkout', 'checkout'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * GA4 writes dates as 20261004; files saved from a spreadsheet use the sheet
+ * format (4-10-2026) or ISO dates. Parsed here rather than with
+ * parseEuropeanDate, as the sheet transformer imports this module.
+ */
+function parseGa4Date(value: string | undefined): string | null {
+  const trimmed = (value ?? '').trim();
+  const iso = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(trimmed);
+  const sheet = /^(\d{1,2})[-./](\d{1,2})[-./](\d{4})$/.exec(trimmed);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : sheet
+      ? [sheet[3], sheet[2].padStart(2, '0'), sheet[1].padStart(2, '0')]
+      : [];
+  if (!year || Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * GA4's platform dimension is web, iOS or Android
+ */
+function parseChannel(value: string | undefined): Channel | null {
+  const normalized = (value ?? '').trim().toLowerCase();
+  if (normalized === 'web') return 'web';
+  if (['app', 'ios', 'android'].includes(normalized)) return 'app';
+  return null;
+}
+
+/**
+ * Counts are whole numbers, so thousands separators of either style are dropped
+ */
+function parseCount(value: string | undefined): number {
+  return Number((value ?? '').replace(/[^\d]/g, '')) || 0;
+}
+
+/**
+ * Read a GA4 export (Date, optionally Platform, Sessions, Add to carts,
+ * Checkouts) for a label, summed per day and channel. Without a platform
+ * column everything counts as web; a Label column wins over the given label.
+ * Rows without a valid date, such as GA4's totals row, are counted as errors.
+ */
+export function parseGa4Export(rows: Record<string, string>[], label: string): { rows: FunnelRow[]; errors: number } {
+  if (rows.length === 0) return { rows: [], errors: 0 };
+
+  const headerFor = (aliases: string[]) =>
+    Object.keys(rows[0]).find((header) => aliases.includes(normalizeHeader(header)));
+  const columns = Object.fromEntries(
+    Object.entries(GA4_HEADERS).map(([key, aliases]) => [key, headerFor(aliases)])
+  ) as Record<keyof typeof GA4_HEADERS, string | undefined>;
+  if (!columns.date || !columns.sessions) return { rows: [], errors: rows.length };
+
+  const byKey = new Map<string, FunnelRow>();
+  let errors = 0;
+
+  for (const row of rows) {
+    const dateString = parseGa4Date(row[columns.date]);
+    const channel = columns.channel ? parseChannel(row[columns.channel]) : 'web';
+    const rowLabel = (columns.label && row[columns.label]?.trim()) || label;
+    if (!dateString || !channel) {
+      errors++;
+      continue;
+    }
+
+    const key = `${dateString}|${rowLabel}|${channel}`;
+    const existing = byKey.get(key)?.steps ?? { sessions: 0, addToCarts: 0, checkouts: 0 };
+    byKey.set(key, {
+      dateString,
+      label: rowLabel,
+      channel,
+      steps: {
+        sessions: existing.sessions + parseCount(row[columns.sessions]),
+        addToCarts: existing.addToCarts + (columns.addToCarts ? parseCount(row[columns.addToCarts]) : 0),
+        checkouts: existing.checkouts + (columns.checkouts ? parseCount(row[columns.checkouts]) : 0),
+      },
+    });
+  }
+
+  return { rows: [...byKey.values()], errors };
+}
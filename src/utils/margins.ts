@@ -0,0 +1,108 @@
+import type { DailyMetrics, MarginInputs } from '@/types';
+
+// ============================================
+// MARGINS (VAT, RETURNS, COGS, SHIPPING)
+// ============================================
+
+// Without inputs net revenue and gross margin equal revenue
+export const NO_MARGIN_INPUTS: MarginInputs = {
+  vatRate: 0,
+  returnRate: 0,
+  cogsRate: 0,
+  shippingCost: 0,
+};
+
+export type MarginBasis = Pick<DailyMetrics, 'totalRevenue' | 'returnedRevenue' | 'orders' | 'totalSpend'>;
+
+export type MarginMetrics = Pick<
+  DailyMetrics,
+  'netRevenue' | 'grossMargin' | 'shippingCosts' | 'contributionMarginAfterCogs' | 'poas'
+>;
+
+/**
+ * Margin metrics for one day of one label
+ * - Net revenue: revenue excl. VAT, minus the returns. Reported returns are
+ *   used when the day has them, otherwise the estimated return rate
+ * - Gross margin: net revenue minus cost of goods
+ * - Contribution margin after COGS: gross margin minus shipping and ad spend
+ * - POAS: gross margin after shipping per unit of ad spend
+ */
+export function calculateMargins(
+  { totalRevenue, returnedRevenue, orders, totalSpend }: MarginBasis,
+  inputs: MarginInputs = NO_MARGIN_INPUTS
+): MarginMetrics {
+  const keptRevenue = returnedRevenue > 0 ? totalRevenue - returnedRevenue : totalRevenue * (1 - inputs.returnRate);
+  const netRevenue = keptRevenue / (1 + inputs.vatRate);
+  const grossMargin = netRevenue * (1 - inputs.cogsRate);
+  const shippingCosts = orders * inputs.shippingCost;
+
+  return {
+    netRevenue,
+    grossMargin,
+    shippingCosts,
+    contributionMarginAfterCogs: grossMargin - shippingCosts - totalSpend,
+    poas: totalSpend > 0 ? (grossMargin - shippingCosts) / totalSpend : 0,
+  };
+}
+
+/**
+ * Recalculate the margin metrics with each label's inputs. Labels without
+ * inputs keep the defaults (no VAT, returns, COGS or shipping).
+ */
+export function applyMargins(metrics: DailyMetrics[], inputs: Record<string, MarginInputs>): DailyMetrics[] {
+  if (Object.keys(inputs).length === 0) return metrics;
+
+  return metrics.map((m) => {
+    const labelInputs = inputs[m.label];
+    if (!labelInputs) return m;
+    return { ...m, ...calculateMargins(m, labelInputs) };
+  });
+}
+
+/**
+ * Sheet inputs with the overrides from the settings on top, per field
+ */
+export function resolveMarginInputs(
+  sheetInputs: Record<string, MarginInputs>,
+  overrides: Record<string, Partial<MarginInputs>>
+): Record<string, MarginInputs> {
+  const resolved: Record<string, MarginInputs> = { ...sheetInputs };
+  for (const [label, override] of Object.entries(overrides)) {
+    resolved[label] = { ...NO_MARGIN_INPUTS, ...sheetInputs[label], ...override };
+  }
+  return resolved;
+}
+
+/**
+ * Read a rate that may be written as a fraction (0,21) or a percentage (21,
+ * 21% or 0,5%). With a % sign it is always a percentage; a bare number above
+ * 1 is taken as one.
+ */
+function parseRate(value: string | undefined): number {
+  const trimmed = (value ?? '').trim();
+  const isPercentage = trimmed.endsWith('%');
+  const parsed = Number(trimmed.replace('%', '').trim().replace(',', '.'));
+  if (!trimmed || !Number.isFinite(parsed) || parsed < 0) return 0;
+  return isPercentage || parsed > 1 ? parsed / 100 : parsed;
+}
+
+/**
+ * Parse Margins rows (Label, VAT, Return_Rate, COGS, Shipping_Cost)
+ */
+export function parseMarginInputs(rows: Record<string, string>[]): Record<string, MarginInputs> {
+  const inputs: Record<string, MarginInputs> = {};
+
+  for (const row of rows) {
+    const label = (row['Label'] || row['label'] || '').trim();
+    if (!label) continue;
+    const shippingCost = Number((row['Shipping_Cost'] || row['shipping_cost'] || '').trim().replace(',', '.'));
+    inputs[label] = {
+      vatRate: parseRate(row['VAT'] || row['Vat_Rate'] || row['vat_rate']),
+      returnRate: parseRate(row['Return_Rate'] || row['return_rate']),
+      cogsRate: parseRate(row['COGS'] || row['Cogs_Rate'] || row['cogs_rate']),
+      shippingCost: Number.isFinite(shippingCost) && shippingCost > 0 ? shippingCost : 0,
+    };
+  }
+
+  return inputs;
+}
@@ -0,0 +1,32 @@
+// ============================================
+// PAGED READS
+// Shared by the dashboard warehouse reader and the edge functions
+// ============================================
+
+// PostgREST caps responses at 1000 rows, so larger tables are read in pages
+export const PAGE_SIZE = 1000;
+
+export interface PageResult<T> {
+  data: T[] | null;
+  error: unknown;
+}
+
+/**
+ * Read every row of a query, a page at a time. `page` builds the query for
+ * rows `from` to `to` (inclusive) and must order it by a unique key: offset
+ * pages of a query without one can repeat or skip rows at the page edges.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
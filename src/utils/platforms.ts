@@ -0,0 +1,274 @@
+import type { Platform, PlatformDayMetrics, PlatformInputs } from '@/types';
+
+// ============================================
+// AD PLATFORMS
+// ============================================
+
+/**
+ * Platforms with their own sheet and warehouse columns (Spend_FB,
+ * spend_google, ...). Every row has them, with zeros when the columns are empty.
+ */
+export const CORE_PLATFORMS: Platform[] = ['facebook', 'google'];
+
+export interface PlatformMeta {
+  name: string;
+  shortName: string;
+  description: string;
+  color: string; // CSS colour for charts and accents
+  columnKey: string; // Suffix of the sheet columns, e.g. Spend_<columnKey>
+}
+
+export const PLATFORM_META: Record<Platform, PlatformMeta> = {
+  facebook: {
+    name: 'Meta Ads',
+    shortName: 'Facebook',
+    description: 'Facebook & Instagram',
+    color: 'hsl(var(--facebook))',
+    columnKey: 'FB',
+  },
+  google: {
+    name: 'Google Ads',
+    shortName: 'Google',
+    description: 'Search & Shopping',
+    color: 'hsl(var(--google))',
+    columnKey: 'Google',
+  },
+  tiktok: {
+    name: 'TikTok Ads',
+    shortName: 'TikTok',
+    description: 'In-feed & Spark Ads',
+    color: 'hsl(var(--tiktok))',
+    columnKey: 'TikTok',
+  },
+  pinterest: {
+    name: 'Pinterest Ads',
+    shortName: 'Pinterest',
+    description: 'Promoted & Shopping Pins',
+    color: 'hsl(var(--pinterest))',
+    columnKey: 'Pinterest',
+  },
+  microsoft: {
+    name: 'Microsoft Ads',
+    shortName: 'Microsoft',
+    description: 'Bing Search & Shopping',
+    color: 'hsl(var(--microsoft))',
+    columnKey: 'Microsoft',
+  },
+};
+
+// Other names for a platform in column suffixes, normalized
+const PLATFORM_ALIASES: Record<string, Platform> = {
+  fb: 'facebook',
+  meta: 'facebook',
+  googleads: 'google',
+  bing: 'microsoft',
+  msads: 'microsoft',
+  microsoftads: 'microsoft',
+};
+
+// Platforms without metadata get one of these, picked by id
+const FALLBACK_COLORS = [
+  'hsl(var(--web-channel))',
+  'hsl(var(--app-channel))',
+  'hsl(var(--profit))',
+  'hsl(var(--warning))',
+  'hsl(var(--revenue))',
+];
+
+// A Spend_ or Conv_ column makes a platform known
+const PLATFORM_COLUMN = /^(?:Spend|Conv)_(.+)$/;
+
+/**
+ * Platform id for a column suffix: FB and Meta are 'facebook', Bing is
+ * 'microsoft'; unknown suffixes are lowercased
+ */
+export function platformFromColumnKey(key: string): Platform {
+  const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return PLATFORM_ALIASES[normalized] ?? normalized;
+}
+
+export function getPlatformMeta(platform: Platform): PlatformMeta {
+  const known = PLATFORM_META[platform];
+  if (known) return known;
+
+  const name = platform.charAt(0).toUpperCase() + platform.slice(1);
+  const hash = [...platform].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return {
+    name: `${name} Ads`,
+    shortName: name,
+    description: name,
+    color: FALLBACK_COLORS[hash % FALLBACK_COLORS.length],
+    columnKey: name,
+  };
+}
+
+/**
+ * Known platforms first in a fixed order, then the others alphabetically
+ */
+export function sortPlatforms(platforms: Iterable<Platform>): Platform[] {
+  const known = Object.keys(PLATFORM_META);
+  const rank = (p: Platform) => (known.includes(p) ? known.indexOf(p) : known.length);
+  return [...new Set(platforms)].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+// ============================================
+// SHEET COLUMNS
+// ============================================
+
+/**
+ * The column suffix of each platform in the headers, core platforms always
+ * included. The first header wins when two suffixes name the same platform.
+ */
+export function findPlatformColumns(headers: string[]): Map<Platform, string> {
+  const found = new Map(CORE_PLATFORMS.map((p) => [p, PLATFORM_META[p].columnKey]));
+
+  for (const header of headers) {
+    const match = PLATFORM_COLUMN.exec(header);
+    if (!match) continue;
+    const platform = platformFromColumnKey(match[1]);
+    if (!found.has(platform)) found.set(platform, match[1]);
+  }
+  return found;
+}
+
+/**
+ * Sheet columns of the platforms beyond the core ones that are present in the
+ * headers, e.g. Spend_TikTok and Conv_TikTok
+ */
+export function getExtraPlatformColumns(headers: string[]): string[] {
+  const columns: string[] = [];
+  for (const [platform, key] of findPlatformColumns(headers)) {
+    if (CORE_PLATFORMS.includes(platform)) continue;
+    columns.push(
+      ...[`Spend_${key}`, `Conv_${key}`, `Clicks_${key}`, `LastClick_${key}`].filter((c) => headers.includes(c))
+    );
+  }
+  return columns;
+}
+
+/**
+ * Read every platform's columns from a row
+ */
+export function readPlatformColumns<T>(
+  row: Record<string, T>,
+  parse: (value: T | undefined) => number
+): Record<Platform, PlatformInputs> {
+  const platforms: Record<Platform, PlatformInputs> = {};
+
+  for (const [platform, key] of findPlatformColumns(Object.keys(row))) {
+    platforms[platform] = {
+      spend: parse(row[`Spend_${key}`]),
+      clicks: parse(row[`Clicks_${key}`]),
+      conversions: parse(row[`Conv_${key}`]),
+      lastClickRevenue: parse(row[`LastClick_${key}`]),
+    };
+  }
+  return platforms;
+}
+
+// ============================================
+// WAREHOUSE COLUMNS
+// ============================================
+
+// Platforms beyond the core ones are stored in daily_metrics.platforms
+export type WarehousePlatforms = Record<Platform, { spend: number; conversions: number; last_click: number }>;
+
+export interface WarehousePlatformColumns {
+  conv_fb: number;
+  conv_google: number;
+  spend_fb: number;
+  spend_google: number;
+  last_click_fb: number;
+  last_click_google: number;
+  platforms: unknown; // WarehousePlatforms as jsonb
+}
+
+/**
+ * Platform inputs of a daily_metrics row. The warehouse has no clicks; sheet
+ * rows use conversions for them anyway.
+ */
+export function platformsFromWarehouse(row: WarehousePlatformColumns): Record<Platform, PlatformInputs> {
+  const platforms: Record<Platform, PlatformInputs> = {
+    facebook: {
+      spend: Number(row.spend_fb),
+      clicks: 0,
+      conversions: Number(row.conv_fb),
+      lastClickRevenue: Number(row.last_click_fb),
+    },
+    google: {
+      spend: Number(row.spend_google),
+      clicks: 0,
+      conversions: Number(row.conv_google),
+      lastClickRevenue: Number(row.last_click_google),
+    },
+  };
+
+  const extra = (row.platforms && typeof row.platforms === 'object' ? row.platforms : {}) as WarehousePlatforms;
+  for (const [platform, values] of Object.entries(extra)) {
+    if (CORE_PLATFORMS.includes(platform)) continue;
+    platforms[platform] = {
+      spend: Number(values?.spend) || 0,
+      clicks: 0,
+      conversions: Number(values?.conversions) || 0,
+      lastClickRevenue: Number(values?.last_click) || 0,
+    };
+  }
+  return platforms;
+}
+
+/**
+ * The platforms beyond the core ones, for daily_metrics.platforms
+ */
+export function platformsToWarehouse(platforms: Record<Platform, PlatformInputs>): WarehousePlatforms {
+  const extra: WarehousePlatforms = {};
+  for (const platform of sortPlatforms(Object.keys(platforms))) {
+    if (CORE_PLATFORMS.includes(platform)) continue;
+    const values = platforms[platform];
+    extra[platform] = { spend: values.spend, conversions: values.conversions, last_click: values.lastClickRevenue };
+  }
+  return extra;
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+/**
+ * Add up the platforms of two rows; ROAS is recomputed from the sums
+ */
+export function mergePlatformMetrics(
+  a: Record<Platform, PlatformDayMetrics>,
+  b: Record<Platform, PlatformDayMetrics>
+): Record<Platform, PlatformDayMetrics> {
+  const merged: Record<Platform, PlatformDayMetrics> = { ...a };
+
+  for (const [platform, p] of Object.entries(b)) {
+    const existing = merged[platform];
+    if (!existing) {
+      merged[platform] = p;
+      continue;
+    }
+    const spend = existing.spend + p.spend;
+    const attributedRevenue = existing.attributedRevenue + p.attributedRevenue;
+    merged[platform] = {
+      spend,
+      clicks: existing.clicks + p.clicks,
+      conversions: existing.conversions + p.conversions,
+      lastClickRevenue: existing.lastClickRevenue + p.lastClickRevenue,
+      attributedRevenue,
+      roas: spend > 0 ? attributedRevenue / spend : 0,
+    };
+  }
+  return merged;
+}
+
+/**
+ * Every platform that appears in the metrics, in display order
+ */
+export function getPlatformsInData(metrics: { platforms: Record<Platform, unknown> }[]): Platform[] {
+  const platforms = new Set<Platform>(CORE_PLATFORMS);
+  for (const m of metrics) {
+    for (const platform of Object.keys(m.platforms)) platforms.add(platform);
+  }
+  return sortPlatforms(platforms);
+}
@@ -0,0 +1,104 @@
+import type { ReportPeriod, ReportSchedule, ReportScheduleInput } from '@/types';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+
+// ============================================
+// REPORT SCHEDULES (Supabase)
+// ============================================
+
+export interface SendReportResult {
+  sent: number;
+  failed: number;
+}
+
+function rowToReportSchedule(row: Tables<'report_schedules'>): ReportSchedule {
+  return {
+    id: row.id,
+    name: row.name,
+    period: row.period as ReportPeriod,
+    language: row.language as ReportSchedule['language'],
+    recipients: row.recipients,
+    labels: row.labels,
+    enabled: row.enabled,
+    lastSentAt: row.last_sent_at ? new Date(row.last_sent_at) : null,
+    lastError: row.last_error,
+  };
+}
+
+function reportScheduleToRow(schedule: ReportScheduleInput): TablesInsert<'report_schedules'> {
+  return {
+    name: schedule.name,
+    period: schedule.period,
+    language: schedule.language,
+    recipients: schedule.recipients,
+    labels: schedule.labels,
+    enabled: schedule.enabled,
+  };
+}
+
+export async function fetchReportSchedules(): Promise<ReportSchedule[]> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(rowToReportSchedule);
+}
+
+/**
+ * Create a schedule, or update it when an id is given
+ */
+export async function saveReportSchedule(schedule: ReportScheduleInput, id?: string): Promise<void> {
+  const row = reportScheduleToRow(schedule);
+  const { error } = id
+    ? await supabase
+        .from('report_schedules')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : await supabase.from('report_schedules').insert(row);
+
+  if (error) throw error;
+}
+
+export async function setReportScheduleEnabled(id: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('report_schedules')
+    .update({ enabled, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteReportSchedule(id: string): Promise<void> {
+  const { error } = await supabase.from('report_schedules').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Render and email one schedule's report now, for the last complete period
+ */
+export async function sendReportNow(scheduleId: string): Promise<SendReportResult> {
+  const { data, error } = await supabase.functions.invoke('send-report', {
+    body: { scheduleId },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as SendReportResult;
+}
+
+/**
+ * Render one schedule's report without emailing it
+ */
+export async function fetchReportPreview(scheduleId: string): Promise<Blob> {
+  const { data, error } = await supabase.functions.invoke('send-report', {
+    body: { scheduleId, preview: true },
+  });
+
+  if (error) throw error;
+  if (!(data instanceof Blob)) throw new Error(data?.error ?? 'Unexpected response');
+
+  return new Blob([data], { type: 'application/pdf' });
+}
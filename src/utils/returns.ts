@@ -0,0 +1,78 @@
+import type { DailyMetrics, LabelReturns, Platform, PlatformReturns } from '@/types';
+import { sortPlatforms } from './platforms';
+
+// ============================================
+// RETURNS & REFUNDS
+// ============================================
+
+/**
+ * Share of a day's revenue that was returned. Returns are booked on the day
+ * of the refund, so a quiet day can return more than it sold; capped at 1.
+ */
+function returnedShare(m: DailyMetrics): number {
+  if (m.totalRevenue <= 0) return 0;
+  return Math.min(m.returnedRevenue / m.totalRevenue, 1);
+}
+
+/**
+ * ROAS per platform with spend or attributed revenue, before (gross) and
+ * after (net) returns. Returns aren't reported per platform, so each day's attributed
+ * revenue loses the share of that day's revenue that was returned.
+ */
+export function calculatePlatformReturns(metrics: DailyMetrics[]): PlatformReturns[] {
+  const totals = new Map<Platform, { spend: number; gross: number; net: number }>();
+
+  for (const m of metrics) {
+    const kept = 1 - returnedShare(m);
+    for (const [platform, p] of Object.entries(m.platforms)) {
+      const acc = totals.get(platform) ?? { spend: 0, gross: 0, net: 0 };
+      acc.spend += p.spend;
+      acc.gross += p.attributedRevenue;
+      acc.net += p.attributedRevenue * kept;
+      totals.set(platform, acc);
+    }
+  }
+
+  return sortPlatforms(totals.keys())
+    .map((platform) => ({ platform, ...totals.get(platform)! }))
+    .filter((t) => t.spend > 0 || t.gross > 0)
+    .map((t) => ({
+      platform: t.platform,
+      spend: t.spend,
+      grossRevenue: t.gross,
+      netRevenue: t.net,
+      grossRoas: t.spend > 0 ? t.gross / t.spend : 0,
+      netRoas: t.spend > 0 ? t.net / t.spend : 0,
+    }));
+}
+
+/**
+ * Returns per label over the period, highest return rate first
+ */
+export function calculateLabelReturns(metrics: DailyMetrics[]): LabelReturns[] {
+  const byLabel = new Map<string, LabelReturns>();
+
+  for (const m of metrics) {
+    const label = String(m.label);
+    const totals = byLabel.get(label) ?? {
+      label,
+      revenue: 0,
+      returnedRevenue: 0,
+      returnedOrders: 0,
+      returnRate: 0,
+      revenueAfterReturns: 0,
+    };
+    totals.revenue += m.totalRevenue;
+    totals.returnedRevenue += m.returnedRevenue;
+    totals.returnedOrders += m.returnedOrders;
+    byLabel.set(label, totals);
+  }
+
+  return Array.from(byLabel.values())
+    .map((totals) => ({
+      ...totals,
+      returnRate: totals.revenue > 0 ? totals.returnedRevenue / totals.revenue : 0,
+      revenueAfterReturns: totals.revenue - totals.returnedRevenue,
+    }))
+    .sort((a, b) => b.returnRate - a.returnRate);
+}
@@ -0,0 +1,204 @@
+import {
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  isSameDay,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+  subWeeks,
+  subYears,
+} from 'date-fns';
+import {
+  CHANNELS,
+  RELATIVE_RANGES,
+  type ChartKPI,
+  type DashboardFilters,
+  type DateRange,
+  type Label,
+  type RelativeRange,
+  type SavedView,
+  type SavedViewDefinition,
+  type SavedViewRange,
+} from '@/types';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+
+// ============================================
+// RELATIVE DATE RANGES
+// ============================================
+
+export function resolveRelativeRange(range: RelativeRange, today: Date = new Date()): DateRange {
+  const day = startOfDay(today);
+  const week = { weekStartsOn: 1 } as const;
+
+  switch (range) {
+    case 'today':
+      return { start: day, end: day };
+    case 'yesterday':
+      return { start: subDays(day, 1), end: subDays(day, 1) };
+    case 'last_7_days':
+      return { start: subDays(day, 6), end: day };
+    case 'last_28_days':
+      return { start: subDays(day, 27), end: day };
+    case 'last_30_days':
+      return { start: subDays(day, 29), end: day };
+    case 'this_week':
+      return { start: startOfWeek(day, week), end: startOfDay(endOfWeek(day, week)) };
+    case 'last_week':
+      return { start: startOfWeek(subWeeks(day, 1), week), end: startOfDay(endOfWeek(subWeeks(day, 1), week)) };
+    case 'month_to_date':
+      return { start: startOfMonth(day), end: day };
+    case 'last_month':
+      return { start: startOfMonth(subMonths(day, 1)), end: startOfDay(endOfMonth(subMonths(day, 1))) };
+    case 'quarter_to_date':
+      return { start: startOfQuarter(day), end: day };
+    case 'last_quarter':
+      return { start: startOfQuarter(subQuarters(day, 1)), end: startOfDay(endOfQuarter(subQuarters(day, 1))) };
+    case 'year_to_date':
+      return { start: startOfYear(day), end: day };
+    case 'last_year':
+      return { start: startOfYear(subYears(day, 1)), end: startOfDay(endOfYear(subYears(day, 1))) };
+  }
+}
+
+/**
+ * The relative range that currently covers these dates, if any
+ */
+export function matchRelativeRange(dateRange: DateRange, today: Date = new Date()): RelativeRange | null {
+  return RELATIVE_RANGES.find((range) => {
+    const resolved = resolveRelativeRange(range, today);
+    return isSameDay(resolved.start, dateRange.start) && isSameDay(resolved.end, dateRange.end);
+  }) ?? null;
+}
+
+export function resolveViewRange(range: SavedViewRange, today: Date = new Date()): DateRange {
+  if (range.type === 'relative') return resolveRelativeRange(range.range, today);
+  return {
+    start: parse(range.start, 'yyyy-MM-dd', today),
+    end: parse(range.end, 'yyyy-MM-dd', today),
+  };
+}
+
+/**
+ * The relative range when given, otherwise these fixed dates
+ */
+export function toViewRange(relativeRange: RelativeRange | null, dates: DateRange): SavedViewRange {
+  if (relativeRange) return { type: 'relative', range: relativeRange };
+  return { type: 'fixed', start: format(dates.start, 'yyyy-MM-dd'), end: format(dates.end, 'yyyy-MM-dd') };
+}
+
+export function filtersToViewDefinition(
+  filters: DashboardFilters,
+  chartKPI: ChartKPI,
+  relativeRange: RelativeRange | null
+): SavedViewDefinition {
+  return {
+    dateRange: toViewRange(relativeRange, filters.dateRange),
+    labels: filters.labels,
+    comparisonEnabled: filters.comparisonEnabled,
+    comparisonMode: filters.comparisonMode,
+    ...(filters.comparisonMode === 'custom' && filters.comparisonRange && {
+      comparisonRange: {
+        start: format(filters.comparisonRange.start, 'yyyy-MM-dd'),
+        end: format(filters.comparisonRange.end, 'yyyy-MM-dd'),
+      },
+    }),
+    alignByDayOfWeek: filters.alignByDayOfWeek,
+    chartKPI,
+    channels: filters.channels,
+    platforms: filters.platforms,
+  };
+}
+
+// Views saved before other platforms were supported list both for all of them
+function isAllPlatforms(platforms: string[] | undefined): boolean {
+  if (!platforms || platforms.length === 0) return true;
+  return platforms.length === 2 && platforms.includes('facebook') && platforms.includes('google');
+}
+
+export function viewToFilters(definition: SavedViewDefinition, today: Date = new Date()): Partial<DashboardFilters> {
+  return {
+    dateRange: resolveViewRange(definition.dateRange, today),
+    labels: definition.labels as Label[],
+    comparisonEnabled: definition.comparisonEnabled,
+    comparisonMode: definition.comparisonMode,
+    // Null is recalculated from the date range by the store
+    comparisonRange:
+      definition.comparisonMode === 'custom' && definition.comparisonRange
+        ? resolveViewRange({ type: 'fixed', ...definition.comparisonRange }, today)
+        : null,
+    alignByDayOfWeek: definition.alignByDayOfWeek,
+    channels: definition.channels ?? [...CHANNELS],
+    platforms: isAllPlatforms(definition.platforms) ? [] : definition.platforms,
+  };
+}
+
+// ============================================
+// SAVED VIEWS (Supabase)
+// ============================================
+
+function rowToSavedView(row: Tables<'saved_views'>): SavedView {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    name: row.name,
+    definition: row.definition as unknown as SavedViewDefinition,
+    shared: row.shared,
+  };
+}
+
+/**
+ * Own views and views shared by teammates
+ */
+export async function fetchSavedViews(): Promise<SavedView[]> {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(rowToSavedView);
+}
+
+/**
+ * Create a view, or update it when an id is given
+ */
+export async function saveView(
+  view: Pick<SavedView, 'name' | 'definition' | 'shared'>,
+  id?: string
+): Promise<SavedView> {
+  const row = {
+    name: view.name,
+    definition: view.definition as unknown as Json,
+    shared: view.shared,
+  };
+  const query = id
+    ? supabase.from('saved_views').update({ ...row, updated_at: new Date().toISOString() }).eq('id', id)
+    : supabase.from('saved_views').insert(row);
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return rowToSavedView(data);
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  const { error } = await supabase.from('saved_views').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Landing view of the signed-in user; null clears it
+ */
+export async function setDefaultView(viewId: string | null): Promise<void> {
+  const { error } = await supabase.rpc('set_default_view', { view_id: viewId });
+  if (error) throw error;
+}
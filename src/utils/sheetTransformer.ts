@@ -1,4 +1,10 @@
 import { parse, isValid, format } from 'date-fns';
+import type { Channel, DailyMetrics, FunnelSteps, Platform, PlatformInputs, RowIssue } from '@/types';
+import { attributePlatforms } from './attribution';
+import { calculateMargins } from './margins';
+import { readPlatformColumns } from './platforms';
+import { calculateFunnelMetrics, readFunnelColumns } from './funnel';
+import { validateRawRow, findRowWarnings } from './dataQuality';
 
 // ============================================
 // EUROPEAN FORMAT UTILITIES
@@ -56,7 +62,9 @@ export function parseEuropeanDate(value: string | undefined | null): Date | null
 // ============================================
 
 /**
- * Maps CSV headers to internal property names
+ * Maps CSV headers to internal property names. Other ad platforms follow the
+ * same pattern as FB and Google: Conv_<Platform>, Spend_<Platform> and
+ * LastClick_<Platform> (see utils/platforms).
  */
 export const CSV_COLUMN_MAP = {
   'Date': 'date',
@@ -69,12 +77,22 @@ export const CSV_COLUMN_MAP = {
   'Conv_Google': 'conversionsGoogle',
   'Spend_FB': 'spendFb',
   'Spend_Google': 'spendGoogle',
+  'LastClick_FB': 'lastClickRevenueFb', // Optional
+  'LastClick_Google': 'lastClickRevenueGoogle', // Optional
+  'Returned_Revenue': 'returnedRevenue', // Optional
+  'Returned_Orders': 'returnedOrders', // Optional
+  'Sessions_Web': 'funnel.web.sessions', // Optional, as are AddToCart_ and Checkouts_ (see utils/funnel)
+  'Sessions_App': 'funnel.app.sessions', // Optional
 } as const;
 
 // ============================================
 // TRANSFORMED ROW TYPE
 // ============================================
 
+// Clicks come from Clicks_ columns or the ad platform connectors; conversions
+// stand in for them when there are none
+export type SheetPlatformValues = Omit<PlatformInputs, 'clicks'> & { clicks?: number };
+
 export interface TransformedSheetRow {
   date: Date;
   dateString: string;
@@ -90,14 +108,18 @@ export interface TransformedSheetRow {
   ordersApp: number;
   ordersWeb: number; // Calculated: ordersTotal - ordersApp
   
-  // Conversions
-  conversionsFb: number;
-  conversionsGoogle: number;
-  totalConversions: number;
+  // Returns (optional columns)
+  returnedRevenue: number;
+  returnedOrders: number;
+  netRevenue: number; // Calculated: totalRevenue - returnedRevenue
+  returnRate: number; // Calculated: returnedRevenue / totalRevenue
+  
+  // Web analytics funnel per channel (optional columns)
+  funnel: Record<Channel, FunnelSteps>;
   
-  // Spend
-  spendFb: number;
-  spendGoogle: number;
+  // Ad platforms: spend, conversions and last-click web revenue (optional columns)
+  platforms: Record<Platform, SheetPlatformValues>;
+  totalConversions: number;
   totalSpend: number;
   
   // Calculated metrics
@@ -128,6 +150,7 @@ function isEmptyRow(rawRow: Record<string, string>): boolean {
 
 /**
  * Transform a raw CSV row (with European formatting) into a clean typed object
+ * Expects the CSV_COLUMN_MAP headers; other layouts go through applyColumnMapping first.
  * Returns null for empty rows (to be silently skipped) or invalid rows (to be counted as errors)
  */
 export function transformSheetRow(rawRow: Record<string, string>): { row: TransformedSheetRow | null; isEmpty: boolean } {
@@ -139,133 +162,156 @@ export function transformSheetRow(rawRow: Record<string, string>): { row: Transf
   // Parse date
   const parsedDate = parseEuropeanDate(rawRow['Date']);
   if (!parsedDate) {
-    console.warn('Failed to parse date:', rawRow['Date']);
     return { row: null, isEmpty: false };
   }
   
   // Parse numeric values with European format handling
-  const revenueWeb = parseEuropeanNumber(rawRow['Rev_Web']);
-  const revenueApp = parseEuropeanNumber(rawRow['Rev_App']);
-  const ordersWeb = parseEuropeanNumber(rawRow['Orders']); // Orders column = web orders
-  const ordersApp = parseEuropeanNumber(rawRow['Orders_App']);
-  const ordersTotal = ordersWeb + ordersApp; // Total = web + app
-  const conversionsFb = parseEuropeanNumber(rawRow['Conv_FB']);
-  const conversionsGoogle = parseEuropeanNumber(rawRow['Conv_Google'] || rawRow['Conversions_Google']);
-  const spendFb = parseEuropeanNumber(rawRow['Spend_FB']);
-  const spendGoogle = parseEuropeanNumber(rawRow['Spend_Google']);
+  const row = createTransformedRow(parsedDate, rawRow['Label']?.trim() || 'Unknown', {
+    revenueWeb: parseEuropeanNumber(rawRow['Rev_Web']),
+    revenueApp: parseEuropeanNumber(rawRow['Rev_App']),
+    ordersWeb: parseEuropeanNumber(rawRow['Orders']), // Orders column = web orders
+    ordersApp: parseEuropeanNumber(rawRow['Orders_App']),
+    platforms: readPlatformColumns(rawRow, parseEuropeanNumber),
+    returnedRevenue: parseEuropeanNumber(rawRow['Returned_Revenue']),
+    returnedOrders: parseEuropeanNumber(rawRow['Returned_Orders']),
+    funnel: readFunnelColumns(rawRow, parseEuropeanNumber),
+  });
+  
+  return { row, isEmpty: false };
+}
+
+/**
+ * Raw input values for a single day and label, already parsed to numbers
+ */
+export interface SheetRowValues {
+  revenueWeb: number;
+  revenueApp: number;
+  ordersWeb: number;
+  ordersApp: number;
+  platforms: Record<Platform, SheetPlatformValues>;
+  returnedRevenue: number;
+  returnedOrders: number;
+  funnel: Record<Channel, FunnelSteps>;
+}
+
+/**
+ * Build a TransformedSheetRow from parsed values, deriving totals and date metadata.
+ * Shared by the sheet parser and other sources (e.g. the Postgres warehouse).
+ */
+export function createTransformedRow(
+  date: Date,
+  brand: string,
+  values: SheetRowValues
+): TransformedSheetRow {
+  const ordersTotal = values.ordersWeb + values.ordersApp; // Total = web + app
   
   // Calculated values
-  const totalRevenue = revenueWeb + revenueApp;
-  const totalConversions = conversionsFb + conversionsGoogle;
-  const totalSpend = spendFb + spendGoogle;
+  const totalRevenue = values.revenueWeb + values.revenueApp;
+  const platforms = Object.values(values.platforms);
+  const totalConversions = platforms.reduce((sum, p) => sum + p.conversions, 0);
+  const totalSpend = platforms.reduce((sum, p) => sum + p.spend, 0);
   const aov = ordersTotal > 0 ? totalRevenue / ordersTotal : 0;
   const mer = totalRevenue > 0 ? totalSpend / totalRevenue : 0;
   const contributionMargin = totalRevenue - totalSpend;
   
   // Date metadata
-  const dayOfWeek = parsedDate.getDay();
-  const firstDayOfMonth = new Date(parsedDate.getFullYear(), parsedDate.getMonth(), 1);
-  const weekOfMonth = Math.ceil((parsedDate.getDate() + firstDayOfMonth.getDay()) / 7);
-  const monthDay = parsedDate.getDate();
+  const dayOfWeek = date.getDay();
+  const firstDayOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+  const weekOfMonth = Math.ceil((date.getDate() + firstDayOfMonth.getDay()) / 7);
+  const monthDay = date.getDate();
   
   // Use format() instead of toISOString() to preserve local timezone
-  const dateString = format(parsedDate, 'yyyy-MM-dd');
+  const dateString = format(date, 'yyyy-MM-dd');
   
   return {
-    row: {
-      date: parsedDate,
-      dateString,
-      brand: rawRow['Label']?.trim() || 'Unknown',
-      
-      revenueWeb,
-      revenueApp,
-      totalRevenue,
-      
-      ordersTotal,
-      ordersApp,
-      ordersWeb,
-      
-      conversionsFb,
-      conversionsGoogle,
-      totalConversions,
-      
-      spendFb,
-      spendGoogle,
-      totalSpend,
-      
-      aov,
-      mer,
-      contributionMargin,
-      
-      dayOfWeek,
-      weekOfMonth,
-      monthDay,
-    },
-    isEmpty: false,
+    date,
+    dateString,
+    brand,
+    
+    revenueWeb: values.revenueWeb,
+    revenueApp: values.revenueApp,
+    totalRevenue,
+    
+    ordersTotal,
+    ordersApp: values.ordersApp,
+    ordersWeb: values.ordersWeb,
+    
+    returnedRevenue: values.returnedRevenue,
+    returnedOrders: values.returnedOrders,
+    netRevenue: totalRevenue - values.returnedRevenue,
+    returnRate: totalRevenue > 0 ? values.returnedRevenue / totalRevenue : 0,
+    
+    funnel: values.funnel,
+    
+    platforms: values.platforms,
+    totalConversions,
+    totalSpend,
+    
+    aov,
+    mer,
+    contributionMargin,
+    
+    dayOfWeek,
+    weekOfMonth,
+    monthDay,
   };
 }
 
 /**
  * Transform an array of raw CSV rows
+ * Rows with a bad date, empty label or negative number are rejected and counted
+ * as errors; duplicates, outliers and likely label typos are kept as warnings.
  */
 export function transformSheetData(rawRows: Record<string, string>[]): {
   data: TransformedSheetRow[];
   errors: number;
+  issues: RowIssue[];
 } {
-  const data: TransformedSheetRow[] = [];
+  const accepted: { row: TransformedSheetRow; rowNumber: number }[] = [];
+  const issues: RowIssue[] = [];
   let errors = 0;
   
-  for (const rawRow of rawRows) {
-    const result = transformSheetRow(rawRow);
+  rawRows.forEach((rawRow, index) => {
+    const rowNumber = index + 2;
     
     // Skip empty rows silently
-    if (result.isEmpty) {
-      continue;
+    if (isEmptyRow(rawRow)) {
+      return;
     }
     
+    const rowIssues = validateRawRow(rawRow, rowNumber);
+    issues.push(...rowIssues);
+    
+    const result = rowIssues.some((issue) => issue.severity === 'error') ? null : transformSheetRow(rawRow).row;
+    
     // Count actual parsing failures
-    if (result.row) {
-      data.push(result.row);
+    if (result) {
+      accepted.push({ row: result, rowNumber });
     } else {
       errors++;
     }
-  }
+  });
+  
+  issues.push(...findRowWarnings(accepted));
   
   // Sort by date
-  data.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const data = accepted.map((a) => a.row).sort((a, b) => a.date.getTime() - b.date.getTime());
   
-  return { data, errors };
+  return { data, errors, issues: issues.sort((a, b) => a.rowNumber - b.rowNumber) };
 }
 
 /**
  * Convert TransformedSheetRow to DailyMetrics format for compatibility
  */
-export function toCompatibleMetrics(row: TransformedSheetRow): {
-  date: Date;
-  dateString: string;
-  label: string;
-  revenueWeb: number;
-  revenueApp: number;
-  totalRevenue: number;
-  orders: number;
-  aov: number;
-  spendFB: number;
-  spendGoogle: number;
-  totalSpend: number;
-  clicksFB: number;
-  clicksGoogle: number;
-  totalClicks: number;
-  mer: number;
-  contributionMargin: number;
-  roasFB: number;
-  roasGoogle: number;
-  dayOfWeek: number;
-  weekOfMonth: number;
-  monthDay: number;
-} {
-  // Use conversions as a proxy for clicks (common in e-commerce)
-  const clicksFB = row.conversionsFb;
-  const clicksGoogle = row.conversionsGoogle;
+export function toCompatibleMetrics(row: TransformedSheetRow): DailyMetrics {
+  // Use conversions as a proxy for clicks (common in e-commerce) when none are reported
+  const platforms = attributePlatforms({
+    label: row.brand,
+    revenueWeb: row.revenueWeb,
+    platforms: Object.fromEntries(
+      Object.entries(row.platforms).map(([platform, p]) => [platform, { ...p, clicks: p.clicks || p.conversions }])
+    ),
+  });
   
   return {
     date: row.date,
@@ -274,18 +320,26 @@ export function toCompatibleMetrics(row: TransformedSheetRow): {
     revenueWeb: row.revenueWeb,
     revenueApp: row.revenueApp,
     totalRevenue: row.totalRevenue,
+    ordersWeb: row.ordersWeb,
+    ordersApp: row.ordersApp,
     orders: row.ordersTotal,
     aov: row.aov,
-    spendFB: row.spendFb,
-    spendGoogle: row.spendGoogle,
+    returnedRevenue: row.returnedRevenue,
+    returnedOrders: row.returnedOrders,
+    returnRate: row.returnRate,
+    funnel: row.funnel,
+    ...calculateFunnelMetrics(row.funnel, row),
+    platforms,
     totalSpend: row.totalSpend,
-    clicksFB,
-    clicksGoogle,
-    totalClicks: clicksFB + clicksGoogle,
+    totalClicks: Object.values(platforms).reduce((sum, p) => sum + p.clicks, 0),
     mer: row.mer,
     contributionMargin: row.contributionMargin,
-    roasFB: row.spendFb > 0 ? (row.revenueWeb * 0.6) / row.spendFb : 0,
-    roasGoogle: row.spendGoogle > 0 ? (row.revenueWeb * 0.4) / row.spendGoogle : 0,
+    ...calculateMargins({
+      totalRevenue: row.totalRevenue,
+      returnedRevenue: row.returnedRevenue,
+      orders: row.ordersTotal,
+      totalSpend: row.totalSpend,
+    }),
     dayOfWeek: row.dayOfWeek,
     weekOfMonth: row.weekOfMonth,
     monthDay: row.monthDay,
@@ -0,0 +1,194 @@
+import type { SheetRowValues } from './sheetTransformer';
+
+// ============================================
+// SHOPIFY ORDER CONNECTOR
+// Shared by the sync-shopify-orders edge function, which aggregates the Admin
+// API orders per store and day, and the dashboard and report readers, which
+// put those days on the daily rows instead of the sheet's revenue and orders
+// ============================================
+
+/**
+ * A Shopify store and the brand label it sells for (shopify_stores table)
+ */
+export interface ShopifyStore {
+  store: string; // <shop>.myshopify.com
+  label: string;
+  app_sources: string[]; // Order source_name values that count as app revenue
+}
+
+/**
+ * The order fields of the REST Admin API orders endpoint the connector reads.
+ * Timestamps are in the store's time zone, amounts strings in its currency.
+ */
+export interface ShopifyOrder {
+  id: number;
+  created_at: string;
+  cancelled_at: string | null;
+  total_price: string;
+  source_name: string | null; // web, pos, iphone, android or a sales channel app id
+  test?: boolean;
+  refunds?: ShopifyRefund[];
+}
+
+export interface ShopifyRefund {
+  id: number;
+  created_at: string;
+  transactions?: { kind: string; status: string; amount: string }[];
+}
+
+export const SHOPIFY_ORDER_FIELDS = ['id', 'created_at', 'cancelled_at', 'total_price', 'source_name', 'test', 'refunds'];
+
+/**
+ * One store's day, as stored in shop_daily_metrics
+ */
+export interface ShopDailyMetricsRow {
+  date: string; // yyyy-MM-dd
+  store: string;
+  label: string;
+  rev_web: number;
+  rev_app: number;
+  orders_web: number;
+  orders_app: number;
+  returned_revenue: number;
+  returned_orders: number;
+}
+
+/**
+ * Lower-case myshopify domain of a store as typed in the sheet, e.g.
+ * "https://FMH-NL.myshopify.com/" or just "fmh-nl"
+ */
+export function normalizeStoreDomain(value: string): string {
+  const domain = value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  if (!domain) return '';
+  return domain.includes('.') ? domain : `${domain}.myshopify.com`;
+}
+
+function addDaysISO(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Refunded money of a refund: its successful refund transactions. Refunds
+ * that only restock items have none.
+ */
+function refundAmount(refund: ShopifyRefund): number {
+  return (refund.transactions ?? [])
+    .filter((t) => t.kind === 'refund' && t.status === 'success')
+    .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+}
+
+/**
+ * Sum a store's orders per day between two dates (yyyy-MM-dd, inclusive),
+ * with a row for every day so days whose last order was cancelled go back to 0.
+ * - Revenue and orders count on the day the order was placed, split into app
+ *   and web by the store's app sources
+ * - Cancelled orders don't count at all, also when cancelled days later
+ * - Refunds count on the day they were issued, also for orders placed before
+ *   the range; refunds of cancelled orders are the cancellation itself
+ * Test orders are left out. Orders may be passed more than once.
+ */
+export function aggregateShopifyOrders(
+  orders: ShopifyOrder[],
+  store: ShopifyStore,
+  since: string,
+  until: string
+): ShopDailyMetricsRow[] {
+  const byDate = new Map<string, ShopDailyMetricsRow>();
+  for (let date = since; date <= until; date = addDaysISO(date, 1)) {
+    byDate.set(date, {
+      date,
+      store: store.store,
+      label: store.label,
+      rev_web: 0,
+      rev_app: 0,
+      orders_web: 0,
+      orders_app: 0,
+      returned_revenue: 0,
+      returned_orders: 0,
+    });
+  }
+
+  const unique = new Map(orders.map((order) => [order.id, order]));
+  for (const order of unique.values()) {
+    if (order.test || order.cancelled_at) continue;
+
+    // The local date is the start of the ISO timestamp
+    const day = byDate.get(order.created_at.slice(0, 10));
+    if (day) {
+      const revenue = Number(order.total_price) || 0;
+      if (order.source_name && store.app_sources.includes(order.source_name)) {
+        day.rev_app += revenue;
+        day.orders_app += 1;
+      } else {
+        day.rev_web += revenue;
+        day.orders_web += 1;
+      }
+    }
+
+    const refundedByDate = new Map<string, number>();
+    for (const refund of order.refunds ?? []) {
+      const date = refund.created_at.slice(0, 10);
+      refundedByDate.set(date, (refundedByDate.get(date) ?? 0) + refundAmount(refund));
+    }
+    for (const [date, amount] of refundedByDate) {
+      const refundDay = byDate.get(date);
+      if (!refundDay || amount <= 0) continue;
+      refundDay.returned_revenue += amount;
+      refundDay.returned_orders += 1;
+    }
+  }
+
+  return [...byDate.values()].map((row) => ({
+    ...row,
+    rev_web: Math.round(row.rev_web * 100) / 100,
+    rev_app: Math.round(row.rev_app * 100) / 100,
+    returned_revenue: Math.round(row.returned_revenue * 100) / 100,
+  }));
+}
+
+// ============================================
+// DAILY ROWS
+// ============================================
+
+/**
+ * A label's revenue, orders and returns of a day, summed over its stores
+ */
+export type ShopDay = Omit<SheetRowValues, 'platforms' | 'funnel'>;
+
+/**
+ * Sum the store rows per day and label, keyed by `${date}|${label}`
+ */
+export function toShopDays(rows: ShopDailyMetricsRow[]): Map<string, ShopDay> {
+  const byKey = new Map<string, ShopDay>();
+
+  for (const row of rows) {
+    const key = `${row.date}|${row.label}`;
+    const day = byKey.get(key) ?? {
+      revenueWeb: 0,
+      revenueApp: 0,
+      ordersWeb: 0,
+      ordersApp: 0,
+      returnedRevenue: 0,
+      returnedOrders: 0,
+    };
+    byKey.set(key, {
+      revenueWeb: day.revenueWeb + Number(row.rev_web),
+      revenueApp: day.revenueApp + Number(row.rev_app),
+      ordersWeb: day.ordersWeb + Number(row.orders_web),
+      ordersApp: day.ordersApp + Number(row.orders_app),
+      returnedRevenue: day.returnedRevenue + Number(row.returned_revenue),
+      returnedOrders: day.returnedOrders + Number(row.returned_orders),
+    });
+  }
+  return byKey;
+}
+
+/**
+ * A day's sheet values with the store revenue, orders and returns on top.
+ * The ad platform and funnel values are kept.
+ */
+export function withShopDay(values: SheetRowValues, shop: ShopDay | undefined): SheetRowValues {
+  return shop ? { ...values, ...shop } : values;
+}
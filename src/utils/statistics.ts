@@ -0,0 +1,72 @@
+// ============================================
+// ROBUST STATISTICS
+// ============================================
+
+/**
+ * Median of a list of numbers (0 for an empty list)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Median absolute deviation from the median
+ */
+export function medianAbsoluteDeviation(values: number[], center: number = median(values)): number {
+  return median(values.map((v) => Math.abs(v - center)));
+}
+
+/**
+ * Robust z-score based on median and MAD, comparable to a standard z-score for
+ * normal data but not pulled along by the outliers it is meant to find.
+ * Returns 0 when the MAD is 0 (no spread to compare against).
+ */
+export function robustZScore(value: number, center: number, mad: number): number {
+  if (mad === 0) return 0;
+  return (0.6745 * (value - center)) / mad;
+}
+
+// ============================================
+// CORRELATION
+// ============================================
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Pearson correlation of two equally long lists, from -1 to 1. Returns 0 when
+ * either list has no spread.
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    varianceX += (xs[i] - mx) ** 2;
+    varianceY += (ys[i] - my) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return 0;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Least-squares slope of y on x: the change in y per unit of x (0 without spread in x)
+ */
+export function linearSlope(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    varianceX += (xs[i] - mx) ** 2;
+  }
+  return varianceX === 0 ? 0 : covariance / varianceX;
+}
@@ -0,0 +1,205 @@
+import { getDaysInMonth } from 'date-fns';
+import {
+  MonthlyTargetSchema,
+  type DailyMetrics,
+  type MonthlyTarget,
+  type TargetChange,
+  type TargetPeriod,
+  type TargetRecord,
+  type TargetSource,
+  type TargetValues,
+} from '@/types';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+
+// ============================================
+// MONTHLY TARGETS (Supabase)
+// ============================================
+
+const CHANGE_HISTORY_LIMIT = 100;
+
+function rowToTargetRecord(row: Tables<'monthly_targets'>): TargetRecord {
+  return {
+    month: row.month,
+    label: row.label,
+    revenueTarget: Number(row.revenue_target),
+    ordersTarget: row.orders_target,
+    merTarget: Number(row.mer_target),
+    adBudget: Number(row.ad_budget),
+    source: row.source as TargetSource,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function jsonToTargetValues(json: Json | null): TargetValues | null {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return null;
+  return {
+    revenueTarget: Number(json.revenue_target ?? 0),
+    ordersTarget: Number(json.orders_target ?? 0),
+    merTarget: Number(json.mer_target ?? 0),
+    adBudget: Number(json.ad_budget ?? 0),
+  };
+}
+
+function rowToTargetChange(row: Tables<'target_changes'>): TargetChange {
+  return {
+    id: row.id,
+    month: row.month,
+    label: row.label,
+    action: row.action as TargetChange['action'],
+    oldValues: jsonToTargetValues(row.old_values),
+    newValues: jsonToTargetValues(row.new_values),
+    source: row.source as TargetSource,
+    changedByEmail: row.changed_by_email,
+    changedAt: new Date(row.changed_at),
+  };
+}
+
+/**
+ * Targets as stored, in each label's own currency
+ */
+export async function fetchTargetRecords(): Promise<TargetRecord[]> {
+  const { data, error } = await supabase
+    .from('monthly_targets')
+    .select('*')
+    .order('month', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(rowToTargetRecord);
+}
+
+export async function fetchTargetChanges(): Promise<TargetChange[]> {
+  const { data, error } = await supabase
+    .from('target_changes')
+    .select('*')
+    .order('changed_at', { ascending: false })
+    .limit(CHANGE_HISTORY_LIMIT);
+
+  if (error) throw error;
+  return (data ?? []).map(rowToTargetChange);
+}
+
+/**
+ * Check a target against MonthlyTargetSchema; returns the first problem, or
+ * null when the target is valid
+ */
+export function validateTarget(target: MonthlyTarget): string | null {
+  const result = MonthlyTargetSchema.safeParse({
+    Month: target.month,
+    Label: target.label,
+    Revenue_Target: target.revenueTarget,
+    Orders_Target: target.ordersTarget,
+    MER_Target: target.merTarget,
+    Ad_Budget: target.adBudget,
+  });
+  if (result.success) return null;
+
+  const issue = result.error.issues[0];
+  return `${issue.path.join('.')}: ${issue.message}`;
+}
+
+/**
+ * Save targets edited in the dashboard. They are marked as app targets, so the
+ * sheet sync leaves them alone from now on.
+ */
+export async function saveTargets(targets: MonthlyTarget[], userId: string | null): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  const rows: TablesInsert<'monthly_targets'>[] = targets.map((t) => ({
+    month: t.month,
+    label: t.label,
+    revenue_target: t.revenueTarget,
+    orders_target: t.ordersTarget,
+    mer_target: t.merTarget,
+    ad_budget: t.adBudget,
+    source: 'app',
+    updated_by: userId,
+    updated_at: updatedAt,
+  }));
+
+  const { error } = await supabase.from('monthly_targets').upsert(rows, { onConflict: 'month,label' });
+  if (error) throw error;
+}
+
+export async function deleteTarget(month: string, label: string): Promise<void> {
+  const { error } = await supabase.from('monthly_targets').delete().eq('month', month).eq('label', label);
+  if (error) throw error;
+}
+
+// ============================================
+// DISTRIBUTION OVER MONTHS
+// ============================================
+
+/**
+ * The yyyy-MM months of a quarter or a whole year
+ */
+export function getPeriodMonths(year: number, period: TargetPeriod): string[] {
+  const first = period === 'year' ? 1 : (Number(period[1]) - 1) * 3 + 1;
+  const count = period === 'year' ? 12 : 3;
+  return Array.from({ length: count }, (_, i) => `${year}-${String(first + i).padStart(2, '0')}`);
+}
+
+/**
+ * Split a whole total by weight into whole amounts that add up to the total.
+ * Leftover units after rounding down go to the largest remainders.
+ */
+function splitByWeights(total: number, weights: number[]): number[] {
+  const whole = Math.round(total);
+  const exact = weights.map((w) => whole * w);
+  const parts = exact.map(Math.floor);
+  const leftover = whole - parts.reduce((sum, p) => sum + p, 0);
+
+  exact
+    .map((value, i) => ({ i, remainder: value - parts[i] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, leftover)
+    .forEach(({ i }) => parts[i]++);
+  return parts;
+}
+
+/**
+ * Share of each month in the period, following last year's revenue in the
+ * same months. Falls back to the number of days when there is no history.
+ * Pass 'All' to use the revenue of every label.
+ */
+export function getRevenueShape(months: string[], label: string, metrics: DailyMetrics[]): number[] {
+  const previousMonths = months.map((month) => `${Number(month.slice(0, 4)) - 1}${month.slice(4)}`);
+  const revenue = previousMonths.map(() => 0);
+
+  for (const m of metrics) {
+    if (label !== 'All' && m.label !== label) continue;
+    const index = previousMonths.indexOf(m.dateString.slice(0, 7));
+    if (index !== -1) revenue[index] += m.totalRevenue;
+  }
+
+  const total = revenue.reduce((sum, r) => sum + r, 0);
+  if (total > 0) return revenue.map((r) => r / total);
+
+  const days = months.map((month) => getDaysInMonth(new Date(`${month}-01T00:00:00`)));
+  const totalDays = days.reduce((sum, d) => sum + d, 0);
+  return days.map((d) => d / totalDays);
+}
+
+/**
+ * Monthly targets for a quarterly or annual total. Revenue, orders and ad
+ * budget follow the revenue shape; the MER target applies to every month.
+ */
+export function distributeTarget(
+  total: TargetValues,
+  months: string[],
+  label: string,
+  metrics: DailyMetrics[]
+): MonthlyTarget[] {
+  const shape = getRevenueShape(months, label, metrics);
+  const revenue = splitByWeights(total.revenueTarget, shape);
+  const orders = splitByWeights(total.ordersTarget, shape);
+  const adBudget = splitByWeights(total.adBudget, shape);
+
+  return months.map((month, i) => ({
+    month,
+    label,
+    revenueTarget: revenue[i],
+    ordersTarget: orders[i],
+    merTarget: total.merTarget,
+    adBudget: adBudget[i],
+  }));
+}
@@ -0,0 +1,121 @@
+import { format, isValid, parse } from 'date-fns';
+import {
+  CHANNELS,
+  type ComparisonMode,
+  type DashboardFilters,
+  type DateRange,
+  type Label,
+} from '@/types';
+
+// ============================================
+// PAGE ROUTES
+// ============================================
+
+export const PAGE_PATHS = {
+  dashboard: '/command-center',
+  revenue: '/revenue',
+  marketing: '/marketing',
+  brands: '/brands',
+  returns: '/returns',
+  alerts: '/alerts',
+  targets: '/targets',
+  reports: '/reports',
+  users: '/users',
+} as const;
+
+export type Page = keyof typeof PAGE_PATHS;
+
+export function pageFromPath(pathname: string): Page | null {
+  const entry = Object.entries(PAGE_PATHS).find(([, path]) => path === pathname);
+  return entry ? (entry[0] as Page) : null;
+}
+
+// ============================================
+// FILTERS IN QUERY PARAMS
+// ============================================
+// ?from=2026-01-01&to=2026-01-31&labels=A,B&compare=previous_year&align=1
+// Custom comparisons also carry cfrom/cto; a subset of channels or platforms
+// adds e.g. channels=web&platforms=google. Missing params keep the current
+// filter, so a link with only ?labels=A still uses the viewer's date range.
+
+const COMPARISON_MODES: ComparisonMode[] = ['previous_period', 'previous_year', 'custom'];
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? date : null;
+}
+
+function parseRange(from: string | null, to: string | null): DateRange | null {
+  const start = parseDate(from);
+  const end = parseDate(to);
+  if (!start || !end || start > end) return null;
+  return { start, end };
+}
+
+const PLATFORM_ID = /^[a-z0-9_]+$/;
+
+function parseList<T extends string>(value: string | null, allowed: readonly T[]): T[] {
+  return (value ?? '').split(',').filter((v): v is T => allowed.includes(v as T));
+}
+
+export function filtersToSearchParams(filters: DashboardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set('from', format(filters.dateRange.start, DATE_FORMAT));
+  params.set('to', format(filters.dateRange.end, DATE_FORMAT));
+  if (filters.labels.length > 0) params.set('labels', filters.labels.join(','));
+  if (filters.comparisonEnabled) {
+    params.set('compare', filters.comparisonMode);
+    if (filters.comparisonMode === 'custom' && filters.comparisonRange) {
+      params.set('cfrom', format(filters.comparisonRange.start, DATE_FORMAT));
+      params.set('cto', format(filters.comparisonRange.end, DATE_FORMAT));
+    }
+  }
+  params.set('align', filters.alignByDayOfWeek ? '1' : '0');
+  if (filters.channels.length < CHANNELS.length) params.set('channels', filters.channels.join(','));
+  if (filters.platforms.length > 0) params.set('platforms', filters.platforms.join(','));
+  return params;
+}
+
+/**
+ * Filters present in the query params; invalid values are ignored
+ */
+export function filtersFromSearchParams(params: URLSearchParams): Partial<DashboardFilters> {
+  const filters: Partial<DashboardFilters> = {};
+
+  const dateRange = parseRange(params.get('from'), params.get('to'));
+  if (dateRange) filters.dateRange = dateRange;
+
+  if (params.has('labels')) {
+    filters.labels = (params.get('labels') ?? '')
+      .split(',')
+      .map((l) => l.trim())
+      .filter(Boolean) as Label[];
+  }
+
+  // The comparison is only in the URL when enabled
+  if (params.has('from') || params.has('compare')) {
+    const mode = params.get('compare') as ComparisonMode | null;
+    filters.comparisonEnabled = !!mode && COMPARISON_MODES.includes(mode);
+    if (filters.comparisonEnabled) {
+      filters.comparisonMode = mode;
+      filters.comparisonRange = mode === 'custom' ? parseRange(params.get('cfrom'), params.get('cto')) : null;
+    }
+  }
+
+  const align = params.get('align');
+  if (align === '0' || align === '1') filters.alignByDayOfWeek = align === '1';
+
+  // Links without a subset show everything; an empty subset is ignored
+  if (params.has('from') || params.has('channels')) {
+    const channels = parseList(params.get('channels'), CHANNELS);
+    filters.channels = channels.length > 0 ? channels : [...CHANNELS];
+  }
+  if (params.has('from') || params.has('platforms')) {
+    // Any platform id; ones without data simply match nothing
+    filters.platforms = (params.get('platforms') ?? '').split(',').filter((p) => PLATFORM_ID.test(p));
+  }
+
+  return filters;
+}
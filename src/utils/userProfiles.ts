@@ -0,0 +1,92 @@
+import type { HarmonizedData, UserProfile, UserRole } from '@/types';
+import type { Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+
+// ============================================
+// USER PROFILES AND BRAND ACCESS
+// ============================================
+// The user_profiles RLS policies and the sheet proxy enforce access server-side;
+// these helpers mirror them so the UI only offers what the user can see.
+
+function rowToProfile(row: Tables<'user_profiles'>): UserProfile {
+  return {
+    userId: row.user_id,
+    email: row.email,
+    role: row.role as UserRole,
+    allowedLabels: row.allowed_labels,
+    defaultViewId: row.default_view_id,
+  };
+}
+
+/**
+ * Profile of a user, or null when it doesn't exist (no access)
+ */
+export async function fetchUserProfile(userId: string): Promise<UserProfile | null> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? rowToProfile(data) : null;
+}
+
+/**
+ * All profiles; only returns other users for admins
+ */
+export async function fetchUserProfiles(): Promise<UserProfile[]> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .order('email', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(rowToProfile);
+}
+
+export async function updateUserProfile(
+  userId: string,
+  update: Pick<UserProfile, 'role' | 'allowedLabels'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({
+      role: update.role,
+      allowed_labels: update.allowedLabels,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export function canViewAllLabels(profile: UserProfile | null): boolean {
+  return !!profile && (profile.role === 'admin' || profile.allowedLabels === null);
+}
+
+export function canViewLabel(profile: UserProfile | null, label: string): boolean {
+  return canViewAllLabels(profile) || !!profile?.allowedLabels?.includes(label);
+}
+
+/**
+ * Admins and analysts manage alert rules and trigger syncs
+ */
+export function canManage(profile: UserProfile | null): boolean {
+  return profile?.role === 'admin' || profile?.role === 'analyst';
+}
+
+/**
+ * Drop rows of labels the user may not see. Server data is already limited;
+ * this also covers locally imported files.
+ */
+export function restrictToProfile(data: HarmonizedData | undefined, profile: UserProfile | null): HarmonizedData | undefined {
+  if (!data || canViewAllLabels(profile)) return data;
+
+  return {
+    ...data,
+    metrics: data.metrics.filter((m) => canViewLabel(profile, m.label)),
+    targets: data.targets.filter((t) => canViewLabel(profile, t.label)),
+    events: data.events.filter((e) => !e.label || canViewLabel(profile, e.label)),
+  };
+}
@@ -0,0 +1,179 @@
+import type { Currency, DailyMetrics, MonthlyTarget, EventAnnotation, EventType, FxRate, MarginInputs, Platform, WeatherDay } from '@/types';
+import type { Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+import type { ColumnMapping } from './columnMapping';
+import { createTransformedRow, parseEuropeanDate, toCompatibleMetrics } from './sheetTransformer';
+import { isCurrency } from './currency';
+import { fetchAllPages } from './paging';
+import { platformsFromWarehouse } from './platforms';
+import { toSheetPlatforms, withConnectorPlatforms } from './adConnectors';
+import type { ShopDailyMetricsRow } from './shopify';
+import type { SheetPlatformValues } from './sheetTransformer';
+
+// ============================================
+// METRICS WAREHOUSE (Supabase Postgres)
+// ============================================
+
+export interface WarehouseData {
+  metrics: DailyMetrics[];
+  targets: MonthlyTarget[];
+  events: EventAnnotation[];
+  labelCurrencies: Record<string, Currency>;
+  fxRates: FxRate[];
+  marginInputs: Record<string, MarginInputs>;
+  // Shopify connector days, put on the rows by DataHarmonizer.addShopMetrics
+  shopMetrics: ShopDailyMetricsRow[];
+  // Ad platform connector values per `${date}|${label}`, for Shopify days without a sheet row
+  adPlatforms: Map<string, Record<Platform, SheetPlatformValues>>;
+  // Daily weather per country from the sync-weather connector
+  weather: WeatherDay[];
+}
+
+export interface SyncResult {
+  rows_upserted: number;
+  rows_unchanged: number;
+  rows_failed: number;
+}
+
+/**
+ * Convert a daily_metrics row to DailyMetrics, with the ad platform connector
+ * data of that day and label (if any) instead of the sheet's spend and conversions
+ */
+export function warehouseRowToMetrics(
+  row: Tables<'daily_metrics'>,
+  connectorPlatforms?: Record<Platform, SheetPlatformValues>
+): DailyMetrics | null {
+  const date = parseEuropeanDate(row.date);
+  if (!date) return null;
+
+  return toCompatibleMetrics(
+    createTransformedRow(date, row.label, {
+      revenueWeb: Number(row.rev_web),
+      revenueApp: Number(row.rev_app),
+      ordersWeb: row.orders_web,
+      ordersApp: row.orders_app,
+      platforms: withConnectorPlatforms(platformsFromWarehouse(row), connectorPlatforms),
+      returnedRevenue: Number(row.returned_revenue),
+      returnedOrders: row.returned_orders,
+      funnel: {
+        web: { sessions: row.sessions_web, addToCarts: row.add_to_carts_web, checkouts: row.checkouts_web },
+        app: { sessions: row.sessions_app, addToCarts: row.add_to_carts_app, checkouts: row.checkouts_app },
+      },
+    })
+  );
+}
+
+/**
+ * Load metrics (with the ad platform connector data), Shopify days, targets,
+ * events, currencies, margin inputs and weather from the warehouse
+ */
+export async function fetchWarehouseData(): Promise<WarehouseData> {
+  const [metricRows, adRows, shopRows, targetsResult, eventsResult, currenciesResult, fxRows, marginsResult, weatherRows] = await Promise.all([
+    fetchAllPages((from, to) => supabase.from('daily_metrics').select('*').order('date').order('label').range(from, to)),
+    fetchAllPages((from, to) =>
+      supabase.from('ad_platform_metrics').select('*').order('date').order('platform').order('account_id').range(from, to)
+    ),
+    fetchAllPages((from, to) => supabase.from('shop_daily_metrics').select('*').order('date').order('store').range(from, to)),
+    supabase.from('monthly_targets').select('*'),
+    supabase.from('events').select('*').order('date', { ascending: true }),
+    supabase.from('label_currencies').select('*'),
+    fetchAllPages((from, to) => supabase.from('fx_rates').select('*').order('date').order('currency').range(from, to)),
+    supabase.from('label_margins').select('*'),
+    fetchAllPages((from, to) => supabase.from('weather_daily').select('*').order('date').order('country').range(from, to)),
+  ]);
+
+  if (targetsResult.error) throw targetsResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+  if (currenciesResult.error) throw currenciesResult.error;
+  if (marginsResult.error) throw marginsResult.error;
+
+  // Ad connector days without a sheet row are left out unless Shopify has revenue for them
+  const adPlatforms = toSheetPlatforms(adRows);
+  const metrics = metricRows
+    .map((row) => warehouseRowToMetrics(row, adPlatforms.get(`${row.date}|${row.label}`)))
+    .filter((m): m is DailyMetrics => m !== null);
+
+  const targets: MonthlyTarget[] = (targetsResult.data ?? []).map((t) => ({
+    month: t.month,
+    label: t.label,
+    revenueTarget: Number(t.revenue_target),
+    ordersTarget: t.orders_target,
+    merTarget: Number(t.mer_target),
+    adBudget: Number(t.ad_budget),
+  }));
+
+  const events: EventAnnotation[] = (eventsResult.data ?? [])
+    .map((e): EventAnnotation | null => {
+      const date = parseEuropeanDate(e.date);
+      if (!date) return null;
+      return {
+        date,
+        dateString: e.date,
+        title: e.title,
+        description: e.description ?? undefined,
+        type: e.type as EventType,
+        label: e.label ?? undefined,
+      };
+    })
+    .filter((e): e is EventAnnotation => e !== null);
+
+  const labelCurrencies: Record<string, Currency> = {};
+  for (const row of currenciesResult.data ?? []) {
+    if (isCurrency(row.currency)) labelCurrencies[row.label] = row.currency;
+  }
+
+  const fxRates: FxRate[] = fxRows
+    .filter((r) => isCurrency(r.currency))
+    .map((r) => ({ dateString: r.date, currency: r.currency as Currency, rate: Number(r.rate) }));
+
+  const marginInputs: Record<string, MarginInputs> = {};
+  for (const row of marginsResult.data ?? []) {
+    marginInputs[row.label] = {
+      vatRate: Number(row.vat_rate),
+      returnRate: Number(row.return_rate),
+      cogsRate: Number(row.cogs_rate),
+      shippingCost: Number(row.shipping_cost),
+    };
+  }
+
+  const shopMetrics: ShopDailyMetricsRow[] = shopRows.map((r) => ({
+    date: r.date,
+    store: r.store,
+    label: r.label,
+    rev_web: Number(r.rev_web),
+    rev_app: Number(r.rev_app),
+    orders_web: r.orders_web,
+    orders_app: r.orders_app,
+    returned_revenue: Number(r.returned_revenue),
+    returned_orders: r.returned_orders,
+  }));
+
+  const weather: WeatherDay[] = weatherRows.map((r) => ({
+    dateString: r.date,
+    country: r.country,
+    temperature: Number(r.temperature),
+    precipitation: Number(r.precipitation),
+  }));
+
+  return { metrics, targets, events, labelCurrencies, fxRates, marginInputs, shopMetrics, adPlatforms, weather };
+}
+
+export interface SyncMappings {
+  dailyMapping?: ColumnMapping;
+  targetsMapping?: ColumnMapping;
+}
+
+/**
+ * Trigger an incremental sync from the Google Sheet into the warehouse,
+ * applying the confirmed column mappings for Daily_Input and Targets
+ */
+export async function syncWarehouse(mappings: SyncMappings = {}): Promise<SyncResult> {
+  const { data, error } = await supabase.functions.invoke('sync-sheet-metrics', {
+    body: mappings,
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as SyncResult;
+}
@@ -0,0 +1,341 @@
+import { addDays, format } from 'date-fns';
+import type { ChartDataPoint, DailyMetrics, WeatherDay } from '@/types';
+import { parseEuropeanDate } from './sheetTransformer';
+import { linearSlope, pearsonCorrelation } from './statistics';
+
+// ============================================
+// WEATHER
+// Daily mean temperature and precipitation per country, from uploaded files
+// or the sync-weather connector, shown next to revenue and correlated with it
+// ============================================
+
+/**
+ * A central location per country, where the sync-weather connector reads the
+ * country's weather from Open-Meteo
+ */
+export interface WeatherLocation {
+  country: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const WEATHER_LOCATIONS: WeatherLocation[] = [
+  { country: 'NL', name: 'De Bilt', latitude: 52.1, longitude: 5.18 },
+  { country: 'BE', name: 'Brussels', latitude: 50.85, longitude: 4.35 },
+  { country: 'DE', name: 'Kassel', latitude: 51.31, longitude: 9.48 },
+  { country: 'FR', name: 'Paris', latitude: 48.86, longitude: 2.35 },
+  { country: 'GB', name: 'London', latitude: 51.51, longitude: -0.13 },
+  { country: 'CH', name: 'Bern', latitude: 46.95, longitude: 7.45 },
+  { country: 'AT', name: 'Vienna', latitude: 48.21, longitude: 16.37 },
+];
+
+// Days with at least this much rain count as rainy
+export const RAINY_DAY_MM = 1;
+
+// Fewer days with both revenue and weather say little about sensitivity
+export const MIN_WEATHER_DAYS = 14;
+
+// Revenue and temperature are compared with their average over the four weeks
+// around each day, so seasons, sales and peaks like Black Friday don't count
+// as weather effects; days with less than three weeks of that window are left out
+const BASELINE_DAYS = 28;
+const MIN_BASELINE_DAYS = 21;
+
+/**
+ * ISO country code, with the UK written as GB
+ */
+function normalizeCountry(value: string | undefined): string | null {
+  const code = (value ?? '').trim().toUpperCase();
+  if (!/^[A-Z]{2}$/.test(code)) return null;
+  return code === 'UK' ? 'GB' : code;
+}
+
+/**
+ * Country of a label's shop, from its domain suffix (FMH.NL → NL, FMH.UK → GB).
+ * Null for labels without one.
+ */
+export function getLabelCountry(label: string): string | null {
+  const suffix = /\.([A-Za-z]{2})$/.exec(label.trim());
+  return suffix ? normalizeCountry(suffix[1]) : null;
+}
+
+// ============================================
+// FILE IMPORT
+// ============================================
+
+// Header names as typed or as weather exports in °C and mm (Open-Meteo,
+// Meteostat) write them, lower-cased without units in brackets
+const WEATHER_HEADERS = {
+  date: ['date', 'datum', 'time', 'day'],
+  country: ['country', 'land'],
+  temperature: ['temperature', 'temp', 'tavg', 'temperature 2m mean', 'mean temperature'],
+  precipitation: ['precipitation', 'rain', 'rainfall', 'prcp', 'precipitation sum', 'neerslag'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.replace(/\(.*?\)/g, '').trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse a measurement. They have no thousands, so both 12,5 (sheet) and
+ * 12.5 (weather exports) are read as decimals.
+ */
+function parseMeasurement(value: string | undefined): number | null {
+  const trimmed = (value ?? '').trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse weather rows (Date, Country, Temperature, Precipitation). Without a
+ * Country column all rows are for the given country. Missing precipitation
+ * counts as dry; rows without a date, country or temperature are errors.
+ */
+export function parseWeatherRows(
+  rows: Record<string, string>[],
+  country?: string
+): { days: WeatherDay[]; errors: number } {
+  if (rows.length === 0) return { days: [], errors: 0 };
+
+  const headerFor = (aliases: string[]) =>
+    Object.keys(rows[0]).find((header) => aliases.includes(normalizeHeader(header)));
+  const columns = Object.fromEntries(
+    Object.entries(WEATHER_HEADERS).map(([key, aliases]) => [key, headerFor(aliases)])
+  ) as Record<keyof typeof WEATHER_HEADERS, string | undefined>;
+
+  const days: WeatherDay[] = [];
+  let errors = 0;
+
+  for (const row of rows) {
+    const date = columns.date ? parseEuropeanDate(row[columns.date]) : null;
+    const rowCountry = normalizeCountry(columns.country ? row[columns.country] : country);
+    const temperature = columns.temperature ? parseMeasurement(row[columns.temperature]) : null;
+    if (!date || !rowCountry || temperature === null) {
+      errors++;
+      continue;
+    }
+    days.push({
+      dateString: format(date, 'yyyy-MM-dd'),
+      country: rowCountry,
+      temperature,
+      precipitation: Math.max(0, (columns.precipitation && parseMeasurement(row[columns.precipitation])) || 0),
+    });
+  }
+
+  return { days, errors };
+}
+
+/**
+ * Combine weather lists; later lists win for the same date and country
+ */
+export function mergeWeather(...lists: WeatherDay[][]): WeatherDay[] {
+  const byKey = new Map<string, WeatherDay>();
+  for (const day of lists.flat()) byKey.set(`${day.dateString}|${day.country}`, day);
+  return [...byKey.values()].sort((a, b) => a.dateString.localeCompare(b.dateString));
+}
+
+// ============================================
+// CHART OVERLAY
+// ============================================
+
+export function formatWeather({ temperature, precipitation }: Pick<WeatherDay, 'temperature' | 'precipitation'>): string {
+  return `${temperature.toFixed(1)}°C · ${precipitation.toFixed(1)} mm`;
+}
+
+/**
+ * Weather per day averaged over the countries of the given labels, for
+ * charts that add the labels up
+ */
+export function weatherByDate(
+  weather: WeatherDay[],
+  labels: string[]
+): Map<string, Pick<WeatherDay, 'temperature' | 'precipitation'>> {
+  const countries = new Set(labels.map(getLabelCountry).filter((c): c is string => c !== null));
+  const sums = new Map<string, { temperature: number; precipitation: number; count: number }>();
+
+  for (const day of weather) {
+    if (!countries.has(day.country)) continue;
+    const sum = sums.get(day.dateString) ?? { temperature: 0, precipitation: 0, count: 0 };
+    sums.set(day.dateString, {
+      temperature: sum.temperature + day.temperature,
+      precipitation: sum.precipitation + day.precipitation,
+      count: sum.count + 1,
+    });
+  }
+
+  return new Map(
+    [...sums].map(([date, sum]) => [
+      date,
+      { temperature: sum.temperature / sum.count, precipitation: sum.precipitation / sum.count },
+    ])
+  );
+}
+
+/**
+ * Chart points with the weather of their day, where known
+ */
+export function withWeather(
+  data: ChartDataPoint[],
+  weather: Map<string, Pick<WeatherDay, 'temperature' | 'precipitation'>>
+): ChartDataPoint[] {
+  if (weather.size === 0) return data;
+  return data.map((point) => {
+    const day = weather.get(point.date);
+    return day ? { ...point, ...day, weather: formatWeather(day) } : point;
+  });
+}
+
+// ============================================
+// SENSITIVITY
+// ============================================
+
+export interface WeatherSensitivity {
+  label: string;
+  country: string;
+  days: number; // Days with both revenue and weather
+  temperatureCorrelation: number; // Of adjusted revenue with the temperature above normal, -1 to 1
+  revenuePerDegree: number; // Percent change in revenue per °C warmer than normal for the time of year
+  precipitationCorrelation: number;
+  rainyDayEffect: number | null; // Percent difference of rainy vs dry days; null without both
+}
+
+/**
+ * Average of the values on the BASELINE_DAYS days around a date, or null when
+ * fewer than MIN_BASELINE_DAYS of them have a value
+ */
+function centeredAverage(values: Map<string, number>, date: Date): number | null {
+  let sum = 0;
+  let count = 0;
+  for (let offset = -BASELINE_DAYS / 2; offset < BASELINE_DAYS / 2; offset++) {
+    const value = values.get(format(addDays(date, offset), 'yyyy-MM-dd'));
+    if (value === undefined) continue;
+    sum += value;
+    count++;
+  }
+  return count >= MIN_BASELINE_DAYS ? sum / count : null;
+}
+
+/**
+ * How each label's revenue moves with the weather in its country.
+ * - Revenue is taken relative to its average over the surrounding four weeks,
+ *   then relative to the label's average for that weekday, so seasons, sale
+ *   periods and weekend peaks don't count as weather effects
+ * - Temperature is taken as the difference with its own four-week average:
+ *   warmer than normal for the time of year
+ * Labels without a country or with fewer than MIN_WEATHER_DAYS such days are left out.
+ */
+export function calculateWeatherSensitivity(metrics: DailyMetrics[], weather: WeatherDay[]): WeatherSensitivity[] {
+  const weatherByCountry = new Map<string, Map<string, WeatherDay>>();
+  for (const day of weather) {
+    const days = weatherByCountry.get(day.country) ?? new Map<string, WeatherDay>();
+    days.set(day.dateString, day);
+    weatherByCountry.set(day.country, days);
+  }
+
+  const byLabel = new Map<string, DailyMetrics[]>();
+  for (const m of metrics) {
+    const rows = byLabel.get(m.label);
+    if (rows) rows.push(m);
+    else byLabel.set(m.label, [m]);
+  }
+
+  const results: WeatherSensitivity[] = [];
+  for (const [label, rows] of byLabel) {
+    const country = getLabelCountry(label);
+    const countryWeather = country ? weatherByCountry.get(country) : undefined;
+    if (!country || !countryWeather) continue;
+
+    const revenueByDate = new Map(rows.filter((m) => m.totalRevenue > 0).map((m) => [m.dateString, m.totalRevenue]));
+    const temperatureByDate = new Map([...countryWeather].map(([date, day]) => [date, day.temperature]));
+
+    // Days with weather and both baselines
+    const days: { dayOfWeek: number; relativeRevenue: number; temperature: number; precipitation: number }[] = [];
+    for (const m of rows) {
+      const day = countryWeather.get(m.dateString);
+      if (!day || m.totalRevenue <= 0) continue;
+      const revenueBaseline = centeredAverage(revenueByDate, m.date);
+      const temperatureBaseline = centeredAverage(temperatureByDate, m.date);
+      if (!revenueBaseline || temperatureBaseline === null) continue;
+      days.push({
+        dayOfWeek: m.dayOfWeek,
+        relativeRevenue: m.totalRevenue / revenueBaseline,
+        temperature: day.temperature - temperatureBaseline,
+        precipitation: day.precipitation,
+      });
+    }
+    if (days.length < MIN_WEATHER_DAYS) continue;
+
+    // The weekday pattern that remains, to take out as well
+    const weekdayTotals = new Map<number, { sum: number; count: number }>();
+    for (const { dayOfWeek, relativeRevenue } of days) {
+      const total = weekdayTotals.get(dayOfWeek) ?? { sum: 0, count: 0 };
+      weekdayTotals.set(dayOfWeek, { sum: total.sum + relativeRevenue, count: total.count + 1 });
+    }
+    const index = days.map(({ dayOfWeek, relativeRevenue }) => {
+      const total = weekdayTotals.get(dayOfWeek)!;
+      return relativeRevenue / (total.sum / total.count);
+    });
+
+    const temperatures = days.map((d) => d.temperature);
+    const precipitation = days.map((d) => d.precipitation);
+
+    const rainy = index.filter((_, i) => precipitation[i] >= RAINY_DAY_MM);
+    const dry = index.filter((_, i) => precipitation[i] < RAINY_DAY_MM);
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    results.push({
+      label,
+      country,
+      days: days.length,
+      temperatureCorrelation: pearsonCorrelation(temperatures, index),
+      revenuePerDegree: linearSlope(temperatures, index) * 100,
+      precipitationCorrelation: pearsonCorrelation(precipitation, index),
+      rainyDayEffect:
+        rainy.length > 0 && dry.length > 0 ? ((average(rainy) - average(dry)) / average(dry)) * 100 : null,
+    });
+  }
+
+  return results.sort((a, b) => Math.abs(b.temperatureCorrelation) - Math.abs(a.temperatureCorrelation));
+}
+
+// ============================================
+// OPEN-METEO (sync-weather connector)
+// ============================================
+
+/**
+ * One country's day, as stored in weather_daily
+ */
+export interface WeatherDailyRow {
+  date: string; // yyyy-MM-dd
+  country: string;
+  temperature: number;
+  precipitation: number;
+}
+
+/**
+ * The daily block of an Open-Meteo archive response. Days not measured yet
+ * (the archive runs a few days behind) are null.
+ */
+export interface OpenMeteoDaily {
+  time: string[];
+  temperature_2m_mean: (number | null)[];
+  precipitation_sum: (number | null)[];
+}
+
+export const OPEN_METEO_DAILY_VARIABLES = ['temperature_2m_mean', 'precipitation_sum'];
+
+/**
+ * Rows of a country from an Open-Meteo response, without the days that have no temperature yet
+ */
+export function openMeteoToWeatherRows(daily: OpenMeteoDaily, country: string): WeatherDailyRow[] {
+  return daily.time
+    .map((date, i) => ({
+      date,
+      country,
+      temperature: daily.temperature_2m_mean[i],
+      precipitation: daily.precipitation_sum[i] ?? 0,
+    }))
+    .filter((row): row is WeatherDailyRow => row.temperature !== null && row.temperature !== undefined);
+}
@@ -0,0 +1,140 @@
+// Local stand-in for the Meta Marketing API and the Google Ads API, serving
+// the recorded responses in fixtures/ so the sync-meta-ads and sync-google-ads
+// connectors can be developed without live credentials. The fixtures cover
+// 2026-10-04 to 2026-10-17 for two accounts per platform; requests for other
+// days get empty results, unknown accounts and missing tokens the APIs' errors.
+//
+//   deno run --allow-net --allow-read supabase/functions/_mock/ad-platforms.ts
+//
+// Then serve the functions against it (host.docker.internal reaches the host
+// from the edge runtime container):
+//   META_API_BASE_URL=http://host.docker.internal:8787/meta/v21.0
+//   META_ACCESS_TOKEN=mock
+//   GOOGLE_ADS_API_BASE_URL=http://host.docker.internal:8787/google/v18
+//   GOOGLE_OAUTH_TOKEN_URL=http://host.docker.internal:8787/google/token
+//   GOOGLE_ADS_DEVELOPER_TOKEN=mock
+//   GOOGLE_ADS_CLIENT_ID=mock
+//   GOOGLE_ADS_CLIENT_SECRET=mock
+//   GOOGLE_ADS_REFRESH_TOKEN=mock
+// and map the fixture accounts to labels:
+//   insert into ad_accounts (platform, account_id, label) values
+//     ('facebook', '1234567890123456', 'FMH.NL'), ('facebook', '2345678901234567', 'FMH.BE'),
+//     ('google', '1234567890', 'FMH.NL'), ('google', '2345678901', 'FMH.BE');
+// and call e.g. sync-meta-ads with { "since": "2026-10-04", "until": "2026-10-17" }.
+const PORT = Number(Deno.env.get('MOCK_PORT') ?? 8787)
+const MOCK_ACCESS_TOKEN = 'mock-google-access-token'
+// Smaller pages than the Graph API's, so the connector's paging is exercised
+const META_PAGE_SIZE = 5
+
+// Only the fields the mock filters on; the rest is passed through as recorded
+type MetaInsight = { date_start: string }
+type GoogleAdsRow = { segments: { date: string } }
+
+const metaInsights: Record<string, MetaInsight[]> = JSON.parse(
+  await Deno.readTextFile(new URL('./fixtures/meta-insights.json', import.meta.url))
+)
+const googleAdsRows: Record<string, GoogleAdsRow[]> = JSON.parse(
+  await Deno.readTextFile(new URL('./fixtures/google-ads-search-stream.json', import.meta.url))
+)
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function bearerToken(req: Request, url: URL): string | null {
+  return req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ?? url.searchParams.get('access_token')
+}
+
+// ---- Meta: GET /meta/<version>/act_<id>/insights ----
+function metaError(message: string, code: number, status: number): Response {
+  return json({ error: { message, type: 'OAuthException', code, fbtrace_id: 'mock' } }, status)
+}
+
+function handleMetaInsights(req: Request, url: URL, accountId: string): Response {
+  if (!bearerToken(req, url)) return metaError('An active access token must be used to query information about the current user.', 2500, 400)
+
+  const insights = metaInsights[accountId]
+  if (!insights) {
+    return metaError(`Unsupported get request. Object with ID 'act_${accountId}' does not exist or cannot be loaded due to missing permissions.`, 100, 400)
+  }
+
+  let range: { since?: string; until?: string } = {}
+  try {
+    range = JSON.parse(url.searchParams.get('time_range') ?? '{}')
+  } catch {
+    return metaError('(#100) time_range must be a JSON object with since and until', 100, 400)
+  }
+
+  const matching = insights.filter(
+    (i) => (!range.since || i.date_start >= range.since) && (!range.until || i.date_start <= range.until)
+  )
+
+  // Cursor paging like the Graph API
+  const limit = Math.min(Number(url.searchParams.get('limit') ?? 25), META_PAGE_SIZE)
+  const offset = Number(url.searchParams.get('after') ?? 0)
+  const page = matching.slice(offset, offset + limit)
+  const paging: { cursors: { before: string; after: string }; next?: string } = {
+    cursors: { before: String(offset), after: String(offset + page.length) },
+  }
+  if (offset + limit < matching.length) {
+    const next = new URL(url)
+    next.searchParams.set('after', String(offset + limit))
+    paging.next = next.toString()
+  }
+
+  return json({ data: page, paging })
+}
+
+// ---- Google: POST /google/token and /google/<version>/customers/<id>/googleAds:searchStream ----
+function googleError(message: string, code: number, status: string): Response {
+  return json({ error: { code, message, status } }, code)
+}
+
+async function handleGoogleToken(req: Request): Promise<Response> {
+  const params = new URLSearchParams(await req.text())
+  if (params.get('grant_type') !== 'refresh_token' || !params.get('refresh_token')) {
+    return json({ error: 'invalid_grant', error_description: 'Bad Request' }, 400)
+  }
+  return json({ access_token: MOCK_ACCESS_TOKEN, expires_in: 3599, token_type: 'Bearer', scope: 'https://www.googleapis.com/auth/adwords' })
+}
+
+async function handleGoogleSearchStream(req: Request, url: URL, customerId: string): Promise<Response> {
+  if (bearerToken(req, url) !== MOCK_ACCESS_TOKEN) {
+    return googleError('Request is missing required authentication credential.', 401, 'UNAUTHENTICATED')
+  }
+  if (!req.headers.get('developer-token')) {
+    return googleError('The developer token is not valid.', 401, 'UNAUTHENTICATED')
+  }
+
+  const rows = googleAdsRows[customerId]
+  if (!rows) return googleError('The caller does not have permission', 403, 'PERMISSION_DENIED')
+
+  const { query } = await req.json().catch(() => ({ query: '' }))
+  const between = /segments\.date BETWEEN '(\d{4}-\d{2}-\d{2})' AND '(\d{4}-\d{2}-\d{2})'/i.exec(query ?? '')
+  if (!between) return googleError('Error in query: expected a segments.date BETWEEN filter.', 400, 'INVALID_ARGUMENT')
+
+  const [, since, until] = between
+  const results = rows.filter((r) => r.segments.date >= since && r.segments.date <= until)
+  return json([
+    {
+      results,
+      fieldMask: 'segments.date,metrics.costMicros,metrics.clicks,metrics.impressions,metrics.conversions',
+      requestId: 'mock',
+    },
+  ])
+}
+
+Deno.serve({ port: PORT }, async (req) => {
+  const url = new URL(req.url)
+  console.log(req.method, url.pathname)
+
+  const meta = /^\/meta\/v[\d.]+\/act_(\w+)\/insights$/.exec(url.pathname)
+  if (meta && req.method === 'GET') return handleMetaInsights(req, url, meta[1])
+
+  if (url.pathname === '/google/token' && req.method === 'POST') return handleGoogleToken(req)
+
+  const google = /^\/google\/v\d+\/customers\/(\d+)\/googleAds:searchStream$/.exec(url.pathname)
+  if (google && req.method === 'POST') return handleGoogleSearchStream(req, url, google[1])
+
+  return json({ error: { message: `No mock for ${req.method} ${url.pathname}` } }, 404)
+})
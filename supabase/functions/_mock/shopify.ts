@@ -0,0 +1,85 @@
+// Local stand-in for the Shopify Admin API orders endpoint, serving the
+// recorded orders in fixtures/ so the sync-shopify-orders connector can be
+// developed without store access. The fixtures cover orders placed from
+// 2026-09-28 to 2026-10-17 for two stores, with refunds (some of orders placed
+// before 2026-10-04), cancellations a few days after the order and a test order.
+//
+//   deno run --allow-net --allow-read supabase/functions/_mock/shopify.ts
+//
+// Then serve the function against it (host.docker.internal reaches the host
+// from the edge runtime container):
+//   SHOPIFY_API_BASE_URL=http://host.docker.internal:8788/shopify
+//   SHOPIFY_ACCESS_TOKENS={"fmh-nl.myshopify.com": "mock", "fmh-be.myshopify.com": "mock"}
+// and map the fixture stores to labels (1354745 is the NL app's sales channel):
+//   insert into shopify_stores (store, label, app_sources) values
+//     ('fmh-nl.myshopify.com', 'FMH.NL', '{1354745}'), ('fmh-be.myshopify.com', 'FMH.BE', '{}');
+// and call sync-shopify-orders with { "since": "2026-10-04", "until": "2026-10-17" }.
+const PORT = Number(Deno.env.get('MOCK_PORT') ?? 8788)
+// Smaller pages than the API's 250, so the connector's paging is exercised
+const PAGE_SIZE = 20
+
+// Only the field the mock filters on; the rest is passed through as recorded
+type Order = { updated_at: string } & Record<string, unknown>
+
+const ordersByStore: Record<string, Order[]> = JSON.parse(
+  await Deno.readTextFile(new URL('./fixtures/shopify-orders.json', import.meta.url))
+)
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } })
+}
+
+// ---- GET /shopify/<store>/admin/api/<version>/orders.json ----
+function handleOrders(req: Request, url: URL, store: string): Response {
+  if (!req.headers.get('X-Shopify-Access-Token')) {
+    return json({ errors: '[API] Invalid API key or access token (unrecognized login or wrong password)' }, 401)
+  }
+
+  const orders = ordersByStore[store]
+  if (!orders) return json({ errors: 'Not Found' }, 404)
+
+  // Like the API, a page_info cursor carries the filters of the first page
+  let cursor: { updatedAtMin: string | null; offset: number }
+  const pageInfo = url.searchParams.get('page_info')
+  if (pageInfo) {
+    try {
+      cursor = JSON.parse(atob(pageInfo))
+    } catch {
+      return json({ errors: { page_info: ['Invalid value.'] } }, 400)
+    }
+  } else {
+    cursor = { updatedAtMin: url.searchParams.get('updated_at_min'), offset: 0 }
+  }
+
+  const updatedAtMin = cursor.updatedAtMin ? Date.parse(cursor.updatedAtMin) : null
+  if (Number.isNaN(updatedAtMin)) return json({ errors: { updated_at_min: ['is invalid'] } }, 400)
+  const matching = orders.filter((o) => updatedAtMin === null || Date.parse(o.updated_at) >= updatedAtMin)
+
+  const limit = Math.min(Number(url.searchParams.get('limit') ?? 50), PAGE_SIZE)
+  const page = matching.slice(cursor.offset, cursor.offset + limit)
+
+  const fields = url.searchParams.get('fields')?.split(',')
+  const body = page.map((order) => (fields ? Object.fromEntries(fields.map((f) => [f, order[f]])) : order))
+
+  const headers: Record<string, string> = {}
+  if (cursor.offset + limit < matching.length) {
+    const next = new URL(url)
+    next.search = ''
+    next.searchParams.set('limit', String(limit))
+    if (fields) next.searchParams.set('fields', fields.join(','))
+    next.searchParams.set('page_info', btoa(JSON.stringify({ ...cursor, offset: cursor.offset + limit })))
+    headers.Link = `<${next}>; rel="next"`
+  }
+
+  return json({ orders: body }, 200, headers)
+}
+
+Deno.serve({ port: PORT }, (req) => {
+  const url = new URL(req.url)
+  console.log(req.method, url.pathname)
+
+  const orders = /^\/shopify\/([\w.-]+)\/admin\/api\/[\w-]+\/orders\.json$/.exec(url.pathname)
+  if (orders && req.method === 'GET') return handleOrders(req, url, orders[1])
+
+  return json({ errors: `No mock for ${req.method} ${url.pathname}` }, 404)
+})
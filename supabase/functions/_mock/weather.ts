@@ -0,0 +1,83 @@
+// Local stand-in for the Open-Meteo historical weather API, serving the sample
+// responses in fixtures/ so the sync-weather connector can be developed
+// offline. The fixtures cover 2026-09-28 to 2026-10-17 for the NL, BE and DE
+// locations of WEATHER_LOCATIONS; like the archive, the last three days are
+// not measured yet (null). Other locations get the API's error.
+//
+//   deno run --allow-net --allow-read supabase/functions/_mock/weather.ts
+//
+// Then serve the function against it (host.docker.internal reaches the host
+// from the edge runtime container):
+//   OPEN_METEO_API_BASE_URL=http://host.docker.internal:8789/open-meteo/v1
+// and call sync-weather with { "since": "2026-10-04", "until": "2026-10-17" }.
+const PORT = Number(Deno.env.get('MOCK_PORT') ?? 8789)
+
+interface ArchiveFixture {
+  latitude: number
+  longitude: number
+  timezone: string
+  daily_units: Record<string, string>
+  daily: { time: string[] } & Record<string, (number | string | null)[]>
+}
+
+const fixtures: Record<string, ArchiveFixture> = JSON.parse(
+  await Deno.readTextFile(new URL('./fixtures/weather-archive.json', import.meta.url))
+)
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function error(reason: string): Response {
+  return json({ error: true, reason }, 400)
+}
+
+// ---- GET /open-meteo/v1/archive ----
+function handleArchive(url: URL): Response {
+  const latitude = Number(url.searchParams.get('latitude'))
+  const longitude = Number(url.searchParams.get('longitude'))
+  const startDate = url.searchParams.get('start_date') ?? ''
+  const endDate = url.searchParams.get('end_date') ?? ''
+  const variables = url.searchParams.get('daily')?.split(',') ?? []
+
+  if (!url.searchParams.has('latitude') || Number.isNaN(latitude)) return error('Parameter latitude is required')
+  if (!url.searchParams.has('longitude') || Number.isNaN(longitude)) return error('Parameter longitude is required')
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    return error('Parameter start_date and end_date must be yyyy-MM-dd')
+  }
+  if (startDate > endDate) return error('End-date must be larger or equal than start-date')
+
+  const fixture = Object.values(fixtures).find(
+    (f) => Math.abs(f.latitude - latitude) < 0.1 && Math.abs(f.longitude - longitude) < 0.1
+  )
+  if (!fixture) return error(`No mock data for ${latitude},${longitude}`)
+
+  const unknown = variables.find((v) => !(v in fixture.daily))
+  if (unknown) return error(`Cannot initialize WeatherVariable from invalid String value ${unknown}`)
+
+  // Only the requested days and variables, like the API
+  const indexes = fixture.daily.time
+    .map((date, i) => (date >= startDate && date <= endDate ? i : -1))
+    .filter((i) => i >= 0)
+  const daily: Record<string, (number | string | null)[]> = {
+    time: indexes.map((i) => fixture.daily.time[i]),
+  }
+  for (const variable of variables) daily[variable] = indexes.map((i) => fixture.daily[variable][i])
+
+  return json({
+    latitude: fixture.latitude,
+    longitude: fixture.longitude,
+    timezone: fixture.timezone,
+    daily_units: Object.fromEntries(['time', ...variables].map((v) => [v, fixture.daily_units[v]])),
+    daily,
+  })
+}
+
+Deno.serve({ port: PORT }, (req) => {
+  const url = new URL(req.url)
+  console.log(req.method, url.pathname)
+
+  if (url.pathname === '/open-meteo/v1/archive' && req.method === 'GET') return handleArchive(url)
+
+  return json({ error: true, reason: `No mock for ${req.method} ${url.pathname}` }, 404)
+})
@@ -0,0 +1,335 @@
+// Alert rule evaluation for edge functions.
+// Daily values mirror calculateMERStatus / calculateROASStatus in
+// src/utils/analytics.ts; the pacing projection is the forecast-based one of
+// calculatePacing (mapped in evaluate-alerts/deno.json). Amounts are converted
+// to the reporting currency with src/utils/currency.ts before labels are added up.
+import { projectMonthRevenue } from '@/utils/analytics.ts'
+import { BASE_CURRENCY, createCurrencyConverter } from '@/utils/currency.ts'
+import { forecastDailyRevenue } from '@/utils/forecast.ts'
+import type { Currency, FxRate } from '@/types/index.ts'
+
+export type AlertMetric = 'mer' | 'roas' | 'revenue' | 'spend' | 'orders' | 'pacing'
+export type AlertOperator = 'above' | 'below'
+
+export interface AlertRule {
+  id: string
+  name: string
+  metric: AlertMetric
+  label: string | null
+  operator: AlertOperator
+  threshold: number
+  consecutive_days: number
+  webhook_url: string | null
+  email_to: string | null
+  last_status: string
+}
+
+export interface DailyRow {
+  date: string // yyyy-MM-dd
+  label: string
+  rev_web: number
+  rev_app: number
+  orders_web: number
+  orders_app: number
+  spend_fb: number
+  spend_google: number
+  platforms: Record<string, { spend: number }> | null // Other ad platforms
+}
+
+// Daily spend of an ad account pulled by the sync-meta-ads / sync-google-ads connectors
+export interface AdSpendRow {
+  date: string // yyyy-MM-dd
+  label: string
+  platform: string
+  spend: number
+}
+
+// Daily revenue and orders of a store pulled by the sync-shopify-orders connector
+export interface ShopRevenueRow {
+  date: string // yyyy-MM-dd
+  label: string
+  rev_web: number
+  rev_app: number
+  orders_web: number
+  orders_app: number
+}
+
+export interface TargetRow {
+  month: string // yyyy-MM
+  label: string
+  revenue_target: number
+}
+
+export interface RuleResult {
+  status: 'ok' | 'firing' | 'no_data'
+  value: number | null
+  message: string
+}
+
+interface DayTotals {
+  revenue: number
+  spend: number
+  orders: number
+}
+
+const METRIC_NAMES: Record<AlertMetric, string> = {
+  mer: 'MER',
+  roas: 'ROAS',
+  revenue: 'Revenue',
+  spend: 'Spend',
+  orders: 'Orders',
+  pacing: 'Projected revenue vs target',
+}
+
+/**
+ * Replace the sheet's Facebook / Google spend with the connector spend on the
+ * days and labels the connectors have data for, like the dashboard does
+ */
+export function applyConnectorSpend(rows: DailyRow[], adRows: AdSpendRow[]): DailyRow[] {
+  const spend = new Map<string, Record<string, number>>()
+  for (const ad of adRows) {
+    const key = `${ad.date}|${ad.label}`
+    const platforms = spend.get(key) ?? {}
+    platforms[ad.platform] = (platforms[ad.platform] ?? 0) + Number(ad.spend)
+    spend.set(key, platforms)
+  }
+
+  return rows.map((row) => {
+    const connector = spend.get(`${row.date}|${row.label}`)
+    if (!connector) return row
+    return {
+      ...row,
+      spend_fb: connector.facebook ?? row.spend_fb,
+      spend_google: connector.google ?? row.spend_google,
+    }
+  })
+}
+
+/**
+ * Replace the sheet's revenue and orders with the Shopify connector's, summed
+ * over the label's stores, on the days and labels it has data for
+ */
+export function applyShopRevenue(rows: DailyRow[], shopRows: ShopRevenueRow[]): DailyRow[] {
+  const shop = new Map<string, Pick<DailyRow, 'rev_web' | 'rev_app' | 'orders_web' | 'orders_app'>>()
+  for (const s of shopRows) {
+    const key = `${s.date}|${s.label}`
+    const day = shop.get(key) ?? { rev_web: 0, rev_app: 0, orders_web: 0, orders_app: 0 }
+    shop.set(key, {
+      rev_web: day.rev_web + Number(s.rev_web),
+      rev_app: day.rev_app + Number(s.rev_app),
+      orders_web: day.orders_web + Number(s.orders_web),
+      orders_app: day.orders_app + Number(s.orders_app),
+    })
+  }
+
+  return rows.map((row) => {
+    const connector = shop.get(`${row.date}|${row.label}`)
+    return connector ? { ...row, ...connector } : row
+  })
+}
+
+/**
+ * Convert revenue, spend and revenue targets from each label's currency into
+ * the reporting currency at the rate of the day (the first of the month for
+ * targets), with the factors convertToCurrency uses for the dashboard and
+ * reports. Amounts in currencies without rates are left unconverted and listed.
+ */
+export function convertToReportingCurrency(
+  rows: DailyRow[],
+  targets: TargetRow[],
+  labelCurrencies: Record<string, Currency>,
+  fxRates: FxRate[],
+  currency: Currency = BASE_CURRENCY
+): { rows: DailyRow[]; targets: TargetRow[]; missingRates: Currency[] } {
+  const converter = createCurrencyConverter(labelCurrencies, fxRates, currency)
+
+  const convertedRows = rows.map((row) => {
+    const factor = converter.factor(row.label, row.date)
+    if (factor === 1) return row
+    return {
+      ...row,
+      rev_web: Number(row.rev_web) * factor,
+      rev_app: Number(row.rev_app) * factor,
+      spend_fb: Number(row.spend_fb) * factor,
+      spend_google: Number(row.spend_google) * factor,
+      platforms: row.platforms
+        ? Object.fromEntries(
+            Object.entries(row.platforms).map(([platform, p]) => [
+              platform,
+              { ...p, spend: (Number(p?.spend) || 0) * factor },
+            ])
+          )
+        : null,
+    }
+  })
+
+  const convertedTargets = targets.map((t) => {
+    const factor = converter.factor(t.label, `${t.month}-01`)
+    return factor === 1 ? t : { ...t, revenue_target: Number(t.revenue_target) * factor }
+  })
+
+  return { rows: convertedRows, targets: convertedTargets, missingRates: converter.missingRates() }
+}
+
+/**
+ * Sum rows per date for one label, or all labels when label is null
+ */
+function totalsByDate(rows: DailyRow[], label: string | null): Map<string, DayTotals> {
+  const byDate = new Map<string, DayTotals>()
+  for (const row of rows) {
+    if (label && row.label !== label) continue
+    const totals = byDate.get(row.date) ?? { revenue: 0, spend: 0, orders: 0 }
+    totals.revenue += Number(row.rev_web) + Number(row.rev_app)
+    totals.spend += Number(row.spend_fb) + Number(row.spend_google)
+    for (const platform of Object.values(row.platforms ?? {})) totals.spend += Number(platform?.spend) || 0
+    totals.orders += Number(row.orders_web) + Number(row.orders_app)
+    byDate.set(row.date, totals)
+  }
+  return byDate
+}
+
+function dailyValue(metric: Exclude<AlertMetric, 'pacing'>, totals: DayTotals): number {
+  switch (metric) {
+    case 'mer':
+      return totals.revenue > 0 ? totals.spend / totals.revenue : 0
+    case 'roas':
+      return totals.spend > 0 ? totals.revenue / totals.spend : 0
+    case 'revenue':
+      return totals.revenue
+    case 'spend':
+      return totals.spend
+    case 'orders':
+      return totals.orders
+  }
+}
+
+function crosses(value: number, rule: AlertRule): boolean {
+  return rule.operator === 'above' ? value > Number(rule.threshold) : value < Number(rule.threshold)
+}
+
+export function formatValue(metric: AlertMetric, value: number, currency: Currency = BASE_CURRENCY): string {
+  switch (metric) {
+    case 'mer':
+      return `${(value * 100).toFixed(1)}%`
+    case 'roas':
+      return `${value.toFixed(2)}x`
+    case 'pacing':
+      return `${value.toFixed(0)}%`
+    case 'orders':
+      return Math.round(value).toString()
+    default:
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value)
+  }
+}
+
+function describeCondition(rule: AlertRule, currency: Currency): string {
+  const scope = rule.label ?? 'all labels'
+  const condition = `${METRIC_NAMES[rule.metric]} ${rule.operator} ${formatValue(rule.metric, Number(rule.threshold), currency)} for ${scope}`
+  return rule.metric !== 'pacing' && rule.consecutive_days > 1
+    ? `${condition}, ${rule.consecutive_days} days running`
+    : condition
+}
+
+/**
+ * The `count` calendar dates (yyyy-MM-dd) up to and including `latest`, oldest first
+ */
+function calendarDaysEndingOn(latest: string, count: number): string[] {
+  const end = new Date(`${latest}T00:00:00Z`)
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(end)
+    date.setUTCDate(end.getUTCDate() - (count - 1 - i))
+    return date.toISOString().slice(0, 10)
+  })
+}
+
+/**
+ * Evaluate a rule for the most recent days with data.
+ * Daily rules fire when every one of the last `consecutive_days` calendar days up to the newest
+ * data day crosses the threshold, and have no data when any of those days is missing;
+ * pacing rules project the month of the newest data day to month-end like the dashboard's
+ * pacing gauge: actuals plus the revenue forecast of the remaining days (run rate without one).
+ * Rows and targets are in `currency` (see convertToReportingCurrency), as are money thresholds.
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  rows: DailyRow[],
+  targets: TargetRow[],
+  currency: Currency = BASE_CURRENCY
+): RuleResult {
+  const byDate = totalsByDate(rows, rule.label)
+  const dates = [...byDate.keys()].sort()
+  if (dates.length === 0) {
+    return { status: 'no_data', value: null, message: `No data for ${rule.label ?? 'all labels'}` }
+  }
+
+  if (rule.metric === 'pacing') {
+    const latest = dates[dates.length - 1]
+    const month = latest.slice(0, 7)
+    const [year, monthIndex] = month.split('-').map(Number)
+    const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate()
+    const daysPassed = Number(latest.slice(8, 10))
+
+    const monthTargets = targets.filter((t) => t.month === month)
+    const labelTargets = rule.label ? monthTargets.filter((t) => t.label === rule.label) : monthTargets
+    const targetRevenue = labelTargets.reduce((sum, t) => sum + Number(t.revenue_target), 0)
+    if (targetRevenue <= 0) {
+      return { status: 'no_data', value: null, message: `No revenue target for ${month}` }
+    }
+
+    const currentRevenue = dates
+      .filter((d) => d.startsWith(month))
+      .reduce((sum, d) => sum + (byDate.get(d)?.revenue ?? 0), 0)
+    // Days without revenue, spend or orders are gaps to the forecast, as on the dashboard
+    const revenueByDay = new Map(
+      dates
+        .map((d) => [d, byDate.get(d) as DayTotals] as const)
+        .filter(([, t]) => t.revenue !== 0 || t.spend !== 0 || t.orders !== 0)
+        .map(([d, t]) => [d, t.revenue])
+    )
+    const forecast = forecastDailyRevenue(revenueByDay, new Date(`${latest}T00:00:00`))
+    const projectedRevenue = projectMonthRevenue(currentRevenue, daysPassed, daysInMonth, forecast)
+    const value = (projectedRevenue / targetRevenue) * 100
+
+    return {
+      status: crosses(value, rule) ? 'firing' : 'ok',
+      value,
+      message: `${rule.name}: projected ${formatValue('revenue', projectedRevenue, currency)} is ${formatValue('pacing', value)} of the ${month} target (${describeCondition(rule, currency)})`,
+    }
+  }
+
+  const metric = rule.metric
+  const days = Math.max(1, rule.consecutive_days)
+  const recent = calendarDaysEndingOn(dates[dates.length - 1], days)
+  const missing = recent.filter((d) => !byDate.has(d))
+  if (missing.length > 0) {
+    return { status: 'no_data', value: null, message: `No data for ${missing.join(', ')} in the last ${days} days` }
+  }
+
+  const values = recent.map((d) => dailyValue(metric, byDate.get(d) as DayTotals))
+  const value = values[values.length - 1]
+  const firing = values.every((v) => crosses(v, rule))
+
+  return {
+    status: firing ? 'firing' : 'ok',
+    value,
+    message: `${rule.name}: ${METRIC_NAMES[metric]} was ${formatValue(metric, value, currency)} on ${recent[recent.length - 1]} (${describeCondition(rule, currency)})`,
+  }
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+/**
+ * Post to a webhook with a Slack-compatible payload
+ */
+export async function sendWebhook(url: string, message: string): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: `:rotating_light: ${message}` }),
+  })
+  if (!response.ok) {
+    throw new Error(`Webhook responded ${response.status}`)
+  }
+}
@@ -0,0 +1,70 @@
+// Caller authentication for edge functions.
+// verify_jwt only checks that the token is signed by the project, which the
+// public anon key is too, so functions also look up the signed-in user.
+import { createClient, type User } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization')
+  return header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null
+}
+
+/**
+ * The signed-in user behind the request's access token, or null for
+ * missing, expired or revoked sessions and for the anon key
+ */
+export async function getUser(req: Request): Promise<User | null> {
+  const token = getBearerToken(req)
+  if (!token || !SUPABASE_URL || !SUPABASE_ANON_KEY) return null
+
+  const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
+  const { data, error } = await client.auth.getUser(token)
+  return error ? null : data.user
+}
+
+/**
+ * True for server-to-server calls made with the service role key (e.g. pg_cron)
+ */
+export function isServiceRole(req: Request): boolean {
+  return !!SUPABASE_SERVICE_ROLE_KEY && getBearerToken(req) === SUPABASE_SERVICE_ROLE_KEY
+}
+
+export interface UserProfile {
+  role: 'admin' | 'analyst' | 'brand_viewer'
+  allowed_labels: string[] | null // null = all labels
+}
+
+/**
+ * Role and label allow-list of a user. Users without a profile get no access.
+ * Mirrors the can_view_label() policy helpers in the user_roles migration.
+ */
+export async function getUserProfile(userId: string): Promise<UserProfile> {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return { role: 'brand_viewer', allowed_labels: [] }
+
+  const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+  const { data } = await admin
+    .from('user_profiles')
+    .select('role, allowed_labels')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return data ?? { role: 'brand_viewer', allowed_labels: [] }
+}
+
+export function canViewAllLabels(profile: UserProfile): boolean {
+  return profile.role === 'admin' || profile.allowed_labels === null
+}
+
+export function canViewLabel(profile: UserProfile, label: string): boolean {
+  return canViewAllLabels(profile) || (profile.allowed_labels ?? []).includes(label)
+}
+
+/**
+ * Admins and analysts may trigger syncs and alert evaluations
+ */
+export function canManage(profile: UserProfile): boolean {
+  return profile.role === 'admin' || profile.role === 'analyst'
+}
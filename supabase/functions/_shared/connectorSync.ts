@@ -0,0 +1,189 @@
+// Shared run loop of the API connectors (sync-meta-ads, sync-google-ads,
+// sync-shopify-orders, sync-weather). Loads the enabled accounts, stores or
+// locations, pulls each one's daily totals for the requested days and upserts
+// them into the connector's table.
+// A failing account is logged and skipped so one revoked token doesn't block
+// the others; the run is then recorded as an error listing those accounts.
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from './sheet.ts'
+import { canManage, getUser, getUserProfile, isServiceRole } from './auth.ts'
+import type { AdAccount, AdPlatformMetricsRow, ConnectorPlatform } from '@/utils/adConnectors.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const UPSERT_CHUNK_SIZE = 500
+// Conversions keep being attributed to the click day for a while, so recent
+// days are pulled again on every run
+const DEFAULT_LOOKBACK_DAYS = 7
+const MAX_RANGE_DAYS = 90
+const DAY_MS = 24 * 60 * 60 * 1000
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+export interface ConnectorRequest {
+  since?: string // yyyy-MM-dd, defaults to the connector's lookback before until
+  until?: string // yyyy-MM-dd, defaults to today
+}
+
+export type FetchAccountRows<Account, Row> = (account: Account, since: string, until: string) => Promise<Row[]>
+
+export interface Connector<Account, Row> {
+  source: string // sync_runs.source
+  // Names of the missing environment variables, if any
+  missingConfig: string[]
+  lookbackDays?: number // Defaults to a week
+  // The enabled accounts (or stores, locations) and the name their failures are reported under
+  loadAccounts: (supabase: SupabaseClient) => Promise<Account[]>
+  accountName: (account: Account) => string
+  // Where the rows go, and their key
+  table: string
+  onConflict: string
+  // Called once per run, e.g. to exchange a refresh token for an access token
+  createFetcher: () => Promise<FetchAccountRows<Account, Row>>
+}
+
+export interface AdConnector {
+  platform: ConnectorPlatform
+  source: string
+  missingConfig: string[]
+  createFetcher: () => Promise<FetchAccountRows<AdAccount, AdPlatformMetricsRow>>
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * The requested day range, or an error message for invalid ones
+ */
+function resolveRange(
+  { since, until }: ConnectorRequest,
+  lookbackDays: number
+): { since: string; until: string } | string {
+  const end = until ?? toISODate(new Date())
+  const start = since ?? toISODate(new Date(Date.parse(end) - lookbackDays * DAY_MS))
+  if (!ISO_DATE.test(start) || !ISO_DATE.test(end)) return 'since and until must be yyyy-MM-dd dates'
+  if (start > end) return 'since must not be after until'
+  if ((Date.parse(end) - Date.parse(start)) / DAY_MS >= MAX_RANGE_DAYS) {
+    return `At most ${MAX_RANGE_DAYS} days per run`
+  }
+  return { since: start, until: end }
+}
+
+export async function runConnector<Account, Row>(req: Request, connector: Connector<Account, Row>): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (!isServiceRole(req)) {
+    const user = await getUser(req)
+    if (!user) return jsonResponse({ error: 'Not signed in' }, 401)
+    if (!canManage(await getUserProfile(user.id))) {
+      return jsonResponse({ error: 'Only admins and analysts can do this' }, 403)
+    }
+  }
+
+  const missing = [
+    ...(!SUPABASE_URL ? ['SUPABASE_URL'] : []),
+    ...(!SUPABASE_SERVICE_ROLE_KEY ? ['SUPABASE_SERVICE_ROLE_KEY'] : []),
+    ...connector.missingConfig,
+  ]
+  if (missing.length > 0) {
+    console.error(`${connector.source} misconfigured: ${missing.join(', ')} missing`)
+    return jsonResponse({ error: 'Server misconfiguration' }, 500)
+  }
+
+  const body: ConnectorRequest = await req.json().catch(() => ({}))
+  const range = resolveRange(body, connector.lookbackDays ?? DEFAULT_LOOKBACK_DAYS)
+  if (typeof range === 'string') return jsonResponse({ error: range }, 400)
+
+  const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!)
+  const syncedAt = new Date().toISOString()
+
+  const { data: run } = await supabase
+    .from('sync_runs')
+    .insert({ started_at: syncedAt, source: connector.source })
+    .select('id')
+    .single()
+
+  try {
+    const accounts = await connector.loadAccounts(supabase)
+
+    const fetchRows = await connector.createFetcher()
+    const rows: Row[] = []
+    const failed: string[] = []
+
+    for (const account of accounts) {
+      try {
+        rows.push(...(await fetchRows(account, range.since, range.until)))
+      } catch (e) {
+        const name = connector.accountName(account)
+        console.error(`${connector.source}: ${name} failed:`, e)
+        failed.push(`${name}: ${e instanceof Error ? e.message : e}`)
+      }
+    }
+
+    const upserts = rows.map((row) => ({ ...row, synced_at: syncedAt }))
+    for (let i = 0; i < upserts.length; i += UPSERT_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from(connector.table)
+        .upsert(upserts.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: connector.onConflict })
+      if (error) throw error
+    }
+
+    const summary = {
+      ...range,
+      accounts: accounts.length,
+      accounts_failed: failed.length,
+      rows_upserted: rows.length,
+    }
+
+    if (run) {
+      await supabase
+        .from('sync_runs')
+        .update({
+          rows_upserted: rows.length,
+          status: failed.length > 0 ? 'error' : 'success',
+          error: failed.length > 0 ? failed.join('; ') : null,
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', run.id)
+    }
+
+    console.log(`${connector.source} sync complete:`, summary)
+    return jsonResponse(failed.length > 0 ? { ...summary, errors: failed } : summary)
+  } catch (error) {
+    console.error(`${connector.source} sync error:`, error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (run) {
+      await supabase
+        .from('sync_runs')
+        .update({ status: 'error', error: message, finished_at: new Date().toISOString() })
+        .eq('id', run.id)
+    }
+
+    return jsonResponse({ error: message }, 500)
+  }
+}
+
+/**
+ * Run an ad platform connector over the platform's enabled ad_accounts into ad_platform_metrics
+ */
+export function runAdConnector(req: Request, connector: AdConnector): Promise<Response> {
+  return runConnector(req, {
+    ...connector,
+    loadAccounts: async (supabase) => {
+      const { data, error } = await supabase
+        .from('ad_accounts')
+        .select('platform, account_id, label')
+        .eq('platform', connector.platform)
+        .eq('enabled', true)
+      if (error) throw error
+      return (data ?? []) as AdAccount[]
+    },
+    accountName: (account) => `account ${account.account_id}`,
+    table: 'ad_platform_metrics',
+    onConflict: 'date,platform,account_id',
+  })
+}
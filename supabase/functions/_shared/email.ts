@@ -0,0 +1,62 @@
+// Email delivery over SMTP for edge functions (alerts and reports).
+
+export interface SmtpConfig {
+  hostname: string
+  port: number
+  username: string
+  password: string
+  from: string
+}
+
+export interface EmailAttachment {
+  filename: string
+  contentType: string
+  content: Uint8Array
+}
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS and ALERT_EMAIL_FROM,
+ * or null when email delivery is not configured
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const hostname = Deno.env.get('SMTP_HOST')
+  const username = Deno.env.get('SMTP_USER')
+  const password = Deno.env.get('SMTP_PASS')
+  const from = Deno.env.get('ALERT_EMAIL_FROM')
+  if (!hostname || !username || !password || !from) return null
+
+  return { hostname, port: Number(Deno.env.get('SMTP_PORT') || 465), username, password, from }
+}
+
+/**
+ * Send a plain-text email to a comma-separated list of recipients
+ */
+export async function sendEmail(
+  config: SmtpConfig,
+  to: string,
+  subject: string,
+  message: string,
+  attachments: EmailAttachment[] = []
+): Promise<void> {
+  const { SMTPClient } = await import('https://deno.land/x/denomailer@1.6.0/mod.ts')
+  const client = new SMTPClient({
+    connection: {
+      hostname: config.hostname,
+      port: config.port,
+      tls: config.port === 465,
+      auth: { username: config.username, password: config.password },
+    },
+  })
+
+  try {
+    await client.send({
+      from: config.from,
+      to: to.split(',').map((address) => address.trim()).filter(Boolean),
+      subject,
+      content: message,
+      attachments: attachments.map((a) => ({ ...a, encoding: 'binary' as const })),
+    })
+  } finally {
+    await client.close()
+  }
+}
@@ -0,0 +1,271 @@
+// Executive report data for the send-report function.
+// KPIs, pacing and the brand podium come from src/utils/analytics.ts (mapped
+// in send-report/deno.json), so the report matches the dashboard.
+import { addDays, endOfMonth, format, startOfMonth, startOfWeek, subDays, subMonths, subYears } from 'date-fns'
+import {
+  alignDateByDayOfWeek,
+  calculateBrandBenchmarks,
+  calculateMERStatus,
+  calculatePacing,
+  calculateROASStatus,
+  filterByDateRange,
+} from '@/utils/analytics.ts'
+import {
+  createTransformedRow,
+  parseEuropeanDate,
+  toCompatibleMetrics,
+  type SheetPlatformValues,
+} from '@/utils/sheetTransformer.ts'
+import { withConnectorPlatforms } from '@/utils/adConnectors.ts'
+import { withShopDay, type ShopDay } from '@/utils/shopify.ts'
+import { platformsFromWarehouse, type WarehousePlatforms } from '@/utils/platforms.ts'
+import type {
+  BrandBenchmarkPoint,
+  DailyMetrics,
+  DateRange,
+  EventAnnotation,
+  EventType,
+  MonthlyTarget,
+  PacingData,
+  Platform,
+} from '@/types/index.ts'
+
+export type ReportPeriod = 'weekly' | 'monthly'
+export type ReportLanguage = 'en' | 'nl'
+export type ReportKpi = 'revenue' | 'spend' | 'orders' | 'aov' | 'mer' | 'roas'
+
+export const REPORT_KPIS: ReportKpi[] = ['revenue', 'spend', 'orders', 'aov', 'mer', 'roas']
+const MAX_EVENTS = 5
+
+export interface ReportSchedule {
+  id: string
+  name: string
+  period: ReportPeriod
+  language: ReportLanguage
+  recipients: string
+  labels: string[] | null // null = all labels
+}
+
+export interface ReportKpiValue {
+  kpi: ReportKpi
+  value: number
+  previous: number // Same period last year
+}
+
+export interface ReportData {
+  period: ReportPeriod
+  range: DateRange
+  previousRange: DateRange
+  labels: string[] | null
+  kpis: ReportKpiValue[]
+  pacing: PacingData | null // Month of the range end; null without a target
+  podium: BrandBenchmarkPoint[]
+  events: EventAnnotation[]
+}
+
+export interface MetricsRow {
+  date: string // yyyy-MM-dd
+  label: string
+  rev_web: number
+  rev_app: number
+  orders_web: number
+  orders_app: number
+  conv_fb: number
+  conv_google: number
+  spend_fb: number
+  spend_google: number
+  last_click_fb: number
+  last_click_google: number
+  platforms: WarehousePlatforms
+  returned_revenue: number
+  returned_orders: number
+  sessions_web: number
+  sessions_app: number
+  add_to_carts_web: number
+  add_to_carts_app: number
+  checkouts_web: number
+  checkouts_app: number
+}
+
+export interface TargetRow {
+  month: string // yyyy-MM
+  label: string
+  revenue_target: number
+  orders_target: number
+  mer_target: number
+  ad_budget: number
+}
+
+export interface EventRow {
+  date: string // yyyy-MM-dd
+  title: string
+  description: string | null
+  type: string
+  label: string | null
+}
+
+// ============================================
+// ROW CONVERSION
+// Mirrors warehouseRowToMetrics / fetchWarehouseData in src/utils/warehouse.ts,
+// which depend on the browser Supabase client
+// ============================================
+
+export function rowToMetrics(
+  row: MetricsRow,
+  connectorPlatforms?: Record<Platform, SheetPlatformValues>,
+  shop?: ShopDay
+): DailyMetrics | null {
+  const date = parseEuropeanDate(row.date)
+  if (!date) return null
+
+  return toCompatibleMetrics(
+    createTransformedRow(
+      date,
+      row.label,
+      withShopDay(
+        {
+          revenueWeb: Number(row.rev_web),
+          revenueApp: Number(row.rev_app),
+          ordersWeb: row.orders_web,
+          ordersApp: row.orders_app,
+          platforms: withConnectorPlatforms(platformsFromWarehouse(row), connectorPlatforms),
+          returnedRevenue: Number(row.returned_revenue),
+          returnedOrders: row.returned_orders,
+          funnel: {
+            web: { sessions: row.sessions_web, addToCarts: row.add_to_carts_web, checkouts: row.checkouts_web },
+            app: { sessions: row.sessions_app, addToCarts: row.add_to_carts_app, checkouts: row.checkouts_app },
+          },
+        },
+        shop
+      )
+    )
+  )
+}
+
+export function rowToTarget(row: TargetRow): MonthlyTarget {
+  return {
+    month: row.month,
+    label: row.label,
+    revenueTarget: Number(row.revenue_target),
+    ordersTarget: row.orders_target,
+    merTarget: Number(row.mer_target),
+    adBudget: Number(row.ad_budget),
+  }
+}
+
+export function rowToEvent(row: EventRow): EventAnnotation | null {
+  const date = parseEuropeanDate(row.date)
+  if (!date) return null
+
+  return {
+    date,
+    dateString: row.date,
+    title: row.title,
+    description: row.description ?? undefined,
+    type: row.type as EventType,
+    label: row.label ?? undefined,
+  }
+}
+
+// ============================================
+// REPORT PERIODS
+// ============================================
+
+/**
+ * The last complete period before the reference date: the previous
+ * Monday-Sunday for weekly reports, the previous calendar month for monthly ones
+ */
+export function reportRange(period: ReportPeriod, referenceDate: Date): DateRange {
+  if (period === 'weekly') {
+    const end = subDays(startOfWeek(referenceDate, { weekStartsOn: 1 }), 1)
+    return { start: startOfWeek(end, { weekStartsOn: 1 }), end }
+  }
+
+  return { start: startOfMonth(subMonths(referenceDate, 1)), end: subDays(startOfMonth(referenceDate), 1) }
+}
+
+/**
+ * Last year's counterpart: aligned by weekday for weekly reports (like the
+ * dashboard's "align by day of week"), the same calendar month for monthly ones
+ */
+export function previousYearRange(period: ReportPeriod, range: DateRange): DateRange {
+  if (period === 'weekly') {
+    const start = alignDateByDayOfWeek(range.start)
+    return { start, end: addDays(start, 6) }
+  }
+
+  const start = subYears(range.start, 1)
+  return { start, end: endOfMonth(start) }
+}
+
+// ============================================
+// REPORT DATA
+// ============================================
+
+function kpiValue(kpi: ReportKpi, metrics: DailyMetrics[]): number {
+  const revenue = metrics.reduce((sum, m) => sum + m.totalRevenue, 0)
+  const orders = metrics.reduce((sum, m) => sum + m.orders, 0)
+
+  switch (kpi) {
+    case 'revenue':
+      return revenue
+    case 'spend':
+      return metrics.reduce((sum, m) => sum + m.totalSpend, 0)
+    case 'orders':
+      return orders
+    case 'aov':
+      return orders > 0 ? revenue / orders : 0
+    case 'mer':
+      return calculateMERStatus(metrics).value
+    case 'roas':
+      return calculateROASStatus(metrics).value
+  }
+}
+
+/**
+ * Build the report for the period before the reference date. Metrics,
+ * targets and events should already be limited to the schedule's labels.
+ */
+export function buildReport(
+  schedule: Pick<ReportSchedule, 'period' | 'labels'>,
+  referenceDate: Date,
+  metrics: DailyMetrics[],
+  targets: MonthlyTarget[],
+  events: EventAnnotation[]
+): ReportData {
+  const range = reportRange(schedule.period, referenceDate)
+  const previousRange = previousYearRange(schedule.period, range)
+  const current = filterByDateRange(metrics, range)
+  const previous = filterByDateRange(metrics, previousRange)
+
+  // Pacing as it stood at the end of the period, against the combined target
+  const monthTargets = targets.filter((t) => t.month === format(range.end, 'yyyy-MM'))
+  const pacing = monthTargets.length > 0
+    ? calculatePacing(
+        metrics.filter((m) => m.date <= range.end),
+        {
+          month: monthTargets[0].month,
+          label: 'Combined',
+          revenueTarget: monthTargets.reduce((sum, t) => sum + t.revenueTarget, 0),
+          ordersTarget: monthTargets.reduce((sum, t) => sum + t.ordersTarget, 0),
+          merTarget: monthTargets[0].merTarget,
+          adBudget: monthTargets.reduce((sum, t) => sum + t.adBudget, 0),
+        },
+        range.end
+      )
+    : null
+
+  return {
+    period: schedule.period,
+    range,
+    previousRange,
+    labels: schedule.labels,
+    kpis: REPORT_KPIS.map((kpi) => ({ kpi, value: kpiValue(kpi, current), previous: kpiValue(kpi, previous) })),
+    pacing,
+    podium: calculateBrandBenchmarks(current, previous).slice(0, 3),
+    events: events
+      .filter((e) => e.date >= range.start && e.date <= range.end)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(0, MAX_EVENTS),
+  }
+}
@@ -0,0 +1,173 @@
+// PDF rendering of executive reports (A4, standard Helvetica fonts).
+// Texts come from the reports section of src/i18n/translations.ts.
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib'
+import { format } from 'date-fns'
+import { enGB, nl } from 'date-fns/locale'
+import { formatCurrency, formatPercentage, formatROAS } from '@/utils/analytics.ts'
+import { translations } from '@/i18n/translations.ts'
+import type { DateRange } from '@/types/index.ts'
+import type { ReportData, ReportKpi, ReportLanguage } from './report.ts'
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const COLUMN_X = [MARGIN, 230, 350, 470] // Metric, this period, last year, change
+
+const COLORS = {
+  text: rgb(0.1, 0.1, 0.12),
+  muted: rgb(0.45, 0.45, 0.5),
+  rule: rgb(0.85, 0.85, 0.88),
+  positive: rgb(0.09, 0.55, 0.33),
+  negative: rgb(0.8, 0.2, 0.2),
+}
+
+/**
+ * Replace {key} placeholders, like useTranslation's interpolate
+ */
+export function interpolate(text: string, params: Record<string, string | number>): string {
+  return Object.entries(params).reduce((acc, [key, value]) => acc.replace(`{${key}}`, String(value)), text)
+}
+
+export function formatReportRange(range: DateRange, language: ReportLanguage): string {
+  const locale = language === 'nl' ? nl : enGB
+  return `${format(range.start, 'd MMM yyyy', { locale })} - ${format(range.end, 'd MMM yyyy', { locale })}`
+}
+
+export function formatKpi(kpi: ReportKpi, value: number): string {
+  switch (kpi) {
+    case 'orders':
+      return Math.round(value).toLocaleString('en-EU')
+    case 'mer':
+      return `${(value * 100).toFixed(1)}%`
+    case 'roas':
+      return formatROAS(value)
+    default:
+      return formatCurrency(value)
+  }
+}
+
+export function formatChange(value: number, previous: number): string {
+  return previous > 0 ? formatPercentage(((value - previous) / previous) * 100) : '-'
+}
+
+// Standard fonts only encode WinAnsi; drop anything else (e.g. emoji in event titles)
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\u00A0-\u00FF\u20AC\u2013\u2014\u2018\u2019\u201C\u201D\u2022]/g, '')
+}
+
+/**
+ * Render the report as a single-page PDF
+ */
+export async function renderReportPdf(report: ReportData, language: ReportLanguage): Promise<Uint8Array> {
+  const t = translations[language].reports
+  const locale = language === 'nl' ? nl : enGB
+
+  const pdf = await PDFDocument.create()
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const text = (value: string, x: number, size: number, font: PDFFont = regular, color: RGB = COLORS.text) => {
+    page.drawText(toWinAnsi(value), { x, y, size, font, color })
+  }
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y: y - 6 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y - 6 },
+      thickness: 0.5,
+      color: COLORS.rule,
+    })
+  }
+  const section = (title: string) => {
+    y -= 34
+    text(title, MARGIN, 13, bold)
+    rule()
+    y -= 24
+  }
+
+  // Title
+  const title = report.period === 'weekly' ? t.weeklyTitle : t.monthlyTitle
+  text(title, MARGIN, 22, bold)
+  y -= 22
+  text(formatReportRange(report.range, language), MARGIN, 12)
+  y -= 16
+  text(report.labels ? report.labels.join(', ') : t.allLabels, MARGIN, 10, regular, COLORS.muted)
+  y -= 14
+  text(interpolate(t.comparedWith, { range: formatReportRange(report.previousRange, language) }), MARGIN, 10, regular, COLORS.muted)
+
+  // KPIs vs last year
+  section(t.keyMetrics)
+  const headers = [t.metric, t.thisPeriod, t.lastYear, t.change]
+  headers.forEach((header, i) => text(header, COLUMN_X[i], 9, bold, COLORS.muted))
+  y -= 18
+  for (const { kpi, value, previous } of report.kpis) {
+    const change = previous > 0 ? (value - previous) / previous : 0
+    // A higher MER is worse; spend is neither good nor bad
+    const good = kpi === 'mer' ? change < 0 : change > 0
+    const changeColor = kpi === 'spend' || change === 0 ? COLORS.text : good ? COLORS.positive : COLORS.negative
+
+    text(t.kpis[kpi], COLUMN_X[0], 11)
+    text(formatKpi(kpi, value), COLUMN_X[1], 11, bold)
+    text(formatKpi(kpi, previous), COLUMN_X[2], 11, regular, COLORS.muted)
+    text(formatChange(value, previous), COLUMN_X[3], 11, bold, changeColor)
+    y -= 18
+  }
+
+  // Pacing for the month the period ends in
+  section(t.pacing)
+  if (report.pacing) {
+    const { pacing } = report
+    text(
+      interpolate(t.pacingSummary, {
+        current: formatCurrency(pacing.currentRevenue),
+        target: formatCurrency(pacing.targetRevenue),
+        days: pacing.daysPassed,
+        total: pacing.daysInMonth,
+        pacing: `${pacing.pacingPercentage.toFixed(0)}%`,
+      }),
+      MARGIN,
+      11
+    )
+    y -= 16
+    text(
+      interpolate(t.projected, {
+        projected: formatCurrency(pacing.projectedRevenue),
+        percentage: `${pacing.projectedPercentage.toFixed(0)}%`,
+      }),
+      MARGIN,
+      11,
+      bold,
+      pacing.onTrack ? COLORS.positive : COLORS.negative
+    )
+  } else {
+    text(interpolate(t.noTarget, { month: format(report.range.end, 'MMMM yyyy', { locale }) }), MARGIN, 11, regular, COLORS.muted)
+  }
+
+  // Podium: top 3 brands by revenue
+  section(t.podium)
+  report.podium.forEach((brand, i) => {
+    text(`${i + 1}. ${brand.label}`, MARGIN, 11, bold)
+    text(formatCurrency(brand.revenue), COLUMN_X[1], 11)
+    text(interpolate(t.podiumGrowth, { growth: formatPercentage(brand.growthPercentage) }), COLUMN_X[2], 11, regular, COLORS.muted)
+    y -= 18
+  })
+  if (report.podium.length > 0) y += 18
+
+  // Events in the period
+  section(t.topEvents)
+  if (report.events.length === 0) {
+    text(t.noEvents, MARGIN, 11, regular, COLORS.muted)
+  }
+  report.events.forEach((event) => {
+    text(format(event.date, 'd MMM', { locale }), MARGIN, 11, regular, COLORS.muted)
+    text(event.label ? `${event.title} (${event.label})` : event.title, MARGIN + 60, 11)
+    y -= 16
+  })
+
+  // Footer
+  y = MARGIN
+  text(interpolate(t.generatedOn, { date: format(new Date(), 'd MMM yyyy HH:mm', { locale }) }), MARGIN, 8, regular, COLORS.muted)
+
+  return await pdf.save()
+}
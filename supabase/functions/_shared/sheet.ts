@@ -0,0 +1,169 @@
+// Shared Google Sheet helpers for edge functions.
+// Mirrors the European-format parsing in src/utils/sheetTransformer.ts and
+// parseCSV in src/utils/dataHarmonizer.ts, which can't be imported into Deno.
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Fetch a sheet tab as CSV text via the gviz endpoint
+ */
+export async function fetchSheetCSV(sheetId: string, sheetName: string): Promise<string> {
+  const url = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(sheetName)}`
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sheet "${sheetName}": ${response.status}`)
+  }
+
+  const csv = await response.text()
+  if (csv.includes('<!DOCTYPE html>') || csv.includes('<html')) {
+    throw new Error('Google Sheet is private. Please set sharing to "Anyone with the link can view".')
+  }
+
+  return csv
+}
+
+function parseCSVLine(line: string, delimiter: string): string[] {
+  const result: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (char === delimiter && !inQuotes) {
+      result.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  result.push(current.trim())
+
+  return result
+}
+
+/**
+ * Parse CSV text to an array of header-keyed records
+ */
+export function parseCSV(csv: string): Record<string, string>[] {
+  const lines = csv.trim().split('\n')
+  if (lines.length < 2) return []
+
+  const delimiter = lines[0].includes(';') ? ';' : ','
+  const headers = parseCSVLine(lines[0], delimiter)
+
+  return lines.slice(1)
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .map((line) => {
+      const values = parseCSVLine(line, delimiter)
+      const row: Record<string, string> = {}
+      headers.forEach((header, index) => {
+        row[header] = values[index] || ''
+      })
+      return row
+    })
+}
+
+// Headers the Label column may have in the sheet, mirrors the Label aliases in
+// DAILY_COLUMNS (src/utils/columnMapping.ts)
+const LABEL_HEADERS = ['label', 'brand', 'store', 'shop']
+
+/**
+ * Keep only the CSV rows whose label passes `keep`. Rows without a label are
+ * dropped, as they can't be checked against it. Returns null when the CSV has no
+ * recognisable label column, so callers can refuse instead of leaking rows.
+ */
+export function filterCSVByLabel(csv: string, keep: (label: string) => boolean): string | null {
+  const lines = csv.trim().split('\n')
+  if (lines.length === 0) return csv
+
+  const delimiter = lines[0].includes(';') ? ';' : ','
+  const headers = parseCSVLine(lines[0], delimiter).map((h) => h.toLowerCase())
+  const labelIndex = headers.findIndex((h) => LABEL_HEADERS.includes(h))
+  if (labelIndex === -1) return null
+
+  const rows = lines.slice(1).filter((line) => {
+    const label = parseCSVLine(line, delimiter)[labelIndex] || ''
+    return label !== '' && keep(label)
+  })
+  return [lines[0], ...rows].join('\n')
+}
+
+/**
+ * Parse European number format ("1.633,5" -> 1633.5)
+ */
+export function parseEuropeanNumber(value: string | undefined | null): number {
+  if (value === undefined || value === null || value.trim() === '') return 0
+  const parsed = parseFloat(value.trim().replace(/\./g, '').replace(',', '.'))
+  return isNaN(parsed) ? 0 : parsed
+}
+
+/**
+ * Parse a European (d-M-yyyy, d/M/yyyy, d.M.yyyy) or ISO (yyyy-MM-dd) date to yyyy-MM-dd
+ */
+export function parseEuropeanDate(value: string | undefined | null): string | null {
+  if (!value) return null
+  const trimmed = value.trim()
+
+  let day: number, month: number, year: number
+  const european = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/)
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+
+  if (european) {
+    [day, month, year] = [Number(european[1]), Number(european[2]), Number(european[3])]
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+  } else {
+    return null
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Normalize "1-2025" / "01/2025" / "2025-01" to yyyy-MM
+ */
+export function normalizeMonth(value: string): string | null {
+  const trimmed = value.trim()
+  const match = trimmed.match(/^(\d{1,2})[-/](\d{4})$/)
+  if (match) return `${match[2]}-${match[1].padStart(2, '0')}`
+  return /^\d{4}-\d{2}$/.test(trimmed) ? trimmed : null
+}
+
+/**
+ * SHA-256 hex digest, used for change detection
+ */
+export async function sha256(text: string): Promise<string> {
+  const buffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Re-key rows from source headers to the expected column names.
+ * Mirrors applyColumnMapping in src/utils/columnMapping.ts.
+ */
+export function applyColumnMapping(
+  rows: Record<string, string>[],
+  mapping: Record<string, string>,
+): Record<string, string>[] {
+  const entries = Object.entries(mapping).filter(([, header]) => header)
+  return rows.map((row) => Object.fromEntries(entries.map(([column, header]) => [column, row[header] ?? ''])))
+}
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getUser } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,8 +12,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  if (!(await getUser(req))) {
+    return new Response(
+      JSON.stringify({ error: "Not signed in" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
   try {
-    const { question, context } = await req.json();
+    const { question, context, currency = "EUR" } = await req.json();
     
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) {
@@ -30,7 +38,7 @@ Instructions:
 - Be concise and specific
 - Use actual numbers from the data when relevant
 - Keep responses under 100 words for quick insights
-- Format currency values with € symbol
+- Amounts are in ${currency}; format currency values in ${currency}
 - Use percentages for comparisons
 - If asked about something not in the data, say so briefly`;
 
@@ -0,0 +1,234 @@
+// Evaluate alert rules over the metrics warehouse and notify on new firings.
+// - A rule notifies when it goes from not firing to firing; while it keeps
+//   firing nothing is sent, after recovering it can notify again
+// - Delivery via the rule's webhook (Slack-compatible) and/or email (SMTP)
+// - Every rule's last evaluation is stored on the rule, notifications in alert_events
+// - Amounts of labels in other currencies are converted to EUR at the rate of
+//   the day, so money thresholds are in EUR
+// An optional { ruleId } body evaluates a single rule (used by "Evaluate now").
+//
+// Schedule daily after the sheet sync, e.g. with pg_cron + pg_net:
+//   select cron.schedule('evaluate-alerts', '0 7 * * *', $$
+//     select net.http_post(
+//       url := '<project-url>/functions/v1/evaluate-alerts',
+//       headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+//     )
+//   $$);
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/sheet.ts'
+import {
+  canManage,
+  canViewAllLabels,
+  canViewLabel,
+  getUser,
+  getUserProfile,
+  isServiceRole,
+  type UserProfile,
+} from '../_shared/auth.ts'
+import { getSmtpConfig, sendEmail } from '../_shared/email.ts'
+import { BASE_CURRENCY, isCurrency } from '@/utils/currency.ts'
+import { fetchAllPages } from '@/utils/paging.ts'
+import type { Currency, FxRate } from '@/types/index.ts'
+import {
+  applyConnectorSpend,
+  applyShopRevenue,
+  convertToReportingCurrency,
+  evaluateRule,
+  sendWebhook,
+  type AdSpendRow,
+  type AlertRule,
+  type DailyRow,
+  type ShopRevenueRow,
+  type TargetRow,
+} from '../_shared/alerts.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+// Enough history for 31 consecutive days and the pacing forecast, which
+// compares the last 4 weeks with the same weekdays a year earlier
+const LOOKBACK_DAYS = 400
+
+interface EvaluateRequest {
+  ruleId?: string
+}
+
+// Rules for all labels combined need access to every label
+function canViewRule(profile: UserProfile, rule: AlertRule): boolean {
+  return rule.label ? canViewLabel(profile, rule.label) : canViewAllLabels(profile)
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  let profile: UserProfile | null = null
+  if (!isServiceRole(req)) {
+    const user = await getUser(req)
+    if (!user) return jsonResponse({ error: 'Not signed in' }, 401)
+    profile = await getUserProfile(user.id)
+    if (!canManage(profile)) {
+      return jsonResponse({ error: 'Only admins and analysts can do this' }, 403)
+    }
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Alerts misconfigured: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing')
+    return jsonResponse({ error: 'Server misconfiguration' }, 500)
+  }
+
+  const { ruleId }: EvaluateRequest = await req.json().catch(() => ({}))
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+  try {
+    let rulesQuery = supabase.from('alert_rules').select('*')
+    rulesQuery = ruleId ? rulesQuery.eq('id', ruleId) : rulesQuery.eq('enabled', true)
+    const { data: allRules, error: rulesError } = await rulesQuery
+    if (rulesError) throw rulesError
+
+    // Users limited to some brands only evaluate the rules of those labels
+    const rules = ((allRules ?? []) as AlertRule[]).filter((rule) => !profile || canViewRule(profile, rule))
+    if (ruleId && rules.length < (allRules?.length ?? 0)) {
+      return jsonResponse({ error: 'You do not have access to the label of this rule' }, 403)
+    }
+    if (rules.length === 0) return jsonResponse({ evaluated: 0, fired: 0 })
+
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+    const rows: DailyRow[] = await fetchAllPages((from, to) =>
+      supabase
+        .from('daily_metrics')
+        .select('date, label, rev_web, rev_app, orders_web, orders_app, spend_fb, spend_google, platforms')
+        .gte('date', since)
+        .order('date')
+        .order('label')
+        .range(from, to)
+    )
+
+    const adRows: AdSpendRow[] = await fetchAllPages((from, to) =>
+      supabase
+        .from('ad_platform_metrics')
+        .select('date, label, platform, spend')
+        .gte('date', since)
+        .order('date')
+        .order('platform')
+        .order('account_id')
+        .range(from, to)
+    )
+
+    const shopRows: ShopRevenueRow[] = await fetchAllPages((from, to) =>
+      supabase
+        .from('shop_daily_metrics')
+        .select('date, label, rev_web, rev_app, orders_web, orders_app')
+        .gte('date', since)
+        .order('date')
+        .order('store')
+        .range(from, to)
+    )
+    const { data: targets, error: targetsError } = await supabase
+      .from('monthly_targets')
+      .select('month, label, revenue_target')
+      .gte('month', since.slice(0, 7))
+    if (targetsError) throw targetsError
+
+    const { data: currencyRows, error: currencyError } = await supabase.from('label_currencies').select('label, currency')
+    if (currencyError) throw currencyError
+    const labelCurrencies: Record<string, Currency> = {}
+    for (const row of currencyRows ?? []) {
+      if (isCurrency(row.currency)) labelCurrencies[row.label] = row.currency
+    }
+
+    const fxRows = await fetchAllPages((from, to) =>
+      supabase.from('fx_rates').select('date, currency, rate').gte('date', since).order('date').order('currency').range(from, to)
+    )
+    const fxRates: FxRate[] = fxRows
+      .filter((row) => isCurrency(row.currency))
+      .map((row) => ({ dateString: row.date, currency: row.currency, rate: Number(row.rate) }))
+
+    const converted = convertToReportingCurrency(
+      applyShopRevenue(applyConnectorSpend(rows, adRows), shopRows),
+      (targets ?? []) as TargetRow[],
+      labelCurrencies,
+      fxRates,
+      BASE_CURRENCY
+    )
+    if (converted.missingRates.length > 0) {
+      console.warn('No FX rates, amounts left unconverted:', converted.missingRates)
+    }
+
+    const smtp = getSmtpConfig()
+    let fired = 0
+
+    for (const rule of rules) {
+      const evaluatedAt = new Date().toISOString()
+
+      try {
+        const result = evaluateRule(rule, converted.rows, converted.targets, BASE_CURRENCY)
+
+        if (result.status === 'firing' && rule.last_status !== 'firing') {
+          const errors: string[] = []
+          let webhookDelivered = false
+          let emailDelivered = false
+
+          if (rule.webhook_url) {
+            try {
+              await sendWebhook(rule.webhook_url, result.message)
+              webhookDelivered = true
+            } catch (e) {
+              errors.push(`Webhook: ${e instanceof Error ? e.message : e}`)
+            }
+          }
+
+          if (rule.email_to) {
+            if (!smtp) {
+              errors.push('Email: SMTP is not configured')
+            } else {
+              try {
+                await sendEmail(smtp, rule.email_to, `Alert: ${rule.name}`, result.message)
+                emailDelivered = true
+              } catch (e) {
+                errors.push(`Email: ${e instanceof Error ? e.message : e}`)
+              }
+            }
+          }
+
+          const { error } = await supabase.from('alert_events').insert({
+            rule_id: rule.id,
+            fired_at: evaluatedAt,
+            value: result.value ?? 0,
+            message: result.message,
+            webhook_delivered: webhookDelivered,
+            email_delivered: emailDelivered,
+            delivery_error: errors.length > 0 ? errors.join('; ') : null,
+          })
+          if (error) throw error
+          fired++
+        }
+
+        await supabase
+          .from('alert_rules')
+          .update({
+            last_evaluated_at: evaluatedAt,
+            last_status: result.status,
+            last_value: result.value,
+            last_error: null,
+          })
+          .eq('id', rule.id)
+      } catch (e) {
+        const message = e instanceof Error ? e.message : 'Unknown error'
+        console.error(`Rule ${rule.id} failed:`, message)
+        await supabase
+          .from('alert_rules')
+          .update({ last_evaluated_at: evaluatedAt, last_status: 'error', last_error: message })
+          .eq('id', rule.id)
+      }
+    }
+
+    const summary = { evaluated: rules.length, fired }
+    console.log('Alerts evaluated:', summary)
+    return jsonResponse(summary)
+  } catch (error) {
+    console.error('Alert evaluation error:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -1,6 +1,14 @@
+import { canViewAllLabels, canViewLabel, getUser, getUserProfile } from '../_shared/auth.ts'
+import { filterCSVByLabel } from '../_shared/sheet.ts'
+
 // Sheet ID from Supabase Secrets - NOT from client request
 const SHEET_ID = Deno.env.get('GOOGLE_SHEET_ID')
 
+// Tabs that may have no Label column: FX rates apply to every label, and
+// Currencies and Margins rows without a label are skipped by their parsers.
+// They are still filtered by label when they have one.
+const REFERENCE_SHEETS = ['Currencies', 'FX_Rates', 'Margins']
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -13,6 +21,15 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders })
   }
 
+  const user = await getUser(req)
+  if (!user) {
+    return new Response(
+      JSON.stringify({ error: 'Not signed in' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+  const profile = await getUserProfile(user.id)
+
   try {
     // Only accept sheetName from client (which tab to fetch)
     const { sheetName = 'Daily_Input' } = await req.json()
@@ -26,8 +43,10 @@ Deno.serve(async (req) => {
     }
     
     // Validate sheetName to prevent injection
-    const allowedSheets = ['Daily_Input', 'Targets', 'Events']
-    const sanitizedSheetName = allowedSheets.includes(sheetName) ? sheetName : 'Daily_Input'
+    // Prior-year archive tabs follow the Daily_<year> convention (e.g. Daily_2024)
+    const allowedSheets = ['Daily_Input', 'Targets', 'Events', ...REFERENCE_SHEETS]
+    const isArchiveTab = /^Daily_\d{4}$/.test(sheetName)
+    const sanitizedSheetName = allowedSheets.includes(sheetName) || isArchiveTab ? sheetName : 'Daily_Input'
     
     console.log(`Fetching sheet: ${SHEET_ID}, tab: ${sanitizedSheetName}`)
     
@@ -58,7 +77,21 @@ Deno.serve(async (req) => {
     
     console.log(`Successfully fetched ${csv.length} bytes for tab: ${sanitizedSheetName}`)
     
-    return new Response(csv, {
+    // Users limited to some brands only receive rows of those labels
+    let visibleCsv = csv
+    if (!canViewAllLabels(profile)) {
+      const filtered = filterCSVByLabel(csv, (label) => canViewLabel(profile, label))
+      if (filtered === null && !REFERENCE_SHEETS.includes(sanitizedSheetName)) {
+        console.error(`No Label column in tab ${sanitizedSheetName}, refusing restricted user`)
+        return new Response(
+          JSON.stringify({ error: 'This tab has no Label column, so brand access cannot be applied' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      visibleCsv = filtered ?? csv
+    }
+    
+    return new Response(visibleCsv, {
       headers: {
         ...corsHeaders,
         'Content-Type': 'text/csv; charset=utf-8',
@@ -0,0 +1,298 @@
+// Render executive reports to PDF and email them to the schedule's recipients.
+// - { period: 'weekly' | 'monthly' } sends every enabled schedule of that period
+// - { scheduleId } sends one schedule now; with preview: true the PDF is
+//   returned (application/octet-stream) instead of emailed
+// Weekly reports cover the previous Monday-Sunday, monthly ones the previous month.
+// Amounts of labels in other currencies are converted to EUR at the rate of the day.
+// Calculations and texts are imported from src/ through deno.json's import map.
+//
+// Schedule with pg_cron + pg_net, e.g. weekly on Monday and monthly on the 1st:
+//   select cron.schedule('weekly-report', '0 7 * * 1', $$
+//     select net.http_post(
+//       url := '<project-url>/functions/v1/send-report',
+//       headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb,
+//       body := '{"period": "weekly"}'::jsonb
+//     )
+//   $$);
+//   select cron.schedule('monthly-report', '0 7 1 * *', ...'{"period": "monthly"}'...);
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { format, subDays, subYears } from 'date-fns'
+import { translations } from '@/i18n/translations.ts'
+import type { Currency, DailyMetrics, EventAnnotation, FxRate } from '@/types/index.ts'
+import { BASE_CURRENCY, convertToCurrency, isCurrency } from '@/utils/currency.ts'
+import { toSheetPlatforms, type AdPlatformMetricsRow } from '@/utils/adConnectors.ts'
+import { toShopDays, type ShopDailyMetricsRow } from '@/utils/shopify.ts'
+import { fetchAllPages } from '@/utils/paging.ts'
+import { corsHeaders, jsonResponse } from '../_shared/sheet.ts'
+import {
+  canManage,
+  canViewAllLabels,
+  canViewLabel,
+  getUser,
+  getUserProfile,
+  isServiceRole,
+  type UserProfile,
+} from '../_shared/auth.ts'
+import { getSmtpConfig, sendEmail, type SmtpConfig } from '../_shared/email.ts'
+import {
+  buildReport,
+  reportRange,
+  rowToEvent,
+  rowToMetrics,
+  rowToTarget,
+  type EventRow,
+  type MetricsRow,
+  type ReportData,
+  type ReportPeriod,
+  type ReportSchedule,
+  type TargetRow,
+} from '../_shared/report.ts'
+import { formatChange, formatKpi, formatReportRange, interpolate, renderReportPdf } from '../_shared/reportPdf.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+interface SendReportRequest {
+  period?: ReportPeriod
+  scheduleId?: string
+  preview?: boolean
+}
+
+/**
+ * Label currencies and the FX rates between two dates (yyyy-MM-dd)
+ */
+async function loadCurrencies(supabase: SupabaseClient, since: string, until: string) {
+  const { data: currencyRows, error } = await supabase.from('label_currencies').select('label, currency')
+  if (error) throw error
+  const labelCurrencies: Record<string, Currency> = {}
+  for (const row of currencyRows ?? []) {
+    if (isCurrency(row.currency)) labelCurrencies[row.label] = row.currency
+  }
+
+  const fxRows = await fetchAllPages((from, to) =>
+    supabase
+      .from('fx_rates')
+      .select('date, currency, rate')
+      .gte('date', since)
+      .lte('date', until)
+      .order('date')
+      .order('currency')
+      .range(from, to)
+  )
+  const fxRates: FxRate[] = fxRows
+    .filter((row) => isCurrency(row.currency))
+    .map((row) => ({ dateString: row.date, currency: row.currency, rate: Number(row.rate) }))
+
+  return { labelCurrencies, fxRates }
+}
+
+/**
+ * Metrics, targets and events for the schedule's labels, from the same period
+ * last year up to the end of the report period
+ */
+async function loadReportData(supabase: SupabaseClient, schedule: ReportSchedule, referenceDate: Date) {
+  const range = reportRange(schedule.period, referenceDate)
+  // A year and a week back covers the weekday-aligned comparison too
+  const since = format(subDays(subYears(range.start, 1), 7), 'yyyy-MM-dd')
+  const until = format(range.end, 'yyyy-MM-dd')
+
+  const rows: MetricsRow[] = await fetchAllPages((from, to) => {
+    let query = supabase
+      .from('daily_metrics')
+      .select('date, label, rev_web, rev_app, orders_web, orders_app, conv_fb, conv_google, spend_fb, spend_google, last_click_fb, last_click_google, platforms, returned_revenue, returned_orders, sessions_web, sessions_app, add_to_carts_web, add_to_carts_app, checkouts_web, checkouts_app')
+      .gte('date', since)
+      .lte('date', until)
+    if (schedule.labels) query = query.in('label', schedule.labels)
+    return query.order('date').order('label').range(from, to)
+  })
+
+  let targetsQuery = supabase
+    .from('monthly_targets')
+    .select('month, label, revenue_target, orders_target, mer_target, ad_budget')
+    .eq('month', until.slice(0, 7))
+  if (schedule.labels) targetsQuery = targetsQuery.in('label', schedule.labels)
+  const { data: targets, error: targetsError } = await targetsQuery
+  if (targetsError) throw targetsError
+
+  // Events without a label apply to every brand
+  let eventsQuery = supabase
+    .from('events')
+    .select('date, title, description, type, label')
+    .gte('date', format(range.start, 'yyyy-MM-dd'))
+    .lte('date', until)
+  if (schedule.labels) {
+    eventsQuery = eventsQuery.or(`label.is.null,label.in.(${schedule.labels.map((l) => `"${l}"`).join(',')})`)
+  }
+  const { data: events, error: eventsError } = await eventsQuery
+  if (eventsError) throw eventsError
+
+  // Spend and conversions pulled by the ad platform connectors win over the sheet
+  const adRows: AdPlatformMetricsRow[] = await fetchAllPages((from, to) => {
+    let query = supabase
+      .from('ad_platform_metrics')
+      .select('date, platform, account_id, label, spend, clicks, impressions, conversions')
+      .gte('date', since)
+      .lte('date', until)
+    if (schedule.labels) query = query.in('label', schedule.labels)
+    return query.order('date').order('platform').order('account_id').range(from, to)
+  })
+  const connectorPlatforms = toSheetPlatforms(adRows)
+
+  // So do revenue, orders and returns from the Shopify connector. Like the ad
+  // connector days, Shopify days without a sheet row are left out.
+  const shopRows: ShopDailyMetricsRow[] = await fetchAllPages((from, to) => {
+    let query = supabase
+      .from('shop_daily_metrics')
+      .select('date, store, label, rev_web, rev_app, orders_web, orders_app, returned_revenue, returned_orders')
+      .gte('date', since)
+      .lte('date', until)
+    if (schedule.labels) query = query.in('label', schedule.labels)
+    return query.order('date').order('store').range(from, to)
+  })
+  const shopDays = toShopDays(shopRows)
+
+  const { labelCurrencies, fxRates } = await loadCurrencies(supabase, since, until)
+  const converted = convertToCurrency(
+    {
+      metrics: rows
+        .map((row) => {
+          const key = `${row.date}|${row.label}`
+          return rowToMetrics(row, connectorPlatforms.get(key), shopDays.get(key))
+        })
+        .filter((m): m is DailyMetrics => m !== null),
+      targets: ((targets ?? []) as TargetRow[]).map(rowToTarget),
+      labelCurrencies,
+      fxRates,
+    },
+    BASE_CURRENCY
+  )
+  if (converted.missingRates.length > 0) {
+    console.warn('No FX rates, amounts left unconverted:', converted.missingRates)
+  }
+
+  return buildReport(
+    schedule,
+    referenceDate,
+    converted.metrics,
+    converted.targets,
+    ((events ?? []) as EventRow[]).map(rowToEvent).filter((e): e is EventAnnotation => e !== null)
+  )
+}
+
+async function emailReport(smtp: SmtpConfig, schedule: ReportSchedule, report: ReportData, pdf: Uint8Array) {
+  const t = translations[schedule.language].reports
+  const title = report.period === 'weekly' ? t.weeklyTitle : t.monthlyTitle
+  const range = formatReportRange(report.range, schedule.language)
+  const revenue = report.kpis.find((k) => k.kpi === 'revenue')
+
+  const message = [
+    interpolate(t.emailIntro, { report: title.toLowerCase(), range }),
+    revenue
+      ? interpolate(t.emailRevenue, {
+          revenue: formatKpi('revenue', revenue.value),
+          change: formatChange(revenue.value, revenue.previous),
+        })
+      : '',
+  ].join('\n\n')
+
+  await sendEmail(smtp, schedule.recipients, `${title}: ${range}`, message, [
+    {
+      filename: `${schedule.name.replace(/[^\w-]+/g, '-')}-${format(report.range.end, 'yyyy-MM-dd')}.pdf`,
+      contentType: 'application/pdf',
+      content: pdf,
+    },
+  ])
+}
+
+function canViewSchedule(profile: UserProfile, schedule: ReportSchedule): boolean {
+  return schedule.labels
+    ? schedule.labels.every((label) => canViewLabel(profile, label))
+    : canViewAllLabels(profile)
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  let profile: UserProfile | null = null
+  if (!isServiceRole(req)) {
+    const user = await getUser(req)
+    if (!user) return jsonResponse({ error: 'Not signed in' }, 401)
+    profile = await getUserProfile(user.id)
+    if (!canManage(profile)) {
+      return jsonResponse({ error: 'Only admins and analysts can do this' }, 403)
+    }
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Reports misconfigured: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing')
+    return jsonResponse({ error: 'Server misconfiguration' }, 500)
+  }
+
+  const { period, scheduleId, preview }: SendReportRequest = await req.json().catch(() => ({}))
+  if (!scheduleId && period !== 'weekly' && period !== 'monthly') {
+    return jsonResponse({ error: 'Pass a scheduleId or a period of weekly or monthly' }, 400)
+  }
+  if (preview && !scheduleId) {
+    return jsonResponse({ error: 'A preview needs a scheduleId' }, 400)
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+  const referenceDate = new Date()
+
+  try {
+    let schedulesQuery = supabase.from('report_schedules').select('id, name, period, language, recipients, labels')
+    schedulesQuery = scheduleId
+      ? schedulesQuery.eq('id', scheduleId)
+      : schedulesQuery.eq('period', period).eq('enabled', true)
+    const { data, error: schedulesError } = await schedulesQuery
+    if (schedulesError) throw schedulesError
+
+    const schedules = (data ?? []) as ReportSchedule[]
+    if (scheduleId && schedules.length === 0) return jsonResponse({ error: 'Report schedule not found' }, 404)
+    if (profile && !schedules.every((s) => canViewSchedule(profile, s))) {
+      return jsonResponse({ error: 'You do not have access to all labels of this report' }, 403)
+    }
+
+    if (preview) {
+      const schedule = schedules[0]
+      const pdf = await renderReportPdf(await loadReportData(supabase, schedule, referenceDate), schedule.language)
+      return new Response(pdf, {
+        headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' },
+      })
+    }
+
+    const smtp = getSmtpConfig()
+    if (!smtp) return jsonResponse({ error: 'SMTP is not configured' }, 500)
+
+    let sent = 0
+    const errors: string[] = []
+
+    for (const schedule of schedules) {
+      try {
+        const report = await loadReportData(supabase, schedule, referenceDate)
+        await emailReport(smtp, schedule, report, await renderReportPdf(report, schedule.language))
+        await supabase
+          .from('report_schedules')
+          .update({ last_sent_at: new Date().toISOString(), last_error: null })
+          .eq('id', schedule.id)
+        sent++
+      } catch (e) {
+        const message = e instanceof Error ? e.message : 'Unknown error'
+        console.error(`Report ${schedule.id} failed:`, message)
+        errors.push(`${schedule.name}: ${message}`)
+        await supabase.from('report_schedules').update({ last_error: message }).eq('id', schedule.id)
+      }
+    }
+
+    const summary = { sent, failed: errors.length }
+    console.log('Reports sent:', summary)
+    // A single schedule sent from the app reports its failure as an error
+    if (scheduleId && errors.length > 0) return jsonResponse({ error: errors[0] }, 500)
+    return jsonResponse(summary)
+  } catch (error) {
+    console.error('Report error:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
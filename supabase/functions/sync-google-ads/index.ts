@@ -0,0 +1,99 @@
+// Pull daily cost, clicks, impressions and conversions per customer account
+// from the Google Ads API into ad_platform_metrics (see _shared/connectorSync.ts).
+// - Accounts and their labels come from the Ad_Accounts tab (platform google)
+// - An optional { since, until } body sets the days; by default the last week
+//   is pulled again, as Google keeps attributing conversions to past days
+// Needs GOOGLE_ADS_DEVELOPER_TOKEN and an OAuth client with a refresh token
+// (GOOGLE_ADS_CLIENT_ID, GOOGLE_ADS_CLIENT_SECRET, GOOGLE_ADS_REFRESH_TOKEN).
+// Set GOOGLE_ADS_LOGIN_CUSTOMER_ID when the accounts are reached through a
+// manager account. GOOGLE_ADS_API_BASE_URL and GOOGLE_OAUTH_TOKEN_URL point
+// the connector at another server, e.g. the local stand-in in _mock/ad-platforms.ts.
+//
+// Schedule before the sheet sync, e.g. with pg_cron + pg_net:
+//   select cron.schedule('sync-google-ads', '30 6 * * *', $$
+//     select net.http_post(
+//       url := '<project-url>/functions/v1/sync-google-ads',
+//       headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+//     )
+//   $$);
+import { runAdConnector } from '../_shared/connectorSync.ts'
+import { fromGoogleAdsRow, googleAdsQuery, type AdAccount, type GoogleAdsRow } from '@/utils/adConnectors.ts'
+
+const GOOGLE_ADS_DEVELOPER_TOKEN = Deno.env.get('GOOGLE_ADS_DEVELOPER_TOKEN')
+const GOOGLE_ADS_CLIENT_ID = Deno.env.get('GOOGLE_ADS_CLIENT_ID')
+const GOOGLE_ADS_CLIENT_SECRET = Deno.env.get('GOOGLE_ADS_CLIENT_SECRET')
+const GOOGLE_ADS_REFRESH_TOKEN = Deno.env.get('GOOGLE_ADS_REFRESH_TOKEN')
+const GOOGLE_ADS_LOGIN_CUSTOMER_ID = Deno.env.get('GOOGLE_ADS_LOGIN_CUSTOMER_ID')
+const GOOGLE_ADS_API_BASE_URL = Deno.env.get('GOOGLE_ADS_API_BASE_URL') ?? 'https://googleads.googleapis.com/v18'
+const GOOGLE_OAUTH_TOKEN_URL = Deno.env.get('GOOGLE_OAUTH_TOKEN_URL') ?? 'https://oauth2.googleapis.com/token'
+
+const REQUIRED_CONFIG = {
+  GOOGLE_ADS_DEVELOPER_TOKEN,
+  GOOGLE_ADS_CLIENT_ID,
+  GOOGLE_ADS_CLIENT_SECRET,
+  GOOGLE_ADS_REFRESH_TOKEN,
+}
+
+interface ApiError {
+  error?: { message: string }
+}
+
+// searchStream answers with an array of result batches
+type SearchStreamResponse = ({ results?: GoogleAdsRow[] } & ApiError)[]
+
+/**
+ * Exchange the refresh token for an access token, valid for about an hour
+ */
+async function getAccessToken(): Promise<string> {
+  const response = await fetch(GOOGLE_OAUTH_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: GOOGLE_ADS_CLIENT_ID!,
+      client_secret: GOOGLE_ADS_CLIENT_SECRET!,
+      refresh_token: GOOGLE_ADS_REFRESH_TOKEN!,
+    }),
+  })
+  const body = await response.json().catch(() => null)
+  if (!response.ok || !body?.access_token) {
+    throw new Error(`Google OAuth token exchange failed: ${body?.error_description ?? body?.error ?? response.status}`)
+  }
+  return body.access_token
+}
+
+async function fetchAccountRows(account: AdAccount, since: string, until: string, accessToken: string) {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${accessToken}`,
+    'developer-token': GOOGLE_ADS_DEVELOPER_TOKEN!,
+    'Content-Type': 'application/json',
+  }
+  if (GOOGLE_ADS_LOGIN_CUSTOMER_ID) headers['login-customer-id'] = GOOGLE_ADS_LOGIN_CUSTOMER_ID.replace(/-/g, '')
+
+  const response = await fetch(`${GOOGLE_ADS_API_BASE_URL}/customers/${account.account_id}/googleAds:searchStream`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ query: googleAdsQuery(since, until) }),
+  })
+  const body: SearchStreamResponse | ApiError | null = await response.json().catch(() => null)
+  if (!response.ok || !Array.isArray(body)) {
+    const error = Array.isArray(body) ? body[0]?.error : body?.error
+    throw new Error(error?.message ?? `Google Ads API returned ${response.status}`)
+  }
+
+  return body.flatMap((batch) => batch.results ?? []).map((row) => fromGoogleAdsRow(row, account))
+}
+
+Deno.serve((req) =>
+  runAdConnector(req, {
+    platform: 'google',
+    source: 'google_ads',
+    missingConfig: Object.entries(REQUIRED_CONFIG)
+      .filter(([, value]) => !value)
+      .map(([name]) => name),
+    createFetcher: async () => {
+      const accessToken = await getAccessToken()
+      return (account, since, until) => fetchAccountRows(account, since, until, accessToken)
+    },
+  })
+)
@@ -0,0 +1,59 @@
+// Pull daily spend, clicks, impressions and purchases per ad account from the
+// Meta Marketing API into ad_platform_metrics (see _shared/connectorSync.ts).
+// - Accounts and their labels come from the Ad_Accounts tab (platform facebook)
+// - An optional { since, until } body sets the days; by default the last week
+//   is pulled again, as Meta keeps attributing purchases to past days
+// Needs META_ACCESS_TOKEN: a system user token with ads_read on the accounts.
+// META_API_BASE_URL points the connector at another server, e.g. the local
+// stand-in in _mock/ad-platforms.ts.
+//
+// Schedule before the sheet sync, e.g. with pg_cron + pg_net:
+//   select cron.schedule('sync-meta-ads', '30 6 * * *', $$
+//     select net.http_post(
+//       url := '<project-url>/functions/v1/sync-meta-ads',
+//       headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+//     )
+//   $$);
+import { runAdConnector } from '../_shared/connectorSync.ts'
+import { fromMetaInsight, META_INSIGHT_FIELDS, type AdAccount, type MetaInsight } from '@/utils/adConnectors.ts'
+
+const META_ACCESS_TOKEN = Deno.env.get('META_ACCESS_TOKEN')
+const META_API_BASE_URL = Deno.env.get('META_API_BASE_URL') ?? 'https://graph.facebook.com/v21.0'
+
+interface InsightsResponse {
+  data?: MetaInsight[]
+  paging?: { next?: string }
+  error?: { message: string }
+}
+
+async function fetchAccountInsights(account: AdAccount, since: string, until: string) {
+  const params = new URLSearchParams({
+    level: 'account',
+    time_increment: '1',
+    time_range: JSON.stringify({ since, until }),
+    fields: META_INSIGHT_FIELDS.join(','),
+    limit: '100',
+  })
+
+  const rows = []
+  let url: string | undefined = `${META_API_BASE_URL}/act_${account.account_id}/insights?${params}`
+  while (url) {
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` } })
+    const body: InsightsResponse | null = await response.json().catch(() => null)
+    if (!response.ok || !body) {
+      throw new Error(body?.error?.message ?? `Meta API returned ${response.status}`)
+    }
+    rows.push(...(body.data ?? []).map((insight) => fromMetaInsight(insight, account)))
+    url = body.paging?.next
+  }
+  return rows
+}
+
+Deno.serve((req) =>
+  runAdConnector(req, {
+    platform: 'facebook',
+    source: 'meta_ads',
+    missingConfig: META_ACCESS_TOKEN ? [] : ['META_ACCESS_TOKEN'],
+    createFetcher: async () => fetchAccountInsights,
+  })
+)
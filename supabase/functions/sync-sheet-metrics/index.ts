@@ -0,0 +1,399 @@
+// Incremental sync of the Google Sheet into the metrics warehouse.
+// - Daily_Input rows are upserted on (date, label); unchanged rows are skipped via row_hash.
+//   Spend_/Conv_/LastClick_ columns of platforms beyond FB and Google go into the
+//   platforms jsonb column, parsed like the dashboard does (src/utils/platforms.ts)
+// - Targets rows are upserted on (month, label), except targets edited in the dashboard
+// - Events from the sheet are replaced on every run (they have no natural key)
+// - Currencies and Margins rows are upserted on label, FX_Rates rows on (date, currency)
+// - Ad_Accounts rows are upserted on (platform, account_id) for the ad platform
+//   connectors; set Enabled to no instead of deleting a row to stop syncing it
+// - Shopify_Stores rows are upserted on store for the Shopify order connector,
+//   with the same Enabled column
+// Rows that disappear from the sheet are kept, so history survives sheet edits.
+// An optional { dailyMapping, targetsMapping } body applies the column mappings
+// confirmed in the dashboard; without it the standard headers are expected.
+//
+// Schedule with pg_cron + pg_net using the service role key, or call it from
+// the dashboard refresh button as an admin or analyst.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  corsHeaders,
+  jsonResponse,
+  fetchSheetCSV,
+  parseCSV,
+  applyColumnMapping,
+  parseEuropeanNumber,
+  parseEuropeanDate,
+  normalizeMonth,
+  sha256,
+} from '../_shared/sheet.ts'
+import { canManage, getUser, getUserProfile, isServiceRole } from '../_shared/auth.ts'
+import {
+  platformFromColumnKey,
+  platformsToWarehouse,
+  readPlatformColumns,
+  type WarehousePlatforms,
+} from '@/utils/platforms.ts'
+import { isConnectorPlatform } from '@/utils/adConnectors.ts'
+import { normalizeStoreDomain } from '@/utils/shopify.ts'
+import { parseMarginInputs } from '@/utils/margins.ts'
+import { fetchAllPages } from '@/utils/paging.ts'
+
+const SHEET_ID = Deno.env.get('GOOGLE_SHEET_ID')
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const UPSERT_CHUNK_SIZE = 500
+const CURRENCIES = ['EUR', 'GBP', 'CHF']
+
+interface SyncRequest {
+  dailyMapping?: Record<string, string>
+  targetsMapping?: Record<string, string>
+}
+
+interface DailyMetricsRow {
+  date: string
+  label: string
+  rev_web: number
+  rev_app: number
+  orders_web: number
+  orders_app: number
+  conv_fb: number
+  conv_google: number
+  spend_fb: number
+  spend_google: number
+  last_click_fb: number
+  last_click_google: number
+  platforms: WarehousePlatforms
+  returned_revenue: number
+  returned_orders: number
+  sessions_web: number
+  sessions_app: number
+  add_to_carts_web: number
+  add_to_carts_app: number
+  checkouts_web: number
+  checkouts_app: number
+  source: string
+  row_hash: string
+  synced_at: string
+}
+
+async function toDailyMetricsRow(raw: Record<string, string>, syncedAt: string): Promise<DailyMetricsRow | null> {
+  const date = parseEuropeanDate(raw['Date'])
+  const label = raw['Label']?.trim()
+  if (!date || !label) return null
+
+  const values = {
+    date,
+    label,
+    rev_web: parseEuropeanNumber(raw['Rev_Web']),
+    rev_app: parseEuropeanNumber(raw['Rev_App']),
+    orders_web: Math.round(parseEuropeanNumber(raw['Orders'])),
+    orders_app: Math.round(parseEuropeanNumber(raw['Orders_App'])),
+    conv_fb: parseEuropeanNumber(raw['Conv_FB']),
+    conv_google: parseEuropeanNumber(raw['Conv_Google'] || raw['Conversions_Google']),
+    spend_fb: parseEuropeanNumber(raw['Spend_FB']),
+    spend_google: parseEuropeanNumber(raw['Spend_Google']),
+    last_click_fb: parseEuropeanNumber(raw['LastClick_FB']),
+    last_click_google: parseEuropeanNumber(raw['LastClick_Google']),
+    platforms: platformsToWarehouse(readPlatformColumns(raw, parseEuropeanNumber)),
+    returned_revenue: parseEuropeanNumber(raw['Returned_Revenue']),
+    returned_orders: Math.round(parseEuropeanNumber(raw['Returned_Orders'])),
+    sessions_web: Math.round(parseEuropeanNumber(raw['Sessions_Web'])),
+    sessions_app: Math.round(parseEuropeanNumber(raw['Sessions_App'])),
+    add_to_carts_web: Math.round(parseEuropeanNumber(raw['AddToCart_Web'])),
+    add_to_carts_app: Math.round(parseEuropeanNumber(raw['AddToCart_App'])),
+    checkouts_web: Math.round(parseEuropeanNumber(raw['Checkouts_Web'])),
+    checkouts_app: Math.round(parseEuropeanNumber(raw['Checkouts_App'])),
+  }
+
+  return {
+    ...values,
+    source: 'sheet',
+    row_hash: await sha256(JSON.stringify(values)),
+    synced_at: syncedAt,
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (!isServiceRole(req)) {
+    const user = await getUser(req)
+    if (!user) return jsonResponse({ error: 'Not signed in' }, 401)
+    if (!canManage(await getUserProfile(user.id))) {
+      return jsonResponse({ error: 'Only admins and analysts can do this' }, 403)
+    }
+  }
+
+  if (!SHEET_ID || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Sync misconfigured: GOOGLE_SHEET_ID, SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing')
+    return jsonResponse({ error: 'Server misconfiguration' }, 500)
+  }
+
+  const { dailyMapping, targetsMapping }: SyncRequest = await req.json().catch(() => ({}))
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+  const syncedAt = new Date().toISOString()
+
+  const { data: run } = await supabase
+    .from('sync_runs')
+    .insert({ started_at: syncedAt })
+    .select('id')
+    .single()
+
+  try {
+    // ---- Daily metrics ----
+    let dailyRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'Daily_Input'))
+    if (dailyMapping) dailyRaw = applyColumnMapping(dailyRaw, dailyMapping)
+    const parsed = await Promise.all(dailyRaw.map((raw) => toDailyMetricsRow(raw, syncedAt)))
+    const rows = parsed.filter((r): r is DailyMetricsRow => r !== null)
+    const rowsFailed = parsed.length - rows.length
+
+    // Last row wins when the sheet contains the same date + label twice
+    const byKey = new Map(rows.map((r) => [`${r.date}|${r.label}`, r]))
+
+    // Only upsert rows whose values changed since the last sync
+    const existing = await fetchAllPages((from, to) =>
+      supabase.from('daily_metrics').select('date, label, row_hash').order('date').order('label').range(from, to)
+    )
+    const existingHashes = new Map<string, string>(existing.map((r) => [`${r.date}|${r.label}`, r.row_hash]))
+
+    const changed = [...byKey.entries()]
+      .filter(([key, row]) => existingHashes.get(key) !== row.row_hash)
+      .map(([, row]) => row)
+
+    for (let i = 0; i < changed.length; i += UPSERT_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('daily_metrics')
+        .upsert(changed.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'date,label' })
+      if (error) throw error
+    }
+
+    // ---- Targets (optional tab) ----
+    try {
+      let targetsRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'Targets'))
+      if (targetsMapping) targetsRaw = applyColumnMapping(targetsRaw, targetsMapping)
+      const targets = targetsRaw
+        .map((r) => {
+          const month = normalizeMonth(r['Month'] || r['month'] || '')
+          if (!month) return null
+          const merRaw = parseEuropeanNumber(r['MER_Target'] || r['mer_target'] || r['MERTarget'] || '0.2')
+          return {
+            month,
+            label: r['Label'] || r['label'] || 'All',
+            revenue_target: parseEuropeanNumber(r['Rev_target'] || r['Revenue_Target'] || r['revenue_target'] || r['RevenueTarget']),
+            orders_target: Math.round(parseEuropeanNumber(r['Orders_Target'] || r['orders_target'] || r['OrdersTarget'])),
+            mer_target: merRaw > 1 ? merRaw / 100 : merRaw,
+            ad_budget: parseEuropeanNumber(r['Ad_budget'] || r['ad_budget']),
+            source: 'sheet',
+            synced_at: syncedAt,
+          }
+        })
+        .filter((t) => t !== null)
+
+      // Targets edited in the dashboard win over the sheet
+      const { data: appTargets, error: appTargetsError } = await supabase
+        .from('monthly_targets')
+        .select('month, label')
+        .eq('source', 'app')
+      if (appTargetsError) throw appTargetsError
+      const appKeys = new Set((appTargets ?? []).map((t) => `${t.month}|${t.label}`))
+      const sheetTargets = targets.filter((t) => !appKeys.has(`${t.month}|${t.label}`))
+
+      if (sheetTargets.length > 0) {
+        const { error } = await supabase.from('monthly_targets').upsert(sheetTargets, { onConflict: 'month,label' })
+        if (error) throw error
+      }
+    } catch (e) {
+      console.log('Targets tab skipped:', e instanceof Error ? e.message : e)
+    }
+
+    // ---- Events (optional tab) ----
+    try {
+      const eventsRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'Events'))
+      const events = eventsRaw
+        .map((r) => {
+          const date = parseEuropeanDate(r['Date'] || r['date'])
+          const title = (r['Title'] || r['title'] || '').trim()
+          if (!date || !title) return null
+          const type = (r['Type'] || r['type'] || 'other').toLowerCase()
+          return {
+            date,
+            title,
+            description: r['Description'] || r['description'] || null,
+            type: ['marketing', 'technical', 'holiday', 'other'].includes(type) ? type : 'other',
+            label: r['Label'] || r['label'] || null,
+            source: 'sheet',
+            synced_at: syncedAt,
+          }
+        })
+        .filter((e) => e !== null)
+
+      const { error: deleteError } = await supabase.from('events').delete().eq('source', 'sheet')
+      if (deleteError) throw deleteError
+      if (events.length > 0) {
+        const { error } = await supabase.from('events').insert(events)
+        if (error) throw error
+      }
+    } catch (e) {
+      console.log('Events tab skipped:', e instanceof Error ? e.message : e)
+    }
+
+    // ---- Currencies (optional tab) ----
+    try {
+      const currenciesRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'Currencies'))
+      const currencies = currenciesRaw
+        .map((r) => {
+          const label = (r['Label'] || r['label'] || '').trim()
+          const currency = (r['Currency'] || r['currency'] || '').trim().toUpperCase()
+          if (!label || !CURRENCIES.includes(currency)) return null
+          return { label, currency, synced_at: syncedAt }
+        })
+        .filter((c) => c !== null)
+
+      if (currencies.length > 0) {
+        const { error } = await supabase.from('label_currencies').upsert(currencies, { onConflict: 'label' })
+        if (error) throw error
+      }
+    } catch (e) {
+      console.log('Currencies tab skipped:', e instanceof Error ? e.message : e)
+    }
+
+    // ---- FX rates (optional tab), units of the currency per 1 EUR ----
+    try {
+      const fxRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'FX_Rates'))
+      const fxByKey = new Map<string, { date: string; currency: string; rate: number; synced_at: string }>()
+      for (const r of fxRaw) {
+        const date = parseEuropeanDate(r['Date'] || r['date'])
+        const currency = (r['Currency'] || r['currency'] || '').trim().toUpperCase()
+        // Rates have no thousands separator, so a dot is a decimal point too
+        const rate = Number((r['Rate'] || r['rate'] || '').trim().replace(',', '.'))
+        if (!date || currency === 'EUR' || !CURRENCIES.includes(currency) || !(rate > 0)) continue
+        fxByKey.set(`${date}|${currency}`, { date, currency, rate, synced_at: syncedAt })
+      }
+
+      const rates = [...fxByKey.values()]
+      for (let i = 0; i < rates.length; i += UPSERT_CHUNK_SIZE) {
+        const { error } = await supabase
+          .from('fx_rates')
+          .upsert(rates.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'date,currency' })
+        if (error) throw error
+      }
+    } catch (e) {
+      console.log('FX_Rates tab skipped:', e instanceof Error ? e.message : e)
+    }
+
+    // ---- Margins (optional tab): VAT, returns, COGS and shipping per label ----
+    try {
+      const marginsRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'Margins'))
+      // Parsed like the dashboard does (src/utils/margins.ts)
+      const margins = Object.entries(parseMarginInputs(marginsRaw)).map(([label, inputs]) => ({
+        label,
+        vat_rate: Math.min(inputs.vatRate, 0.99),
+        return_rate: Math.min(inputs.returnRate, 1),
+        cogs_rate: Math.min(inputs.cogsRate, 1),
+        shipping_cost: inputs.shippingCost,
+        synced_at: syncedAt,
+      }))
+
+      if (margins.length > 0) {
+        const { error } = await supabase.from('label_margins').upsert(margins, { onConflict: 'label' })
+        if (error) throw error
+      }
+    } catch (e) {
+      console.log('Margins tab skipped:', e instanceof Error ? e.message : e)
+    }
+
+    // ---- Ad accounts (optional tab): Platform, Account_ID, Label, Name, Enabled ----
+    try {
+      const accountsRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'Ad_Accounts'))
+      const accountsByKey = new Map<string, Record<string, unknown>>()
+      for (const r of accountsRaw) {
+        // Meta, FB and Facebook all name the same platform
+        const platform = platformFromColumnKey((r['Platform'] || r['platform'] || '').trim())
+        // Meta ids are often copied with act_, Google ids with dashes
+        const accountId = (r['Account_ID'] || r['account_id'] || '').trim().replace(/^act_/i, '').replace(/-/g, '')
+        const label = (r['Label'] || r['label'] || '').trim()
+        if (!isConnectorPlatform(platform) || !accountId || !label) continue
+        const enabled = (r['Enabled'] || r['enabled'] || '').trim().toLowerCase()
+        accountsByKey.set(`${platform}|${accountId}`, {
+          platform,
+          account_id: accountId,
+          label,
+          name: (r['Name'] || r['name'] || '').trim() || null,
+          enabled: !['no', 'nee', 'false', '0'].includes(enabled),
+          synced_at: syncedAt,
+        })
+      }
+
+      const accounts = [...accountsByKey.values()]
+      if (accounts.length > 0) {
+        const { error } = await supabase.from('ad_accounts').upsert(accounts, { onConflict: 'platform,account_id' })
+        if (error) throw error
+      }
+    } catch (e) {
+      console.log('Ad_Accounts tab skipped:', e instanceof Error ? e.message : e)
+    }
+
+    // ---- Shopify stores (optional tab): Store, Label, App_Sources, Enabled ----
+    try {
+      const storesRaw = parseCSV(await fetchSheetCSV(SHEET_ID, 'Shopify_Stores'))
+      const storesByDomain = new Map<string, Record<string, unknown>>()
+      for (const r of storesRaw) {
+        const store = normalizeStoreDomain(r['Store'] || r['store'] || '')
+        const label = (r['Label'] || r['label'] || '').trim()
+        if (!store || !label) continue
+        const enabled = (r['Enabled'] || r['enabled'] || '').trim().toLowerCase()
+        storesByDomain.set(store, {
+          store,
+          label,
+          // Comma-separated order source names of the app, e.g. a mobile app channel's id
+          app_sources: (r['App_Sources'] || r['app_sources'] || '')
+            .split(',')
+            .map((s) => s.trim())
+            .filter(Boolean),
+          enabled: !['no', 'nee', 'false', '0'].includes(enabled),
+          synced_at: syncedAt,
+        })
+      }
+
+      const stores = [...storesByDomain.values()]
+      if (stores.length > 0) {
+        const { error } = await supabase.from('shopify_stores').upsert(stores, { onConflict: 'store' })
+        if (error) throw error
+      }
+    } catch (e) {
+      console.log('Shopify_Stores tab skipped:', e instanceof Error ? e.message : e)
+    }
+
+    const summary = {
+      rows_upserted: changed.length,
+      rows_unchanged: byKey.size - changed.length,
+      rows_failed: rowsFailed,
+    }
+
+    if (run) {
+      await supabase
+        .from('sync_runs')
+        .update({ ...summary, status: 'success', finished_at: new Date().toISOString() })
+        .eq('id', run.id)
+    }
+
+    console.log('Sync complete:', summary)
+    return jsonResponse(summary)
+  } catch (error) {
+    console.error('Sync error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (run) {
+      await supabase
+        .from('sync_runs')
+        .update({ status: 'error', error: message, finished_at: new Date().toISOString() })
+        .eq('id', run.id)
+    }
+
+    return jsonResponse({ error: message }, 500)
+  }
+})
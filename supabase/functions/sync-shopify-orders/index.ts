@@ -0,0 +1,114 @@
+// Pull the orders of each Shopify store from the Admin API and store their
+// daily web/app revenue, order counts and refunds in shop_daily_metrics
+// (see aggregateShopifyOrders in src/utils/shopify.ts and _shared/connectorSync.ts).
+// - Stores and their labels come from the Shopify_Stores tab
+// - An optional { since, until } body sets the days; by default the last 30
+//   days are pulled again, so orders cancelled after a few days drop out of
+//   the day they were placed
+// - Orders updated in the range are read, so refunds of older orders count
+//   on the day they were issued
+// Needs SHOPIFY_ACCESS_TOKENS: a JSON object with the Admin API access token
+// of each store's custom app (read_orders), e.g. { "fmh-nl.myshopify.com": "shpat_..." }.
+// SHOPIFY_API_BASE_URL points the connector at another server, e.g. the local
+// stand-in in _mock/shopify.ts.
+//
+// Schedule before the sheet sync, e.g. with pg_cron + pg_net:
+//   select cron.schedule('sync-shopify-orders', '0 6 * * *', $$
+//     select net.http_post(
+//       url := '<project-url>/functions/v1/sync-shopify-orders',
+//       headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+//     )
+//   $$);
+import { runConnector } from '../_shared/connectorSync.ts'
+import {
+  aggregateShopifyOrders,
+  SHOPIFY_ORDER_FIELDS,
+  type ShopDailyMetricsRow,
+  type ShopifyOrder,
+  type ShopifyStore,
+} from '@/utils/shopify.ts'
+
+const SHOPIFY_API_VERSION = '2024-10'
+const SHOPIFY_API_BASE_URL = Deno.env.get('SHOPIFY_API_BASE_URL')
+const SHOPIFY_ACCESS_TOKENS = parseAccessTokens(Deno.env.get('SHOPIFY_ACCESS_TOKENS'))
+
+const LOOKBACK_DAYS = 30
+
+interface OrdersResponse {
+  orders?: ShopifyOrder[]
+  errors?: string | Record<string, unknown>
+}
+
+function parseAccessTokens(value: string | undefined): Record<string, string> | null {
+  if (!value) return null
+  try {
+    const tokens = JSON.parse(value)
+    return tokens && typeof tokens === 'object' && !Array.isArray(tokens) ? tokens : null
+  } catch {
+    return null
+  }
+}
+
+function ordersUrl(store: string): string {
+  const base = SHOPIFY_API_BASE_URL ? `${SHOPIFY_API_BASE_URL}/${store}` : `https://${store}`
+  return `${base}/admin/api/${SHOPIFY_API_VERSION}/orders.json`
+}
+
+/**
+ * The rel="next" page of a Link header
+ */
+function nextPageUrl(link: string | null): string | undefined {
+  return link?.match(/<([^>]+)>;\s*rel="next"/)?.[1]
+}
+
+async function fetchStoreDays(store: ShopifyStore, since: string, until: string): Promise<ShopDailyMetricsRow[]> {
+  const token = SHOPIFY_ACCESS_TOKENS?.[store.store]
+  if (!token) throw new Error('No access token in SHOPIFY_ACCESS_TOKENS')
+
+  // Orders placed in the range have been updated since, as have older orders
+  // refunded or cancelled in it. A day early covers stores west of UTC.
+  const updatedMin = new Date(Date.parse(`${since}T00:00:00Z`) - 24 * 60 * 60 * 1000).toISOString()
+  const params = new URLSearchParams({
+    status: 'any',
+    updated_at_min: updatedMin,
+    fields: SHOPIFY_ORDER_FIELDS.join(','),
+    limit: '250',
+  })
+
+  const orders: ShopifyOrder[] = []
+  let url: string | undefined = `${ordersUrl(store.store)}?${params}`
+  while (url) {
+    const response = await fetch(url, { headers: { 'X-Shopify-Access-Token': token } })
+    const body: OrdersResponse | null = await response.json().catch(() => null)
+    if (!response.ok || !body) {
+      const errors = body?.errors
+      throw new Error(
+        typeof errors === 'string' ? errors : errors ? JSON.stringify(errors) : `Shopify API returned ${response.status}`
+      )
+    }
+    orders.push(...(body.orders ?? []))
+    url = nextPageUrl(response.headers.get('Link'))
+  }
+
+  return aggregateShopifyOrders(orders, store, since, until)
+}
+
+Deno.serve((req) =>
+  runConnector(req, {
+    source: 'shopify',
+    missingConfig: SHOPIFY_ACCESS_TOKENS ? [] : ['SHOPIFY_ACCESS_TOKENS'],
+    lookbackDays: LOOKBACK_DAYS,
+    loadAccounts: async (supabase) => {
+      const { data, error } = await supabase
+        .from('shopify_stores')
+        .select('store, label, app_sources')
+        .eq('enabled', true)
+      if (error) throw error
+      return (data ?? []) as ShopifyStore[]
+    },
+    accountName: (store) => store.store,
+    table: 'shop_daily_metrics',
+    onConflict: 'date,store',
+    createFetcher: async () => fetchStoreDays,
+  })
+)
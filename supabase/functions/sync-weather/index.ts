@@ -0,0 +1,74 @@
+// Pull the daily mean temperature and precipitation of each country from the
+// Open-Meteo historical weather API into weather_daily (see src/utils/weather.ts
+// and _shared/connectorSync.ts).
+// - Each country is read at one central location (WEATHER_LOCATIONS); days are
+//   in the location's local time, like the shops' days
+// - An optional { since, until } body sets the days; by default the last 10
+//   days are pulled again, as the archive runs a few days behind and those
+//   days are only stored once measured
+// Open-Meteo needs no key for non-commercial use; set OPEN_METEO_API_KEY for
+// the commercial API. OPEN_METEO_API_BASE_URL points the connector at another
+// server, e.g. the local stand-in in _mock/weather.ts.
+//
+// Schedule daily, e.g. with pg_cron + pg_net:
+//   select cron.schedule('sync-weather', '0 5 * * *', $$
+//     select net.http_post(
+//       url := '<project-url>/functions/v1/sync-weather',
+//       headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb
+//     )
+//   $$);
+import { runConnector } from '../_shared/connectorSync.ts'
+import {
+  OPEN_METEO_DAILY_VARIABLES,
+  openMeteoToWeatherRows,
+  WEATHER_LOCATIONS,
+  type OpenMeteoDaily,
+  type WeatherDailyRow,
+  type WeatherLocation,
+} from '@/utils/weather.ts'
+
+const OPEN_METEO_API_KEY = Deno.env.get('OPEN_METEO_API_KEY')
+const OPEN_METEO_API_BASE_URL =
+  Deno.env.get('OPEN_METEO_API_BASE_URL') ??
+  (OPEN_METEO_API_KEY ? 'https://customer-archive-api.open-meteo.com/v1' : 'https://archive-api.open-meteo.com/v1')
+
+const LOOKBACK_DAYS = 10
+
+interface ArchiveResponse {
+  daily?: OpenMeteoDaily
+  error?: boolean
+  reason?: string
+}
+
+async function fetchCountryDays(location: WeatherLocation, since: string, until: string): Promise<WeatherDailyRow[]> {
+  const params = new URLSearchParams({
+    latitude: String(location.latitude),
+    longitude: String(location.longitude),
+    start_date: since,
+    end_date: until,
+    daily: OPEN_METEO_DAILY_VARIABLES.join(','),
+    timezone: 'auto',
+  })
+  if (OPEN_METEO_API_KEY) params.set('apikey', OPEN_METEO_API_KEY)
+
+  const response = await fetch(`${OPEN_METEO_API_BASE_URL}/archive?${params}`)
+  const body: ArchiveResponse | null = await response.json().catch(() => null)
+  if (!response.ok || !body?.daily) {
+    throw new Error(body?.reason ?? `Open-Meteo returned ${response.status}`)
+  }
+
+  return openMeteoToWeatherRows(body.daily, location.country)
+}
+
+Deno.serve((req) =>
+  runConnector(req, {
+    source: 'weather',
+    missingConfig: [],
+    lookbackDays: LOOKBACK_DAYS,
+    loadAccounts: async () => WEATHER_LOCATIONS,
+    accountName: (location) => location.country,
+    table: 'weather_daily',
+    onConflict: 'date,country',
+    createFetcher: async () => fetchCountryDays,
+  })
+)
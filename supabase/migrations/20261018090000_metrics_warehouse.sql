@@ -0,0 +1,102 @@
+-- ============================================
+-- METRICS WAREHOUSE
+-- Persistent copy of the Google Sheet tabs, kept up to date by the
+-- sync-sheet-metrics edge function. Rows are keyed on date + label so that
+-- re-syncing an edited sheet updates rows in place instead of duplicating them.
+-- ============================================
+
+-- Daily metrics (Daily_Input tab)
+create table public.daily_metrics (
+  id uuid primary key default gen_random_uuid(),
+  date date not null,
+  label text not null,
+  rev_web numeric(14, 2) not null default 0,
+  rev_app numeric(14, 2) not null default 0,
+  orders_web integer not null default 0,
+  orders_app integer not null default 0,
+  conv_fb numeric(12, 2) not null default 0,
+  conv_google numeric(12, 2) not null default 0,
+  spend_fb numeric(14, 2) not null default 0,
+  spend_google numeric(14, 2) not null default 0,
+  last_click_fb numeric(14, 2) not null default 0,
+  last_click_google numeric(14, 2) not null default 0,
+  source text not null default 'sheet',
+  -- Hash of the synced values, used to skip unchanged rows on incremental syncs
+  row_hash text not null,
+  synced_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  constraint daily_metrics_date_label_key unique (date, label)
+);
+
+create index daily_metrics_date_idx on public.daily_metrics (date);
+create index daily_metrics_label_idx on public.daily_metrics (label);
+
+-- Monthly targets (Targets tab)
+create table public.monthly_targets (
+  id uuid primary key default gen_random_uuid(),
+  month text not null check (month ~ '^\d{4}-\d{2}$'),
+  label text not null, -- 'All' for targets that cover every label
+  revenue_target numeric(14, 2) not null default 0,
+  orders_target integer not null default 0,
+  mer_target numeric(6, 4) not null default 0.2,
+  ad_budget numeric(14, 2) not null default 0,
+  synced_at timestamptz not null default now(),
+  constraint monthly_targets_month_label_key unique (month, label)
+);
+
+-- Event annotations (Events tab)
+create table public.events (
+  id uuid primary key default gen_random_uuid(),
+  date date not null,
+  title text not null,
+  description text,
+  type text not null default 'other' check (type in ('marketing', 'technical', 'holiday', 'other')),
+  label text,
+  source text not null default 'sheet',
+  synced_at timestamptz not null default now()
+);
+
+create index events_date_idx on public.events (date);
+
+-- Sync bookkeeping
+create table public.sync_runs (
+  id uuid primary key default gen_random_uuid(),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  status text not null default 'running' check (status in ('running', 'success', 'error')),
+  rows_upserted integer not null default 0,
+  rows_unchanged integer not null default 0,
+  rows_failed integer not null default 0,
+  error text
+);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- The dashboard reads with the publishable key; only the sync function
+-- (service role, bypasses RLS) writes.
+-- ============================================
+
+alter table public.daily_metrics enable row level security;
+alter table public.monthly_targets enable row level security;
+alter table public.events enable row level security;
+alter table public.sync_runs enable row level security;
+
+create policy "Dashboard can read daily metrics"
+  on public.daily_metrics for select
+  to anon, authenticated
+  using (true);
+
+create policy "Dashboard can read monthly targets"
+  on public.monthly_targets for select
+  to anon, authenticated
+  using (true);
+
+create policy "Dashboard can read events"
+  on public.events for select
+  to anon, authenticated
+  using (true);
+
+create policy "Dashboard can read sync runs"
+  on public.sync_runs for select
+  to anon, authenticated
+  using (true);
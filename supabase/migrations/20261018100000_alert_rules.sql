@@ -0,0 +1,79 @@
+-- ============================================
+-- ALERTING
+-- Rules are evaluated by the evaluate-alerts edge function over the metrics
+-- warehouse. A rule notifies once when it starts firing and again only after
+-- it has recovered, so a condition that stays true doesn't send a message a day.
+-- ============================================
+
+create table public.alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Daily metrics (mer, roas, revenue, spend, orders) or the month-end projection vs target (pacing)
+  metric text not null check (metric in ('mer', 'roas', 'revenue', 'spend', 'orders', 'pacing')),
+  -- Null means all labels combined
+  label text,
+  operator text not null check (operator in ('above', 'below')),
+  -- MER as a fraction (0.25), ROAS as a ratio, pacing as % of target, others in units
+  threshold numeric(14, 4) not null,
+  -- Daily metrics only: the condition must hold for this many most recent days
+  consecutive_days integer not null default 1 check (consecutive_days between 1 and 31),
+  webhook_url text,
+  email_to text,
+  enabled boolean not null default true,
+  last_evaluated_at timestamptz,
+  last_status text not null default 'pending' check (last_status in ('pending', 'ok', 'firing', 'no_data', 'error')),
+  last_value numeric(14, 4),
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Firing history, one row per notification
+create table public.alert_events (
+  id uuid primary key default gen_random_uuid(),
+  rule_id uuid not null references public.alert_rules (id) on delete cascade,
+  fired_at timestamptz not null default now(),
+  value numeric(14, 4) not null,
+  message text not null,
+  webhook_delivered boolean not null default false,
+  email_delivered boolean not null default false,
+  delivery_error text
+);
+
+create index alert_events_rule_id_idx on public.alert_events (rule_id);
+create index alert_events_fired_at_idx on public.alert_events (fired_at desc);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Rules are managed from the dashboard with the publishable key, like the
+-- rest of its settings. History is written by the evaluator (service role).
+-- ============================================
+
+alter table public.alert_rules enable row level security;
+alter table public.alert_events enable row level security;
+
+create policy "Dashboard can read alert rules"
+  on public.alert_rules for select
+  to anon, authenticated
+  using (true);
+
+create policy "Dashboard can create alert rules"
+  on public.alert_rules for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Dashboard can update alert rules"
+  on public.alert_rules for update
+  to anon, authenticated
+  using (true)
+  with check (true);
+
+create policy "Dashboard can delete alert rules"
+  on public.alert_rules for delete
+  to anon, authenticated
+  using (true);
+
+create policy "Dashboard can read alert events"
+  on public.alert_events for select
+  to anon, authenticated
+  using (true);
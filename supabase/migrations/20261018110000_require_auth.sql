@@ -0,0 +1,66 @@
+-- ============================================
+-- REQUIRE SIGNED-IN USERS
+-- The dashboard now signs in with Supabase Auth, so data is only readable
+-- with a user session. The publishable (anon) key alone no longer grants
+-- access, and deleting or banning a user in Auth revokes it for that person.
+-- Accounts are invite-only: disable public sign-ups in the Auth settings.
+-- ============================================
+
+-- Metrics warehouse
+drop policy "Dashboard can read daily metrics" on public.daily_metrics;
+drop policy "Dashboard can read monthly targets" on public.monthly_targets;
+drop policy "Dashboard can read events" on public.events;
+drop policy "Dashboard can read sync runs" on public.sync_runs;
+
+create policy "Signed-in users can read daily metrics"
+  on public.daily_metrics for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users can read monthly targets"
+  on public.monthly_targets for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users can read events"
+  on public.events for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users can read sync runs"
+  on public.sync_runs for select
+  to authenticated
+  using (true);
+
+-- Alerts
+drop policy "Dashboard can read alert rules" on public.alert_rules;
+drop policy "Dashboard can create alert rules" on public.alert_rules;
+drop policy "Dashboard can update alert rules" on public.alert_rules;
+drop policy "Dashboard can delete alert rules" on public.alert_rules;
+drop policy "Dashboard can read alert events" on public.alert_events;
+
+create policy "Signed-in users can read alert rules"
+  on public.alert_rules for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users can create alert rules"
+  on public.alert_rules for insert
+  to authenticated
+  with check (true);
+
+create policy "Signed-in users can update alert rules"
+  on public.alert_rules for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Signed-in users can delete alert rules"
+  on public.alert_rules for delete
+  to authenticated
+  using (true);
+
+create policy "Signed-in users can read alert events"
+  on public.alert_events for select
+  to authenticated
+  using (true);
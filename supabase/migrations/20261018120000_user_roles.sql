@@ -0,0 +1,180 @@
+-- ============================================
+-- ROLES AND PER-BRAND VISIBILITY
+-- - admin: sees all labels, manages users, alert rules and syncs
+-- - analyst: sees its allowed labels, manages alert rules and syncs
+-- - brand_viewer: read-only on its allowed labels
+-- allowed_labels = null means all labels. New users start as brand viewers
+-- without labels, so they see nothing until an admin assigns brands.
+--
+-- Promote the first admin after applying:
+--   update public.user_profiles set role = 'admin' where email = 'you@company.com';
+-- ============================================
+
+create table public.user_profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  role text not null default 'brand_viewer' check (role in ('admin', 'analyst', 'brand_viewer')),
+  allowed_labels text[] default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.user_profiles (user_id, email)
+  values (new.id, coalesce(new.email, ''))
+  on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Existing accounts keep the access they had: every label
+insert into public.user_profiles (user_id, email, role, allowed_labels)
+select id, coalesce(email, ''), 'analyst', null
+from auth.users
+on conflict (user_id) do nothing;
+
+-- ============================================
+-- ACCESS HELPERS
+-- Security definer so policies can read profiles without recursing into
+-- the user_profiles policies.
+-- ============================================
+
+create function public.user_role()
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select role from public.user_profiles where user_id = auth.uid()
+$$;
+
+create function public.can_view_all_labels()
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select coalesce(
+    (select role = 'admin' or allowed_labels is null from public.user_profiles where user_id = auth.uid()),
+    false
+  )
+$$;
+
+create function public.can_view_label(label text)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select coalesce(
+    (
+      select role = 'admin' or allowed_labels is null or label = any (allowed_labels)
+      from public.user_profiles
+      where user_id = auth.uid()
+    ),
+    false
+  )
+$$;
+
+-- Targets labelled 'All' cover every brand, so they need access to all labels
+create function public.can_view_target_label(label text)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select case when label = 'All' then public.can_view_all_labels() else public.can_view_label(label) end
+$$;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+alter table public.user_profiles enable row level security;
+
+create policy "Users can read their own profile"
+  on public.user_profiles for select
+  to authenticated
+  using (user_id = auth.uid() or public.user_role() = 'admin');
+
+create policy "Admins can update profiles"
+  on public.user_profiles for update
+  to authenticated
+  using (public.user_role() = 'admin')
+  with check (public.user_role() = 'admin');
+
+-- Metrics warehouse: rows of allowed labels only
+drop policy "Signed-in users can read daily metrics" on public.daily_metrics;
+drop policy "Signed-in users can read monthly targets" on public.monthly_targets;
+drop policy "Signed-in users can read events" on public.events;
+
+create policy "Users can read daily metrics of their labels"
+  on public.daily_metrics for select
+  to authenticated
+  using (public.can_view_label(label));
+
+create policy "Users can read monthly targets of their labels"
+  on public.monthly_targets for select
+  to authenticated
+  using (public.can_view_target_label(label));
+
+-- Events without a label apply to every brand
+create policy "Users can read events of their labels"
+  on public.events for select
+  to authenticated
+  using (label is null or public.can_view_label(label));
+
+-- Alerts: rules over all labels (label is null) need access to all labels;
+-- only admins and analysts manage rules
+drop policy "Signed-in users can read alert rules" on public.alert_rules;
+drop policy "Signed-in users can create alert rules" on public.alert_rules;
+drop policy "Signed-in users can update alert rules" on public.alert_rules;
+drop policy "Signed-in users can delete alert rules" on public.alert_rules;
+drop policy "Signed-in users can read alert events" on public.alert_events;
+
+create policy "Users can read alert rules of their labels"
+  on public.alert_rules for select
+  to authenticated
+  using (case when label is null then public.can_view_all_labels() else public.can_view_label(label) end);
+
+create policy "Analysts can create alert rules"
+  on public.alert_rules for insert
+  to authenticated
+  with check (
+    public.user_role() in ('admin', 'analyst')
+    and case when label is null then public.can_view_all_labels() else public.can_view_label(label) end
+  );
+
+create policy "Analysts can update alert rules"
+  on public.alert_rules for update
+  to authenticated
+  using (
+    public.user_role() in ('admin', 'analyst')
+    and case when label is null then public.can_view_all_labels() else public.can_view_label(label) end
+  )
+  with check (
+    public.user_role() in ('admin', 'analyst')
+    and case when label is null then public.can_view_all_labels() else public.can_view_label(label) end
+  );
+
+create policy "Analysts can delete alert rules"
+  on public.alert_rules for delete
+  to authenticated
+  using (
+    public.user_role() in ('admin', 'analyst')
+    and case when label is null then public.can_view_all_labels() else public.can_view_label(label) end
+  );
+
+create policy "Users can read alert events of visible rules"
+  on public.alert_events for select
+  to authenticated
+  using (exists (select 1 from public.alert_rules r where r.id = rule_id));
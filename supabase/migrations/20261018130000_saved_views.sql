@@ -0,0 +1,69 @@
+-- ============================================
+-- SAVED VIEWS
+-- Named filter presets. The definition stores relative date ranges
+-- ("last 28 days") rather than dates, so a view never goes stale.
+-- Owners can share a view with all signed-in users; everyone picks their
+-- own default landing view.
+-- ============================================
+
+create table public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  -- { dateRange, labels, comparisonEnabled, comparisonMode, alignByDayOfWeek, chartKPI }
+  definition jsonb not null,
+  shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index saved_views_owner_idx on public.saved_views (owner_id);
+
+alter table public.user_profiles
+  add column default_view_id uuid references public.saved_views (id) on delete set null;
+
+-- Users can't update their own profile (that would include their role), so
+-- the default view is set through this function
+create function public.set_default_view(view_id uuid)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if view_id is not null and not exists (
+    select 1 from public.saved_views v
+    where v.id = view_id and (v.owner_id = auth.uid() or v.shared)
+  ) then
+    raise exception 'View not found';
+  end if;
+
+  update public.user_profiles set default_view_id = view_id where user_id = auth.uid();
+end;
+$$;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+alter table public.saved_views enable row level security;
+
+create policy "Users can read their own and shared views"
+  on public.saved_views for select
+  to authenticated
+  using (owner_id = auth.uid() or shared);
+
+create policy "Users can create their own views"
+  on public.saved_views for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+create policy "Users can update their own views"
+  on public.saved_views for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Users can delete their own views"
+  on public.saved_views for delete
+  to authenticated
+  using (owner_id = auth.uid());
@@ -0,0 +1,63 @@
+-- ============================================
+-- EXECUTIVE REPORTS
+-- Weekly and monthly PDF summaries rendered and emailed by the send-report
+-- edge function. Schedule it with pg_cron (see the function header).
+-- ============================================
+
+create table public.report_schedules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- weekly: the previous Monday-Sunday; monthly: the previous calendar month
+  period text not null check (period in ('weekly', 'monthly')),
+  language text not null default 'en' check (language in ('en', 'nl')),
+  -- Comma-separated email addresses
+  recipients text not null,
+  -- Null means all labels combined
+  labels text[],
+  enabled boolean not null default true,
+  last_sent_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Like alert rules: a report over all labels needs access to all labels,
+-- only admins and analysts manage reports
+-- ============================================
+
+create function public.can_view_labels(labels text[])
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select case
+    when labels is null then public.can_view_all_labels()
+    else coalesce((select bool_and(public.can_view_label(l)) from unnest(labels) as l), true)
+  end
+$$;
+
+alter table public.report_schedules enable row level security;
+
+create policy "Users can read report schedules of their labels"
+  on public.report_schedules for select
+  to authenticated
+  using (public.can_view_labels(labels));
+
+create policy "Analysts can create report schedules"
+  on public.report_schedules for insert
+  to authenticated
+  with check (public.user_role() in ('admin', 'analyst') and public.can_view_labels(labels));
+
+create policy "Analysts can update report schedules"
+  on public.report_schedules for update
+  to authenticated
+  using (public.user_role() in ('admin', 'analyst') and public.can_view_labels(labels))
+  with check (public.user_role() in ('admin', 'analyst') and public.can_view_labels(labels));
+
+create policy "Analysts can delete report schedules"
+  on public.report_schedules for delete
+  to authenticated
+  using (public.user_role() in ('admin', 'analyst') and public.can_view_labels(labels));
@@ -0,0 +1,43 @@
+-- ============================================
+-- CURRENCIES
+-- Labels report in their shop's currency; the dashboard converts to the
+-- chosen reporting currency with daily FX rates. Both tables are filled by
+-- the sync-sheet-metrics edge function from the Currencies and FX_Rates tabs.
+-- ============================================
+
+-- Currency per label (Currencies tab); labels without a row are in EUR
+create table public.label_currencies (
+  label text primary key,
+  currency text not null default 'EUR' check (currency in ('EUR', 'GBP', 'CHF')),
+  synced_at timestamptz not null default now()
+);
+
+-- Daily FX rates (FX_Rates tab), as units of the currency per 1 EUR
+create table public.fx_rates (
+  id uuid primary key default gen_random_uuid(),
+  date date not null,
+  currency text not null check (currency in ('GBP', 'CHF')),
+  rate numeric(12, 6) not null check (rate > 0),
+  synced_at timestamptz not null default now(),
+  constraint fx_rates_date_currency_key unique (date, currency)
+);
+
+create index fx_rates_date_idx on public.fx_rates (date);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Only the sync function (service role) writes
+-- ============================================
+
+alter table public.label_currencies enable row level security;
+alter table public.fx_rates enable row level security;
+
+create policy "Users can read currencies of their labels"
+  on public.label_currencies for select
+  to authenticated
+  using (public.can_view_label(label));
+
+create policy "Signed-in users can read FX rates"
+  on public.fx_rates for select
+  to authenticated
+  using (true);
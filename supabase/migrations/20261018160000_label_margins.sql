@@ -0,0 +1,29 @@
+-- ============================================
+-- MARGIN INPUTS
+-- VAT, return rate, COGS and shipping cost per label for the net revenue,
+-- gross margin and POAS metrics. Filled by the sync-sheet-metrics edge
+-- function from the Margins tab; the dashboard settings can override them.
+-- ============================================
+
+create table public.label_margins (
+  label text primary key,
+  -- Fractions of revenue, e.g. 0.21 for 21% VAT
+  vat_rate numeric(6, 4) not null default 0 check (vat_rate >= 0 and vat_rate < 1),
+  return_rate numeric(6, 4) not null default 0 check (return_rate >= 0 and return_rate <= 1),
+  cogs_rate numeric(6, 4) not null default 0 check (cogs_rate >= 0 and cogs_rate <= 1),
+  -- Per order, in the label's currency
+  shipping_cost numeric(10, 2) not null default 0 check (shipping_cost >= 0),
+  synced_at timestamptz not null default now()
+);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Only the sync function (service role) writes
+-- ============================================
+
+alter table public.label_margins enable row level security;
+
+create policy "Users can read margins of their labels"
+  on public.label_margins for select
+  to authenticated
+  using (public.can_view_label(label));
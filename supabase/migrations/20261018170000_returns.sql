@@ -0,0 +1,10 @@
+-- ============================================
+-- RETURNS
+-- Returned revenue and orders per day and label, from the optional
+-- Returned_Revenue and Returned_Orders columns of the Daily_Input tab.
+-- Booked on the day they are refunded, so a day's returns can exceed its revenue.
+-- ============================================
+
+alter table public.daily_metrics
+  add column returned_revenue numeric(14, 2) not null default 0,
+  add column returned_orders integer not null default 0;
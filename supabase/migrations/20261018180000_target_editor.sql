@@ -0,0 +1,115 @@
+-- ============================================
+-- TARGET EDITOR
+-- Admins and analysts edit monthly targets in the dashboard. Edited rows are
+-- marked source = 'app' and the sheet sync no longer overwrites them.
+-- Every change to a target, from the app or the sync, is logged in
+-- target_changes.
+-- ============================================
+
+alter table public.monthly_targets
+  add column source text not null default 'sheet' check (source in ('sheet', 'app')),
+  add column updated_by uuid references auth.users (id) on delete set null,
+  add column updated_at timestamptz not null default now();
+
+-- ============================================
+-- AUDIT TRAIL
+-- ============================================
+
+create table public.target_changes (
+  id uuid primary key default gen_random_uuid(),
+  month text not null,
+  label text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  -- revenue_target, orders_target, mer_target and ad_budget before and after
+  old_values jsonb,
+  new_values jsonb,
+  source text not null,
+  changed_by uuid references auth.users (id) on delete set null,
+  changed_by_email text,
+  changed_at timestamptz not null default now()
+);
+
+create index target_changes_changed_at_idx on public.target_changes (changed_at desc);
+
+create function public.log_target_change()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  old_values jsonb;
+  new_values jsonb;
+  target public.monthly_targets;
+begin
+  if tg_op <> 'INSERT' then
+    old_values := jsonb_build_object(
+      'revenue_target', old.revenue_target,
+      'orders_target', old.orders_target,
+      'mer_target', old.mer_target,
+      'ad_budget', old.ad_budget
+    );
+  end if;
+  if tg_op <> 'DELETE' then
+    new_values := jsonb_build_object(
+      'revenue_target', new.revenue_target,
+      'orders_target', new.orders_target,
+      'mer_target', new.mer_target,
+      'ad_budget', new.ad_budget
+    );
+  end if;
+
+  -- The sync upserts every sheet row on each run; only log real changes
+  if tg_op = 'UPDATE' and old_values = new_values then
+    return new;
+  end if;
+
+  target := case when tg_op = 'DELETE' then old else new end;
+
+  insert into public.target_changes (month, label, action, old_values, new_values, source, changed_by, changed_by_email)
+  values (
+    target.month,
+    target.label,
+    lower(tg_op),
+    old_values,
+    new_values,
+    target.source,
+    auth.uid(),
+    (select email from public.user_profiles where user_id = auth.uid())
+  );
+
+  return target;
+end;
+$$;
+
+create trigger monthly_targets_audit
+  after insert or update or delete on public.monthly_targets
+  for each row execute function public.log_target_change();
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Like alert rules: admins and analysts write targets of their labels.
+-- The audit trail is only written by the trigger.
+-- ============================================
+
+create policy "Analysts can create monthly targets"
+  on public.monthly_targets for insert
+  to authenticated
+  with check (public.user_role() in ('admin', 'analyst') and public.can_view_target_label(label));
+
+create policy "Analysts can update monthly targets"
+  on public.monthly_targets for update
+  to authenticated
+  using (public.user_role() in ('admin', 'analyst') and public.can_view_target_label(label))
+  with check (public.user_role() in ('admin', 'analyst') and public.can_view_target_label(label));
+
+create policy "Analysts can delete monthly targets"
+  on public.monthly_targets for delete
+  to authenticated
+  using (public.user_role() in ('admin', 'analyst') and public.can_view_target_label(label));
+
+alter table public.target_changes enable row level security;
+
+create policy "Users can read target changes of their labels"
+  on public.target_changes for select
+  to authenticated
+  using (public.can_view_target_label(label));
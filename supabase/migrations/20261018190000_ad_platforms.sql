@@ -0,0 +1,11 @@
+-- ============================================
+-- AD PLATFORMS
+-- Ad platforms beyond Facebook and Google (TikTok, Pinterest, Microsoft Ads,
+-- ...), from any Spend_<Platform> / Conv_<Platform> column pair of the
+-- Daily_Input tab. Keyed by platform id:
+--   {"tiktok": {"spend": 120.5, "conversions": 4, "last_click": 310}}
+-- Facebook and Google keep their own columns.
+-- ============================================
+
+alter table public.daily_metrics
+  add column platforms jsonb not null default '{}'::jsonb;
@@ -0,0 +1,58 @@
+-- ============================================
+-- AD PLATFORM CONNECTORS
+-- Daily spend, clicks, impressions and conversions per ad account, pulled
+-- from the Meta Marketing API and the Google Ads API by the sync-meta-ads and
+-- sync-google-ads edge functions. Where an account has data for a day, the
+-- dashboard uses it instead of the Spend_ / Conv_ columns typed into the sheet.
+-- ============================================
+
+-- Ad accounts per brand label (Ad_Accounts tab, synced by sync-sheet-metrics)
+create table public.ad_accounts (
+  platform text not null check (platform in ('facebook', 'google')),
+  -- Meta ad account id without act_, Google Ads customer id without dashes
+  account_id text not null,
+  label text not null,
+  name text,
+  enabled boolean not null default true,
+  synced_at timestamptz not null default now(),
+  primary key (platform, account_id)
+);
+
+-- One row per account and day, in the account's currency (the label's currency)
+create table public.ad_platform_metrics (
+  date date not null,
+  platform text not null check (platform in ('facebook', 'google')),
+  account_id text not null,
+  label text not null,
+  spend numeric(14, 2) not null default 0,
+  clicks integer not null default 0,
+  impressions integer not null default 0,
+  -- Google Ads reports fractional conversions for data-driven attribution
+  conversions numeric(12, 2) not null default 0,
+  synced_at timestamptz not null default now(),
+  primary key (date, platform, account_id)
+);
+
+create index ad_platform_metrics_date_label_idx on public.ad_platform_metrics (date, label);
+
+-- Tell connector runs apart from sheet syncs
+alter table public.sync_runs
+  add column source text not null default 'sheet';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Only the sync functions (service role) write
+-- ============================================
+
+alter table public.ad_accounts enable row level security;
+alter table public.ad_platform_metrics enable row level security;
+
+create policy "Users can read ad accounts of their labels"
+  on public.ad_accounts for select
+  to authenticated
+  using (public.can_view_label(label));
+
+create policy "Users can read ad platform metrics of their labels"
+  on public.ad_platform_metrics for select
+  to authenticated
+  using (public.can_view_label(label));
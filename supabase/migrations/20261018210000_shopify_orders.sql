@@ -0,0 +1,54 @@
+-- ============================================
+-- SHOPIFY ORDER CONNECTOR
+-- Daily web/app revenue, orders and refunds per Shopify store, aggregated from
+-- the Admin API orders by the sync-shopify-orders edge function. Where a label
+-- has store data for a day, the dashboard uses it instead of the Rev_ / Orders
+-- and Returned_ columns typed into the sheet.
+-- ============================================
+
+-- Shopify stores per brand label (Shopify_Stores tab, synced by sync-sheet-metrics)
+create table public.shopify_stores (
+  -- <shop>.myshopify.com
+  store text primary key,
+  label text not null,
+  -- Order source_name values that count as app revenue, e.g. a mobile app channel's id
+  app_sources text[] not null default '{}',
+  enabled boolean not null default true,
+  synced_at timestamptz not null default now()
+);
+
+-- One row per store and day (the store's time zone), in the store's currency
+create table public.shop_daily_metrics (
+  date date not null,
+  store text not null,
+  label text not null,
+  rev_web numeric(14, 2) not null default 0,
+  rev_app numeric(14, 2) not null default 0,
+  orders_web integer not null default 0,
+  orders_app integer not null default 0,
+  -- Refunds by the day they were issued, also for orders of earlier days
+  returned_revenue numeric(14, 2) not null default 0,
+  returned_orders integer not null default 0,
+  synced_at timestamptz not null default now(),
+  primary key (date, store)
+);
+
+create index shop_daily_metrics_date_label_idx on public.shop_daily_metrics (date, label);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Only the sync functions (service role) write
+-- ============================================
+
+alter table public.shopify_stores enable row level security;
+alter table public.shop_daily_metrics enable row level security;
+
+create policy "Users can read Shopify stores of their labels"
+  on public.shopify_stores for select
+  to authenticated
+  using (public.can_view_label(label));
+
+create policy "Users can read shop metrics of their labels"
+  on public.shop_daily_metrics for select
+  to authenticated
+  using (public.can_view_label(label));
@@ -0,0 +1,14 @@
+-- ============================================
+-- WEB ANALYTICS FUNNEL
+-- Sessions, add-to-carts and checkouts per day, label and channel, from the
+-- optional Sessions_, AddToCart_ and Checkouts_ (Web/App) columns of the
+-- Daily_Input tab. Conversion rate and revenue per session are derived.
+-- ============================================
+
+alter table public.daily_metrics
+  add column sessions_web integer not null default 0,
+  add column sessions_app integer not null default 0,
+  add column add_to_carts_web integer not null default 0,
+  add column add_to_carts_app integer not null default 0,
+  add column checkouts_web integer not null default 0,
+  add column checkouts_app integer not null default 0;
@@ -0,0 +1,31 @@
+-- ============================================
+-- WEATHER
+-- Daily mean temperature and precipitation per country, pulled from the
+-- Open-Meteo archive by the sync-weather edge function. The dashboard maps
+-- labels to countries by their suffix (FMH.NL → NL) to show the weather next
+-- to revenue and correlate the two.
+-- ============================================
+
+create table public.weather_daily (
+  date date not null,
+  -- ISO 3166 code, e.g. NL
+  country text not null check (country ~ '^[A-Z]{2}$'),
+  -- Daily mean, °C
+  temperature numeric(5, 2) not null,
+  -- mm
+  precipitation numeric(6, 2) not null default 0 check (precipitation >= 0),
+  synced_at timestamptz not null default now(),
+  primary key (date, country)
+);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Only the sync function (service role) writes
+-- ============================================
+
+alter table public.weather_daily enable row level security;
+
+create policy "Signed-in users can read weather"
+  on public.weather_daily for select
+  to authenticated
+  using (true);
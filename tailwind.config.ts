@@ -87,6 +87,9 @@ export default {
         platform: {
           facebook: "hsl(var(--facebook))",
           google: "hsl(var(--google))",
+          tiktok: "hsl(var(--tiktok))",
+          pinterest: "hsl(var(--pinterest))",
+          microsoft: "hsl(var(--microsoft))",
         },
       },
       borderRadius: {